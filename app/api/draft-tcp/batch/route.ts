@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import { draftTcp } from "@/lib/draftTcp";
+import { createRetrievalCache } from "@/lib/retrieval";
+import { toValidationIssues } from "@/lib/validationIssues";
+import {
+  BatchSignTotal,
+  BatchSiteResult,
+  BatchSummary,
+  JobOwner,
+  TcpBatchResponse,
+  tcpBatchRequestSchema,
+} from "@/lib/tcpTypes";
+
+export const runtime = "nodejs";
+
+// Three drafts in flight keeps a permit package moving without tripping provider rate limits
+const DEFAULT_CONCURRENCY = 3;
+
+/**
+ * True for a JSON object (not null or an array)
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Run `task` over every item with at most `limit` running at once, keeping results in item order.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Site request with the shared job owner filled in. A site's own jobOwner
+ * fields win; a malformed one, or a site that is not an object, is passed
+ * through for the site's validation.
+ */
+function withJobOwner(site: unknown, jobOwner: JobOwner | undefined): unknown {
+  if (!jobOwner || !isObject(site)) return site;
+  const own = site.jobOwner;
+  return {
+    ...site,
+    jobOwner: typeof own === "object" && own !== null ? { ...jobOwner, ...own } : own ?? jobOwner,
+  };
+}
+
+/**
+ * Device and sign totals over the sites that drafted successfully
+ */
+function summarize(sites: BatchSiteResult[], retrievalCacheHits: number): BatchSummary {
+  const devices = { cones: 0, signs: 0, arrowBoards: 0, flaggers: 0 };
+  const signs = new Map<string, BatchSignTotal>();
+  let llm: BatchSummary["llm"];
+
+  for (const site of sites) {
+    if (!site.ok) continue;
+    const { plan, llm: siteLlm } = site.response;
+    devices.cones += plan.devices.cones;
+    devices.signs += plan.devices.signs;
+    devices.arrowBoards += plan.devices.arrowBoard ? 1 : 0;
+    devices.flaggers += plan.devices.flaggers;
+
+    for (const entry of plan.signSchedule ?? []) {
+      const key = `${entry.mutcdCode}|${entry.legend}|${entry.sizeInches}`;
+      const total = signs.get(key);
+      if (total) {
+        total.count += entry.count;
+        total.sites += 1;
+      } else {
+        signs.set(key, { mutcdCode: entry.mutcdCode, legend: entry.legend, sizeInches: entry.sizeInches, count: entry.count, sites: 1 });
+      }
+    }
+
+    if (siteLlm) {
+      const add = (a?: number, b?: number) => (a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0));
+      llm = {
+        calls: (llm?.calls ?? 0) + siteLlm.calls,
+        promptTokens: add(llm?.promptTokens, siteLlm.promptTokens),
+        completionTokens: add(llm?.completionTokens, siteLlm.completionTokens),
+        totalTokens: add(llm?.totalTokens, siteLlm.totalTokens),
+      };
+    }
+  }
+
+  const succeeded = sites.filter((site) => site.ok).length;
+  return {
+    siteCount: sites.length,
+    succeeded,
+    failed: sites.length - succeeded,
+    devices,
+    signs: [...signs.values()].sort((a, b) => a.mutcdCode.localeCompare(b.mutcdCode) || a.sizeInches - b.sizeInches),
+    ...(llm ? { llm } : {}),
+    retrievalCacheHits,
+  };
+}
+
+/**
+ * POST /api/draft-tcp/batch drafts every site of a permit package. Sites
+ * share the job owner and a retrieval cache; a site that fails is reported
+ * in its own result without failing the batch.
+ */
+export async function POST(req: NextRequest) {
+  let body: unknown;
+
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid request body", details: { issues: [{ path: "", message: "Request body must be valid JSON" }] } },
+      { status: 400 }
+    );
+  }
+
+  const parsed = tcpBatchRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid batch request", details: { issues: toValidationIssues(parsed.error) } },
+      { status: 400 }
+    );
+  }
+
+  const { jobOwner, sites, concurrency = DEFAULT_CONCURRENCY } = parsed.data;
+  const cache = createRetrievalCache();
+  console.log(`[draft-tcp] Batch of ${sites.length} site(s), concurrency ${concurrency}`);
+
+  const results = await mapWithConcurrency(sites, concurrency, async (site, index): Promise<BatchSiteResult> => {
+    const locationLabel = isObject(site) && typeof site.locationLabel === "string" ? site.locationLabel : undefined;
+    const label = { index, ...(locationLabel ? { locationLabel } : {}) };
+    try {
+      const result = await draftTcp(withJobOwner(site, jobOwner), undefined, { retrieve: cache.retrieve });
+      console.log(`[draft-tcp] Batch site ${index + 1}/${sites.length}: ${result.ok ? "ok" : `failed (${result.status})`}`);
+      return result.ok
+        ? { ...label, ok: true, response: result.response }
+        : { ...label, ok: false, status: result.status, body: result.body };
+    } catch (err) {
+      console.error(`[draft-tcp] Batch site ${index + 1}/${sites.length} threw:`, err);
+      return { ...label, ok: false, status: 500, body: { error: err instanceof Error ? err.message : "Unknown error" } };
+    }
+  });
+
+  const response: TcpBatchResponse = {
+    ...(jobOwner ? { jobOwner } : {}),
+    sites: results,
+    summary: summarize(results, cache.hits()),
+  };
+  return NextResponse.json(response);
+}
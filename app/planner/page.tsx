@@ -6,7 +6,8 @@ import JobDetailsForm, { JobDetails } from "@/components/JobDetailsForm";
 import OutputPanel from "@/components/OutputPanel";
 import GenerationProgress from "@/components/GenerationProgress";
 import Toast from "@/components/Toast";
-import { TcpDraftResponse, Bbox, PolygonRing, CoverageInfo } from "@/lib/tcpTypes";
+import { TcpDraftResponse, Bbox, PolygonRing, CoverageInfo, DraftProgressEvent, ValidationIssue } from "@/lib/tcpTypes";
+import { formatValidationIssue } from "@/lib/validationIssues";
 import { GeometryOutput } from "@/components/MapSelector";
 import { DiagramGeometry } from "@/lib/diagram/types";
 import {
@@ -17,6 +18,70 @@ import { WorkZoneSnapshotData } from "@/components/OutputPanel";
 import { FieldLayout, RoadPolyline } from "@/lib/layoutTypes";
 import { suggestFieldLayout } from "@/lib/layout/suggestFieldLayout";
 
+/**
+ * The route drawn on the map is a vehicle detour for full closures and the
+ * temporary pedestrian route for sidewalk closures; other work types ignore it.
+ */
+function routeForWorkType(
+  workType: JobDetails["workType"] | undefined,
+  route: RoadPolyline | null
+): { detourRoute?: RoadPolyline; pedestrianRoute?: RoadPolyline } {
+  if (!route) return {};
+  if (workType === "full_closure") return { detourRoute: route };
+  if (workType === "sidewalk_closure") return { pedestrianRoute: route };
+  return {};
+}
+
+// Error body from /api/draft-tcp, sent as the HTTP response or in a streamed "error" event
+interface DraftErrorBody {
+  error?: string;
+  details?: {
+    issues?: ValidationIssue[];
+    missing?: string[];
+    coverage?: CoverageInfo;
+    message?: string;
+  };
+}
+
+/**
+ * Read NDJSON progress events from a streaming draft response, calling
+ * `onEvent` for each one as it arrives. Returns the last event ("done" or "error").
+ */
+async function readDraftEvents(
+  res: Response,
+  onEvent: (event: DraftProgressEvent) => void
+): Promise<DraftProgressEvent | undefined> {
+  if (!res.body) throw new Error("Streaming response has no body");
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  let last: DraftProgressEvent | undefined;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split("\n");
+    buffered = done ? "" : lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      last = JSON.parse(line) as DraftProgressEvent;
+      onEvent(last);
+    }
+    if (done) return last;
+  }
+}
+
+/**
+ * Append a progress event, replacing the previous token count for the same model attempt.
+ */
+function appendProgressEvent(events: DraftProgressEvent[], event: DraftProgressEvent): DraftProgressEvent[] {
+  const previous = events[events.length - 1];
+  if (event.stage === "tokens" && previous?.stage === "tokens" && previous.attempt === event.attempt) {
+    return [...events.slice(0, -1), event];
+  }
+  return [...events, event];
+}
+
 /**
  * Build a stable signature string from job inputs that affect plan calculations.
  * Used to detect when inputs change after a plan was generated.
@@ -26,9 +91,16 @@ function buildPlanSignature(jobDetails: JobDetails | null): string {
   return JSON.stringify({
     roadType: jobDetails.roadType,
     postedSpeedMph: jobDetails.postedSpeedMph,
+    workZoneSpeedMph: jobDetails.workZoneSpeedMph,
     workType: jobDetails.workType,
     workLengthFt: jobDetails.workLengthFt,
     isNight: jobDetails.isNight,
+    jurisdiction: jobDetails.jurisdiction,
+    hourlyVolumeVph: jobDetails.hourlyVolumeVph,
+    adt: jobDetails.adt,
+    directionalSplit: jobDetails.directionalSplit,
+    crossSection: jobDetails.crossSection,
+    approaches: jobDetails.approaches,
     // Notes intentionally excluded - they don't affect numeric calculations
   });
 }
@@ -43,10 +115,6 @@ const MapSelector = dynamic(() => import("@/components/MapSelector"), {
   ),
 });
 
-// Dev-only flags
-const IS_DEV = process.env.NODE_ENV === "development";
-const DEV_DELAY = IS_DEV ? 2500 : 0;
-
 export default function PlannerPage() {
   // Geometry state
   const [geometry, setGeometry] = useState<GeometryOutput | null>(null);
@@ -80,15 +148,14 @@ export default function PlannerPage() {
   const [isLayoutLocked, setIsLayoutLocked] = useState<boolean>(false);
   const [isLayoutDirty, setIsLayoutDirty] = useState<boolean>(false);
   const [roadCenterlines, setRoadCenterlines] = useState<RoadPolyline[] | null>(null);
+  const [detourRoute, setDetourRoute] = useState<RoadPolyline | null>(null);
 
   // Progress state
   const [elapsedSeconds, setElapsedSeconds] = useState<number>(0);
-  const [progressStep, setProgressStep] = useState<number>(0);
-  const [finalStepComplete, setFinalStepComplete] = useState<boolean>(false);
+  const [progressEvents, setProgressEvents] = useState<DraftProgressEvent[]>([]);
 
-  // Refs for timer cleanup
+  // Ref for timer cleanup
   const elapsedTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const stepTimerRef = useRef<NodeJS.Timeout | null>(null);
   const isMountedRef = useRef<boolean>(true);
 
   // AbortController ref for cancelling in-flight generation requests
@@ -108,7 +175,6 @@ export default function PlannerPage() {
     return () => {
       isMountedRef.current = false;
       if (elapsedTimerRef.current) clearInterval(elapsedTimerRef.current);
-      if (stepTimerRef.current) clearTimeout(stepTimerRef.current);
       // Abort any in-flight request on unmount
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
@@ -117,17 +183,13 @@ export default function PlannerPage() {
     };
   }, []);
 
-  // Timer effect - runs when isLoading changes
+  // Elapsed timer effect - runs when isLoading changes (steps come from server progress events)
   useEffect(() => {
-    // Clear any existing timers first to prevent duplicates
+    // Clear any existing timer first to prevent duplicates
     if (elapsedTimerRef.current) {
       clearInterval(elapsedTimerRef.current);
       elapsedTimerRef.current = null;
     }
-    if (stepTimerRef.current) {
-      clearTimeout(stepTimerRef.current);
-      stepTimerRef.current = null;
-    }
 
     if (!isLoading) {
       return;
@@ -143,37 +205,12 @@ export default function PlannerPage() {
       }
     }, 1000);
 
-    // Step advancement schedule (steps 0->1->2, stops BEFORE step 3)
-    // Step 3 ("Finalizing") is reached but NEVER auto-completed
-    const advanceStep = (currentStep: number) => {
-      // Stop advancing once we reach step 3 (Finalizing)
-      // Step 3 completion is controlled ONLY by finalStepComplete from API success
-      if (!isMountedRef.current || !isEffectActive || currentStep >= 3) return;
-
-      stepTimerRef.current = setTimeout(() => {
-        if (isMountedRef.current && isEffectActive) {
-          const nextStep = currentStep + 1;
-          setProgressStep(nextStep);
-          // Continue advancing only up to step 3 (but step 3 won't auto-complete)
-          if (nextStep < 3) {
-            advanceStep(nextStep);
-          }
-        }
-      }, 3500); // ~3.5 seconds per step
-    };
-
-    advanceStep(0);
-
     return () => {
       isEffectActive = false;
       if (elapsedTimerRef.current) {
         clearInterval(elapsedTimerRef.current);
         elapsedTimerRef.current = null;
       }
-      if (stepTimerRef.current) {
-        clearTimeout(stepTimerRef.current);
-        stepTimerRef.current = null;
-      }
     };
   }, [isLoading]);
 
@@ -207,10 +244,10 @@ export default function PlannerPage() {
       setIsLayoutLocked(false);
       setIsLayoutDirty(false);
       setRoadCenterlines(null); // Clear road data
+      setDetourRoute(null); // Detour is drawn relative to the cleared work zone
       // Reset progress state in case of interrupted generation
       setElapsedSeconds(0);
-      setProgressStep(0);
-      setFinalStepComplete(false);
+      setProgressEvents([]);
     } else {
       // Clear stale errors when user draws new geometry
       setError(null);
@@ -270,8 +307,16 @@ export default function PlannerPage() {
       centroid: workZoneSnapshot.centroid,
       roadType: (jobDetails?.roadType ?? "2_lane_undivided") as "2_lane_undivided" | "multilane_divided" | "intersection",
       postedSpeedMph: jobDetails?.postedSpeedMph ?? 35,
-      workType: (jobDetails?.workType ?? "lane_closure") as "shoulder_work" | "lane_closure" | "one_lane_two_way_flaggers",
+      workZoneSpeedMph: jobDetails?.workZoneSpeedMph,
+      workType: (jobDetails?.workType ?? "lane_closure") as "shoulder_work" | "lane_closure" | "one_lane_two_way_flaggers" | "mobile_operation" | "full_closure" | "sidewalk_closure" | "bike_lane_closure",
       workLengthFt: jobDetails?.workLengthFt ?? 100,
+      jurisdiction: jobDetails?.jurisdiction,
+      hourlyVolumeVph: jobDetails?.hourlyVolumeVph,
+      adt: jobDetails?.adt,
+      directionalSplit: jobDetails?.directionalSplit,
+      crossSection: jobDetails?.crossSection,
+      isNight: jobDetails?.isNight,
+      ...routeForWorkType(jobDetails?.workType, detourRoute),
       // No road centerlines yet - fallback method
     };
 
@@ -279,7 +324,7 @@ export default function PlannerPage() {
     setFieldLayout(suggestedLayout);
     setIsLayoutLocked(false);
     setIsLayoutDirty(false);
-  }, [geometry, workZoneSnapshot, fieldLayout, jobDetails, roadCenterlines]);
+  }, [geometry, workZoneSnapshot, fieldLayout, jobDetails, roadCenterlines, detourRoute]);
 
   // Regenerate layout with street-aware data when road centerlines become available
   // BUT only if user hasn't made manual edits (isLayoutDirty) and layout isn't locked
@@ -310,9 +355,17 @@ export default function PlannerPage() {
       centroid: workZoneSnapshot.centroid,
       roadType: (jobDetails?.roadType ?? "2_lane_undivided") as "2_lane_undivided" | "multilane_divided" | "intersection",
       postedSpeedMph: jobDetails?.postedSpeedMph ?? 35,
-      workType: (jobDetails?.workType ?? "lane_closure") as "shoulder_work" | "lane_closure" | "one_lane_two_way_flaggers",
+      workZoneSpeedMph: jobDetails?.workZoneSpeedMph,
+      workType: (jobDetails?.workType ?? "lane_closure") as "shoulder_work" | "lane_closure" | "one_lane_two_way_flaggers" | "mobile_operation" | "full_closure" | "sidewalk_closure" | "bike_lane_closure",
       workLengthFt: jobDetails?.workLengthFt ?? 100,
+      jurisdiction: jobDetails?.jurisdiction,
+      hourlyVolumeVph: jobDetails?.hourlyVolumeVph,
+      adt: jobDetails?.adt,
+      directionalSplit: jobDetails?.directionalSplit,
+      crossSection: jobDetails?.crossSection,
+      isNight: jobDetails?.isNight,
       roadCenterlines, // Street-aware placement!
+      ...routeForWorkType(jobDetails?.workType, detourRoute),
     };
 
     const suggestedLayout = suggestFieldLayout(layoutInput);
@@ -328,6 +381,42 @@ export default function PlannerPage() {
     }
   }, []);
 
+  // Handle detour route drawn on the map (full closures)
+  // Regenerates the layout with detour signing unless the user has edited or locked it
+  const handleDetourChange = useCallback((route: RoadPolyline | null) => {
+    setDetourRoute(route);
+    
+    if (!geometry || !workZoneSnapshot) return;
+    if (isLayoutDirty || isLayoutLocked) {
+      console.log("[Layout] Detour route changed but skipping regeneration (user edits or locked)");
+      return;
+    }
+    
+    const ring = getPolygonRing(geometry);
+    if (!ring || ring.length < 3) return;
+
+    const layoutInput = {
+      polygonRing: ring,
+      centroid: workZoneSnapshot.centroid,
+      roadType: (jobDetails?.roadType ?? "2_lane_undivided") as "2_lane_undivided" | "multilane_divided" | "intersection",
+      postedSpeedMph: jobDetails?.postedSpeedMph ?? 35,
+      workZoneSpeedMph: jobDetails?.workZoneSpeedMph,
+      workType: (jobDetails?.workType ?? "lane_closure") as "shoulder_work" | "lane_closure" | "one_lane_two_way_flaggers" | "mobile_operation" | "full_closure" | "sidewalk_closure" | "bike_lane_closure",
+      workLengthFt: jobDetails?.workLengthFt ?? 100,
+      jurisdiction: jobDetails?.jurisdiction,
+      hourlyVolumeVph: jobDetails?.hourlyVolumeVph,
+      adt: jobDetails?.adt,
+      directionalSplit: jobDetails?.directionalSplit,
+      crossSection: jobDetails?.crossSection,
+      isNight: jobDetails?.isNight,
+      roadCenterlines: roadCenterlines ?? undefined,
+      ...routeForWorkType(jobDetails?.workType, route),
+    };
+
+    setFieldLayout(suggestFieldLayout(layoutInput));
+    setIsLayoutDirty(false);
+  }, [geometry, workZoneSnapshot, jobDetails, roadCenterlines, isLayoutDirty, isLayoutLocked]);
+
   // Handle field layout changes from user edits
   const handleFieldLayoutChange = useCallback((layout: FieldLayout) => {
     // Debug: Log the layout change
@@ -360,10 +449,18 @@ export default function PlannerPage() {
       locationLabel: locationLabel || undefined,
       roadType: jobDetails.roadType,
       postedSpeedMph: jobDetails.postedSpeedMph,
+      workZoneSpeedMph: jobDetails.workZoneSpeedMph,
       workType: jobDetails.workType,
       workLengthFt: jobDetails.workLengthFt,
       isNight: jobDetails.isNight,
       notes: jobDetails.notes || undefined,
+      jurisdiction: jobDetails.jurisdiction,
+      ...routeForWorkType(jobDetails.workType, detourRoute),
+      hourlyVolumeVph: jobDetails.hourlyVolumeVph,
+      adt: jobDetails.adt,
+      directionalSplit: jobDetails.directionalSplit,
+      crossSection: jobDetails.crossSection,
+      approaches: jobDetails.approaches,
       // Include job owner info if complete
       jobOwner: jobDetails.jobOwner.companyName && jobDetails.jobOwner.contractorName && jobDetails.jobOwner.phone
         ? jobDetails.jobOwner
@@ -386,7 +483,7 @@ export default function PlannerPage() {
       ...base,
       geometry: { type: "polygon" as const, polygon: polygonRings },
     };
-  }, [geometry, jobDetails, locationLabel]);
+  }, [geometry, jobDetails, locationLabel, detourRoute]);
 
   const handleGenerate = useCallback(async () => {
     const request = buildRequest();
@@ -413,8 +510,7 @@ export default function PlannerPage() {
 
     // Reset progress state
     setElapsedSeconds(0);
-    setProgressStep(0);
-    setFinalStepComplete(false);
+    setProgressEvents([]);
 
     setIsLoading(true);
     setError(null);
@@ -422,67 +518,71 @@ export default function PlannerPage() {
     setResponse(null);
     setRawJson(null);
 
+    const showError = (errJson: DraftErrorBody, status: number) => {
+      const issues = errJson.details?.issues?.map(formatValidationIssue).join("; ");
+      setError(
+        [errJson.error, issues].filter(Boolean).join(" — ") ||
+        `Request failed with status ${status}`
+      );
+
+      // Extract coverage gate error details if present
+      if (errJson.details?.coverage && errJson.details?.missing) {
+        setErrorDetails({
+          missing: errJson.details.missing,
+          coverage: errJson.details.coverage,
+          message: errJson.details.message,
+        });
+      }
+    };
+
     try {
-      const res = await fetch("/api/draft-tcp", {
+      // Streaming mode: the server sends a progress event as it finishes each stage
+      const res = await fetch("/api/draft-tcp?stream=1", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(request),
         signal: controller.signal, // Pass abort signal to fetch
       });
 
-      const text = await res.text();
-
-      // GUARD: Check if request was aborted or token changed (e.g., user cleared)
-      // If so, discard results silently - do not update state
-      if (requestToken !== generationTokenRef.current) {
-        console.log("[generate] Discarding stale response - token mismatch");
-        return;
-      }
-
+      // Requests rejected before streaming starts (e.g. malformed body) are plain JSON errors
       if (!res.ok) {
-        // Try to parse error JSON
+        const text = await res.text();
+        if (requestToken !== generationTokenRef.current) {
+          console.log("[generate] Discarding stale response - token mismatch");
+          return;
+        }
         try {
-          const errJson = JSON.parse(text);
-          const msg =
-            errJson.error ||
-            errJson.details?.issues?.join("; ") ||
-            `Request failed with status ${res.status}`;
-          setError(msg);
-          
-          // Extract coverage gate error details if present
-          if (errJson.details?.coverage && errJson.details?.missing) {
-            setErrorDetails({
-              missing: errJson.details.missing,
-              coverage: errJson.details.coverage,
-              message: errJson.details.message,
-            });
-          }
+          showError(JSON.parse(text) as DraftErrorBody, res.status);
         } catch {
           setError(`Request failed with status ${res.status}: ${text.slice(0, 500)}`);
         }
         return;
       }
 
-      const data = JSON.parse(text) as TcpDraftResponse;
-      
-      // Mark final step as complete on success
-      if (isMountedRef.current) {
-        setFinalStepComplete(true);
+      const finalEvent = await readDraftEvents(res, (event) => {
+        if (isMountedRef.current && requestToken === generationTokenRef.current) {
+          setProgressEvents((prev) => appendProgressEvent(prev, event));
+        }
+      });
+
+      // GUARD: Check if request was aborted or token changed (e.g., user cleared)
+      // If so, discard results silently - do not update state
+      if (requestToken !== generationTokenRef.current) {
+        console.log("[generate] Discarding stale response - token mismatch");
+        return;
       }
-      
-      // Dev-only delay to verify visual transitions (see "Finalizing" checkmark)
-      // In production, this is 0ms (no delay)
-      if (DEV_DELAY > 0) {
-        await new Promise((resolve) => setTimeout(resolve, DEV_DELAY));
+
+      if (finalEvent?.stage === "error") {
+        showError(finalEvent.body as DraftErrorBody, finalEvent.status);
+        return;
       }
-      
-      // GUARD: Final check before applying response - token must still match
-      // and geometry must still exist (user might have cleared during DEV_DELAY)
-      if (requestToken !== generationTokenRef.current) {
-        console.log("[generate] Discarding stale response after delay - token mismatch");
+      if (finalEvent?.stage !== "done") {
+        setError("Plan generation ended before the server sent a result");
         return;
       }
-      
+
+      const data: TcpDraftResponse = finalEvent.response;
+
       if (isMountedRef.current) {
         setResponse(data);
         setRawJson(JSON.stringify(data, null, 2));
@@ -603,7 +703,13 @@ export default function PlannerPage() {
               <div className="p-4">
                 {mapToken ? (
                   <div className="shadow-inner rounded-sm overflow-hidden border border-slate-200">
-                    <MapSelector mapToken={mapToken} onGeometryChange={handleGeometryChange} />
+                    <MapSelector
+                      mapToken={mapToken}
+                      onGeometryChange={handleGeometryChange}
+                      detourEnabled={jobDetails?.workType === "full_closure" || jobDetails?.workType === "sidewalk_closure"}
+                      detourKind={jobDetails?.workType === "sidewalk_closure" ? "pedestrian" : "vehicle"}
+                      onDetourChange={handleDetourChange}
+                    />
                   </div>
                 ) : (
                   <div className="w-full h-[400px] rounded-sm border border-red-300 bg-red-50 flex items-center justify-center p-4">
@@ -621,6 +727,16 @@ export default function PlannerPage() {
                       <h3 className="text-xs font-bold text-slate-700 uppercase">Selected Area</h3>
                     </div>
                     <p className="text-xs font-mono text-slate-600 pl-4">{selectionSummary}</p>
+                    {jobDetails?.workType === "full_closure" && (
+                      <p className="text-xs font-mono text-slate-600 pl-4">
+                        {detourRoute ? `Detour: ${detourRoute.length} points` : "Detour: not drawn"}
+                      </p>
+                    )}
+                    {jobDetails?.workType === "sidewalk_closure" && (
+                      <p className="text-xs font-mono text-slate-600 pl-4">
+                        {detourRoute ? `Pedestrian route: ${detourRoute.length} points` : "Pedestrian route: not drawn"}
+                      </p>
+                    )}
                     {locationLabel && (
                       <p className="text-xs text-slate-500 pl-4 mt-1 truncate">
                         {locationLabel}
@@ -695,8 +811,7 @@ export default function PlannerPage() {
               {isLoading ? (
                 <GenerationProgress
                   elapsedSeconds={elapsedSeconds}
-                  progressStep={progressStep}
-                  finalStepComplete={finalStepComplete}
+                  events={progressEvents}
                 />
               ) : (
                 <OutputPanel
@@ -719,6 +834,9 @@ export default function PlannerPage() {
                           workType: jobDetails.workType,
                           workLengthFt: jobDetails.workLengthFt,
                           isNight: jobDetails.isNight,
+                          jurisdiction: jobDetails.jurisdiction,
+                          crossSection: jobDetails.crossSection,
+                          hasSignalOrStopControl: jobDetails.hasSignalOrStopControl,
                           jobOwner: jobDetails.jobOwner,
                         }
                       : null
@@ -0,0 +1,50 @@
+"use client";
+
+import { PlanDerivation } from "@/lib/tcpTypes";
+
+export interface DerivationDetailsProps {
+  derivation?: PlanDerivation;
+  label?: string; // summary text, default "Why this value?"
+}
+
+const METHOD_LABELS: Record<PlanDerivation["method"], string> = {
+  table: "Rules pack table",
+  formula: "Formula",
+  default: "Resolver default",
+};
+
+/**
+ * Expandable "why this value" trace for a resolved plan value:
+ * speed row, table read or formula, and any jurisdiction override.
+ */
+export default function DerivationDetails({ derivation, label = "Why this value?" }: DerivationDetailsProps) {
+  if (!derivation) return null;
+
+  return (
+    <details className="mt-1 group">
+      <summary className="cursor-pointer select-none text-[10px] font-semibold text-slate-500 hover:text-slate-700">
+        {label}
+      </summary>
+      <div className="mt-1 p-2 bg-white border border-slate-100 rounded-sm text-[11px] text-slate-600 space-y-1">
+        <p className="text-[10px] text-slate-400 uppercase tracking-wider">
+          {METHOD_LABELS[derivation.method]} · {derivation.layer} layer
+          {derivation.speedOutOfRange && <span className="text-amber-600"> · speed outside table</span>}
+        </p>
+        <ol className="list-decimal list-inside space-y-0.5">
+          {derivation.steps.map((step, i) => (
+            <li key={i}>{step}</li>
+          ))}
+        </ol>
+        {derivation.overrides.length > 0 && (
+          <ul className="pt-1 border-t border-slate-100 space-y-0.5">
+            {derivation.overrides.map((override) => (
+              <li key={`${override.layer}-${override.path}`} className="font-mono text-[10px] text-slate-500">
+                {override.layer}: {override.path} {override.baseValue} → {override.value}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -28,6 +28,12 @@ import {
 } from "@/lib/layoutTypes";
 import { createDeviceMarkerElement } from "@/lib/deviceIcons";
 import { normalizeRoadFeatures } from "@/lib/layout/suggestFieldLayout";
+import {
+  validateLayoutCompliance,
+  formatConstraintCitation,
+  ComplianceJobInput,
+  LayoutComplianceResult,
+} from "@/src/rules/validateLayoutCompliance";
 import DiagramPreview from "./DiagramPreview";
 import { DiagramGeometry, DiagramJobData, DiagramPlanData } from "@/lib/diagram/types";
 
@@ -39,7 +45,7 @@ function validateLayoutState(layout: FieldLayout, context: string): void {
   if (!DEBUG_EDIT_MODE) return;
   
   // Check all devices have valid types
-  const validTypes: DeviceType[] = ["cone", "sign", "arrowBoard", "flagger", "drum", "barricade"];
+  const validTypes: DeviceType[] = ["cone", "sign", "arrowBoard", "flagger", "drum", "barricade", "vehicle", "lightTower", "pedChannelizer"];
   const invalidDevices = layout.devices.filter(d => !validTypes.includes(d.type));
   if (invalidDevices.length > 0) {
     console.error(`[INVARIANT VIOLATION] ${context}: Invalid device types found:`, invalidDevices);
@@ -106,6 +112,8 @@ export interface FieldLayoutPanelProps {
   geometry?: DiagramGeometry | null;
   /** Job data for schematic tab */
   diagramJob?: DiagramJobData | null;
+  /** Job inputs for the compliance check (open width, pedestrians, signal control, jurisdiction) */
+  complianceJob?: ComplianceJobInput | null;
   /** Plan data for schematic tab (after generation) */
   diagramPlan?: DiagramPlanData | null;
   /** Callback when road features are extracted from map (for street-aware layout) */
@@ -125,6 +133,18 @@ const SIGN_SUBTYPE_OPTIONS: { value: SignSubtype; label: string }[] = [
   { value: "rightLaneClosed", label: "Right Lane Closed" },
   { value: "leftLaneClosed", label: "Left Lane Closed" },
   { value: "oneLaneRoadAhead", label: "One Lane Road" },
+  { value: "roadClosed", label: "Road Closed" },
+  { value: "detourLeft", label: "Detour ←" },
+  { value: "detourRight", label: "Detour →" },
+  { value: "detourAhead", label: "Detour ↑" },
+  { value: "sidewalkClosed", label: "Sidewalk Closed" },
+  { value: "sidewalkClosedUseOtherSide", label: "Sidewalk Closed Use Other Side" },
+  { value: "bikeLaneClosedAhead", label: "Bike Lane Closed Ahead" },
+  { value: "bikesMergeWithAutos", label: "Bikes Merge With Autos" },
+  { value: "bikesMayUseFullLane", label: "Bicycles May Use Full Lane" },
+  { value: "speedReduction", label: "Speed Reduction" },
+  { value: "workZoneSpeedLimit", label: "Work Zone Speed Limit" },
+  { value: "endWorkZoneSpeedLimit", label: "End Work Zone Speed Limit" },
 ];
 
 // Debug state for edit mode (dev-only)
@@ -179,6 +199,7 @@ export default function FieldLayoutPanel({
   height = 350,
   geometry,
   diagramJob,
+  complianceJob,
   diagramPlan,
   onRoadFeaturesExtracted,
   hasGeneratedPlan = false,
@@ -647,13 +668,30 @@ export default function FieldLayoutPanel({
     setSelectedDeviceId(null);
   }, [isEditMode, isLocked, onLockChange]);
 
+  // Compliance check against rules pack constraints (must be reviewed before confirming)
+  const compliance: LayoutComplianceResult | null = useMemo(() => {
+    if (!layout || !polygonRing || !complianceJob) return null;
+    return validateLayoutCompliance({ layout, polygonRing, job: complianceJob });
+  }, [layout, polygonRing, complianceJob]);
+
+  // Soft violations must be acknowledged again whenever the layout changes
+  const [warningsAcknowledged, setWarningsAcknowledged] = useState(false);
+  useEffect(() => {
+    setWarningsAcknowledged(false);
+  }, [compliance]);
+
+  // Hard violations block confirmation; soft ones need the acknowledgment
+  const canConfirm = !compliance
+    || (compliance.passed && (compliance.violations.length === 0 || warningsAcknowledged));
+
   // Confirm layout
   const handleConfirmLayout = useCallback(() => {
+    if (!canConfirm) return;
     onLockChange(true);
     setIsEditMode(false);
     setActiveTool("select");
     setSelectedDeviceId(null);
-  }, [onLockChange]);
+  }, [onLockChange, canConfirm]);
 
   // Delete selected device
   const handleDeleteSelected = useCallback(() => {
@@ -686,14 +724,18 @@ export default function FieldLayoutPanel({
   // Device counts for validation display
   // CRITICAL: This must match what markers are rendered
   const deviceCounts = useMemo(() => {
-    if (!layout) return { cones: 0, signs: 0, flaggers: 0, arrowBoards: 0, total: 0 };
-    const counts = { cones: 0, signs: 0, flaggers: 0, arrowBoards: 0, total: 0 };
+    if (!layout) return { cones: 0, signs: 0, flaggers: 0, arrowBoards: 0, vehicles: 0, barricades: 0, lightTowers: 0, pedChannelizers: 0, total: 0 };
+    const counts = { cones: 0, signs: 0, flaggers: 0, arrowBoards: 0, vehicles: 0, barricades: 0, lightTowers: 0, pedChannelizers: 0, total: 0 };
     layout.devices.forEach(d => {
       counts.total++;
       if (d.type === "cone") counts.cones++;
       else if (d.type === "sign") counts.signs++;
       else if (d.type === "flagger") counts.flaggers++;
       else if (d.type === "arrowBoard") counts.arrowBoards++;
+      else if (d.type === "vehicle") counts.vehicles++;
+      else if (d.type === "barricade") counts.barricades++;
+      else if (d.type === "lightTower") counts.lightTowers++;
+      else if (d.type === "pedChannelizer") counts.pedChannelizers++;
       else {
         console.error(`[Counts Error] Unknown device type: "${d.type}" for device ${d.id}`);
       }
@@ -869,7 +911,11 @@ export default function FieldLayoutPanel({
               <button
                 type="button"
                 onClick={handleConfirmLayout}
-                className="px-3 py-1 text-[10px] font-bold uppercase bg-emerald-500 text-white rounded hover:bg-emerald-600 transition-colors"
+                disabled={!canConfirm}
+                title={canConfirm ? undefined : compliance?.passed
+                  ? "Acknowledge the compliance warnings to confirm"
+                  : "Fix the compliance violations to confirm"}
+                className="px-3 py-1 text-[10px] font-bold uppercase bg-emerald-500 text-white rounded hover:bg-emerald-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-emerald-500"
               >
                 ✓ Confirm Layout
               </button>
@@ -883,6 +929,43 @@ export default function FieldLayoutPanel({
             </div>
           )}
 
+          {/* Compliance violations (shown while editing so they can be fixed before confirming) */}
+          {compliance && compliance.violations.length > 0 && !isLocked && (
+            <div className={`px-3 py-2 border-b text-[10px] ${
+              compliance.passed
+                ? "bg-amber-50 border-amber-100 text-amber-800"
+                : "bg-red-50 border-red-100 text-red-800"
+            }`}>
+              <div className="font-bold uppercase tracking-wide mb-1">
+                {compliance.passed ? "Compliance Warnings" : "Compliance Violations"} ({compliance.violations.length})
+              </div>
+              <ul className="space-y-1">
+                {compliance.violations.map((v, idx) => (
+                  <li key={`${v.constraintId}-${idx}`}>
+                    <span className={`font-bold uppercase mr-1 ${v.severity === "hard" ? "text-red-600" : "text-amber-600"}`}>
+                      {v.severity}
+                    </span>
+                    {v.message}
+                    <span className="block text-slate-500 italic">{formatConstraintCitation(v.source)}</span>
+                  </li>
+                ))}
+              </ul>
+              {isEditMode && (compliance.passed ? (
+                <label className="mt-2 flex items-center gap-2 font-semibold cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={warningsAcknowledged}
+                    onChange={(e) => setWarningsAcknowledged(e.target.checked)}
+                    className="accent-amber-600"
+                  />
+                  I have reviewed these warnings; confirm the layout with them
+                </label>
+              ) : (
+                <p className="mt-2 font-semibold">Fix the hard violations before confirming the layout.</p>
+              ))}
+            </div>
+          )}
+
           {/* Map Container */}
           <div
             ref={containerRef}
@@ -916,6 +999,18 @@ export default function FieldLayoutPanel({
               {deviceCounts.arrowBoards > 0 && (
                 <span>➡️ <span className="text-white font-bold">{deviceCounts.arrowBoards}</span> arrow boards</span>
               )}
+              {deviceCounts.vehicles > 0 && (
+                <span>🚚 <span className="text-white font-bold">{deviceCounts.vehicles}</span> vehicles</span>
+              )}
+              {deviceCounts.barricades > 0 && (
+                <span>🚧 <span className="text-white font-bold">{deviceCounts.barricades}</span> barricades</span>
+              )}
+              {deviceCounts.lightTowers > 0 && (
+                <span>💡 <span className="text-white font-bold">{deviceCounts.lightTowers}</span> light towers</span>
+              )}
+              {deviceCounts.pedChannelizers > 0 && (
+                <span>🚷 <span className="text-white font-bold">{deviceCounts.pedChannelizers}</span> ped channelizers</span>
+              )}
             </div>
             <span className="text-slate-500 italic">Mockup is illustrative</span>
           </div>
@@ -1,22 +1,82 @@
 "use client";
 
+import { DraftProgressEvent } from "@/lib/tcpTypes";
+
 interface GenerationProgressProps {
   elapsedSeconds: number;
-  progressStep: number; // 0-3 (step index)
-  finalStepComplete: boolean;
+  events: DraftProgressEvent[]; // server progress events so far (token counts collapsed per attempt)
+}
+
+interface ProgressLine {
+  label: string;
+  status: "complete" | "current" | "failed";
+}
+
+// What the server is working on after each stage, shown until the next event arrives
+const NEXT_STEP: Partial<Record<DraftProgressEvent["stage"], string>> = {
+  validated: "Retrieving handbook excerpts",
+  retrieval: "Checking handbook coverage",
+  coverage: "Calling model",
+  model: "Waiting for model response",
+  response_validation: "Finalizing plan",
+};
+
+function describeEvent(event: DraftProgressEvent): ProgressLine {
+  switch (event.stage) {
+    case "validated":
+      return { label: "Job details validated", status: "complete" };
+    case "retrieval":
+      return {
+        label: `Retrieved ${event.handbookChunks} handbook / ${event.exampleChunks} example excerpts`,
+        status: "complete",
+      };
+    case "coverage":
+      return event.passed
+        ? { label: "Coverage gate passed", status: "complete" }
+        : { label: `Coverage gate failed: missing ${event.missing.join(", ")}`, status: "failed" };
+    case "model":
+      return {
+        label: event.attempt > 1 ? `Retrying ${event.model} with corrections` : `Calling ${event.model}`,
+        status: "complete",
+      };
+    case "tokens":
+      return { label: `Receiving response · ${event.chars.toLocaleString()} chars`, status: "complete" };
+    case "response_validation":
+      return event.ok
+        ? { label: "Response validated", status: "complete" }
+        : {
+            label: `Response failed validation (${event.issues.length} issue(s)${event.issues[0] ? `, first at ${event.issues[0].path || "the root"}` : ""})`,
+            status: "failed",
+          };
+    case "done":
+      return { label: "Plan ready", status: "complete" };
+    case "error":
+      return { label: `Error: ${String(event.body.error ?? `status ${event.status}`)}`, status: "failed" };
+  }
 }
 
-const STEPS = [
-  "Sending job details",
-  "Refining calculations with MUTCD guidance",
-  "Verifying spacing, taper & devices",
-  "Finalizing plan",
-];
+/**
+ * One line per stage the server has reported, then the stage it is working on.
+ * While tokens are streaming, the token count line is the current stage.
+ */
+function buildProgressLines(events: DraftProgressEvent[]): ProgressLine[] {
+  const lines = events.map(describeEvent);
+  const last = events[events.length - 1];
+
+  if (!last) return [{ label: "Sending job details", status: "current" }];
+  if (last.stage === "tokens") {
+    lines[lines.length - 1] = { ...lines[lines.length - 1], status: "current" };
+  } else if (last.stage === "response_validation" && !last.ok && last.attempt === 1) {
+    lines.push({ label: "Preparing corrective retry", status: "current" });
+  } else if (NEXT_STEP[last.stage] && !(last.stage === "coverage" && !last.passed)) {
+    lines.push({ label: NEXT_STEP[last.stage]!, status: "current" });
+  }
+  return lines;
+}
 
 export default function GenerationProgress({
   elapsedSeconds,
-  progressStep,
-  finalStepComplete,
+  events,
 }: GenerationProgressProps) {
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -24,8 +84,8 @@ export default function GenerationProgress({
     return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
   };
 
-  // Determine if generation is still in progress
-  const isGenerating = !finalStepComplete;
+  const lines = buildProgressLines(events);
+  const isGenerating = lines.some((line) => line.status === "current");
 
   return (
     <div
@@ -55,26 +115,21 @@ export default function GenerationProgress({
       {/* Terminal Feed */}
       <div className="bg-slate-50 border border-slate-200 rounded-sm p-4 mb-6 font-mono text-xs overflow-hidden">
         <div className="space-y-2">
-          {STEPS.map((step, index) => {
-            const isComplete =
-              index < progressStep || (index === 3 && finalStepComplete);
-            const isCurrent = index === progressStep && !finalStepComplete;
-            
-            // Only show steps that have started
-            if (index > progressStep && !finalStepComplete) return null;
+          {lines.map((line, index) => {
+            const isCurrent = line.status === "current";
 
             return (
               <div
-                key={step}
+                key={index}
                 className={`flex items-start gap-2 transition-all ${
-                  isCurrent ? "text-slate-800" : "text-emerald-600"
+                  isCurrent ? "text-slate-800" : line.status === "failed" ? "text-amber-700" : "text-emerald-600"
                 }`}
               >
                 <span className="text-slate-400 shrink-0">
-                  {isComplete ? "✓" : ">"}
+                  {line.status === "complete" ? "✓" : line.status === "failed" ? "✗" : ">"}
                 </span>
                 <span className={isCurrent ? "font-bold" : ""}>
-                  {step}
+                  {line.label}
                   {isCurrent && (
                     <span className="inline-block w-1.5 h-3 ml-1 bg-slate-800 animate-pulse align-middle" />
                   )}
@@ -102,11 +157,7 @@ export default function GenerationProgress({
       
       {/* Live region for screen readers */}
       <div className="sr-only" aria-live="polite" aria-atomic="true">
-        {progressStep < 3
-          ? `Step ${progressStep + 1} of 4: ${STEPS[progressStep]}`
-          : finalStepComplete
-            ? "Generation complete"
-            : "Finalizing, waiting for server response"}
+        {lines[lines.length - 1]?.label}
       </div>
     </div>
   );
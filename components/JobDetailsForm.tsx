@@ -1,9 +1,14 @@
 "use client";
 
 import { useState, useCallback, useEffect } from "react";
+import { SPEED_BUCKETS_MPH, type JurisdictionId } from "@/src/rules/rulesTypes";
+import { listJurisdictions } from "@/src/rules/rulesPackRegistry";
+import type { CrossSection } from "@/src/rules/checkCrossSection";
+import type { IntersectionApproach } from "@/src/rules/resolveTcpRules";
 
 export type RoadType = "2_lane_undivided" | "multilane_divided" | "intersection";
-export type WorkType = "shoulder_work" | "lane_closure" | "one_lane_two_way_flaggers";
+export type VolumeUnit = "vph" | "adt";
+export type WorkType = "shoulder_work" | "lane_closure" | "one_lane_two_way_flaggers" | "mobile_operation" | "full_closure" | "sidewalk_closure" | "bike_lane_closure";
 
 /**
  * Job Owner / Company structured data
@@ -19,10 +24,26 @@ export interface JobOwner {
 export interface JobDetails {
   roadType: RoadType;
   postedSpeedMph: number;
+  /** Approved temporary speed limit through the work zone; undefined = no speed zone */
+  workZoneSpeedMph?: number;
   workType: WorkType;
   workLengthFt: number;
   isNight: boolean;
   notes: string;
+  /** Rules pack jurisdiction; undefined = pick from work zone location */
+  jurisdiction?: JurisdictionId;
+  /** Two-way hourly volume (veh/h); set instead of adt */
+  hourlyVolumeVph?: number;
+  /** Two-way average daily traffic; set instead of hourlyVolumeVph */
+  adt?: number;
+  /** Share of traffic in the heavier direction, 0.5–1 */
+  directionalSplit?: number;
+  /** Road cross-section on the work side; undefined = not entered */
+  crossSection?: CrossSection;
+  /** Intersection legs with their own speeds; undefined unless roadType is intersection */
+  approaches?: IntersectionApproach[];
+  /** Work is at a traffic signal or STOP-controlled location */
+  hasSignalOrStopControl: boolean;
   // Job owner / company info (structured)
   jobOwner: JobOwner;
 }
@@ -35,8 +56,64 @@ const WORK_TYPE_LABELS: Record<WorkType, string> = {
   "shoulder_work": "Shoulder Work",
   "lane_closure": "Lane Closure",
   "one_lane_two_way_flaggers": "One-Lane Two-Way (Flaggers)",
+  "mobile_operation": "Mobile Operation (Moving)",
+  "full_closure": "Full Road Closure (Detour)",
+  "sidewalk_closure": "Sidewalk Closure (Pedestrian Route)",
+  "bike_lane_closure": "Bike Lane Closure",
 };
 
+const JURISDICTION_OPTIONS = listJurisdictions();
+
+type CrossSectionField = keyof CrossSection;
+
+/** Cross-section inputs in display order; optional widths may be left blank */
+const CROSS_SECTION_FIELDS: Array<{ key: CrossSectionField; label: string; optional?: boolean }> = [
+  { key: "lanesPerDirection", label: "Lanes / Dir" },
+  { key: "laneWidthFt", label: "Lane (ft)" },
+  { key: "shoulderWidthFt", label: "Shoulder (ft)" },
+  { key: "bikeLaneWidthFt", label: "Bike Lane (ft)", optional: true },
+  { key: "parkingLaneWidthFt", label: "Parking (ft)", optional: true },
+  { key: "medianWidthFt", label: "Median (ft)", optional: true },
+  { key: "workAreaWidthFt", label: "Work Area (ft)", optional: true },
+];
+
+const DEFAULT_CROSS_SECTION: Record<CrossSectionField, string> = {
+  lanesPerDirection: "1",
+  laneWidthFt: "12",
+  shoulderWidthFt: "4",
+  bikeLaneWidthFt: "",
+  parkingLaneWidthFt: "",
+  medianWidthFt: "",
+  workAreaWidthFt: "",
+};
+
+type ApproachLeg = "N" | "E" | "S" | "W";
+
+interface ApproachFieldValues {
+  enabled: boolean;
+  speedMph: string; // blank = posted speed
+  lanes: string;
+}
+
+/** Intersection legs offered in the approaches editor, with each leg's compass bearing */
+const APPROACH_LEGS: Array<{ leg: ApproachLeg; label: string; bearingDeg: number }> = [
+  { leg: "N", label: "North", bearingDeg: 0 },
+  { leg: "E", label: "East", bearingDeg: 90 },
+  { leg: "S", label: "South", bearingDeg: 180 },
+  { leg: "W", label: "West", bearingDeg: 270 },
+];
+
+const DEFAULT_APPROACHES: Record<ApproachLeg, ApproachFieldValues> = {
+  N: { enabled: true, speedMph: "", lanes: "1" },
+  E: { enabled: true, speedMph: "", lanes: "1" },
+  S: { enabled: true, speedMph: "", lanes: "1" },
+  W: { enabled: true, speedMph: "", lanes: "1" },
+};
+
+/** Speeds covered by the rules pack tables; outside this range the nearest table row is used */
+const RULES_MIN_SPEED_MPH = SPEED_BUCKETS_MPH[0];
+const RULES_MAX_SPEED_MPH = SPEED_BUCKETS_MPH[SPEED_BUCKETS_MPH.length - 1];
+
 /**
  * Extract digits from a phone number string
  */
@@ -88,12 +165,27 @@ export default function JobDetailsForm({ onChange }: JobDetailsFormProps) {
   // Road configuration
   const [roadType, setRoadType] = useState<RoadType>("2_lane_undivided");
   const [postedSpeedMph, setPostedSpeedMph] = useState<string>("35");
+  const [workZoneSpeedMph, setWorkZoneSpeedMph] = useState<string>("");
   
   // Work zone parameters
   const [workType, setWorkType] = useState<WorkType>("lane_closure");
   const [workLengthFt, setWorkLengthFt] = useState<string>("500");
   const [isNight, setIsNight] = useState<boolean>(false);
   const [notes, setNotes] = useState<string>("");
+  const [jurisdiction, setJurisdiction] = useState<JurisdictionId | "auto">("auto");
+  
+  // Traffic volume (optional, drives flagger queue estimates)
+  const [trafficVolume, setTrafficVolume] = useState<string>("");
+  const [volumeUnit, setVolumeUnit] = useState<VolumeUnit>("vph");
+  const [directionalSplitPct, setDirectionalSplitPct] = useState<string>("50");
+  
+  // Road cross-section (optional, drives taper width, lane width checks and sign offsets)
+  const [hasCrossSection, setHasCrossSection] = useState<boolean>(false);
+  const [crossSectionValues, setCrossSectionValues] = useState<Record<CrossSectionField, string>>(DEFAULT_CROSS_SECTION);
+  
+  // Intersection approaches (intersections only, each leg resolved at its own speed)
+  const [approachValues, setApproachValues] = useState<Record<ApproachLeg, ApproachFieldValues>>(DEFAULT_APPROACHES);
+  const [hasSignalOrStopControl, setHasSignalOrStopControl] = useState<boolean>(false);
   
   // Job owner / company info (all fields now in structured group)
   const [companyName, setCompanyName] = useState<string>("");
@@ -104,7 +196,11 @@ export default function JobDetailsForm({ onChange }: JobDetailsFormProps) {
 
   // Validation state
   const [speedError, setSpeedError] = useState<string | null>(null);
+  const [workZoneSpeedError, setWorkZoneSpeedError] = useState<string | null>(null);
   const [lengthError, setLengthError] = useState<string | null>(null);
+  const [volumeError, setVolumeError] = useState<string | null>(null);
+  const [crossSectionError, setCrossSectionError] = useState<string | null>(null);
+  const [approachesError, setApproachesError] = useState<string | null>(null);
   const [companyError, setCompanyError] = useState<string | null>(null);
   const [contractorError, setContractorError] = useState<string | null>(null);
   const [phoneError, setPhoneError] = useState<string | null>(null);
@@ -118,10 +214,17 @@ export default function JobDetailsForm({ onChange }: JobDetailsFormProps) {
 
   const validateAndNotify = useCallback(() => {
     const speed = Number(postedSpeedMph);
+    const workZoneSpeed = Number(workZoneSpeedMph);
     const length = Number(workLengthFt);
+    const volume = Number(trafficVolume);
+    const splitPct = Number(directionalSplitPct);
 
     let speedErr: string | null = null;
+    let workZoneSpeedErr: string | null = null;
     let lengthErr: string | null = null;
+    let volumeErr: string | null = null;
+    let crossSectionErr: string | null = null;
+    let approachesErr: string | null = null;
     let companyErr: string | null = null;
     let contractorErr: string | null = null;
     let phoneErr: string | null = null;
@@ -134,6 +237,15 @@ export default function JobDetailsForm({ onChange }: JobDetailsFormProps) {
     } else if (speed > 75) {
       speedErr = "Speed must be 75 mph or less";
     }
+    
+    // Work zone speed validation (optional; a speed limit in 5 mph steps below the posted speed)
+    if (workZoneSpeedMph.trim() !== "") {
+      if (isNaN(workZoneSpeed) || workZoneSpeed < 15 || workZoneSpeed % 5 !== 0) {
+        workZoneSpeedErr = "Work zone speed must be 15 mph or more, in 5 mph steps";
+      } else if (speedErr === null && workZoneSpeed >= speed) {
+        workZoneSpeedErr = "Work zone speed must be below the posted speed";
+      }
+    }
 
     // Work length validation
     if (isNaN(length) || workLengthFt.trim() === "") {
@@ -142,6 +254,48 @@ export default function JobDetailsForm({ onChange }: JobDetailsFormProps) {
       lengthErr = "Work length must be greater than 0";
     }
     
+    // Traffic volume validation (optional)
+    if (trafficVolume.trim() !== "" && (isNaN(volume) || volume <= 0)) {
+      volumeErr = "Volume must be greater than 0";
+    } else if (isNaN(splitPct) || splitPct < 50 || splitPct > 100) {
+      volumeErr = "Directional split must be 50–100%";
+    }
+    
+    // Cross-section validation (optional block; blank optional widths mean "none")
+    const crossSectionNumbers = Object.fromEntries(
+      CROSS_SECTION_FIELDS.map(({ key }) => [key, Number(crossSectionValues[key] || 0)])
+    ) as Record<CrossSectionField, number>;
+    if (hasCrossSection) {
+      const missing = CROSS_SECTION_FIELDS.find(({ key, optional }) => !optional && crossSectionValues[key].trim() === "");
+      if (missing) {
+        crossSectionErr = `${missing.label.replace(/ \(ft\)$/, "")} is required`;
+      } else if (!Number.isInteger(crossSectionNumbers.lanesPerDirection) || crossSectionNumbers.lanesPerDirection < 1) {
+        crossSectionErr = "Lanes per direction must be a whole number of at least 1";
+      } else if (!(crossSectionNumbers.laneWidthFt > 0)) {
+        crossSectionErr = "Lane width must be greater than 0";
+      } else if (CROSS_SECTION_FIELDS.some(({ key }) => isNaN(crossSectionNumbers[key]) || crossSectionNumbers[key] < 0)) {
+        crossSectionErr = "Widths must be 0 or more";
+      }
+    }
+    
+    // Approach validation (intersections only; blank speed = posted speed)
+    const approaches: IntersectionApproach[] = APPROACH_LEGS
+      .filter(({ leg }) => approachValues[leg].enabled)
+      .map(({ leg, bearingDeg }) => ({
+        bearingDeg,
+        speedMph: approachValues[leg].speedMph.trim() === "" ? speed : Number(approachValues[leg].speedMph),
+        lanes: Number(approachValues[leg].lanes),
+      }));
+    if (roadType === "intersection") {
+      if (approaches.length === 0) {
+        approachesErr = "Select at least one approach";
+      } else if (approaches.some(a => isNaN(a.speedMph) || a.speedMph < 15 || a.speedMph > 75)) {
+        approachesErr = "Approach speeds must be 15–75 mph";
+      } else if (approaches.some(a => !Number.isInteger(a.lanes) || a.lanes < 1)) {
+        approachesErr = "Approach lanes must be a whole number of at least 1";
+      }
+    }
+    
     // Company name validation (required)
     if (!companyName.trim()) {
       companyErr = "Company name is required";
@@ -160,18 +314,28 @@ export default function JobDetailsForm({ onChange }: JobDetailsFormProps) {
     }
 
     setSpeedError(speedErr);
+    setWorkZoneSpeedError(workZoneSpeedErr);
     setLengthError(lengthErr);
+    setVolumeError(volumeErr);
+    setCrossSectionError(crossSectionErr);
+    setApproachesError(approachesErr);
     setCompanyError(companyErr);
     setContractorError(contractorErr);
     setPhoneError(phoneErr);
 
     const isValid = 
       speedErr === null && 
+      workZoneSpeedErr === null &&
       lengthErr === null && 
+      volumeErr === null &&
+      crossSectionErr === null &&
+      approachesErr === null &&
       companyErr === null &&
       contractorErr === null &&
       phoneErr === null;
 
+    const hasVolume = volumeErr === null && trafficVolume.trim() !== "";
+
     // Build structured jobOwner object
     const jobOwner: JobOwner = {
       companyName: companyName.trim(),
@@ -184,16 +348,32 @@ export default function JobDetailsForm({ onChange }: JobDetailsFormProps) {
     const details: JobDetails = {
       roadType,
       postedSpeedMph: isNaN(speed) ? 0 : speed,
+      workZoneSpeedMph: workZoneSpeedErr === null && workZoneSpeedMph.trim() !== "" ? workZoneSpeed : undefined,
       workType,
       workLengthFt: isNaN(length) ? 0 : length,
       isNight,
       notes,
+      jurisdiction: jurisdiction === "auto" ? undefined : jurisdiction,
+      hourlyVolumeVph: hasVolume && volumeUnit === "vph" ? volume : undefined,
+      adt: hasVolume && volumeUnit === "adt" ? volume : undefined,
+      directionalSplit: hasVolume ? splitPct / 100 : undefined,
+      crossSection: hasCrossSection && crossSectionErr === null
+        ? {
+            ...crossSectionNumbers,
+            // Blank = work area width not known (no lateral buffer check), unlike the blank "none" widths
+            workAreaWidthFt: crossSectionValues.workAreaWidthFt.trim() === "" ? undefined : crossSectionNumbers.workAreaWidthFt,
+          }
+        : undefined,
+      approaches: roadType === "intersection" && approachesErr === null ? approaches : undefined,
+      hasSignalOrStopControl,
       jobOwner,
     };
 
     onChange(details, isValid);
   }, [
-    roadType, postedSpeedMph, workType, workLengthFt, isNight, notes, 
+    roadType, postedSpeedMph, workZoneSpeedMph, workType, workLengthFt, isNight, notes, jurisdiction,
+    trafficVolume, volumeUnit, directionalSplitPct,
+    hasCrossSection, crossSectionValues, approachValues, hasSignalOrStopControl,
     companyName, contractorName, phone, jobNumber, jobAssignedDate, 
     onChange
   ]);
@@ -219,6 +399,11 @@ export default function JobDetailsForm({ onChange }: JobDetailsFormProps) {
     }
   };
 
+  // Valid but outside the rules pack speed tables (resolver flags it and uses the nearest row)
+  const speedValue = Number(postedSpeedMph);
+  const isSpeedOutsideRules = postedSpeedMph.trim() !== "" && !isNaN(speedValue) &&
+    (speedValue < RULES_MIN_SPEED_MPH || speedValue > RULES_MAX_SPEED_MPH);
+
   return (
     <div className="flex flex-col gap-6">
       {/* SECTION 1: ROAD SETTINGS */}
@@ -284,10 +469,172 @@ export default function JobDetailsForm({ onChange }: JobDetailsFormProps) {
             <p id="speed-error" className="mt-1 text-xs text-red-600 font-medium">
               {speedError}
             </p>
+          ) : isSpeedOutsideRules ? (
+            <p className="mt-1 text-[10px] text-amber-600 font-medium">
+              Outside rules tables ({RULES_MIN_SPEED_MPH}–{RULES_MAX_SPEED_MPH} mph) — nearest values used, verify manually
+            </p>
           ) : (
             <p className="mt-1 text-[10px] text-slate-400">Range: 15–75 mph</p>
           )}
         </div>
+
+        {/* Work Zone Speed (optional) */}
+        <div>
+          <label htmlFor="workZoneSpeedMph" className="block text-xs font-semibold text-slate-500 mb-1 uppercase tracking-wide">
+            Work Zone Speed (mph) <span className="text-slate-400 normal-case font-normal">(optional)</span>
+          </label>
+          <div className="relative">
+            <input
+              type="number"
+              id="workZoneSpeedMph"
+              value={workZoneSpeedMph}
+              onChange={(e) => setWorkZoneSpeedMph(e.target.value)}
+              onBlur={() => markTouched("workZoneSpeedMph")}
+              min={15}
+              max={70}
+              step={5}
+              placeholder="none"
+              className={`w-full px-3 py-2 bg-slate-50 border rounded-sm text-slate-900 font-mono text-sm focus:ring-1 focus:ring-[#FFB300] focus:border-[#FFB300] transition-colors ${
+                workZoneSpeedError && touchedFields.has("workZoneSpeedMph") ? "border-red-300 bg-red-50" : "border-slate-200"
+              }`}
+              aria-invalid={workZoneSpeedError ? "true" : "false"}
+            />
+            <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
+              <span className="text-slate-400 text-xs font-mono">MPH</span>
+            </div>
+          </div>
+          {workZoneSpeedError && touchedFields.has("workZoneSpeedMph") ? (
+            <p className="mt-1 text-xs text-red-600 font-medium">{workZoneSpeedError}</p>
+          ) : (
+            <p className="mt-1 text-[10px] text-slate-400">Approved temporary speed limit. Advance signs stay at the posted speed; tapers and buffer use this speed.</p>
+          )}
+        </div>
+
+        {/* Cross-Section (optional) */}
+        <div>
+          <label className="flex items-center gap-2 text-xs font-semibold text-slate-500 uppercase tracking-wide cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hasCrossSection}
+              onChange={(e) => setHasCrossSection(e.target.checked)}
+              className="accent-[#FFB300]"
+            />
+            Cross-Section <span className="text-slate-400 normal-case font-normal">(optional)</span>
+          </label>
+          {hasCrossSection && (
+            <div className="mt-2 grid grid-cols-3 gap-2">
+              {CROSS_SECTION_FIELDS.map(({ key, label, optional }) => (
+                <div key={key}>
+                  <label htmlFor={`crossSection-${key}`} className="block text-[10px] font-semibold text-slate-500 mb-1 uppercase tracking-wide">
+                    {label}
+                  </label>
+                  <input
+                    type="number"
+                    id={`crossSection-${key}`}
+                    value={crossSectionValues[key]}
+                    onChange={(e) => setCrossSectionValues(prev => ({ ...prev, [key]: e.target.value }))}
+                    onBlur={() => markTouched("crossSection")}
+                    min={key === "lanesPerDirection" ? 1 : 0}
+                    step={key === "lanesPerDirection" ? 1 : 0.5}
+                    placeholder={key === "workAreaWidthFt" ? "unknown" : optional ? "none" : undefined}
+                    className={`w-full px-2 py-1 bg-slate-50 border rounded-sm text-slate-900 font-mono text-xs focus:ring-1 focus:ring-[#FFB300] focus:border-[#FFB300] ${
+                      crossSectionError && touchedFields.has("crossSection") ? "border-red-300 bg-red-50" : "border-slate-200"
+                    }`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          {crossSectionError && touchedFields.has("crossSection") ? (
+            <p className="mt-1 text-xs text-red-600 font-medium">{crossSectionError}</p>
+          ) : (
+            <p className="mt-1 text-[10px] text-slate-400">Work-side widths. Checks remaining lane width and lateral buffer (enter the work area width) and sets sign offsets and the taper W used when the taper table has no row.</p>
+          )}
+        </div>
+
+        {/* Intersection Approaches (intersections only) */}
+        {roadType === "intersection" && (
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1 uppercase tracking-wide">
+              Approaches
+            </label>
+            <div className="grid grid-cols-[1fr_5rem_4rem] gap-2 items-center">
+              <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wide">Leg</span>
+              <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wide">Speed</span>
+              <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wide">Lanes</span>
+              {APPROACH_LEGS.map(({ leg, label }) => (
+                <div key={leg} className="contents">
+                  <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={approachValues[leg].enabled}
+                      onChange={(e) => setApproachValues(prev => ({ ...prev, [leg]: { ...prev[leg], enabled: e.target.checked } }))}
+                      className="accent-[#FFB300]"
+                    />
+                    {label} leg
+                  </label>
+                  {(["speedMph", "lanes"] as const).map((field) => (
+                    <input
+                      key={field}
+                      type="number"
+                      aria-label={`${label} leg ${field === "speedMph" ? "speed (mph)" : "lanes"}`}
+                      value={approachValues[leg][field]}
+                      onChange={(e) => setApproachValues(prev => ({ ...prev, [leg]: { ...prev[leg], [field]: e.target.value } }))}
+                      onBlur={() => markTouched("approaches")}
+                      disabled={!approachValues[leg].enabled}
+                      min={field === "speedMph" ? 15 : 1}
+                      step={field === "speedMph" ? 5 : 1}
+                      placeholder={field === "speedMph" ? postedSpeedMph : undefined}
+                      className={`w-full px-2 py-1 bg-slate-50 border rounded-sm text-slate-900 font-mono text-xs focus:ring-1 focus:ring-[#FFB300] focus:border-[#FFB300] disabled:opacity-40 ${
+                        approachesError && touchedFields.has("approaches") ? "border-red-300 bg-red-50" : "border-slate-200"
+                      }`}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            {approachesError && touchedFields.has("approaches") ? (
+              <p className="mt-1 text-xs text-red-600 font-medium">{approachesError}</p>
+            ) : (
+              <p className="mt-1 text-[10px] text-slate-400">Each leg gets its own advance signs and flagger. Blank speed uses the posted speed.</p>
+            )}
+          </div>
+        )}
+
+        {/* Signal / STOP control (flaggers may not direct traffic against an active signal or STOP sign) */}
+        <div>
+          <label className="flex items-center gap-2 text-xs font-semibold text-slate-500 uppercase tracking-wide cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hasSignalOrStopControl}
+              onChange={(e) => setHasSignalOrStopControl(e.target.checked)}
+              className="accent-[#FFB300]"
+            />
+            Signal or STOP Control
+          </label>
+          <p className="mt-1 text-[10px] text-slate-400">Work is at a traffic signal or STOP sign. Checked against flagger placement in the field layout.</p>
+        </div>
+
+        {/* Jurisdiction (rules pack) */}
+        <div>
+          <label htmlFor="jurisdiction" className="block text-xs font-semibold text-slate-500 mb-1 uppercase tracking-wide">
+            Jurisdiction
+          </label>
+          <select
+            id="jurisdiction"
+            value={jurisdiction}
+            onChange={(e) => setJurisdiction(e.target.value as JurisdictionId | "auto")}
+            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-sm text-slate-900 text-sm focus:ring-1 focus:ring-[#FFB300] focus:border-[#FFB300]"
+          >
+            <option value="auto">Auto (from work zone location)</option>
+            {JURISDICTION_OPTIONS.map(({ id, label }) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-[10px] text-slate-400">Selects the spacing and sign tables used for this job.</p>
+        </div>
       </div>
 
       {/* SECTION 2: WORK SETTINGS */}
@@ -313,6 +660,15 @@ export default function JobDetailsForm({ onChange }: JobDetailsFormProps) {
               </option>
             ))}
           </select>
+          {workType === "full_closure" && (
+            <p className="mt-1 text-[10px] text-slate-400">Draw the detour route on the map after defining the work zone.</p>
+          )}
+          {workType === "sidewalk_closure" && (
+            <p className="mt-1 text-[10px] text-slate-400">Draw the pedestrian route from crosswalk to crosswalk after defining the work zone.</p>
+          )}
+          {workType === "bike_lane_closure" && (
+            <p className="mt-1 text-[10px] text-slate-400">Enter the bike lane width under Cross-Section so bike signs are set clear of it.</p>
+          )}
         </div>
 
         {/* Work Length */}
@@ -346,6 +702,61 @@ export default function JobDetailsForm({ onChange }: JobDetailsFormProps) {
           )}
         </div>
 
+        {/* Traffic Volume (optional) */}
+        <div>
+          <label htmlFor="trafficVolume" className="block text-xs font-semibold text-slate-500 mb-1 uppercase tracking-wide">
+            Traffic Volume <span className="text-slate-400 normal-case font-normal">(optional)</span>
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="number"
+              id="trafficVolume"
+              value={trafficVolume}
+              onChange={(e) => setTrafficVolume(e.target.value)}
+              onBlur={() => markTouched("trafficVolume")}
+              min={1}
+              placeholder={volumeUnit === "vph" ? "e.g. 600" : "e.g. 8000"}
+              className={`col-span-2 w-full px-3 py-2 bg-slate-50 border rounded-sm text-slate-900 font-mono text-sm focus:ring-1 focus:ring-[#FFB300] focus:border-[#FFB300] transition-colors ${
+                volumeError && touchedFields.has("trafficVolume") ? "border-red-300 bg-red-50" : "border-slate-200"
+              }`}
+              aria-invalid={volumeError ? "true" : "false"}
+              aria-describedby={volumeError ? "volume-error" : undefined}
+            />
+            <select
+              value={volumeUnit}
+              onChange={(e) => setVolumeUnit(e.target.value as VolumeUnit)}
+              aria-label="Volume unit"
+              className="w-full px-2 py-2 bg-slate-50 border border-slate-200 rounded-sm text-slate-900 text-sm focus:ring-1 focus:ring-[#FFB300] focus:border-[#FFB300]"
+            >
+              <option value="vph">veh/h</option>
+              <option value="adt">ADT</option>
+            </select>
+          </div>
+          <div className="mt-2 flex items-center gap-2">
+            <label htmlFor="directionalSplit" className="text-[10px] font-semibold text-slate-500 uppercase tracking-wide">
+              Directional Split
+            </label>
+            <input
+              type="number"
+              id="directionalSplit"
+              value={directionalSplitPct}
+              onChange={(e) => setDirectionalSplitPct(e.target.value)}
+              onBlur={() => markTouched("trafficVolume")}
+              min={50}
+              max={100}
+              className="w-20 px-2 py-1 bg-slate-50 border border-slate-200 rounded-sm text-slate-900 font-mono text-xs focus:ring-1 focus:ring-[#FFB300] focus:border-[#FFB300]"
+            />
+            <span className="text-[10px] text-slate-400">% in heavier direction</span>
+          </div>
+          {volumeError && touchedFields.has("trafficVolume") ? (
+            <p id="volume-error" className="mt-1 text-xs text-red-600 font-medium">
+              {volumeError}
+            </p>
+          ) : (
+            <p className="mt-1 text-[10px] text-slate-400">Two-way volume. Used to estimate flagger queues and delay.</p>
+          )}
+        </div>
+
         {/* Day/Night Toggle */}
         <div>
           <span className="block text-xs font-semibold text-slate-500 mb-2 uppercase tracking-wide">Time of Operation</span>
@@ -32,6 +32,8 @@ import "mapbox-gl/dist/mapbox-gl.css";
 import "@mapbox/mapbox-gl-draw/dist/mapbox-gl-draw.css";
 import "@mapbox/mapbox-gl-geocoder/dist/mapbox-gl-geocoder.css";
 
+import type { RoadPolyline } from "@/lib/layoutTypes";
+
 export type GeometryOutput =
   | { type: "bbox"; bbox: [number, number, number, number] }
   | { type: "polygon"; polygon: number[][][] };
@@ -44,6 +46,12 @@ export interface MapSelectorProps {
     geometry: GeometryOutput | null,
     locationLabel: string
   ) => void;
+  /** Show the detour route tool (full road closures and sidewalk closures) */
+  detourEnabled?: boolean;
+  /** What the drawn route is for: a vehicle detour or a temporary pedestrian route */
+  detourKind?: "vehicle" | "pedestrian";
+  /** Called with the drawn detour route, or null when it is removed */
+  onDetourChange?: (route: RoadPolyline | null) => void;
 }
 
 // Constants for corridor generation
@@ -174,11 +182,18 @@ const ROAD_LAYERS = [
   "road-service",
 ];
 
-export default function MapSelector({ mapToken, onGeometryChange }: MapSelectorProps) {
+export default function MapSelector({
+  mapToken,
+  onGeometryChange,
+  detourEnabled = false,
+  detourKind = "vehicle",
+  onDetourChange,
+}: MapSelectorProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<mapboxgl.Map | null>(null);
   const drawRef = useRef<MapboxDraw | null>(null);
   const locationLabelRef = useRef<string>("");
+  const onDetourChangeRef = useRef(onDetourChange);
   const clickMarkersRef = useRef<mapboxgl.Marker[]>([]);
   const previewPolygonRef = useRef<string | null>(null);
 
@@ -186,12 +201,18 @@ export default function MapSelector({ mapToken, onGeometryChange }: MapSelectorP
   const [isDrawing, setIsDrawing] = useState(false);
   const [workZoneMode, setWorkZoneMode] = useState<WorkZoneMode>("roadSegment");
   const [clickPoints, setClickPoints] = useState<[number, number][]>([]);
+  const [isDrawingDetour, setIsDrawingDetour] = useState(false);
 
   // Keep ref in sync with state for use in callbacks
   useEffect(() => {
     locationLabelRef.current = locationLabel;
   }, [locationLabel]);
 
+  // Ref so a new callback identity doesn't re-create the map
+  useEffect(() => {
+    onDetourChangeRef.current = onDetourChange;
+  }, [onDetourChange]);
+
   const clearClickMarkers = useCallback(() => {
     clickMarkersRef.current.forEach(m => m.remove());
     clickMarkersRef.current = [];
@@ -262,8 +283,9 @@ export default function MapSelector({ mapToken, onGeometryChange }: MapSelectorP
   const processGeometry = useCallback(() => {
     if (!drawRef.current) return;
 
-    const data = drawRef.current.getAll();
-    const features = data.features;
+    // Detour lines share the draw control; only polygons define the work zone
+    const features = drawRef.current.getAll().features
+      .filter((f) => f.geometry.type === "Polygon");
 
     if (features.length === 0) {
       onGeometryChange(null, locationLabelRef.current);
@@ -296,6 +318,23 @@ export default function MapSelector({ mapToken, onGeometryChange }: MapSelectorP
     }
   }, [onGeometryChange]);
 
+  const processDetour = useCallback(() => {
+    if (!drawRef.current) return;
+
+    // Take the last drawn line as the detour route
+    const lines = drawRef.current.getAll().features
+      .filter((f) => f.geometry.type === "LineString");
+    const line = lines[lines.length - 1];
+
+    if (!line || line.geometry.type !== "LineString" || line.geometry.coordinates.length < 2) {
+      onDetourChangeRef.current?.(null);
+      return;
+    }
+
+    const route: RoadPolyline = line.geometry.coordinates.map((c) => [c[0], c[1]] as [number, number]);
+    onDetourChangeRef.current?.(route);
+  }, []);
+
   // Handle click for Road Segment or Intersection mode
   const handleMapClick = useCallback((e: mapboxgl.MapMouseEvent) => {
     const map = mapRef.current;
@@ -442,19 +481,31 @@ export default function MapSelector({ mapToken, onGeometryChange }: MapSelectorP
       }
     });
 
-    map.on("draw.create", () => {
+    // Route each draw change to the work zone or the detour handler
+    const handleDrawChange = (e: { features: GeoJSON.Feature[] }) => {
+      const isDetourChange = e.features.length > 0 &&
+        e.features.every((f) => f.geometry.type === "LineString");
+      if (isDetourChange) {
+        processDetour();
+      } else {
+        processGeometry();
+      }
+    };
+
+    map.on("draw.create", (e: { features: GeoJSON.Feature[] }) => {
       setIsDrawing(false);
-      processGeometry();
+      setIsDrawingDetour(false);
+      handleDrawChange(e);
     });
-    map.on("draw.update", processGeometry);
-    map.on("draw.delete", processGeometry);
+    map.on("draw.update", handleDrawChange);
+    map.on("draw.delete", handleDrawChange);
 
     return () => {
       map.remove();
       mapRef.current = null;
       drawRef.current = null;
     };
-  }, [mapToken, processGeometry]);
+  }, [mapToken, processGeometry, processDetour]);
 
   // Attach/detach click handler based on mode and drawing state
   useEffect(() => {
@@ -486,6 +537,7 @@ export default function MapSelector({ mapToken, onGeometryChange }: MapSelectorP
     clearClickMarkers();
     clearPreviewPolygon();
     setClickPoints([]);
+    setIsDrawingDetour(false);
     
     if (workZoneMode === "area") {
       // Use MapboxDraw for polygon mode
@@ -507,12 +559,30 @@ export default function MapSelector({ mapToken, onGeometryChange }: MapSelectorP
     clearPreviewPolygon();
     setClickPoints([]);
     setIsDrawing(false);
+    setIsDrawingDetour(false);
     if (mapRef.current) {
       mapRef.current.getCanvas().style.cursor = "";
     }
     onGeometryChange(null, locationLabelRef.current);
   };
 
+  const handleStartDetour = () => {
+    const draw = drawRef.current;
+    if (!draw) return;
+
+    // One detour route at a time: replace any existing line
+    const existingLines = draw.getAll().features
+      .filter((f) => f.geometry.type === "LineString")
+      .map((f) => String(f.id));
+    if (existingLines.length > 0) {
+      draw.delete(existingLines);
+      onDetourChangeRef.current?.(null);
+    }
+
+    draw.changeMode("draw_line_string");
+    setIsDrawingDetour(true);
+  };
+
   // Mode descriptions
   const modeInfo = {
     roadSegment: {
@@ -591,9 +661,34 @@ export default function MapSelector({ mapToken, onGeometryChange }: MapSelectorP
         >
           Clear
         </button>
+        {detourEnabled && (
+          <button
+            type="button"
+            onClick={handleStartDetour}
+            disabled={isDrawing}
+            className={`px-4 py-2 text-sm font-medium rounded-md border transition-colors disabled:opacity-50 ${
+              isDrawingDetour
+                ? "bg-orange-500 text-white border-orange-600"
+                : "bg-white text-orange-700 border-orange-300 hover:bg-orange-50"
+            }`}
+          >
+            {detourKind === "pedestrian"
+              ? (isDrawingDetour ? "Drawing route..." : "Draw Pedestrian Route")
+              : (isDrawingDetour ? "Drawing detour..." : "Draw Detour Route")}
+          </button>
+        )}
       </div>
 
       {/* Instructions */}
+      {isDrawingDetour && (
+        <div className="text-sm text-orange-600 bg-orange-50 px-3 py-2 rounded-md">
+          {detourKind === "pedestrian" ? (
+            <p>🚶 Click from the crosswalk before the closure, across and along the other side, to the crosswalk after it. <strong>Double-click to finish</strong></p>
+          ) : (
+            <p>↪ Click along the detour from the closure to where traffic rejoins. <strong>Double-click to finish</strong></p>
+          )}
+        </div>
+      )}
       {isDrawing && (
         <div className="text-sm text-orange-600 bg-orange-50 px-3 py-2 rounded-md">
           {workZoneMode === "roadSegment" && clickPoints.length === 0 && (
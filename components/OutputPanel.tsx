@@ -2,8 +2,9 @@
 
 import { useState, useRef, useMemo } from "react";
 import dynamic from "next/dynamic";
-import { TcpDraftResponse, CoverageInfo } from "@/lib/tcpTypes";
+import { TcpDraftResponse, CoverageInfo, PlanTaper, PlanMobileOperation, PlanDetour, PlanSignScheduleEntry, PlanNight } from "@/lib/tcpTypes";
 import DiagramPreview from "./DiagramPreview";
+import DerivationDetails from "./DerivationDetails";
 import { TransitionPanel } from "./TransitionPanel";
 import { InView } from "./motion/InView";
 import { AnimatedValue } from "./motion/AnimatedValue";
@@ -13,6 +14,10 @@ import {
   DiagramPlanData,
 } from "@/lib/diagram/types";
 import { FieldLayout, RoadPolyline } from "@/lib/layoutTypes";
+import { JurisdictionId } from "@/src/rules/rulesTypes";
+import { CrossSection, checkCrossSection } from "@/src/rules/checkCrossSection";
+import { mapWorkTypeToOperation } from "@/src/rules/resolveTcpRules";
+import { ComplianceJobInput } from "@/src/rules/validateLayoutCompliance";
 
 // Dynamic import for FieldLayoutPanel to avoid SSR issues with Mapbox
 const FieldLayoutPanel = dynamic(() => import("./FieldLayoutPanel"), {
@@ -24,6 +29,63 @@ const FieldLayoutPanel = dynamic(() => import("./FieldLayoutPanel"), {
   ),
 });
 
+const TAPER_LABELS: Record<PlanTaper["type"], string> = {
+  merging: "Merging",
+  shifting: "Shifting",
+  shoulder: "Shoulder",
+  downstream: "Downstream",
+  one_lane_two_way: "One-lane two-way",
+};
+
+const VEHICLE_LABELS: Record<PlanMobileOperation["vehicles"][number]["role"], string> = {
+  work: "Work vehicle",
+  shadow: "Shadow vehicle",
+  advance_warning: "Advance warning vehicle",
+};
+
+const SIGN_STAND_LABELS: Record<PlanSignScheduleEntry["standType"], string> = {
+  portable_stand: "Portable stand",
+  barricade_mounted: "On barricade",
+};
+
+const DETOUR_TURN_LABELS: Record<PlanDetour["decisionPoints"][number]["turn"], string> = {
+  left: "Turn left",
+  right: "Turn right",
+  ahead: "Straight ahead",
+};
+
+// Resolved values without a dedicated "why" toggle next to them (keys match the resolver citations)
+const DERIVATION_LABELS: Array<[string, string]> = [
+  ["signSpacing", "Sign spacing"],
+  ["coneSpacing", "Cone spacing"],
+  ["drumsRequired", "Channelizing devices"],
+  ["arrowBoard", "Arrow board"],
+  ["flaggers", "Flaggers"],
+  ["requiredSigns", "Required signs"],
+  ["mobile", "Mobile vehicle train"],
+  ["detour", "Detour signing"],
+  ["pedestrian", "Pedestrian route"],
+  ["bike", "Bike lane treatment"],
+  ["intersection", "Intersection approaches"],
+  ["speedReduction", "Work zone speed limit"],
+  ["night", "Night operations"],
+];
+
+/**
+ * Checklist lines for the night operations package: placed lighting first, then the pack's
+ * requirements as written (retroreflectivity, cone height, visibility distance)
+ */
+function buildNightChecklist(night: PlanNight): string[] {
+  return [
+    ...(night.flaggerStationLightTowers > 0
+      ? [`Illuminate each flagger station (${night.flaggerStationLightTowers} light tower${night.flaggerStationLightTowers === 1 ? "" : "s"} per station)`]
+      : []),
+    `Light towers along the work space every ${night.lightTowerSpacingFt} ft, aimed away from approaching traffic`,
+    ...(night.barricadeWarningLight ? [`${night.barricadeWarningLight} warning light on each barricade`] : []),
+    ...night.requirements,
+  ];
+}
+
 // Industrial transition variants - subtle fade + slight translateY
 const panelVariants = {
   enter: { opacity: 0, y: 6 },
@@ -52,6 +114,9 @@ export interface JobInfoForExport {
   workType: string;
   workLengthFt: number;
   isNight: boolean;
+  jurisdiction?: JurisdictionId;
+  crossSection?: CrossSection;
+  hasSignalOrStopControl?: boolean;
   jobOwner?: JobOwnerInfo;
 }
 
@@ -146,6 +211,10 @@ export default function OutputPanel({
       "shoulder_work": "shoulder_work",
       "lane_closure": "lane_closure",
       "one_lane_two_way_flaggers": "one_lane_two_way_flaggers",
+      "mobile_operation": "mobile_operation",
+      "full_closure": "full_closure",
+      "sidewalk_closure": "sidewalk_closure",
+      "bike_lane_closure": "bike_lane_closure",
     };
 
     return {
@@ -157,19 +226,46 @@ export default function OutputPanel({
     };
   }, [jobInfo]);
 
+  // Job inputs for the field layout compliance check
+  const complianceJob: ComplianceJobInput | null = useMemo(() => {
+    if (!diagramJob || !jobInfo) return null;
+    const widths = jobInfo.crossSection
+      ? checkCrossSection({
+          crossSection: jobInfo.crossSection,
+          operation: mapWorkTypeToOperation(diagramJob.workType),
+          speedMph: diagramJob.postedSpeedMph,
+          advanceSignCount: 0,
+          jurisdiction: jobInfo.jurisdiction,
+        }).compliance
+      : {};
+    return {
+      postedSpeedMph: diagramJob.postedSpeedMph,
+      workType: diagramJob.workType,
+      isNight: diagramJob.isNight,
+      ...widths,
+      pedestrianChannelization: diagramJob.workType === "sidewalk_closure",
+      hasSignalOrStopControl: jobInfo.hasSignalOrStopControl,
+      jurisdiction: jobInfo.jurisdiction,
+    };
+  }, [diagramJob, jobInfo]);
+
   // Convert response plan to DiagramPlanData format
   const diagramPlan: DiagramPlanData | null = useMemo(() => {
     if (!response?.plan) return null;
     
     return {
       signSpacing: response.plan.signSpacing.map(s => ({
-        label: s.label as "A" | "B" | "C",
+        label: s.label,
         distanceFt: s.distanceFt,
       })),
       taperLengthFt: response.plan.taperLengthFt,
       bufferLengthFt: response.plan.bufferLengthFt,
       devices: response.plan.devices,
       recommendedLayout: response.plan.recommendedLayout,
+      tapers: response.plan.tapers,
+      mobile: response.plan.mobile,
+      detour: response.plan.detour,
+      bike: response.plan.bike,
     };
   }, [response?.plan]);
 
@@ -520,6 +616,7 @@ export default function OutputPanel({
                   height={350}
                   geometry={geometry}
                   diagramJob={diagramJob}
+                  complianceJob={complianceJob}
                   diagramPlan={null}
                   onRoadFeaturesExtracted={onRoadFeaturesExtracted}
                   hasGeneratedPlan={false}
@@ -798,6 +895,7 @@ export default function OutputPanel({
                         height={350}
                         geometry={geometry}
                         diagramJob={diagramJob}
+                        complianceJob={complianceJob}
                         diagramPlan={diagramPlan}
                         onRoadFeaturesExtracted={onRoadFeaturesExtracted}
                         hasGeneratedPlan={true}
@@ -919,7 +1017,12 @@ export default function OutputPanel({
                                 <tbody className="divide-y divide-slate-100">
                                   {(response?.plan?.signSpacing ?? []).map((sign) => (
                                     <tr key={sign.label} className="bg-white hover:bg-slate-50 transition-colors">
-                                      <td className="py-2 px-3 font-bold text-amber-600 font-mono">{sign.label}</td>
+                                      <td className="py-2 px-3 font-bold text-amber-600 font-mono">
+                                        {sign.label}
+                                        {sign.mutcdCode && (
+                                          <span className="ml-2 text-[10px] font-medium text-slate-400" title={sign.signCode}>{sign.mutcdCode}</span>
+                                        )}
+                                      </td>
                                       <td className="py-2 px-3 text-right text-slate-700 font-mono">
                                         <AnimatedValue value={sign.distanceFt} suffix=" ft" className="font-mono" />
                                       </td>
@@ -928,6 +1031,7 @@ export default function OutputPanel({
                                 </tbody>
                               </table>
                             </div>
+                            <DerivationDetails derivation={response?.plan?.derivations?.advanceSignDistances} />
                           </div>
 
                           {/* Taper & Buffer - Defensive: optional chaining */}
@@ -942,6 +1046,25 @@ export default function OutputPanel({
                                   className="text-sm font-bold text-slate-900 font-mono" 
                                 />
                               </div>
+                              <DerivationDetails derivation={response?.plan?.derivations?.taperLength} />
+                              {(response?.plan?.tapers?.length ?? 0) > 0 && (
+                                <ul className="mt-1 space-y-1">
+                                  {(response?.plan?.tapers ?? []).map((taper, i) => (
+                                    <li
+                                      key={`${taper.type}-${taper.position}-${i}`}
+                                      className="flex items-center justify-between px-2 py-1 text-xs border border-slate-100 rounded-sm"
+                                      title={taper.citation}
+                                    >
+                                      <span className="text-slate-600">
+                                        {TAPER_LABELS[taper.type]} <span className="text-slate-400">({taper.lengthRule}, {taper.position})</span>
+                                      </span>
+                                      <span className="font-mono text-slate-800">
+                                        {taper.lengthFt} ft · {taper.deviceCount} dev
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
                             </div>
                             <div>
                               <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">Buffer Length</span>
@@ -953,7 +1076,230 @@ export default function OutputPanel({
                                   className="text-sm font-bold text-slate-900 font-mono" 
                                 />
                               </div>
+                              <DerivationDetails derivation={response?.plan?.derivations?.bufferLength} />
                             </div>
+                            {response?.plan?.mobile && (
+                              <div>
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">Mobile Operation</span>
+                                <ul className="space-y-1" title={response.plan.mobile.citation}>
+                                  {response.plan.mobile.vehicles.map((vehicle) => (
+                                    <li
+                                      key={vehicle.role}
+                                      className="flex items-center justify-between px-2 py-1 text-xs border border-slate-100 rounded-sm"
+                                    >
+                                      <span className="text-slate-600">
+                                        {VEHICLE_LABELS[vehicle.role]}
+                                        {(vehicle.tma || vehicle.arrowBoard) && (
+                                          <span className="text-slate-400"> ({[vehicle.tma && "TMA", vehicle.arrowBoard && "arrow board"].filter(Boolean).join(" + ")})</span>
+                                        )}
+                                      </span>
+                                      <span className="font-mono text-slate-800">
+                                        {vehicle.role === "work" ? "lead" : `${vehicle.offsetFt} ft back`}
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                                <p className="mt-1 text-[10px] text-slate-500">
+                                  Signs leapfrog every {response.plan.mobile.leapfrogIntervalFt} ft
+                                </p>
+                              </div>
+                            )}
+                            {response?.plan?.detour && (
+                              <div>
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">Road Closure &amp; Detour</span>
+                                <p className="px-2 py-1 text-xs text-slate-600" title={response.plan.detour.citation}>
+                                  {response.plan.detour.barricadeType} barricades with {response.plan.detour.closureSign} at both closure points
+                                </p>
+                                {response.plan.detour.decisionPoints.length > 0 ? (
+                                  <ul className="space-y-1">
+                                    {response.plan.detour.decisionPoints.map((point) => (
+                                      <li
+                                        key={point.sequence}
+                                        className="flex items-center justify-between px-2 py-1 text-xs border border-slate-100 rounded-sm"
+                                      >
+                                        <span className="text-slate-600">
+                                          D{point.sequence} · {DETOUR_TURN_LABELS[point.turn]}
+                                          <span className="text-slate-400"> ({point.signs.join(" + ")})</span>
+                                        </span>
+                                        <span className="font-mono text-slate-800">{point.distanceFt} ft</span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                ) : (
+                                  <p className="px-2 text-[10px] text-amber-600">No detour route drawn — add one on the map and regenerate</p>
+                                )}
+                                {response.plan.detour.lengthFt > 0 && (
+                                  <p className="mt-1 text-[10px] text-slate-500">
+                                    Detour length ~{response.plan.detour.lengthFt} ft
+                                  </p>
+                                )}
+                              </div>
+                            )}
+                            {response?.plan?.pedestrian && (
+                              <div>
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">Sidewalk Closure &amp; Pedestrian Route</span>
+                                <ul className="space-y-1" title={response.plan.pedestrian.citation}>
+                                  <li className="px-2 py-1 text-xs border border-slate-100 rounded-sm text-slate-600">
+                                    {response.plan.pedestrian.channelizingDevice}s with {response.plan.pedestrian.closureSign} across both ends
+                                    {response.plan.pedestrian.conesProhibited && <span className="text-slate-400"> (no cones)</span>}
+                                  </li>
+                                  <li className="px-2 py-1 text-xs border border-slate-100 rounded-sm text-slate-600">
+                                    {response.plan.pedestrian.useOtherSideSign} at the crosswalk on each side
+                                  </li>
+                                  <li className="px-2 py-1 text-xs border border-slate-100 rounded-sm text-slate-600">
+                                    Route at least {response.plan.pedestrian.route.minWidthFt} ft wide, cross slope ≤ {response.plan.pedestrian.route.maxCrossSlopePct}%, running slope ≤ {response.plan.pedestrian.route.maxRunningSlopePct}%
+                                  </li>
+                                </ul>
+                                {response.plan.pedestrian.route.lengthFt > 0 ? (
+                                  <p className="mt-1 text-[10px] text-slate-500">
+                                    Pedestrian route ~{response.plan.pedestrian.route.lengthFt} ft
+                                    {response.plan.pedestrian.route.passingSpacesIfNarrow > 0 &&
+                                      ` · ${response.plan.pedestrian.route.passingSpacesIfNarrow} passing space(s) of ${response.plan.pedestrian.route.passingSpaceWidthFt}×${response.plan.pedestrian.route.passingSpaceWidthFt} ft if narrower than ${response.plan.pedestrian.route.passingSpaceWidthFt} ft`}
+                                  </p>
+                                ) : (
+                                  <p className="px-2 text-[10px] text-amber-600">No pedestrian route drawn — add one on the map and regenerate</p>
+                                )}
+                              </div>
+                            )}
+                            {response?.plan?.bike && (
+                              <div>
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">Bike Lane Closure</span>
+                                <ul className="space-y-1" title={response.plan.bike.citation}>
+                                  <li className="px-2 py-1 text-xs border border-slate-100 rounded-sm text-slate-600">
+                                    {response.plan.bike.closedAheadSign} {response.plan.bike.advanceSignDistanceFt} ft before the bike lane taper
+                                  </li>
+                                  {response.plan.bike.treatment === "shared_lane" ? (
+                                    <li className="px-2 py-1 text-xs border border-slate-100 rounded-sm text-slate-600">
+                                      Bikes merge into a shared lane: {response.plan.bike.mergeSign} at the taper, {response.plan.bike.fullLaneSign} along the work zone
+                                    </li>
+                                  ) : (
+                                    <li className="px-2 py-1 text-xs border border-amber-200 bg-amber-50 rounded-sm text-amber-700">
+                                      No bike merge above {response.plan.bike.mergeMaxSpeedMph} mph: provide a temporary bike lane (≥ {response.plan.bike.minTemporaryBikeLaneWidthFt} ft), a shared path (≥ {response.plan.bike.minSharedPathWidthFt} ft) or a bike detour
+                                    </li>
+                                  )}
+                                  {response.plan.bike.minClearWidthFt > 0 && (
+                                    <li className="px-2 py-1 text-xs border border-slate-100 rounded-sm text-slate-600">
+                                      Signs and supports leave at least {response.plan.bike.minClearWidthFt} ft of bike lane and sidewalk clear
+                                    </li>
+                                  )}
+                                </ul>
+                              </div>
+                            )}
+                            {response?.plan?.speedReduction && (
+                              <div>
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">
+                                  Work Zone Speed Limit ({response.plan.speedReduction.postedSpeedMph} → {response.plan.speedReduction.workZoneSpeedMph} mph)
+                                </span>
+                                <ul className="space-y-1" title={response.plan.speedReduction.citation}>
+                                  <li className="px-2 py-1 text-xs border border-slate-100 rounded-sm text-slate-600">
+                                    {response.plan.speedReduction.reductionSign} {response.plan.speedReduction.reductionSignDistanceFt} ft and {response.plan.speedReduction.speedLimitSign} {response.plan.speedReduction.speedLimitSignDistanceFt} ft before the work zone; {response.plan.speedReduction.endSign} {response.plan.speedReduction.endSignDistanceFt} ft past it
+                                  </li>
+                                  <li className="px-2 py-1 text-xs border border-slate-100 rounded-sm text-slate-600">
+                                    Advance signs at the posted speed, moved {response.plan.speedReduction.advanceWarningShiftFt} ft upstream; tapers and buffer at {response.plan.speedReduction.workZoneSpeedMph} mph
+                                  </li>
+                                  <li className="px-2 py-1 text-xs border border-amber-200 bg-amber-50 rounded-sm text-amber-700">
+                                    Requires {response.plan.speedReduction.authority}
+                                    {response.plan.speedReduction.statute && ` (${response.plan.speedReduction.statute})`}
+                                    {response.plan.speedReduction.orderRecipients.length > 0 && `; send to ${response.plan.speedReduction.orderRecipients.join(", ")}`}
+                                  </li>
+                                  {response.plan.speedReduction.orderContents.length > 0 && (
+                                    <li className="px-2 py-1 text-xs border border-slate-100 rounded-sm text-slate-600">
+                                      Order states: {response.plan.speedReduction.orderContents.join("; ")}
+                                    </li>
+                                  )}
+                                </ul>
+                              </div>
+                            )}
+                            {response?.plan?.intersection && (
+                              <div>
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">
+                                  Intersection Approaches ({response.plan.intersection.flaggerCount} flagger{response.plan.intersection.flaggerCount === 1 ? "" : "s"})
+                                </span>
+                                <ul className="space-y-1" title={response.plan.intersection.citation}>
+                                  {response.plan.intersection.approaches.map((approach) => (
+                                    <li
+                                      key={`${approach.name}-${approach.bearingDeg}`}
+                                      className="px-2 py-1 text-xs border border-slate-100 rounded-sm"
+                                      title={approach.citation}
+                                    >
+                                      <div className="flex items-center justify-between">
+                                        <span className="text-slate-600">
+                                          {approach.name}
+                                          <span className="text-slate-400"> ({approach.speedMph} mph, {approach.lanes} lane{approach.lanes === 1 ? "" : "s"})</span>
+                                        </span>
+                                        <span className="font-mono text-slate-800">{approach.signSpacingFt} ft spacing</span>
+                                      </div>
+                                      <p className="text-[10px] text-slate-500 font-mono">
+                                        {approach.signs.map((sign) => `${sign.mutcdCode} ${sign.sizeInches}" @ ${sign.distanceFt} ft`).join(" → ")}
+                                        {approach.flaggerCount > 0 && ` · ${approach.flaggerCount} flagger${approach.flaggerCount === 1 ? "" : "s"}`}
+                                      </p>
+                                    </li>
+                                  ))}
+                                  {response.plan.intersection.specialConditions.map((condition) => (
+                                    <li key={condition} className="px-2 py-1 text-xs border border-slate-100 rounded-sm text-slate-600">
+                                      {condition}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+                            {response?.plan?.queue && (
+                              <div>
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">Flagger Queue &amp; Delay</span>
+                                <ul className="space-y-1" title={response.plan.queue.citation}>
+                                  {response.plan.queue.directions.map((dir) => (
+                                    <li
+                                      key={dir.direction}
+                                      className="flex items-center justify-between px-2 py-1 text-xs border border-slate-100 rounded-sm"
+                                    >
+                                      <span className="text-slate-600">
+                                        {dir.direction === "peak" ? "Peak direction" : "Off-peak direction"}
+                                        <span className="text-slate-400"> ({dir.volumeVph} veh/h)</span>
+                                      </span>
+                                      <span className="font-mono text-slate-800">
+                                        {dir.queueLengthFt} ft · max {Math.round(dir.maxDelayS / 6) / 10} min
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                                <p className="mt-1 text-[10px] text-slate-500">
+                                  {response.plan.queue.twoWayVolumeVph} veh/h two-way
+                                  {response.plan.queue.volumeSource === "adt" ? " (from ADT)" : ""} · {response.plan.queue.cycleLengthS} s flagging cycle
+                                </p>
+                                {response.plan.queue.warnings.map((warning, i) => (
+                                  <p key={i} className="mt-1 px-2 py-1 text-[10px] text-amber-800 bg-amber-50 border border-amber-200 rounded-sm">
+                                    ⚠ {warning}
+                                  </p>
+                                ))}
+                              </div>
+                            )}
+                            {response?.plan?.crossSection && (
+                              <div>
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">Cross-Section Checks</span>
+                                <ul className="space-y-1">
+                                  {response.plan.crossSection.findings.map((finding) => (
+                                    <li
+                                      key={finding.constraintId}
+                                      className={`px-2 py-1 text-xs border rounded-sm ${
+                                        finding.passed ? "border-slate-100 text-slate-600" : "border-amber-200 bg-amber-50 text-amber-800"
+                                      }`}
+                                      title={finding.citation}
+                                    >
+                                      {finding.passed ? "✓" : "⚠"} {finding.message}
+                                      <span className="text-slate-400"> ({finding.requirement})</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                                <p className="mt-1 text-[10px] text-slate-500">
+                                  {response.plan.crossSection.openLanes} lane(s) open · {response.plan.crossSection.openWidthFt} ft open width · taper W = {response.plan.crossSection.taperWidthFt} ft
+                                </p>
+                                {response.plan.crossSection.parkingRemoval && (
+                                  <p className="mt-1 text-[10px] text-slate-500" title={response.plan.crossSection.parkingRemoval.citation}>
+                                    Remove {response.plan.crossSection.parkingRemoval.perSignFt} ft of parking in front of each sign ({response.plan.crossSection.parkingRemoval.totalFt} ft total)
+                                  </p>
+                                )}
+                              </div>
+                            )}
                           </div>
                         </div>
 
@@ -990,10 +1336,106 @@ export default function OutputPanel({
                             </div>
                           </div>
                         </div>
+
+                        {/* Sign Schedule - what the shop pulls for this job */}
+                        {(response?.plan?.signSchedule?.length ?? 0) > 0 && (
+                          <div>
+                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-2">Sign Schedule</span>
+                            <div className="border border-slate-200 rounded-sm overflow-hidden">
+                              <table className="w-full text-xs">
+                                <thead className="bg-slate-50 border-b border-slate-200">
+                                  <tr>
+                                    <th className="py-1.5 px-2 text-left text-[10px] font-bold text-slate-500 uppercase">MUTCD</th>
+                                    <th className="py-1.5 px-2 text-left text-[10px] font-bold text-slate-500 uppercase">Legend</th>
+                                    <th className="py-1.5 px-2 text-right text-[10px] font-bold text-slate-500 uppercase">Size</th>
+                                    <th className="py-1.5 px-2 text-right text-[10px] font-bold text-slate-500 uppercase">Qty</th>
+                                    <th className="py-1.5 px-2 text-left text-[10px] font-bold text-slate-500 uppercase">Stand</th>
+                                    <th className="py-1.5 px-2 text-left text-[10px] font-bold text-slate-500 uppercase">Flag / Light</th>
+                                  </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100">
+                                  {(response?.plan?.signSchedule ?? []).map((sign) => (
+                                    <tr key={sign.mutcdCode} className="bg-white" title={sign.citation}>
+                                      <td className="py-1.5 px-2 font-mono font-bold text-amber-600">{sign.mutcdCode}</td>
+                                      <td className="py-1.5 px-2 text-slate-700">{sign.legend}</td>
+                                      <td className="py-1.5 px-2 text-right font-mono text-slate-800">{sign.sizeInches}&quot;</td>
+                                      <td className="py-1.5 px-2 text-right font-mono text-slate-800">{sign.count}</td>
+                                      <td className="py-1.5 px-2 text-slate-600">{SIGN_STAND_LABELS[sign.standType]}</td>
+                                      <td className="py-1.5 px-2 text-slate-600">
+                                        {[sign.flagsRequired && "Flags", sign.lightRequired && "Light"].filter(Boolean).join(" + ") || "—"}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Night Operations Checklist - lighting and visibility items for night work */}
+                        {response?.plan?.night && (
+                          <div>
+                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-2">Night Operations Checklist</span>
+                            <ul className="space-y-1" title={response.plan.night.citation}>
+                              {buildNightChecklist(response.plan.night).map((item) => (
+                                <li key={item} className="px-2 py-1 text-xs border border-slate-100 rounded-sm text-slate-700">
+                                  ☐ {item}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
+                        {/* Why these values - derivation traces for the remaining resolved values */}
+                        {response?.plan?.derivations && (
+                          <div>
+                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-2">Why These Values</span>
+                            <ul className="space-y-1">
+                              {DERIVATION_LABELS.filter(([key]) => response.plan.derivations?.[key]).map(([key, label]) => (
+                                <li key={key} className="px-2 py-1 text-xs border border-slate-100 rounded-sm">
+                                  <div className="flex items-center justify-between">
+                                    <span className="text-slate-600">{label}</span>
+                                    <span className="font-mono text-slate-800">{response.plan.derivations?.[key].result}</span>
+                                  </div>
+                                  <DerivationDetails derivation={response.plan.derivations?.[key]} />
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </InView>
 
+                  {/* Discrepancies - model-proposed numbers the resolver values overrode */}
+                  {(response?.discrepancies?.length ?? 0) > 0 && (
+                    <InView variants="fadeUp" delay={0.22}>
+                      <div className="bg-amber-50 border border-amber-200 rounded-sm p-4 shadow-sm">
+                        <h3 className="text-xs font-bold text-amber-800 uppercase tracking-wide mb-1">
+                          Handbook Discrepancies
+                        </h3>
+                        <p className="text-[11px] text-amber-700 mb-2">
+                          The plan uses the rules pack value. Review the excerpt the model cited before changing it.
+                        </p>
+                        <ul className="space-y-1">
+                          {(response?.discrepancies ?? []).map((d, i) => (
+                            <li key={`${d.field}-${i}`} className="px-2 py-1 text-xs bg-white border border-amber-100 rounded-sm">
+                              <div className="flex items-center justify-between">
+                                <span className="font-mono text-slate-600">{d.field}</span>
+                                <span className="font-mono text-slate-800">
+                                  {String(d.resolvedValue)} <span className="text-amber-600">(model: {String(d.modelValue)})</span>
+                                </span>
+                              </div>
+                              <p className="text-[10px] text-slate-500">
+                                Rules pack: {d.resolvedCitation ?? "resolver default"} · Model: {d.modelReferences.join(", ") || "no citation"}
+                              </p>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </InView>
+                  )}
+
                   {/* Assumptions - Defensive: optional chaining */}
                   {(response?.assumptions?.length ?? 0) > 0 && (
                     <InView variants="fadeUp" delay={0.24}>
@@ -1010,8 +1452,35 @@ export default function OutputPanel({
                     </InView>
                   )}
 
+                  {/* Supporting Excerpts - retrieved text that states each plan number */}
+                  {(Object.keys(response?.fieldSupport ?? {}).length > 0 || (response?.unsupportedFields?.length ?? 0) > 0) && (
+                    <InView variants="fadeUp" delay={0.27}>
+                      <div className="bg-white border border-slate-200 rounded-sm p-4 shadow-sm">
+                        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-2">
+                          Supporting Excerpts
+                        </h3>
+                        <ul className="space-y-1">
+                          {Object.entries(response?.fieldSupport ?? {}).map(([field, support]) => (
+                            <li key={field} className="px-2 py-1 text-xs bg-slate-50 border border-slate-100 rounded-sm">
+                              <div className="flex items-center justify-between gap-2">
+                                <span className="font-mono text-slate-600">{field}</span>
+                                <span className="font-mono text-[10px] text-slate-400 truncate">{support.citation}</span>
+                              </div>
+                              <p className="text-[10px] text-slate-500 italic">{support.snippet}</p>
+                            </li>
+                          ))}
+                        </ul>
+                        {(response?.unsupportedFields?.length ?? 0) > 0 && (
+                          <p className="mt-2 text-[10px] text-amber-700">
+                            Unverified (no excerpt states the value): <span className="font-mono">{response?.unsupportedFields?.join(", ")}</span>
+                          </p>
+                        )}
+                      </div>
+                    </InView>
+                  )}
+
                   {/* References - Defensive: optional chaining */}
-                  {(response?.references?.length ?? 0) > 0 && (
+                  {((response?.references?.length ?? 0) > 0 || (response?.unverifiedReferences?.length ?? 0) > 0) && (
                     <InView variants="fadeUp" delay={0.3}>
                       <div className="bg-white border border-slate-200 rounded-sm p-4 shadow-sm">
                         <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-2">
@@ -1026,6 +1495,15 @@ export default function OutputPanel({
                               {ref}
                             </span>
                           ))}
+                          {(response?.unverifiedReferences ?? []).map((u, i) => (
+                            <span
+                              key={`unverified-${i}`}
+                              title={u.reason}
+                              className="inline-block bg-amber-50 text-amber-700 text-[10px] font-medium px-2 py-1 rounded-sm border border-amber-200 font-mono line-through"
+                            >
+                              {u.reference}
+                            </span>
+                          ))}
                         </div>
                       </div>
                     </InView>
@@ -0,0 +1,182 @@
+/**
+ * Citation Verification
+ *
+ * Checks the references a model writes ("HB::doc::p12::section", a chunk ID,
+ * or a prompt label such as "HB3") against the chunks actually retrieved for
+ * the request, and finds the retrieved excerpt that supports each plan number.
+ */
+
+import { formatCitation, SourceChunk, SourceKind } from "./retrieval";
+
+export interface VerifiedReference {
+  /** As the model wrote it */
+  reference: string;
+  /** Canonical citation of the matched chunk (formatCitation) */
+  citation: string;
+  chunkId: string;
+}
+
+export interface UnverifiedReference {
+  reference: string;
+  reason: string;
+}
+
+export interface ReferenceCheck {
+  verified: VerifiedReference[];
+  unverified: UnverifiedReference[];
+}
+
+export interface FieldEvidence {
+  field: string;
+  /** Topic terms to look for in the excerpt text */
+  keyword: RegExp;
+  /** Number the excerpt must state: a length in feet near the keyword, or a count right before it */
+  value: number;
+  /** How the value is written (default "ft") */
+  unit?: "ft" | "count";
+}
+
+export interface FieldSupport {
+  citation: string;
+  chunkId: string;
+  snippet: string;
+}
+
+// Excerpt text kept either side of the match for the snippet
+const SNIPPET_RADIUS_CHARS = 100;
+
+// How far from the keyword the value may sit (about a table row or a sentence)
+const VALUE_WINDOW_CHARS = 300;
+
+// Counts handbooks spell out ("one flagger for each approach")
+const COUNT_WORDS = ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten"];
+
+const KIND_PREFIX: Record<SourceKind, string> = { handbook: "HB", example: "EX" };
+
+/**
+ * Split "HB::doc::p12::section" into its parts (null when it is not a citation string)
+ */
+function parseCitation(reference: string): { kind: SourceKind; docName: string; page?: number } | null {
+  const parts = reference.split("::").map((part) => part.trim());
+  if (parts.length < 3 || (parts[0] !== "HB" && parts[0] !== "EX")) return null;
+  const page = /^p(\d+)$/i.exec(parts[2]);
+  return {
+    kind: parts[0] === "HB" ? "handbook" : "example",
+    docName: parts[1],
+    page: page ? Number(page[1]) : undefined,
+  };
+}
+
+/**
+ * Retrieved chunk a reference points at, or the reason none matches.
+ * Citation strings must match the document and page; the section is not
+ * checked because most chunks have none.
+ */
+function matchReference(reference: string, chunks: SourceChunk[]): SourceChunk | string {
+  const trimmed = reference.trim().replace(/^\[(.*)\]$/, "$1");
+
+  const exact = chunks.find((c) => c.id === trimmed || formatCitation(c) === trimmed);
+  if (exact) return exact;
+
+  const label = /^(HB|EX)(\d+)$/.exec(trimmed);
+  if (label) {
+    const ofKind = chunks.filter((c) => KIND_PREFIX[c.kind] === label[1]);
+    return ofKind[Number(label[2]) - 1] ?? `No ${label[1]}${label[2]} excerpt was retrieved`;
+  }
+
+  const parsed = parseCitation(trimmed);
+  if (!parsed) return "Not a citation string or retrieved chunk ID";
+
+  const sameDoc = chunks.filter(
+    (c) => c.kind === parsed.kind && c.docName.toLowerCase() === parsed.docName.toLowerCase()
+  );
+  if (sameDoc.length === 0) return `No excerpt from ${parsed.docName} was retrieved`;
+
+  const retrievedPages = sameDoc.map((c) => (c.pageNumber ? `p${c.pageNumber}` : "p?")).join(", ");
+  if (parsed.page === undefined) return `No page given (retrieved ${retrievedPages})`;
+  return sameDoc.find((c) => c.pageNumber === parsed.page)
+    ?? `Page ${parsed.page} of ${parsed.docName} was not retrieved (retrieved ${retrievedPages})`;
+}
+
+/**
+ * Sort references into those matching a retrieved chunk and those that do not.
+ * Verified references are de-duplicated by chunk.
+ */
+export function verifyReferences(references: string[], chunks: SourceChunk[]): ReferenceCheck {
+  const verified: VerifiedReference[] = [];
+  const unverified: UnverifiedReference[] = [];
+
+  for (const reference of references) {
+    const match = matchReference(reference, chunks);
+    if (typeof match === "string") {
+      unverified.push({ reference, reason: match });
+    } else if (!verified.some((v) => v.chunkId === match.id)) {
+      verified.push({ reference, citation: formatCitation(match), chunkId: match.id });
+    }
+  }
+
+  return { verified, unverified };
+}
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS_CHARS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS_CHARS);
+  const body = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${body}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Snippet where the text states the evidence: the value in feet near the
+ * keyword (bare numbers are too often speeds or labels), or a count written
+ * right before it ("2 flaggers", "two flaggers")
+ */
+function findSnippet(text: string, evidence: FieldEvidence): string | null {
+  if (evidence.unit === "count") {
+    const word = COUNT_WORDS[evidence.value];
+    const count = new RegExp(
+      `(?<![\\d.])(?:${evidence.value}${word ? `|\\b${word}` : ""})\\s+(?:${evidence.keyword.source})`,
+      "i"
+    );
+    const match = count.exec(text);
+    return match ? snippetAround(text, match.index, match[0].length) : null;
+  }
+
+  const keyword = new RegExp(evidence.keyword.source, "gi");
+  const value = new RegExp(`(?<![\\d.])${evidence.value}(?:\\s*|-)(?:ft|feet|foot|')`, "i");
+
+  for (const match of text.matchAll(keyword)) {
+    const index = match.index ?? 0;
+    const windowStart = Math.max(0, index - VALUE_WINDOW_CHARS);
+    const window = text.slice(windowStart, index + match[0].length + VALUE_WINDOW_CHARS);
+    const valueMatch = value.exec(window);
+    if (valueMatch) return snippetAround(text, windowStart + valueMatch.index, valueMatch[0].length);
+  }
+  return null;
+}
+
+/**
+ * For each field, the first retrieved excerpt that states it: chunks the
+ * model cited first, then other handbook chunks, then examples. Fields with
+ * no supporting excerpt are left out.
+ */
+export function findFieldSupport(
+  evidence: FieldEvidence[],
+  chunks: SourceChunk[],
+  citedChunkIds: string[] = []
+): Record<string, FieldSupport> {
+  const rank = (chunk: SourceChunk) =>
+    (citedChunkIds.includes(chunk.id) ? 0 : 2) + (chunk.kind === "handbook" ? 0 : 1);
+  const ordered = [...chunks].sort((a, b) => rank(a) - rank(b));
+
+  const support: Record<string, FieldSupport> = {};
+  for (const item of evidence) {
+    for (const chunk of ordered) {
+      const snippet = findSnippet(chunk.text, item);
+      if (snippet) {
+        support[item.field] = { citation: formatCitation(chunk), chunkId: chunk.id, snippet };
+        break;
+      }
+    }
+  }
+  return support;
+}
@@ -11,7 +11,7 @@
  * 3. Auto-layout and manual additions look identical because they use the exact same DOM factory.
  */
 
-import { DeviceType, SignSubtype, SIGN_SUBTYPES } from "./layoutTypes";
+import { DEVICE_ICONS, DeviceType, SignSubtype, SIGN_SUBTYPES } from "./layoutTypes";
 
 /**
  * Sign icon paths - maps SignSubtype to SVG file path
@@ -23,6 +23,18 @@ export const SIGN_ICON_SRC: Record<SignSubtype, string> = {
   rightLaneClosed: "/icons/signs/right-lane-closed.svg",
   leftLaneClosed: "/icons/signs/left-lane-closed.svg",
   oneLaneRoadAhead: "/icons/signs/one-lane-road.svg",
+  roadClosed: "/icons/signs/road-closed.svg",
+  detourLeft: "/icons/signs/detour-left.svg",
+  detourRight: "/icons/signs/detour-right.svg",
+  detourAhead: "/icons/signs/detour-ahead.svg",
+  sidewalkClosed: "/icons/signs/sidewalk-closed.svg",
+  sidewalkClosedUseOtherSide: "/icons/signs/sidewalk-closed-use-other-side.svg",
+  bikeLaneClosedAhead: "/icons/signs/bike-lane-closed-ahead.svg",
+  bikesMergeWithAutos: "/icons/signs/bikes-merge-with-autos.svg",
+  bikesMayUseFullLane: "/icons/signs/bikes-may-use-full-lane.svg",
+  speedReduction: "/icons/signs/speed-reduction.svg",
+  workZoneSpeedLimit: "/icons/signs/work-zone-speed-limit.svg",
+  endWorkZoneSpeedLimit: "/icons/signs/end-work-zone-speed-limit.svg",
   generic: "/icons/signs/generic-warning.svg",
 };
 
@@ -59,8 +71,8 @@ export function getDeviceIconSrc(type: DeviceType, subtype?: SignSubtype): strin
     // Arrow boards use sign-like styling
     return SIGN_ICON_SRC.generic;
   }
-  if (type === "flagger") {
-    // Flaggers get a special indicator (no icon file needed - we'll render as emoji/text)
+  if (type === "flagger" || type === "vehicle" || type === "lightTower" || type === "pedChannelizer") {
+    // Flaggers, vehicles, light towers and pedestrian channelizers get a special indicator (no icon file needed - we'll render as emoji/text)
     return ""; // Empty string indicates special rendering
   }
   // UNKNOWN TYPE - this should never happen
@@ -145,17 +157,17 @@ export function createDeviceMarkerElement(
     position: relative;
   `;
   
-  // Special rendering for flaggers (emoji/text instead of icon)
-  if (device.type === "flagger") {
-    const flaggerIcon = document.createElement("div");
-    flaggerIcon.textContent = "🚧";
-    flaggerIcon.style.cssText = `
+  // Special rendering for flaggers, vehicles, light towers and pedestrian channelizers (emoji/text instead of icon)
+  if (device.type === "flagger" || device.type === "vehicle" || device.type === "lightTower" || device.type === "pedChannelizer") {
+    const emojiIcon = document.createElement("div");
+    emojiIcon.textContent = DEVICE_ICONS[device.type].emoji;
+    emojiIcon.style.cssText = `
       font-size: ${size * 0.8}px;
       line-height: 1;
       pointer-events: none;
       filter: drop-shadow(0 1px 2px rgba(0,0,0,0.3));
     `;
-    el.appendChild(flaggerIcon);
+    el.appendChild(emojiIcon);
   } else {
     // Create image element for the icon (cones, signs, etc.)
     const img = document.createElement("img");
@@ -184,6 +196,9 @@ export function createDeviceMarkerElement(
     } else if (device.type === "flagger") {
       bgColor = "#4CAF50"; // Green for flaggers
       textColor = "#fff";
+    } else if (device.type === "vehicle") {
+      bgColor = "#1F2937"; // Dark for vehicles (W, S, AW)
+      textColor = "#fff";
     } else {
       bgColor = "#FF6B00"; // Orange for cones
       textColor = "#fff";
@@ -47,7 +47,11 @@ export function computeZoneProportions(
     ? calcAdvanceWarningFt(plan.signSpacing) 
     : 600; // Default placeholder
   
-  const taperFt = plan?.taperLengthFt ?? 180; // Default placeholder
+  // Taper zone shows the upstream taper when resolved tapers are available;
+  // mobile operations have no taper, so the zone shows the shadow vehicle spacing instead
+  const upstreamTaper = plan?.tapers?.find(t => t.position === "upstream");
+  const shadowVehicle = plan?.mobile?.vehicles.find(v => v.role === "shadow");
+  const taperFt = shadowVehicle?.offsetFt ?? upstreamTaper?.lengthFt ?? plan?.taperLengthFt ?? 180; // Default placeholder
   const bufferFt = plan?.bufferLengthFt ?? 100; // Default placeholder
   const workZoneFt = job?.workLengthFt ?? 500; // Default placeholder
 
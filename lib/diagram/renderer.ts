@@ -15,6 +15,10 @@ import {
   LayoutMode,
   DEFAULT_DIAGRAM_CONFIG,
   Devices,
+  DiagramTaper,
+  DiagramMobileVehicle,
+  DiagramDetour,
+  DiagramBikeLaneClosure,
 } from "./types";
 import { computeZoneProportions, getSignPositions } from "./proportions";
 
@@ -31,6 +35,13 @@ const COLORS = {
   signStroke: "#92400e",
   arrowBoard: "#111827",
   arrowBoardDots: "#f97316",
+  taperDevice: "#ea580c",
+  vehicle: "#1f2937",
+  vehicleTma: "#facc15",
+  detour: "#ea580c",
+  barricadeStripe: "#dc2626",
+  bikeLane: "#86efac",
+  bikeLaneClosed: "#fdba74",
   text: "#111827",
   textMuted: "#374151",
   placeholder: "#9ca3af",
@@ -80,10 +91,202 @@ function buildAccessibility(
     }
   }
 
+  let taperDesc = "";
+  if (plan?.tapers && plan.tapers.length > 0) {
+    taperDesc = ` Tapers: ${plan.tapers.map(t => `${formatTaperType(t)} ${t.lengthFt} feet`).join(", ")}.`;
+  }
+
+  let mobileDesc = "";
+  if (plan?.mobile) {
+    const vehicles = plan.mobile.vehicles
+      .map(v => v.role === "work" ? formatVehicleRole(v) : `${formatVehicleRole(v)} ${v.offsetFt} feet behind`)
+      .join(", ");
+    mobileDesc = ` Mobile operation vehicles: ${vehicles}. Signs leapfrog every ${plan.mobile.leapfrogIntervalFt} feet.`;
+  }
+
+  let detourDesc = "";
+  if (plan?.detour) {
+    const points = plan.detour.decisionPoints
+      .map(p => `D${p.sequence} ${formatDetourTurn(p.turn)}`)
+      .join(", ");
+    detourDesc = ` Road closed with barricades at both ends.` +
+      (points ? ` Detour ${plan.detour.lengthFt} feet with decision points ${points}.` : " No detour route drawn.");
+  }
+
+  let bikeDesc = "";
+  if (plan?.bike) {
+    bikeDesc = plan.bike.treatment === "shared_lane"
+      ? ` Bike lane closed ${plan.bike.advanceSignDistanceFt} feet after the BIKE LANE CLOSED AHEAD sign; bikes merge with autos into a shared lane.`
+      : ` Bike lane closed; bikes may not merge with autos above ${plan.bike.mergeMaxSpeedMph} mph and need a separate facility.`;
+  }
+
   return {
     title,
-    description: `${layoutMode === "intersection" ? "Intersection" : "Linear"} traffic control plan for ${workType} on ${roadType}. Taper length ${taperFt} feet, buffer ${bufferFt} feet, work zone ${workLengthFt} feet.${deviceDesc}`,
+    description: `${layoutMode === "intersection" ? "Intersection" : "Linear"} traffic control plan for ${workType} on ${roadType}. Taper length ${taperFt} feet, buffer ${bufferFt} feet, work zone ${workLengthFt} feet.${deviceDesc}${taperDesc}${mobileDesc}${detourDesc}${bikeDesc}`,
+  };
+}
+
+/**
+ * Human-readable detour turn, e.g. "turn left".
+ */
+function formatDetourTurn(turn: DiagramDetour["decisionPoints"][number]["turn"]): string {
+  return turn === "ahead" ? "straight ahead" : `turn ${turn}`;
+}
+
+/**
+ * Render a row of Type III barricades across the lane with a ROAD CLOSED legend.
+ */
+function renderClosureBarricade(laneLeft: number, laneWidth: number, y: number): string {
+  const width = laneWidth - 8;
+  const x = laneLeft + 4;
+  let stripes = "";
+  for (let sx = x; sx < x + width - 6; sx += 12) {
+    stripes += `<line x1="${sx}" y1="${y + 6}" x2="${sx + 6}" y2="${y - 6}" stroke="${COLORS.barricadeStripe}" stroke-width="3" />`;
+  }
+  return `
+    <rect x="${x}" y="${y - 6}" width="${width}" height="12" fill="#fff" stroke="${COLORS.barricadeStripe}" stroke-width="1.5" />
+    ${stripes}
+    <text x="${x + width / 2}" y="${y - 9}" text-anchor="middle" font-size="8" font-weight="bold" fill="${COLORS.text}">ROAD CLOSED</text>
+  `;
+}
+
+/**
+ * Render the detour as a dashed path leaving the road before the closure and
+ * rejoining beyond it, with a DETOUR marker per decision point.
+ */
+function renderDetour(detour: DiagramDetour, laneLeft: number, departY: number, rejoinY: number): string {
+  const pathX = laneLeft - 120;
+  const arrows: Record<DiagramDetour["decisionPoints"][number]["turn"], string> = {
+    left: "←",
+    right: "→",
+    ahead: "↑",
+  };
+  const count = detour.decisionPoints.length;
+
+  let svg = `
+    <path d="M ${laneLeft} ${departY} H ${pathX} V ${rejoinY} H ${laneLeft}" fill="none" stroke="${COLORS.detour}" stroke-width="3" stroke-dasharray="8 6" />
+    <text x="${pathX + 14}" y="${(departY + rejoinY) / 2}" font-size="11" fill="${COLORS.detour}" font-weight="bold" text-anchor="middle" transform="rotate(-90 ${pathX + 14} ${(departY + rejoinY) / 2})">
+      DETOUR${detour.lengthFt > 0 ? ` ~${detour.lengthFt} ft` : ""}
+    </text>
+  `;
+
+  // Decision points spread from the departure corner to the rejoin corner
+  detour.decisionPoints.forEach((point, i) => {
+    const t = count > 1 ? i / (count - 1) : 0;
+    const y = departY + (rejoinY - departY) * t;
+    svg += `
+    <rect x="${pathX - 14}" y="${y - 8}" width="28" height="16" rx="2" fill="${COLORS.detour}" stroke="${COLORS.text}" stroke-width="1" />
+    <text x="${pathX}" y="${y + 4}" text-anchor="middle" font-size="11" font-weight="bold" fill="${COLORS.text}">${arrows[point.turn]}</text>
+    <text x="${pathX - 20}" y="${y + 4}" text-anchor="end" font-size="10" fill="${COLORS.textMuted}">D${point.sequence}</text>
+  `;
+  });
+
+  return svg;
+}
+
+/**
+ * Render the bike lane along the left edge of the road: open in the advance
+ * warning area, closed from the taper through the work zone. Bike signs sit
+ * outside the bike lane (SIGN_CLEAR_OF_BIKE_LANE); on a shared lane an arrow
+ * shows bikes merging into the travel lane at the taper.
+ */
+function renderBikeLane(
+  bike: DiagramBikeLaneClosure,
+  laneLeft: number,
+  roadTop: number,
+  roadBottom: number,
+  closedTop: number,
+  taperBottom: number
+): string {
+  const width = 14;
+  const x = laneLeft - width;
+  const signX = x - 12;
+
+  let svg = `
+    <rect x="${x}" y="${roadTop}" width="${width}" height="${roadBottom - roadTop}" fill="${COLORS.bikeLane}" />
+    <rect x="${x}" y="${closedTop}" width="${width}" height="${taperBottom - closedTop}" fill="${COLORS.bikeLaneClosed}" />
+    <text x="${x + width / 2}" y="${(closedTop + taperBottom) / 2}" font-size="8" font-weight="bold" fill="${COLORS.text}" text-anchor="middle" transform="rotate(-90 ${x + width / 2} ${(closedTop + taperBottom) / 2})">BIKE LANE CLOSED</text>
+  `;
+
+  const signs: Array<{ label: string; y: number }> = [{ label: "BLC", y: taperBottom + 18 }];
+  if (bike.treatment === "shared_lane") {
+    signs.push({ label: "BM", y: taperBottom - 6 }, { label: "FL", y: closedTop + 16 });
+    svg += `<path d="M ${x + width / 2} ${taperBottom + 4} Q ${x + width / 2} ${taperBottom - 12} ${laneLeft + 12} ${taperBottom - 20}" fill="none" stroke="${COLORS.text}" stroke-width="1.5" marker-end="url(#arrowhead)" />`;
+  }
+  for (const sign of signs) {
+    svg += `
+    <rect x="${signX - 10}" y="${sign.y - 6}" width="20" height="12" rx="1" fill="${COLORS.signFill}" stroke="${COLORS.signStroke}" stroke-width="1" />
+    <text x="${signX}" y="${sign.y + 3}" text-anchor="middle" font-size="7" font-weight="bold" fill="${COLORS.text}">${sign.label}</text>
+  `;
+  }
+
+  return svg;
+}
+
+/**
+ * Human-readable vehicle name, e.g. "Shadow vehicle".
+ */
+function formatVehicleRole(vehicle: DiagramMobileVehicle): string {
+  const names: Record<DiagramMobileVehicle["role"], string> = {
+    work: "Work vehicle",
+    shadow: "Shadow vehicle",
+    advance_warning: "Advance warning vehicle",
+  };
+  return names[vehicle.role];
+}
+
+/**
+ * Render a mobile operation vehicle as a box in the lane, with TMA and
+ * arrow board annotations to the left of the road.
+ */
+function renderVehicle(x: number, y: number, vehicle: DiagramMobileVehicle): string {
+  const width = 20;
+  const height = 32;
+  const labels: Record<DiagramMobileVehicle["role"], string> = {
+    work: "W",
+    shadow: "S",
+    advance_warning: "AW",
   };
+  const equipment = [vehicle.tma ? "TMA" : "", vehicle.arrowBoard ? "Arrow board" : ""]
+    .filter(Boolean)
+    .join(" + ");
+
+  return `
+    <rect x="${x - width / 2}" y="${y - height / 2}" width="${width}" height="${height}" rx="3" fill="${COLORS.vehicle}" />
+    ${vehicle.tma ? `<rect x="${x - width / 2}" y="${y + height / 2}" width="${width}" height="5" fill="${COLORS.vehicleTma}" />` : ""}
+    <text x="${x}" y="${y}" text-anchor="middle" font-size="9" fill="#fff" font-weight="bold" dominant-baseline="middle">${labels[vehicle.role]}</text>
+    <text x="${x - width / 2 - 6}" y="${y}" text-anchor="end" font-size="9" fill="${COLORS.textMuted}" dominant-baseline="middle">
+      ${formatVehicleRole(vehicle)}${equipment ? ` (${equipment})` : ""}
+    </text>
+  `;
+}
+
+/**
+ * Human-readable taper name, e.g. "Merging taper".
+ */
+function formatTaperType(taper: DiagramTaper): string {
+  const names: Record<DiagramTaper["type"], string> = {
+    merging: "Merging taper",
+    shifting: "Shifting taper",
+    shoulder: "Shoulder taper",
+    downstream: "Downstream taper",
+    one_lane_two_way: "One-lane two-way taper",
+  };
+  return names[taper.type];
+}
+
+/**
+ * Render a taper's channelizing devices as a diagonal row of dots
+ * from (x1, y1) to (x2, y2). Long tapers are thinned to keep the schematic readable.
+ */
+function renderTaperDevices(x1: number, y1: number, x2: number, y2: number, deviceCount: number): string {
+  const dots = Math.max(2, Math.min(deviceCount, 12));
+  let svg = "";
+  for (let i = 0; i < dots; i++) {
+    const t = i / (dots - 1);
+    svg += `<circle cx="${x1 + (x2 - x1) * t}" cy="${y1 + (y2 - y1) * t}" r="3" fill="${COLORS.taperDevice}" />`;
+  }
+  return svg;
 }
 
 /**
@@ -219,15 +422,38 @@ function renderLinearLayout(
     svg += renderSign(centerX, awaTop + spacing * 3, "C", 0, true);
   }
 
-  // Taper zone
-  svg += `
+  // Taper zone (upstream taper: merging, shifting, shoulder or one-lane two-way)
+  const upstreamTaper = plan?.tapers?.find(t => t.position === "upstream");
+  const laneLeft = centerX - laneWidth / 2;
+  const laneRight = centerX + laneWidth / 2;
+  if (plan?.mobile && !isPlaceholder) {
+    // Mobile operations: the taper zone is the gap between the work and shadow vehicles
+    svg += `
+    <g class="diagram-zone" data-zone="taper">
+      <rect x="${laneLeft}" y="${taperTop}" width="${laneWidth}" height="${proportions.taperPx}" fill="${COLORS.taper}" />
+      <text x="${laneRight + 10}" y="${taperTop + proportions.taperPx / 2}" font-size="12" fill="${COLORS.textMuted}" dominant-baseline="middle">
+        Shadow vehicle spacing ~${proportions.taperFt} ft
+      </text>
+      <text x="${laneRight + 10}" y="${taperTop + proportions.taperPx / 2 + 14}" font-size="11" fill="${COLORS.textMuted}" dominant-baseline="middle">
+        Signs leapfrog every ${plan.mobile.leapfrogIntervalFt} ft
+      </text>
+    </g>
+  `;
+  } else {
+    svg += `
     <g class="diagram-zone" data-zone="taper">
-      <rect x="${centerX - laneWidth / 2}" y="${taperTop}" width="${laneWidth}" height="${proportions.taperPx}" fill="${COLORS.taper}" />
-      <text x="${centerX + laneWidth / 2 + 10}" y="${taperTop + proportions.taperPx / 2}" font-size="12" fill="${COLORS.textMuted}" dominant-baseline="middle">
-        Taper ${isPlaceholder ? "" : "~" + proportions.taperFt + " ft"}
+      <rect x="${laneLeft}" y="${taperTop}" width="${laneWidth}" height="${proportions.taperPx}" fill="${COLORS.taper}" />
+      ${upstreamTaper && !isPlaceholder ? renderTaperDevices(laneLeft + 4, taperBottom - 4, centerX - 4, taperTop + 4, upstreamTaper.deviceCount) : ""}
+      <text x="${laneRight + 10}" y="${taperTop + proportions.taperPx / 2}" font-size="12" fill="${COLORS.textMuted}" dominant-baseline="middle">
+        ${upstreamTaper && !isPlaceholder ? `${formatTaperType(upstreamTaper)} (${upstreamTaper.lengthRule})` : "Taper"} ${isPlaceholder ? "" : "~" + proportions.taperFt + " ft"}
       </text>
+      ${upstreamTaper && !isPlaceholder ? `
+      <text x="${laneRight + 10}" y="${taperTop + proportions.taperPx / 2 + 14}" font-size="11" fill="${COLORS.textMuted}" dominant-baseline="middle">
+        ${upstreamTaper.deviceCount} devices
+      </text>` : ""}
     </g>
   `;
+  }
 
   // Buffer zone
   svg += `
@@ -252,6 +478,55 @@ function renderLinearLayout(
     </g>
   `;
 
+  // Downstream tapers at the far end of the work zone (traffic returns to its lane)
+  const downstreamTapers = isPlaceholder ? [] : (plan?.tapers ?? []).filter(t => t.position === "downstream");
+  downstreamTapers.forEach((taper, index) => {
+    const taperHeight = Math.min(24, proportions.workZonePx / 4);
+    const labelY = workZoneTop + 10 + index * 14;
+    svg += `
+    <g class="diagram-zone" data-zone="downstream-taper">
+      ${renderTaperDevices(centerX - 4, workZoneTop + taperHeight, laneLeft + 4, workZoneTop + 4, taper.deviceCount)}
+      <text x="${laneRight + 10}" y="${labelY}" font-size="11" fill="${COLORS.textMuted}" dominant-baseline="middle">
+        ${formatTaperType(taper)} ~${taper.lengthFt} ft (${taper.deviceCount} devices)
+      </text>
+    </g>
+  `;
+  });
+
+  // Full closure: barricades at both ends of the closed section, detour around it
+  if (plan?.detour && !isPlaceholder) {
+    svg += `<g class="diagram-zone" data-zone="closure">`;
+    svg += renderClosureBarricade(laneLeft, laneWidth, bufferBottom - 8);
+    svg += renderClosureBarricade(laneLeft, laneWidth, workZoneTop + 12);
+    svg += `</g>`;
+    if (plan.detour.decisionPoints.length > 0) {
+      svg += `<g class="diagram-zone" data-zone="detour">`;
+      svg += renderDetour(plan.detour, laneLeft, taperTop + proportions.taperPx / 2, workZoneTop + 4);
+      svg += `</g>`;
+    }
+  }
+
+  // Bike lane closure: bike lane closed from the taper through the work zone
+  if (plan?.bike && !isPlaceholder) {
+    svg += `<g class="diagram-zone" data-zone="bike-lane">`;
+    svg += renderBikeLane(plan.bike, laneLeft, roadTop, roadBottom, workZoneTop, taperBottom);
+    svg += `</g>`;
+  }
+
+  // Mobile operation vehicles: work vehicle in the work zone, shadow at the
+  // upstream end of the spacing zone, advance warning vehicle in the AWA
+  if (plan?.mobile && !isPlaceholder) {
+    const vehicleX = centerX - laneWidth / 4;
+    const vehicleY: Record<DiagramMobileVehicle["role"], number> = {
+      work: workZoneBottom - 20,
+      shadow: taperBottom - 20,
+      advance_warning: awaTop + proportions.advanceWarningPx / 2,
+    };
+    for (const vehicle of plan.mobile.vehicles) {
+      svg += renderVehicle(vehicleX, vehicleY[vehicle.role], vehicle);
+    }
+  }
+
   // Devices
   if (plan?.devices) {
     // Arrow board at start of taper
@@ -13,7 +13,7 @@ export type DiagramOrientation = "vertical" | "horizontal";
 
 // Sign spacing entry
 export interface SignSpacing {
-  label: "A" | "B" | "C";
+  label: string; // A, B, C... nearest the transition first
   distanceFt: number;
 }
 
@@ -25,6 +25,42 @@ export interface Devices {
   flaggers: number;
 }
 
+// Resolved taper (merging, shifting, shoulder, downstream, one-lane two-way)
+export interface DiagramTaper {
+  type: "merging" | "shifting" | "shoulder" | "downstream" | "one_lane_two_way";
+  position: "upstream" | "downstream";
+  lengthFt: number;
+  lengthRule: string;
+  deviceCount: number;
+}
+
+// Mobile operation vehicle train (offsets measured upstream of the work vehicle)
+export interface DiagramMobileVehicle {
+  role: "work" | "shadow" | "advance_warning";
+  offsetFt: number;
+  tma: boolean;
+  arrowBoard: boolean;
+}
+
+export interface DiagramMobileOperation {
+  vehicles: DiagramMobileVehicle[];
+  leapfrogIntervalFt: number;
+  leapfrogSigns: string[];
+}
+
+// Full closure detour (decision points in route order)
+export interface DiagramDetour {
+  lengthFt: number;
+  decisionPoints: Array<{ sequence: number; turn: "left" | "right" | "ahead" }>;
+}
+
+// Bike lane closure (bike lane drawn along the work side of the road)
+export interface DiagramBikeLaneClosure {
+  treatment: "shared_lane" | "separate_facility";
+  advanceSignDistanceFt: number;
+  mergeMaxSpeedMph: number;
+}
+
 // TCP Plan data (subset needed for diagram)
 export interface DiagramPlanData {
   signSpacing: SignSpacing[];
@@ -32,12 +68,16 @@ export interface DiagramPlanData {
   bufferLengthFt: number;
   devices: Devices;
   recommendedLayout?: string;
+  tapers?: DiagramTaper[];
+  mobile?: DiagramMobileOperation;
+  detour?: DiagramDetour;
+  bike?: DiagramBikeLaneClosure;
 }
 
 // Job input data
 export interface DiagramJobData {
   roadType: "2_lane_undivided" | "multilane_divided" | "intersection";
-  workType: "shoulder_work" | "lane_closure" | "one_lane_two_way_flaggers";
+  workType: "shoulder_work" | "lane_closure" | "one_lane_two_way_flaggers" | "mobile_operation" | "full_closure" | "sidewalk_closure" | "bike_lane_closure";
   workLengthFt: number;
   postedSpeedMph: number;
   isNight: boolean;
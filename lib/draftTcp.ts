@@ -0,0 +1,1723 @@
+/**
+ * TCP Draft Pipeline
+ *
+ * Validates a draft request, resolves the rules pack, retrieves handbook
+ * excerpts, asks the model for the narrative and assembles the response.
+ * Shared by POST /api/draft-tcp and the batch endpoint; errors come back as
+ * a status and body for the route to send.
+ */
+
+import { z } from "zod";
+import {
+  MAX_SVG_LENGTH,
+  Bbox,
+  TcpDraftRequest,
+  TcpDraftResponse,
+  TcpPlan,
+  PlanTaper,
+  PlanMobileOperation,
+  PlanDetour,
+  PlanSignScheduleEntry,
+  PlanQueue,
+  PlanCrossSection,
+  PlanNight,
+  PlanPedestrian,
+  PlanBike,
+  PlanSpeedReduction,
+  PlanIntersection,
+  PlanDiscrepancy,
+  tcpDraftRequestSchema,
+  tcpDraftResponseSchema,
+  modelDraftSchema,
+  ValidationIssue,
+  CoverageInfo,
+  CoverageCitation,
+  DraftProgressEvent,
+  UnverifiedReference,
+} from "@/lib/tcpTypes";
+import {
+  RetrievalQueryContext,
+  formatCitation,
+  retrieveSupport,
+  SourceChunk,
+} from "@/lib/retrieval";
+import {
+  getRulesPack,
+  selectJurisdiction,
+  LayeredRulesPack,
+} from "@/src/rules/rulesPackRegistry";
+import {
+  resolveTcpRules,
+  mapWorkTypeToOperation,
+  ResolvedTcpRules,
+  ResolvedSignScheduleEntry,
+} from "@/src/rules/resolveTcpRules";
+import { JurisdictionId } from "@/src/rules/rulesTypes";
+import { estimateFlaggerQueue } from "@/src/rules/estimateFlaggerQueue";
+import { checkCrossSection, getTaperWidthFt } from "@/src/rules/checkCrossSection";
+import { formatConstraintCitation, validateJobCompliance } from "@/src/rules/validateLayoutCompliance";
+import { analyzeDetourRoute, analyzePedestrianRoute, suggestFieldLayout } from "@/lib/layout/suggestFieldLayout";
+import { FieldLayout, RoadPolyline } from "@/lib/layoutTypes";
+import { getPolygonRing } from "@/lib/workZoneSnapshot";
+import { FieldEvidence, findFieldSupport, verifyReferences } from "@/lib/citations";
+import { formatValidationIssue, toValidationIssues } from "@/lib/validationIssues";
+import {
+  addUsage,
+  ChatMessage,
+  CompletionResult,
+  getLlmProvider,
+  JsonSchemaFormat,
+  TokenUsage,
+} from "@/lib/llm";
+
+// Minimum growth in streamed model content between "tokens" progress events
+const TOKEN_EVENT_INTERVAL_CHARS = 200;
+
+export type ErrorBody = Record<string, unknown>;
+
+export type DraftResult =
+  | { ok: true; response: TcpDraftResponse }
+  | { ok: false; status: number; body: ErrorBody };
+
+export type EmitProgress = (event: DraftProgressEvent) => void;
+
+export interface DraftOptions {
+  /** Handbook and example retrieval (the batch endpoint passes a cached one shared by its sites) */
+  retrieve?: typeof retrieveSupport;
+}
+
+function draftError(status: number, body: ErrorBody): DraftResult {
+  return { ok: false, status, body };
+}
+
+function validateGeometry(req: TcpDraftRequest): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { geometry } = req;
+
+  if (geometry.type === "bbox") {
+    if (!geometry.bbox || geometry.bbox.length !== 4) {
+      issues.push({ path: "/geometry/bbox", message: "Must be a 4-element array [west,south,east,north]" });
+    }
+    if (geometry.polygon) {
+      issues.push({ path: "/geometry/polygon", message: "Must be omitted when geometry.type = \"bbox\"" });
+    }
+  } else if (geometry.type === "polygon") {
+    if (
+      !geometry.polygon ||
+      geometry.polygon.length !== 1 ||
+      geometry.polygon[0].length < 3
+    ) {
+      issues.push({
+        path: "/geometry/polygon",
+        message: "Must be a single unclosed ring with at least 3 [lng,lat] points when geometry.type = \"polygon\"",
+      });
+    }
+    if (geometry.bbox) {
+      issues.push({ path: "/geometry/bbox", message: "Must be omitted when geometry.type = \"polygon\"" });
+    }
+  } else {
+    issues.push({ path: "/geometry/type", message: "Must be \"bbox\" or \"polygon\"" });
+  }
+
+  return issues;
+}
+
+// Plan numbers the server fills from the resolver, with the citation key each is checked against.
+// Advance sign gaps are "signSpacing.<label>" for however many signs the sequence has.
+const PLAN_NUMBER_FIELDS = {
+  taperLengthFt: "taperLength",
+  bufferLengthFt: "bufferLength",
+  "devices.cones": "coneSpacing",
+  "devices.signs": "requiredSigns",
+  "devices.arrowBoard": "arrowBoard",
+  "devices.flaggers": "flaggers",
+} as const;
+
+const SIGN_SPACING_FIELD = /^signSpacing\.([A-Z])$/;
+
+type PlanNumberField = keyof typeof PLAN_NUMBER_FIELDS | `signSpacing.${string}`;
+
+type PlanNumbers = Pick<TcpPlan, "signSpacing" | "taperLengthFt" | "bufferLengthFt" | "devices">;
+
+/**
+ * A plan number the model believes the excerpts support instead of the resolver value.
+ */
+interface ProposedValue {
+  field: PlanNumberField;
+  value: number | boolean;
+  references: string[];
+}
+
+/**
+ * What the model contributes: narrative, citations and any proposed numbers.
+ */
+interface ModelDraft {
+  summary: string;
+  recommendedLayout: string;
+  assumptions: string[];
+  references: string[];
+  proposedValues: ProposedValue[];
+}
+
+// Structured output schema for the model's reply (modelDraftSchema is the authority)
+const MODEL_DRAFT_JSON_SCHEMA: JsonSchemaFormat = {
+  name: "tcp_model_draft",
+  schema: {
+    type: "object",
+    properties: {
+      summary: { type: "string" },
+      plan: {
+        type: "object",
+        properties: {
+          recommendedLayout: { type: "string" },
+          proposedValues: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                field: {
+                  anyOf: [
+                    { type: "string", enum: Object.keys(PLAN_NUMBER_FIELDS) },
+                    { type: "string", pattern: SIGN_SPACING_FIELD.source },
+                  ],
+                },
+                value: { type: ["number", "boolean"] },
+                references: { type: "array", items: { type: "string" } },
+              },
+              required: ["field", "value", "references"],
+            },
+          },
+        },
+        required: ["recommendedLayout"],
+      },
+      assumptions: { type: "array", items: { type: "string" } },
+      references: { type: "array", items: { type: "string" } },
+    },
+    required: ["summary", "plan", "assumptions", "references"],
+  },
+};
+
+function isPlanNumberField(field: string): field is PlanNumberField {
+  return SIGN_SPACING_FIELD.test(field) || Object.prototype.hasOwnProperty.call(PLAN_NUMBER_FIELDS, field);
+}
+
+const proposedValueSchema = z
+  .object({
+    field: z.string().refine(isPlanNumberField, "Not a plan number field"),
+    value: z.union([z.number().finite().nonnegative(), z.boolean()]),
+    references: z.array(z.string()).default([]),
+  })
+  .refine((p) => (p.field === "devices.arrowBoard") === (typeof p.value === "boolean"), {
+    message: "devices.arrowBoard takes true/false; every other field takes a number",
+    path: ["value"],
+  });
+
+/**
+ * Proposed values are advisory, so malformed entries are dropped with a
+ * warning instead of failing the draft.
+ */
+function readProposedValues(candidates: unknown[] = []): ProposedValue[] {
+  return candidates.flatMap((candidate, index) => {
+    const parsed = proposedValueSchema.safeParse(candidate);
+    if (!parsed.success) {
+      const reasons = toValidationIssues(parsed.error).map(formatValidationIssue).join("; ");
+      console.warn(`[draft-tcp] Ignoring /plan/proposedValues/${index} (${reasons}): ${JSON.stringify(candidate)}`);
+      return [];
+    }
+    return [parsed.data];
+  });
+}
+
+/**
+ * Check the model's reply against modelDraftSchema. Issue paths are JSON
+ * Pointers so the corrective retry can name the exact field.
+ */
+function validateModelDraft(
+  candidate: unknown
+): { ok: true; value: ModelDraft } | { ok: false; issues: ValidationIssue[] } {
+  const parsed = modelDraftSchema.safeParse(candidate);
+  if (!parsed.success) {
+    return { ok: false, issues: toValidationIssues(parsed.error) };
+  }
+
+  const { summary, plan, assumptions, references } = parsed.data;
+  return {
+    ok: true,
+    value: {
+      summary,
+      recommendedLayout: plan.recommendedLayout,
+      assumptions,
+      references,
+      proposedValues: readProposedValues(plan.proposedValues),
+    },
+  };
+}
+
+/**
+ * Approximate center of the request geometry, used for jurisdiction selection.
+ */
+function getGeometryCenter(req: TcpDraftRequest): { lng: number; lat: number } | undefined {
+  const { geometry } = req;
+  if (geometry.type === "bbox" && geometry.bbox) {
+    const [west, south, east, north] = geometry.bbox;
+    return { lng: (west + east) / 2, lat: (south + north) / 2 };
+  }
+  const ring = geometry.polygon?.[0];
+  if (ring && ring.length > 0) {
+    return {
+      lng: ring.reduce((sum, p) => sum + p[0], 0) / ring.length,
+      lat: ring.reduce((sum, p) => sum + p[1], 0) / ring.length,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Road centerlines from the request: roadCenterlines plus every line in
+ * roadGeoJson (altitudes dropped; points and areas skipped).
+ */
+function getRoadCenterlines(req: TcpDraftRequest): RoadPolyline[] {
+  const geoJson = req.roadGeoJson;
+  const geometries = !geoJson
+    ? []
+    : geoJson.type === "FeatureCollection"
+      ? geoJson.features.map((feature) => feature.geometry)
+      : geoJson.type === "Feature" ? [geoJson.geometry] : [geoJson];
+  const geoJsonLines = geometries.flatMap((geometry) => {
+    if (geometry?.type === "LineString") return [geometry.coordinates];
+    if (geometry?.type === "MultiLineString") return geometry.coordinates;
+    return [];
+  });
+
+  return [...(req.roadCenterlines ?? []), ...geoJsonLines]
+    .filter((line) => line.length >= 2)
+    .map((line) => line.map((p) => [p[0], p[1]] as [number, number]));
+}
+
+/**
+ * Suggested device positions along the requested road centerlines, laid out
+ * from the same resolved rules as the plan (undefined unless roads were sent).
+ */
+function buildFieldLayout(
+  req: TcpDraftRequest,
+  resolved: ResolvedTcpRules,
+  jurisdiction: JurisdictionId
+): FieldLayout | undefined {
+  if (!req.roadCenterlines && !req.roadGeoJson) return undefined;
+
+  const { geometry } = req;
+  const polygonRing = getPolygonRing(
+    geometry.type === "bbox"
+      ? { type: "bbox", bbox: geometry.bbox as Bbox }
+      : { type: "polygon", polygon: geometry.polygon ?? [] }
+  );
+  const centroid = getGeometryCenter(req);
+  if (!polygonRing || !centroid) return undefined;
+
+  const roadCenterlines = getRoadCenterlines(req);
+  if (roadCenterlines.length === 0) {
+    console.warn("[draft-tcp] Road data has no usable lines; field layout uses the work area alone");
+  }
+  const toRoute = (route?: number[][]) => route?.map((c) => [c[0], c[1]] as [number, number]);
+
+  const layout = suggestFieldLayout({
+    polygonRing,
+    centroid,
+    roadType: req.roadType,
+    postedSpeedMph: req.postedSpeedMph,
+    workZoneSpeedMph: req.workZoneSpeedMph,
+    workType: req.workType,
+    workLengthFt: req.workLengthFt,
+    roadCenterlines,
+    detourRoute: toRoute(req.detourRoute),
+    pedestrianRoute: toRoute(req.pedestrianRoute),
+    hourlyVolumeVph: req.hourlyVolumeVph,
+    adt: req.adt,
+    directionalSplit: req.directionalSplit,
+    jurisdiction,
+    crossSection: req.crossSection,
+    isNight: req.isNight,
+    resolvedRules: resolved,
+  });
+  console.log(`[draft-tcp] Field layout: ${layout.devices.length} devices along ${roadCenterlines.length} road line(s)`);
+  return layout;
+}
+
+/**
+ * Resolver tapers in the response plan shape (citation flattened for display).
+ */
+function toPlanTapers(resolved: ResolvedTcpRules): PlanTaper[] {
+  return resolved.tapers.map((taper) => ({
+    type: taper.type,
+    position: taper.position,
+    lengthFt: taper.lengthFt,
+    lengthRule: taper.lengthRule,
+    deviceCount: taper.deviceCount,
+    citation: formatConstraintCitation(taper.citation),
+  }));
+}
+
+/**
+ * Resolver vehicle train in the response plan shape (undefined unless mobile).
+ */
+function toPlanMobile(resolved: ResolvedTcpRules): PlanMobileOperation | undefined {
+  if (!resolved.mobile) return undefined;
+  const citation = resolved.citations.mobile;
+  return {
+    vehicles: resolved.mobile.vehicles,
+    leapfrogIntervalFt: resolved.mobile.leapfrogIntervalFt,
+    leapfrogSigns: resolved.mobile.leapfrogSigns,
+    citation: citation ? formatConstraintCitation(citation) : undefined,
+  };
+}
+
+/**
+ * Closure signing plus the decision points along the requested detour route
+ * (undefined unless full closure). Without a route only the closure is described.
+ */
+function toPlanDetour(resolved: ResolvedTcpRules, req: TcpDraftRequest): PlanDetour | undefined {
+  if (!resolved.detour) return undefined;
+  const { detour } = resolved;
+  const center = getGeometryCenter(req);
+  const route = (req.detourRoute ?? []).map((c) => [c[0], c[1]] as [number, number]);
+  const analysis = center && route.length >= 2
+    ? analyzeDetourRoute(route, center)
+    : { lengthFt: 0, decisionPoints: [] };
+  const citation = resolved.citations.detour;
+  return {
+    lengthFt: analysis.lengthFt,
+    closureSign: detour.closureSign.mutcdCode,
+    barricadeType: detour.barricadeType,
+    decisionPoints: analysis.decisionPoints.map((point) => ({
+      sequence: point.sequence,
+      turn: point.turn,
+      distanceFt: point.distanceFt,
+      signs: [detour.detourSign.mutcdCode, detour.arrowMutcdCodes[point.turn]],
+    })),
+    citation: citation ? formatConstraintCitation(citation) : undefined,
+  };
+}
+
+/**
+ * Sign schedule for an intersection: each leg's advance signs (sized for that
+ * leg's speed, same code and size summed), then any job-level signs no leg carries.
+ */
+function mergeApproachSignSchedules(resolved: ResolvedTcpRules): ResolvedSignScheduleEntry[] {
+  if (!resolved.intersection) return resolved.signSchedule;
+  const merged = new Map<string, ResolvedSignScheduleEntry>();
+  for (const entry of resolved.intersection.approaches.flatMap(approach => approach.signSchedule)) {
+    const key = `${entry.code}:${entry.sizeInches}`;
+    const existing = merged.get(key);
+    merged.set(key, existing ? { ...existing, count: existing.count + entry.count } : entry);
+  }
+  const approachCodes = new Set([...merged.values()].map(entry => entry.code));
+  return [...merged.values(), ...resolved.signSchedule.filter(entry => !approachCodes.has(entry.code))];
+}
+
+/**
+ * Resolver sign schedule in the response plan shape. Detour markers are
+ * counted per decision point once a route has been drawn; intersections
+ * count signs per approach.
+ */
+function toPlanSignSchedule(resolved: ResolvedTcpRules, detour: PlanDetour | undefined): PlanSignScheduleEntry[] {
+  const decisionPointCount = detour?.decisionPoints.length ?? 0;
+  return mergeApproachSignSchedules(resolved).map((entry) => ({
+    mutcdCode: entry.mutcdCode,
+    legend: entry.legend,
+    sizeInches: entry.sizeInches,
+    count: entry.code === "DETOUR" && decisionPointCount > 0 ? decisionPointCount : entry.count,
+    standType: entry.standType,
+    flagsRequired: entry.flagsRequired,
+    lightRequired: entry.lightRequired,
+    citation: formatConstraintCitation(entry.citation),
+  }));
+}
+
+/**
+ * Flagger queue and delay from the request's traffic volume (undefined unless
+ * flagging with a volume or ADT). The first advance sign sits at A + B + C.
+ */
+function toPlanQueue(resolved: ResolvedTcpRules, req: TcpDraftRequest): PlanQueue | undefined {
+  if (mapWorkTypeToOperation(req.workType) !== "flagging") return undefined;
+  const { a, b, c } = resolved.advanceSignDistancesFt;
+  const estimate = estimateFlaggerQueue({
+    hourlyVolumeVph: req.hourlyVolumeVph,
+    adt: req.adt,
+    directionalSplit: req.directionalSplit,
+    workLengthFt: req.workLengthFt,
+    postedSpeedMph: req.postedSpeedMph,
+    firstAdvanceSignFt: a + b + c,
+    signSpacingFt: resolved.signSpacingFt,
+    jurisdiction: resolved.jurisdiction,
+  });
+  if (!estimate) return undefined;
+  return {
+    twoWayVolumeVph: estimate.twoWayVolumeVph,
+    volumeSource: estimate.volumeSource,
+    cycleLengthS: estimate.cycleLengthS,
+    directions: estimate.directions.map(({ direction, volumeVph, queueLengthFt, averageDelayS, maxDelayS }) => ({
+      direction,
+      volumeVph,
+      queueLengthFt,
+      averageDelayS,
+      maxDelayS,
+    })),
+    maxQueueLengthFt: estimate.maxQueueLengthFt,
+    maxDelayS: estimate.maxDelayS,
+    oversaturated: estimate.oversaturated,
+    queuePastFirstSign: estimate.queuePastFirstSign,
+    awaExtensionFt: estimate.awaExtensionFt,
+    warnings: estimate.warnings,
+    citation: formatConstraintCitation(estimate.source),
+  };
+}
+
+function toPlanCrossSection(resolved: ResolvedTcpRules, req: TcpDraftRequest): PlanCrossSection | undefined {
+  if (!req.crossSection) return undefined;
+  const check = checkCrossSection({
+    crossSection: req.crossSection,
+    operation: mapWorkTypeToOperation(req.workType),
+    speedMph: req.postedSpeedMph,
+    // Every sign on a portable stand needs parking cleared in front of it
+    advanceSignCount: resolved.signSchedule
+      .filter(entry => entry.standType === "portable_stand")
+      .reduce((total, entry) => total + entry.count, 0),
+    jurisdiction: resolved.jurisdiction,
+  });
+  return {
+    taperWidthFt: check.taperWidthFt,
+    openLanes: check.openLanes,
+    openWidthFt: check.openWidthFt,
+    narrowestLaneFt: check.narrowestLaneFt,
+    lateralBufferFt: check.lateralBufferFt ?? undefined,
+    parkingRemoval: check.parkingRemoval
+      ? {
+          perSignFt: check.parkingRemoval.perSignFt,
+          totalFt: check.parkingRemoval.totalFt,
+          citation: formatConstraintCitation(check.parkingRemoval.source),
+        }
+      : undefined,
+    findings: toCrossSectionFindings(resolved, req, check),
+  };
+}
+
+// Cross-section width each width constraint reads; unset widths (full closure, unknown work area) are not reported
+const CROSS_SECTION_CONSTRAINT_WIDTHS: Record<string, keyof ReturnType<typeof checkCrossSection>["compliance"]> = {
+  MIN_LANE_WIDTH: "narrowestLaneFt",
+  FIRE_APPARATUS_WIDTH: "openLaneWidthFt",
+  LATERAL_BUFFER: "lateralBufferFt",
+};
+
+/**
+ * Width constraint results for the plan: one entry per checked constraint
+ * with a width to check, with the violation message when it fails
+ */
+function toCrossSectionFindings(
+  resolved: ResolvedTcpRules,
+  req: TcpDraftRequest,
+  check: ReturnType<typeof checkCrossSection>
+): PlanCrossSection["findings"] {
+  const compliance = validateJobCompliance({
+    postedSpeedMph: req.postedSpeedMph,
+    workType: req.workType,
+    isNight: req.isNight,
+    ...check.compliance,
+    jurisdiction: resolved.jurisdiction,
+  });
+  const constraints = getRulesPack(resolved.jurisdiction).pack.constraints;
+  return compliance.checkedConstraintIds.flatMap((id) => {
+    const constraint = constraints.find(c => c.id === id);
+    const width = CROSS_SECTION_CONSTRAINT_WIDTHS[id];
+    if (!constraint || !width || check.compliance[width] === undefined) return [];
+    const violation = compliance.violations.find(v => v.constraintId === id);
+    return [{
+      constraintId: id,
+      requirement: constraint.requirement,
+      passed: !violation,
+      message: violation?.message ?? constraint.description,
+      citation: formatConstraintCitation(constraint.source),
+    }];
+  });
+}
+
+/**
+ * Night lighting and visibility checklist (undefined for day work)
+ */
+function toPlanNight(resolved: ResolvedTcpRules): PlanNight | undefined {
+  if (!resolved.night) return undefined;
+  const { barricadeWarningLight, ...night } = resolved.night;
+  const citation = resolved.citations.night;
+  return {
+    ...night,
+    barricadeWarningLight: barricadeWarningLight ?? undefined,
+    citation: citation ? formatConstraintCitation(citation) : undefined,
+  };
+}
+
+/**
+ * Sidewalk closure signing and devices plus the drawn pedestrian route
+ * (undefined unless sidewalk closure). Without a route its length is 0.
+ */
+function toPlanPedestrian(resolved: ResolvedTcpRules, req: TcpDraftRequest): PlanPedestrian | undefined {
+  if (!resolved.pedestrian) return undefined;
+  const { pedestrian } = resolved;
+  const route = (req.pedestrianRoute ?? []).map((c) => [c[0], c[1]] as [number, number]);
+  const analysis = analyzePedestrianRoute(route, pedestrian.route.passingSpaceIntervalFt);
+  const citation = resolved.citations.pedestrian;
+  return {
+    closureSign: pedestrian.closureSign.mutcdCode,
+    useOtherSideSign: pedestrian.useOtherSideSign.mutcdCode,
+    channelizingDevice: pedestrian.channelizingDevice.deviceType,
+    conesProhibited: pedestrian.conesProhibited,
+    route: {
+      lengthFt: analysis.lengthFt,
+      minWidthFt: pedestrian.route.minWidthFt,
+      passingSpaceWidthFt: pedestrian.route.passingSpaceWidthFt,
+      passingSpaceIntervalFt: pedestrian.route.passingSpaceIntervalFt,
+      passingSpacesIfNarrow: analysis.passingSpacesIfNarrow,
+      maxRunningSlopePct: pedestrian.route.maxRunningSlopePct,
+      maxCrossSlopePct: pedestrian.route.maxCrossSlopePct,
+    },
+    citation: citation ? formatConstraintCitation(citation) : undefined,
+  };
+}
+
+/**
+ * Bike lane treatment and bike signing (undefined unless bike lane closure)
+ */
+function toPlanBike(resolved: ResolvedTcpRules): PlanBike | undefined {
+  if (!resolved.bike) return undefined;
+  const { closedAheadSign, mergeSign, fullLaneSign, ...bike } = resolved.bike;
+  const citation = resolved.citations.bike;
+  return {
+    ...bike,
+    closedAheadSign: closedAheadSign.mutcdCode,
+    mergeSign: mergeSign?.mutcdCode,
+    fullLaneSign: fullLaneSign?.mutcdCode,
+    citation: citation ? formatConstraintCitation(citation) : undefined,
+  };
+}
+
+/**
+ * Speed zone signs and approving authority (undefined without a reduced work zone speed)
+ */
+function toPlanSpeedReduction(resolved: ResolvedTcpRules): PlanSpeedReduction | undefined {
+  if (!resolved.speedReduction) return undefined;
+  const reduction = resolved.speedReduction;
+  const citation = resolved.citations.speedReduction;
+  return {
+    postedSpeedMph: reduction.postedSpeedMph,
+    workZoneSpeedMph: reduction.workZoneSpeedMph,
+    reductionSign: reduction.reductionSign.mutcdCode,
+    reductionSignDistanceFt: reduction.reductionSignDistanceFt,
+    speedLimitSign: reduction.speedLimitSign.mutcdCode,
+    speedLimitSignDistanceFt: reduction.speedLimitSignDistanceFt,
+    endSign: reduction.endSign.mutcdCode,
+    endSignDistanceFt: reduction.endSignDistanceFt,
+    advanceWarningShiftFt: reduction.advanceWarningShiftFt,
+    authority: reduction.authority,
+    statute: reduction.statute ?? undefined,
+    orderContents: reduction.orderContents,
+    orderRecipients: reduction.orderRecipients,
+    citation: citation ? formatConstraintCitation(citation) : undefined,
+  };
+}
+
+/**
+ * Advance signing per intersection approach (undefined unless approaches were given)
+ */
+function toPlanIntersection(resolved: ResolvedTcpRules): PlanIntersection | undefined {
+  if (!resolved.intersection) return undefined;
+  const { approaches, flaggerCount, specialConditions } = resolved.intersection;
+  const citation = resolved.citations.intersection;
+  return {
+    approaches: approaches.map((approach) => {
+      const spacingCitation = approach.citations.signSpacing;
+      return {
+        name: approach.name,
+        bearingDeg: approach.bearingDeg,
+        speedMph: approach.speedMph,
+        lanes: approach.lanes,
+        signSpacingFt: approach.signSpacingFt,
+        signs: approach.signSchedule.map((entry) => ({
+          mutcdCode: entry.mutcdCode,
+          legend: entry.legend,
+          sizeInches: entry.sizeInches,
+          distanceFt: approach.signDistancesFt[approach.requiredSigns.indexOf(entry.code)],
+        })),
+        advanceWarningAreaFt: approach.advanceWarningAreaFt,
+        flaggerCount: approach.flaggerCount,
+        citation: formatConstraintCitation(spacingCitation),
+      };
+    }),
+    flaggerCount,
+    specialConditions,
+    citation: citation ? formatConstraintCitation(citation) : undefined,
+  };
+}
+
+/**
+ * Sign spacing, taper, buffer and device counts for the plan, all from the
+ * resolver. The advance sign sequence carries each sign's MUTCD code from the
+ * resolver sign schedule. Cones cover each taper plus the buffer and work length at
+ * the resolved cone spacing; signs are the sign schedule total.
+ */
+function toPlanNumbers(
+  resolved: ResolvedTcpRules,
+  req: TcpDraftRequest,
+  signSchedule: PlanSignScheduleEntry[]
+): PlanNumbers {
+  const taperCones = resolved.tapers.reduce((total, taper) => total + taper.deviceCount, 0);
+  const tangentCones = resolved.tapers.length > 0
+    ? Math.ceil((resolved.bufferLengthFt + req.workLengthFt) / resolved.coneSpacingFt)
+    : 0;
+  return {
+    signSpacing: resolved.advanceSignSequence.map((sign) => {
+      const mutcdCode = resolved.signSchedule.find((entry) => entry.code === sign.signCode)?.mutcdCode;
+      return { ...sign, ...(mutcdCode ? { mutcdCode } : {}) };
+    }),
+    taperLengthFt: resolved.taperLengthFt,
+    bufferLengthFt: resolved.bufferLengthFt,
+    devices: {
+      cones: taperCones + tangentCones,
+      signs: signSchedule.reduce((total, entry) => total + entry.count, 0),
+      arrowBoard: resolved.arrowBoardRequired,
+      flaggers: resolved.flaggerCount,
+    },
+  };
+}
+
+/**
+ * Plan value for a field (undefined for a sign label past the end of the sequence)
+ */
+function getPlanNumber(numbers: PlanNumbers, field: PlanNumberField): number | boolean | undefined {
+  const signLabel = SIGN_SPACING_FIELD.exec(field)?.[1];
+  if (signLabel) {
+    return numbers.signSpacing.find((s) => s.label === signLabel)?.distanceFt;
+  }
+  switch (field) {
+    case "taperLengthFt":
+      return numbers.taperLengthFt;
+    case "bufferLengthFt":
+      return numbers.bufferLengthFt;
+    case "devices.cones":
+      return numbers.devices.cones;
+    case "devices.signs":
+      return numbers.devices.signs;
+    case "devices.arrowBoard":
+      return numbers.devices.arrowBoard;
+    case "devices.flaggers":
+      return numbers.devices.flaggers;
+  }
+}
+
+/**
+ * Model-proposed numbers that differ from the resolver, with both sides' citations.
+ * The plan keeps the resolver value; these are surfaced for the planner to review.
+ */
+function findDiscrepancies(
+  proposed: ProposedValue[],
+  numbers: PlanNumbers,
+  resolved: ResolvedTcpRules
+): PlanDiscrepancy[] {
+  const discrepancies: PlanDiscrepancy[] = [];
+  for (const proposal of proposed) {
+    const resolvedValue = getPlanNumber(numbers, proposal.field);
+    if (resolvedValue === undefined) {
+      console.warn(`[draft-tcp] Ignoring proposed ${proposal.field}: the plan has ${numbers.signSpacing.length} advance signs`);
+      continue;
+    }
+    if (proposal.value === resolvedValue) continue;
+    const citationKey = SIGN_SPACING_FIELD.test(proposal.field)
+      ? "advanceSignDistances"
+      : proposal.field === "devices.flaggers" && resolved.intersection
+        ? "intersection"
+        : PLAN_NUMBER_FIELDS[proposal.field as keyof typeof PLAN_NUMBER_FIELDS];
+    const citation = resolved.citations[citationKey];
+    discrepancies.push({
+      field: proposal.field,
+      modelValue: proposal.value,
+      modelReferences: proposal.references,
+      resolvedValue,
+      resolvedCitation: citation ? formatConstraintCitation(citation) : undefined,
+    });
+  }
+  if (discrepancies.length > 0) {
+    console.log(
+      `[draft-tcp] Model disagrees with resolver: ${discrepancies
+        .map((d) => `${d.field} ${d.modelValue}≠${d.resolvedValue}`)
+        .join(", ")}`
+    );
+  }
+  return discrepancies;
+}
+
+/**
+ * How each plan number appears in a handbook excerpt. Cone counts are
+ * computed, so their evidence is the resolved cone spacing. The sign total
+ * and the arrow board yes/no are not values an excerpt states, and a zero
+ * flagger count has nothing to match, so those fields stay unsupported.
+ */
+function buildFieldEvidence(numbers: PlanNumbers, resolved: ResolvedTcpRules): FieldEvidence[] {
+  const signSpacing = /sign\s*spacing|advance\s*warning|distance\s*between\s*signs/i;
+  return [
+    ...numbers.signSpacing.map((s) => ({ field: `signSpacing.${s.label}`, keyword: signSpacing, value: s.distanceFt })),
+    { field: "taperLengthFt", keyword: /taper/i, value: numbers.taperLengthFt },
+    { field: "bufferLengthFt", keyword: /buffer/i, value: numbers.bufferLengthFt },
+    { field: "devices.cones", keyword: /\bcones?\b|channeliz/i, value: resolved.coneSpacingFt },
+    ...(numbers.devices.flaggers > 0
+      ? [{ field: "devices.flaggers", keyword: /flaggers?\b/i, value: numbers.devices.flaggers, unit: "count" as const }]
+      : []),
+  ];
+}
+
+function buildRetrievalContext(req: TcpDraftRequest): RetrievalQueryContext {
+  return {
+    roadType: req.roadType,
+    postedSpeedMph: req.postedSpeedMph,
+    workType: req.workType,
+    workLengthFt: req.workLengthFt,
+    isNight: req.isNight,
+    notes: req.notes,
+  };
+}
+
+/**
+ * Provides MUTCD-based fallback guidance when no handbook chunks are found.
+ * Based on MUTCD Table 6C-2 for sign spacing and standard taper/buffer calculations.
+ */
+function buildFallbackGuidance(speedMph: number): string {
+  // MUTCD Table 6C-2 approximate values for sign spacing (A, B, C distances)
+  let signSpacingA: number;
+  let signSpacingB: number;
+  let signSpacingC: number;
+
+  if (speedMph <= 25) {
+    signSpacingA = 100;
+    signSpacingB = 100;
+    signSpacingC = 100;
+  } else if (speedMph <= 35) {
+    signSpacingA = 350;
+    signSpacingB = 350;
+    signSpacingC = 350;
+  } else if (speedMph <= 45) {
+    signSpacingA = 500;
+    signSpacingB = 500;
+    signSpacingC = 500;
+  } else if (speedMph <= 55) {
+    signSpacingA = 500;
+    signSpacingB = 500;
+    signSpacingC = 500;
+  } else {
+    signSpacingA = 1000;
+    signSpacingB = 1500;
+    signSpacingC = 2640;
+  }
+
+  // Taper length: L = W × S (where W is lane width ~12ft and S is speed in mph)
+  // Simplified: approximately speed × 10 for speeds under 45, speed × 15 for higher
+  const taperLengthFt = speedMph <= 45 ? speedMph * 10 : speedMph * 15;
+
+  // Buffer space: typically 50-100ft minimum, scale with speed
+  const bufferLengthFt = Math.max(50, speedMph * 2);
+
+  return `[FALLBACK] MUTCD General Defaults (Table 6C-2 approximation)
+No specific handbook guidance was found for this scenario. Using MUTCD general defaults:
+
+Sign Spacing (based on ${speedMph} mph):
+- Distance A (first warning sign): ${signSpacingA} ft
+- Distance B (second warning sign): ${signSpacingB} ft
+- Distance C (third warning sign): ${signSpacingC} ft
+
+Taper Length: ${taperLengthFt} ft (based on lane width × speed factor)
+Buffer Space: ${bufferLengthFt} ft minimum
+
+Device recommendations:
+- Cones: 20-30 for typical work zone
+- Signs: 4-8 depending on approach directions
+- Arrow board: Recommended for speeds > 35 mph
+- Flaggers: Required for intersection or complex work
+
+Reference: MUTCD Chapter 6C, Table 6C-2
+
+IMPORTANT: These are fallback defaults. The planner should verify these values against local jurisdiction requirements.`;
+}
+
+/**
+ * COVERAGE GATE: Semantic-aware check to verify handbook chunks contain critical guidance.
+ * Returns coverage status for spacing, taper, buffer, and devices.
+ * 
+ * IMPROVED PATTERNS: Match real handbook terminology from MUTCD, OTTCH, and local manuals.
+ */
+function analyzeHandbookCoverage(handbookChunks: SourceChunk[]): CoverageInfo {
+  const coverage: CoverageInfo = {
+    spacing: false,
+    taper: false,
+    buffer: false,
+    devices: false,
+    citations: [],
+  };
+
+  // IMPROVED Regex patterns for each category (case-insensitive)
+  // These are designed to match actual handbook terminology
+  
+  // SPACING: Match advance warning area, sign spacing, A/B/C distances, tables
+  const spacingPatterns = [
+    /advance\s*warning\s*(area|zone|signs?)?/i,
+    /warning\s*(area|zone|signs?)/i,
+    /sign\s*spacing/i,
+    /spacing/i,
+    /[ABC]\s*[:=]\s*\d+/i,  // A: 350, B = 500, etc.
+    /distance\s*[ABC]/i,
+    /Table\s*(6C-?\d|2-?\d)/i,  // Table 6C-2, Table 2-4
+    /A,?\s*B,?\s*(and\s*)?C/i,
+  ];
+  
+  // TAPER: Match taper terms, transition area, L= formula
+  const taperPatterns = [
+    /taper\s*(length|type|formula)?/i,
+    /merging\s*taper/i,
+    /shifting\s*taper/i,
+    /shoulder\s*taper/i,
+    /transition\s*(area|zone)/i,
+    /L\s*[=:]\s*\d+/i,  // L = 180, L: 200
+    /taper.*\d+\s*(ft|feet|')/i,  // taper 180 ft
+    /\d+\s*(ft|feet|')\s*taper/i,  // 180 ft taper
+  ];
+  
+  // BUFFER: Match buffer space, longitudinal buffer, stopping/braking distance
+  const bufferPatterns = [
+    /buffer\s*(space|area|length|zone)?/i,
+    /longitudinal\s*buffer/i,
+    /stopping\s*distance/i,
+    /braking\s*distance/i,
+    /clear\s*(zone|space)/i,
+    /activity\s*area/i,
+    /work\s*(space|area|zone)/i,
+  ];
+  
+  // DEVICES: Match channelizing devices, cones, drums, signs, arrow boards, flaggers
+  const devicesPatterns = [
+    /channelizing\s*devices?/i,
+    /\bcones?\b/i,
+    /\bdrums?\b/i,
+    /barricades?/i,
+    /arrow\s*(board|panel)/i,
+    /\bflaggers?\b/i,
+    /delineators?/i,
+    /traffic\s*control\s*devices?/i,
+    /\bsigns?\b/i,
+  ];
+
+  // Helper to check if any pattern matches
+  const matchesAny = (text: string, patterns: RegExp[]): boolean => {
+    return patterns.some(p => p.test(text));
+  };
+
+  for (const chunk of handbookChunks) {
+    const text = chunk.text;
+
+    // Check spacing
+    if (!coverage.spacing && matchesAny(text, spacingPatterns)) {
+      coverage.spacing = true;
+      coverage.citations.push({
+        category: "spacing",
+        docName: chunk.docName,
+        page: chunk.pageNumber ?? undefined,
+        snippet: text.slice(0, 150),
+      });
+    }
+
+    // Check taper (single pattern match is sufficient with improved patterns)
+    if (!coverage.taper && matchesAny(text, taperPatterns)) {
+      coverage.taper = true;
+      coverage.citations.push({
+        category: "taper",
+        docName: chunk.docName,
+        page: chunk.pageNumber ?? undefined,
+        snippet: text.slice(0, 150),
+      });
+    }
+
+    // Check buffer
+    if (!coverage.buffer && matchesAny(text, bufferPatterns)) {
+      coverage.buffer = true;
+      coverage.citations.push({
+        category: "buffer",
+        docName: chunk.docName,
+        page: chunk.pageNumber ?? undefined,
+        snippet: text.slice(0, 150),
+      });
+    }
+
+    // Check devices
+    if (!coverage.devices && matchesAny(text, devicesPatterns)) {
+      coverage.devices = true;
+      coverage.citations.push({
+        category: "devices",
+        docName: chunk.docName,
+        page: chunk.pageNumber ?? undefined,
+        snippet: text.slice(0, 150),
+      });
+    }
+
+    // Early exit if all found
+    if (coverage.spacing && coverage.taper && coverage.buffer && coverage.devices) {
+      break;
+    }
+  }
+
+  console.log("[coverage-gate] Analysis result:", {
+    spacing: coverage.spacing,
+    taper: coverage.taper,
+    buffer: coverage.buffer,
+    devices: coverage.devices,
+    citationCount: coverage.citations.length,
+  });
+
+  return coverage;
+}
+
+/**
+ * Log detailed debug info when coverage gate fails.
+ */
+function logCoverageGateDebug(
+  handbookChunks: SourceChunk[],
+  coverage: CoverageInfo,
+  missingCritical: string[]
+): void {
+  console.log("[coverage-gate] ========== DEBUG: COVERAGE GATE BLOCKED ==========");
+  console.log("[coverage-gate] Missing categories:", missingCritical.join(", "));
+  console.log("[coverage-gate] Total handbook chunks retrieved:", handbookChunks.length);
+  
+  console.log("[coverage-gate] Coverage status:");
+  console.log("  - Spacing:", coverage.spacing);
+  console.log("  - Taper:", coverage.taper);
+  console.log("  - Buffer:", coverage.buffer);
+  console.log("  - Devices:", coverage.devices);
+  
+  console.log("[coverage-gate] Top 5 handbook chunks:");
+  handbookChunks.slice(0, 5).forEach((chunk, idx) => {
+    const sanitizedText = chunk.text
+      .replace(/\s+/g, " ")
+      .slice(0, 200);
+    console.log(`  [${idx + 1}] ${chunk.docName} p.${chunk.pageNumber ?? "?"}`);
+    console.log(`      Score: ${(chunk as { score?: number }).score ?? "N/A"}`);
+    console.log(`      Text: "${sanitizedText}..."`);
+  });
+  
+  console.log("[coverage-gate] ===================================================");
+}
+
+/**
+ * Check if critical coverage (spacing, taper, buffer) is missing.
+ * Returns list of missing categories, or empty array if all critical coverage is present.
+ */
+function getMissingCriticalCoverage(coverage: CoverageInfo): ("spacing" | "taper" | "buffer")[] {
+  const missing: ("spacing" | "taper" | "buffer")[] = [];
+  if (!coverage.spacing) missing.push("spacing");
+  if (!coverage.taper) missing.push("taper");
+  if (!coverage.buffer) missing.push("buffer");
+  return missing;
+}
+
+function buildSystemPrompt(deviceWarning: boolean = false): string {
+  const lines = [
+    "You are a traffic control planning assistant.",
+    "You draft temporary traffic control plans strictly based on the provided handbook and example excerpts.",
+    "",
+    "Rules:",
+    "- Use ONLY the provided handbook (HB::...) and example (EX::...) excerpts for numeric rules and layout patterns.",
+    "- Do NOT use any outside knowledge beyond these excerpts.",
+    "- Handbooks (HB) always override examples (EX) when there is any conflict.",
+    "- Sign spacing (A/B/C), taperLengthFt, bufferLengthFt and device counts are resolved by the server from the jurisdiction rules pack and listed in the job message. Do NOT output them in plan.",
+    "- Write the summary, recommendedLayout and assumptions around the resolved values.",
+    "- If a provided handbook excerpt gives a different number for one of the resolved values, add it to plan.proposedValues with the excerpt citation. Do not propose values without an excerpt to cite.",
+  ];
+
+  // Tell the model not to propose device counts when no excerpt covers them
+  if (deviceWarning) {
+    lines.push("");
+    lines.push("⚠️ DEVICE GUIDANCE MISSING: Handbook guidance for device counts (cones, signs, flaggers) was NOT found in the provided excerpts. Do not propose device counts; the resolved counts stand.");
+  }
+
+  lines.push(
+    "",
+    "Planner Notes (HIGH PRIORITY):",
+    "- Treat planner notes as intentional guidance from a human planner.",
+    "- Planner notes may add constraints, override defaults, add safety considerations, or request specific devices, layouts, or handling.",
+    "- Incorporate planner notes wherever possible.",
+    "- If planner notes conflict with handbook rules, handbook rules still win, but you MUST state the conflict clearly in assumptions[].",
+    "- When planner notes materially influence the plan, include an assumption like: \"Planner notes requested X; plan adjusted by Y.\"",
+    "- If planner notes could not be applied, state why in assumptions[] (e.g., conflicts with handbook guidance).",
+    "",
+    "Citation format for references:",
+    '- Handbooks:  "HB::<docName>::p<pageNumber>::<sectionOrTableId>"',
+    '- Examples:   "EX::<docName>::p<pageNumber>::<figureId>"',
+    "- Copy the citation from the excerpt header exactly. References that match no provided excerpt are removed.",
+    "",
+    "=== STRICT OUTPUT REQUIREMENTS ===",
+    "You MUST output a single JSON object only. No markdown, no backticks, no text before or after.",
+    "",
+    "REQUIRED FIELDS (all must be present):",
+    "- summary: string (short description of the plan)",
+    "- plan: object",
+    "- plan.recommendedLayout: string (e.g., \"Typical Application 6C-2\")",
+    "- assumptions: string[] (array of strings)",
+    "- references: string[] (array of citation strings)",
+    "",
+    "OPTIONAL FIELDS:",
+    "- plan.proposedValues: array of { \"field\": string, \"value\": number|boolean, \"references\": string[] }",
+    `  - field is one of: ${Object.keys(PLAN_NUMBER_FIELDS).map((f) => `\"${f}\"`).join(", ")}, or "signSpacing.<label>" for an advance sign gap ("signSpacing.A", "signSpacing.B", ...)`,
+    "  - value must be a JSON number (a boolean for devices.arrowBoard)",
+    "",
+    "EXAMPLE OUTPUT (use this exact structure):",
+    '{',
+    '  "summary": "Lane closure TCP for 35 mph 2-lane road, daytime work.",',
+    '  "plan": {',
+    '    "recommendedLayout": "Typical Application 6C-2",',
+    '    "proposedValues": [',
+    '      { "field": "bufferLengthFt", "value": 250, "references": ["HB::mutcd::p123::Table6C-2"] }',
+    '    ]',
+    '  },',
+    '  "assumptions": ["Based on 35 mph posted speed.", "Daytime work assumed."],',
+    '  "references": ["HB::mutcd::p123::Table6C-2"]',
+    '}',
+    "",
+    "CRITICAL REMINDERS:",
+    "- Omit plan.proposedValues (or leave it empty) when the excerpts agree with the resolved values",
+    "- Proposed values must be JSON numbers or booleans, not strings"
+  );
+
+  return lines.join("\n");
+}
+
+function buildContextPrompt(handbookText: string, exampleText: string): string {
+  return [
+    "You are given excerpts from official TCP handbooks (HB) and real TCP examples (EX).",
+    "Use handbooks for authoritative numeric rules, and examples only for pattern/context.",
+    "",
+    "=== HANDBOOK EXCERPTS (HB) ===",
+    handbookText || "(none)",
+    "",
+    "=== EXAMPLE EXCERPTS (EX) ===",
+    exampleText || "(none)",
+  ].join("\n");
+}
+
+function buildUserPrompt(req: TcpDraftRequest, rulesPack: LayeredRulesPack, numbers: PlanNumbers): string {
+  const { geometry, locationLabel, roadType, postedSpeedMph, workType, workLengthFt, isNight, notes } =
+    req;
+
+  const parts: string[] = [];
+  parts.push("Draft a temporary traffic control plan for the following job.");
+  parts.push("");
+  parts.push(
+    `Location: ${locationLabel ?? "unspecified label"}, roadType=${roadType}, speed=${postedSpeedMph} mph, workType=${workType}, workLength=${workLengthFt} ft, time=${
+      isNight ? "night" : "day"
+    }.`
+  );
+  parts.push(`Jurisdiction: ${rulesPack.label} (rules pack layers: ${rulesPack.layers.join(" → ")}).`);
+  if (req.hourlyVolumeVph || req.adt) {
+    const volume = req.hourlyVolumeVph ? `${req.hourlyVolumeVph} veh/h` : `ADT ${req.adt}`;
+    parts.push(`Traffic: ${volume}, directional split ${Math.round((req.directionalSplit ?? 0.5) * 100)}% in the heavier direction.`);
+  }
+  if (req.crossSection) {
+    const { lanesPerDirection, laneWidthFt, shoulderWidthFt, bikeLaneWidthFt, parkingLaneWidthFt, medianWidthFt, workAreaWidthFt } = req.crossSection;
+    parts.push(
+      `Cross-section: ${lanesPerDirection} lane(s) per direction at ${laneWidthFt} ft, shoulder ${shoulderWidthFt} ft` +
+      `${bikeLaneWidthFt ? `, bike lane ${bikeLaneWidthFt} ft` : ""}` +
+      `${parkingLaneWidthFt ? `, parking lane ${parkingLaneWidthFt} ft` : ""}` +
+      `${medianWidthFt ? `, median ${medianWidthFt} ft` : ", undivided"}` +
+      `${workAreaWidthFt !== undefined ? `, work area ${workAreaWidthFt} ft wide` : ""}.`
+    );
+  }
+  if (req.roadType === "intersection" && req.approaches) {
+    parts.push(
+      `Approaches: ${req.approaches
+        .map(a => `${a.name ?? `leg at ${a.bearingDeg}°`} ${a.speedMph} mph, ${a.lanes} lane(s)`)
+        .join("; ")}.`
+    );
+  }
+  if (req.workZoneSpeedMph !== undefined && req.workZoneSpeedMph < postedSpeedMph) {
+    parts.push(
+      `Work zone speed limit: ${req.workZoneSpeedMph} mph (temporary speed zone order); ` +
+      `advance warning signs use the ${postedSpeedMph} mph posted speed, the activity area uses ${req.workZoneSpeedMph} mph.`
+    );
+  }
+  if (req.pedestrianRoute) {
+    parts.push(`Pedestrian route: ${req.pedestrianRoute.length}-point temporary route drawn from crosswalk to crosswalk.`);
+  }
+
+  if (geometry.type === "bbox" && geometry.bbox) {
+    const [west, south, east, north] = geometry.bbox;
+    parts.push(
+      `Geometry: bbox [west=${west}, south=${south}, east=${east}, north=${north}] (units: degrees longitude/latitude).`
+    );
+  } else if (geometry.type === "polygon" && geometry.polygon) {
+    parts.push(
+      `Geometry: polygon with ${geometry.polygon[0]?.length ?? 0} vertices (unclosed ring, coordinates [lng,lat]).`
+    );
+  }
+
+  if (notes) {
+    parts.push("");
+    parts.push("=== PLANNER NOTES (HIGH PRIORITY) ===");
+    parts.push(notes);
+    parts.push("=== END PLANNER NOTES ===");
+    parts.push("");
+    parts.push("Remember: Incorporate planner notes where possible and document how they affected the plan in assumptions[].");
+  }
+
+  const { devices } = numbers;
+  parts.push("");
+  parts.push(
+    `Resolved plan values (rules pack): sign spacing ${numbers.signSpacing
+      .map((s) => `${s.label}=${s.distanceFt} ft${s.mutcdCode ? ` (${s.mutcdCode})` : ""}`)
+      .join(", ")}, taper ${numbers.taperLengthFt} ft, buffer ${numbers.bufferLengthFt} ft, ` +
+    `${devices.cones} cones, ${devices.signs} signs, ${devices.arrowBoard ? "arrow board" : "no arrow board"}, ${devices.flaggers} flagger(s).`
+  );
+  parts.push(
+    "These values are final. Only propose a different number in plan.proposedValues when a provided handbook excerpt supports it, and cite that excerpt."
+  );
+
+  return parts.join("\n");
+}
+
+function generateSvgFromPlan(plan: TcpPlan): string {
+  const width = 800;
+  const height = 400;
+
+  const totalApproach =
+    plan.taperLengthFt + plan.bufferLengthFt + (plan.signSpacing[0]?.distanceFt ?? 0);
+
+  const scale =
+    totalApproach > 0 ? Math.min(500 / totalApproach, 2) : 1;
+
+  const laneWidth = 80;
+  const centerX = width / 2;
+  const roadTop = 40;
+  const roadBottom = height - 40;
+
+  const workZoneHeight = Math.min(120, height / 3);
+  const workZoneTop = height / 2 - workZoneHeight / 2;
+  const workZoneBottom = workZoneTop + workZoneHeight;
+
+  const bufferPx = plan.bufferLengthFt * scale;
+  const taperPx = plan.taperLengthFt * scale;
+
+  const workZoneStartY = workZoneTop;
+  const taperEndY = workZoneStartY;
+  const taperStartY = taperEndY + taperPx;
+  const bufferStartY = tapperClamp(taperStartY + bufferPx, roadTop, roadBottom);
+
+  // Each gap is measured from the previous sign, so signs sit at the running total
+  let signOffsetFt = 0;
+  const signs = plan.signSpacing.map((sign) => {
+    signOffsetFt += sign.distanceFt;
+    return { label: sign.label, y: bufferStartY + signOffsetFt * scale };
+  });
+
+  const svg = `
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <rect width="100%" height="100%" fill="#f5f5f5" />
+  <rect x="${centerX - laneWidth / 2}" y="${roadTop}" width="${laneWidth}" height="${
+    roadBottom - roadTop
+  }" fill="#d4d4d4" />
+  <line x1="${centerX}" y1="${roadTop}" x2="${centerX}" y2="${roadBottom}" stroke="#ffffff" stroke-width="4" stroke-dasharray="16 12" />
+  <rect x="${centerX - laneWidth / 2}" y="${workZoneTop}" width="${laneWidth}" height="${workZoneHeight}" fill="#f97316" opacity="0.85" />
+  <text x="${centerX}" y="${workZoneTop - 8}" text-anchor="middle" font-size="14" fill="#111827">
+    Work zone
+  </text>
+  <polygon points="${centerX - laneWidth / 2},${taperStartY} ${centerX + laneWidth / 2},${taperStartY} ${centerX + laneWidth / 2},${taperEndY} ${centerX - laneWidth / 2},${taperEndY}" fill="#fed7aa" />
+  <text x="${centerX + laneWidth / 2 + 8}" y="${(taperStartY + taperEndY) / 2}" font-size="12" fill="#374151">
+    Taper ~ ${plan.taperLengthFt.toFixed(0)} ft
+  </text>
+  <rect x="${centerX - laneWidth / 2}" y="${bufferStartY}" width="${laneWidth}" height="${
+    taperStartY - bufferStartY
+  }" fill="#fee2e2" />
+  <text x="${centerX + laneWidth / 2 + 8}" y="${
+    (bufferStartY + taperStartY) / 2
+  }" font-size="12" fill="#374151">
+    Buffer ~ ${plan.bufferLengthFt.toFixed(0)} ft
+  </text>
+  <text x="${centerX}" y="${height - 10}" text-anchor="middle" font-size="12" fill="#111827">
+    Approach from bottom → upstream to downstream
+  </text>
+  ${signs.map((sign) => renderSign(centerX, sign.y, sign.label)).join("")}
+  ${plan.devices.arrowBoard ? renderArrowBoard(centerX, taperStartY + 20) : ""}
+</svg>
+`;
+
+  return svg.length > MAX_SVG_LENGTH ? svg.slice(0, MAX_SVG_LENGTH) : svg;
+}
+
+function tapperClamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function renderSign(centerX: number, y: number, label: string): string {
+  if (!Number.isFinite(y)) return "";
+  const size = 28;
+  const x = centerX - 140;
+  const half = size / 2;
+  const points = [
+    `${x},${y - half}`,
+    `${x + half},${y}`,
+    `${x},${y + half}`,
+    `${x - half},${y}`,
+  ].join(" ");
+
+  return `
+  <polygon points="${points}" fill="#fde68a" stroke="#92400e" stroke-width="2" />
+  <text x="${x}" y="${y + 4}" text-anchor="middle" font-size="14" fill="#111827" font-weight="bold">
+    ${label}
+  </text>
+  `;
+}
+
+function renderArrowBoard(centerX: number, y: number): string {
+  const width = 70;
+  const height = 30;
+  const x = centerX + 120;
+
+  return `
+  <rect x="${x}" y="${y - height / 2}" width="${width}" height="${height}" rx="4" fill="#111827" />
+  <circle cx="${x + 14}" cy="${y}" r="3" fill="#f97316" />
+  <circle cx="${x + 26}" cy="${y}" r="3" fill="#f97316" />
+  <circle cx="${x + 38}" cy="${y}" r="3" fill="#f97316" />
+  <circle cx="${x + 50}" cy="${y}" r="3" fill="#f97316" />
+  <text x="${x + width / 2}" y="${y + 22}" text-anchor="middle" font-size="11" fill="#374151">
+    Arrow board
+  </text>
+  `;
+}
+
+/**
+ * Throttled "tokens" progress reporter for one model attempt (undefined unless streaming)
+ */
+function tokenProgress(emit: EmitProgress | undefined, attempt: number): ((chars: number) => void) | undefined {
+  if (!emit) return undefined;
+  let reportedChars = 0;
+  return (chars) => {
+    if (chars - reportedChars < TOKEN_EVENT_INTERVAL_CHARS) return;
+    reportedChars = chars;
+    emit({ stage: "tokens", attempt, chars });
+  };
+}
+
+/**
+ * Error response for a failed model call: 502 when the API failed, 500 when its reply was unreadable
+ */
+function completionError(result: Extract<CompletionResult, { ok: false }>): DraftResult {
+  // Server-side logging for debugging
+  console.error(`[draft-tcp] Model API error after ${result.attempts} attempt(s):`);
+  console.error("  - upstream status:", result.upstreamStatus);
+  console.error("  - message:", result.message);
+  if (result.upstreamBody) {
+    console.error("  - upstream body:", result.upstreamBody);
+  }
+  if (result.requestId) {
+    console.error("  - request id:", result.requestId);
+  }
+
+  if (result.kind === "invalid_response") {
+    return draftError(500, { error: "Invalid JSON from model", rawText: result.message });
+  }
+  return draftError(502, {
+    error: result.message,
+    status: 502,
+    details: {
+      upstreamStatus: result.upstreamStatus,
+      upstreamBody: result.upstreamBody,
+      ...(result.requestId && { requestId: result.requestId }),
+      ...(result.errorCode && { errorCode: result.errorCode }),
+    },
+  });
+}
+
+/**
+ * Draft a plan for a request body. `emit` receives progress events as each
+ * stage completes; when it is given the model response is streamed so token
+ * progress can be reported.
+ */
+export async function draftTcp(
+  body: unknown,
+  emit?: EmitProgress,
+  options: DraftOptions = {}
+): Promise<DraftResult> {
+  const progress: EmitProgress = emit ?? (() => {});
+  const retrieve = options.retrieve ?? retrieveSupport;
+
+  const parsedReq = tcpDraftRequestSchema.safeParse(body);
+  const issues: ValidationIssue[] = [];
+
+  if (!parsedReq.success) {
+    issues.push(...toValidationIssues(parsedReq.error));
+  } else {
+    issues.push(...validateGeometry(parsedReq.data));
+  }
+
+  if (issues.length > 0) {
+    return draftError(400, { error: "Invalid request body", details: { issues } });
+  }
+
+  const tcpReq = parsedReq.data as TcpDraftRequest;
+  progress({ stage: "validated" });
+
+  const llm = getLlmProvider();
+  if (!llm.ok) {
+    return draftError(500, {
+      error: "Missing environment configuration",
+      details: { missing: llm.missing, ...(llm.invalid.length > 0 && { invalid: llm.invalid }) },
+    });
+  }
+  const { provider } = llm;
+
+  // Select jurisdiction rules pack (explicit request field wins over location)
+  const jurisdiction = selectJurisdiction({
+    jurisdiction: tcpReq.jurisdiction,
+    location: getGeometryCenter(tcpReq),
+  });
+  const rulesPack = getRulesPack(jurisdiction);
+  console.log(`[draft-tcp] Rules pack: ${rulesPack.layers.join(" > ")} v${rulesPack.stamp.version} #${rulesPack.stamp.contentHash}`);
+
+  // Every plan number (spacing, tapers, buffer, devices, signing) comes from the rules resolver, not the model
+  const operation = mapWorkTypeToOperation(tcpReq.workType);
+  const resolvedRules = resolveTcpRules({
+    speedMph: tcpReq.postedSpeedMph,
+    laneWidthFt: tcpReq.crossSection ? getTaperWidthFt(tcpReq.crossSection, operation) : undefined,
+    operation,
+    timeOfDay: tcpReq.isNight ? "night" : "day",
+    roadType: tcpReq.roadType,
+    approaches: tcpReq.approaches,
+    workZoneSpeedMph: tcpReq.workZoneSpeedMph,
+    jurisdiction,
+  });
+  const planTapers = toPlanTapers(resolvedRules);
+  const planMobile = toPlanMobile(resolvedRules);
+  const planDetour = toPlanDetour(resolvedRules, tcpReq);
+  const planSignSchedule = toPlanSignSchedule(resolvedRules, planDetour);
+  const planQueue = toPlanQueue(resolvedRules, tcpReq);
+  const planCrossSection = toPlanCrossSection(resolvedRules, tcpReq);
+  const planNight = toPlanNight(resolvedRules);
+  const planPedestrian = toPlanPedestrian(resolvedRules, tcpReq);
+  const planBike = toPlanBike(resolvedRules);
+  const planIntersection = toPlanIntersection(resolvedRules);
+  const planSpeedReduction = toPlanSpeedReduction(resolvedRules);
+  const planNumbers = toPlanNumbers(resolvedRules, tcpReq, planSignSchedule);
+  const fieldLayout = buildFieldLayout(tcpReq, resolvedRules, jurisdiction);
+
+  const retrievalCtx = buildRetrievalContext(tcpReq);
+
+  const { handbookChunks, exampleChunks } = await retrieve(retrievalCtx);
+  progress({ stage: "retrieval", handbookChunks: handbookChunks.length, exampleChunks: exampleChunks.length });
+
+  // ===== COVERAGE GATE: Analyze handbook chunks for critical guidance =====
+  const coverage = analyzeHandbookCoverage(handbookChunks);
+  const missingCritical = getMissingCriticalCoverage(coverage);
+  progress({ stage: "coverage", passed: missingCritical.length === 0, missing: missingCritical });
+
+  // SAFETY KILL SWITCH: Block LLM call if critical coverage is missing
+  if (missingCritical.length > 0) {
+    // Log detailed debug info for troubleshooting
+    logCoverageGateDebug(handbookChunks, coverage, missingCritical);
+    
+    return draftError(500, {
+      error: "Missing handbook guidance",
+      details: {
+        missing: missingCritical,
+        coverage,
+        message: `Cannot generate plan: The following mandatory handbook rules were not found in the current knowledge base: ${missingCritical.join(", ")}. Please ensure handbook documents contain guidance for sign spacing, taper lengths, and buffer distances.`,
+      },
+    });
+  }
+  
+  // Log success for debugging
+  console.log("[coverage-gate] PASSED: All critical coverage found");
+  console.log("[coverage-gate] Citations:", coverage.citations.map(c => `${c.category}: ${c.docName} p.${c.page}`));
+
+  // Track if devices guidance is missing (non-blocking, but inject warning)
+  const deviceWarning = !coverage.devices;
+  if (deviceWarning) {
+    console.log("[coverage-gate] WARNING: Device guidance missing, will inject LLM instruction");
+  }
+
+  // Track if we're using fallback defaults
+  const usingFallbackDefaults = handbookChunks.length === 0;
+
+  if (usingFallbackDefaults) {
+    console.log("[draft-tcp] No handbook match found, using MUTCD fallback defaults:");
+    console.log(`  - roadType: ${tcpReq.roadType}`);
+    console.log(`  - workType: ${tcpReq.workType}`);
+    console.log(`  - speedMph: ${tcpReq.postedSpeedMph}`);
+  }
+
+  // Build handbook text or provide fallback guidance
+  const handbookText = handbookChunks.length > 0
+    ? handbookChunks
+        .map(
+          (c, idx) =>
+            `[HB${idx + 1}] ${formatCitation(c)}\n${c.text.slice(0, 1200)}`
+        )
+        .join("\n\n")
+    : buildFallbackGuidance(tcpReq.postedSpeedMph);
+
+  const exampleText = exampleChunks
+    .map(
+      (c, idx) =>
+        `[EX${idx + 1}] ${formatCitation(c)}\n${c.text.slice(0, 800)}`
+    )
+    .join("\n\n");
+
+  const systemPrompt = buildSystemPrompt(deviceWarning);
+  const contextPrompt = buildContextPrompt(handbookText, exampleText);
+  const userPrompt = buildUserPrompt(tcpReq, rulesPack, planNumbers);
+
+  // Combine system + context into a single system message for better compatibility
+  const combinedSystemPrompt = `${systemPrompt}\n\n${contextPrompt}`;
+  const messages: ChatMessage[] = [
+    { role: "system", content: combinedSystemPrompt },
+    { role: "user", content: userPrompt },
+  ];
+
+  console.log(`[draft-tcp] Calling model: ${provider.id}/${provider.model}`);
+  console.log("[draft-tcp] System prompt length:", combinedSystemPrompt.length);
+  console.log("[draft-tcp] User prompt length:", userPrompt.length);
+
+  progress({ stage: "model", model: provider.model, attempt: 1 });
+  const completion = await provider.complete({
+    messages,
+    temperature: 0.1,
+    jsonSchema: MODEL_DRAFT_JSON_SCHEMA,
+    onChars: tokenProgress(emit, 1),
+  });
+  if (!completion.ok) {
+    return completionError(completion);
+  }
+  if (emit) progress({ stage: "tokens", attempt: 1, chars: completion.text.length });
+
+  // Token accounting across the first call and any corrective retry
+  let usage: TokenUsage | null = completion.usage;
+  let modelCalls = completion.attempts;
+  const rawText = completion.text;
+
+  console.log("[draft-tcp] Model response received, content length:", rawText.length);
+
+  if (typeof rawText !== "string" || !rawText.trim()) {
+    console.error("[draft-tcp] Empty or invalid content from model");
+    return draftError(500, {
+      error: "Invalid JSON from model",
+      rawText: rawText ? String(rawText).slice(0, 2000) : "(empty response)",
+    });
+  }
+
+  const firstBrace = rawText.indexOf("{");
+  const lastBrace = rawText.lastIndexOf("}");
+
+  if (firstBrace === -1 || lastBrace === -1 || lastBrace <= firstBrace) {
+    console.error("[draft-tcp] No valid JSON object found in model response");
+    return draftError(500, {
+      error: "Invalid JSON from model",
+      rawText: rawText.slice(0, 2000),
+    });
+  }
+
+  const jsonSlice = rawText.slice(firstBrace, lastBrace + 1);
+
+  let candidate: unknown;
+  try {
+    candidate = JSON.parse(jsonSlice);
+  } catch (jsonErr) {
+    const errMsg = jsonErr instanceof Error ? jsonErr.message : String(jsonErr);
+    console.error("[draft-tcp] JSON parse failed:", errMsg);
+    return draftError(500, {
+      error: "Invalid JSON from model",
+      rawText: rawText.slice(0, 2000),
+    });
+  }
+
+  console.log("[draft-tcp] Successfully parsed model response JSON");
+
+  // Resolver numbers plus the model's narrative; model numbers only surface as discrepancies
+  const buildFinalResponse = (draft: ModelDraft): TcpDraftResponse => {
+    const plan: TcpPlan = {
+      recommendedLayout: draft.recommendedLayout,
+      ...planNumbers,
+      tapers: planTapers,
+      mobile: planMobile,
+      detour: planDetour,
+      signSchedule: planSignSchedule,
+      queue: planQueue,
+      derivations: resolvedRules.derivations,
+      crossSection: planCrossSection,
+      night: planNight,
+      pedestrian: planPedestrian,
+      bike: planBike,
+      intersection: planIntersection,
+      speedReduction: planSpeedReduction,
+    };
+    // Keep only citations that match an excerpt that was actually retrieved
+    const retrievedChunks = [...handbookChunks, ...exampleChunks];
+    const referenceCheck = verifyReferences(draft.references, retrievedChunks);
+    const unverifiedReferences: UnverifiedReference[] = [...referenceCheck.unverified];
+    const proposedValues = draft.proposedValues.flatMap((proposal) => {
+      const check = verifyReferences(proposal.references, retrievedChunks);
+      if (check.verified.length > 0) {
+        return [{ ...proposal, references: check.verified.map((v) => v.citation) }];
+      }
+      unverifiedReferences.push({
+        reference: proposal.references.join(", ") || "(none)",
+        reason: `Proposed ${proposal.field} = ${proposal.value} dropped: ${
+          proposal.references.length > 0 ? "its citations match no retrieved excerpt" : "no citation given"
+        }`,
+      });
+      return [];
+    });
+    const fieldSupport = findFieldSupport(
+      buildFieldEvidence(planNumbers, resolvedRules),
+      retrievedChunks,
+      referenceCheck.verified.map((v) => v.chunkId)
+    );
+    const unsupportedFields = [
+      ...planNumbers.signSpacing.map((s) => `signSpacing.${s.label}`),
+      ...Object.keys(PLAN_NUMBER_FIELDS),
+    ].filter((field) => !fieldSupport[field]);
+    console.log(
+      `[citations] verified=${referenceCheck.verified.length} unverified=${unverifiedReferences.length} ` +
+      `supported=[${Object.keys(fieldSupport).join(",")}] unsupported=[${unsupportedFields.join(",")}]`
+    );
+
+    const discrepancies = findDiscrepancies(proposedValues, planNumbers, resolvedRules);
+
+    // Add fallback assumption if applicable
+    const assumptions = [...draft.assumptions];
+    if (usingFallbackDefaults) {
+      assumptions.unshift("⚠️ No specific handbook guidance found for this road type. Using MUTCD general defaults. Verify against local jurisdiction requirements.");
+    }
+    if (deviceWarning) {
+      assumptions.push("⚠️ No handbook excerpt covered device counts; counts are computed from the rules pack tapers, cone spacing and sign schedule.");
+    }
+    if (unverifiedReferences.length > 0) {
+      assumptions.push(`⚠️ Removed ${unverifiedReferences.length} citation(s) that match no retrieved excerpt: ${unverifiedReferences.map((u) => u.reference).join("; ")}.`);
+    }
+    assumptions.push(`Rules pack: ${rulesPack.label} (${rulesPack.layers.join(" → ")}) v${rulesPack.stamp.version} #${rulesPack.stamp.contentHash}.`);
+
+    console.log(
+      `[draft-tcp] Model usage: ${provider.id}/${provider.model} calls=${modelCalls} ` +
+      `tokens=${usage ? `${usage.promptTokens}+${usage.completionTokens}=${usage.totalTokens}` : "unreported"}`
+    );
+
+    return {
+      summary: draft.summary,
+      plan,
+      assumptions,
+      references: referenceCheck.verified.map((v) => v.citation),
+      svgContent: generateSvgFromPlan(plan),
+      coverage, // Include coverage info for UI confidence display
+      rulesPack: rulesPack.stamp,
+      llm: { provider: provider.id, model: provider.model, calls: modelCalls, ...usage },
+      fieldSupport,
+      ...(unsupportedFields.length > 0 ? { unsupportedFields } : {}),
+      ...(fieldLayout ? { fieldLayout } : {}),
+      ...(unverifiedReferences.length > 0 ? { unverifiedReferences } : {}),
+      ...(discrepancies.length > 0 ? { discrepancies } : {}),
+    };
+  };
+
+  // The assembled response must satisfy the published schema before it leaves the server
+  const finishDraft = (draft: ModelDraft): DraftResult => {
+    const response = buildFinalResponse(draft);
+    const checked = tcpDraftResponseSchema.safeParse(response);
+    if (!checked.success) {
+      const issues = toValidationIssues(checked.error);
+      console.error("[draft-tcp] Assembled response failed schema validation:", issues.map(formatValidationIssue));
+      return draftError(500, { error: "Assembled plan failed validation", details: { issues } });
+    }
+    return { ok: true, response };
+  };
+
+  const validation = validateModelDraft(candidate);
+  progress({ stage: "response_validation", attempt: 1, ok: validation.ok, issues: validation.ok ? [] : validation.issues });
+
+  if (!validation.ok) {
+    // Log detailed info for debugging
+    console.error("[draft-tcp] Validation failed:");
+    console.error("  - issues:", validation.issues.map(formatValidationIssue));
+    console.error("  - rawText:", rawText.slice(0, 1000));
+    console.error("  - jsonSlice:", jsonSlice.slice(0, 1000));
+    console.error("  - parsed:", JSON.stringify(candidate, null, 2).slice(0, 1000));
+
+    // One automatic retry with corrective instruction
+    console.log("[draft-tcp] Attempting retry with corrective prompt...");
+    
+    const retryPrompt = `Your last JSON failed validation. Each issue names the failing value by JSON Pointer:
+${validation.issues.map((issue) => `- ${formatValidationIssue(issue)}`).join("\n")}
+
+Return ONLY a corrected JSON object with the exact same schema. Remember:
+- summary must be a string and plan.recommendedLayout must be a string
+- assumptions and references must be arrays of strings
+- Do not output sign spacing, taper, buffer or device counts; list disagreements in plan.proposedValues only
+- plan.proposedValues[].field is one of ${Object.keys(PLAN_NUMBER_FIELDS).join(", ")}, or signSpacing.<label> (A, B, C...)
+
+Return ONLY the corrected JSON, no explanation.`;
+
+    progress({ stage: "model", model: provider.model, attempt: 2 });
+    const retryCompletion = await provider.complete({
+      messages: [
+        ...messages,
+        { role: "assistant", content: rawText },
+        { role: "user", content: retryPrompt },
+      ],
+      temperature: 0.0,
+      jsonSchema: MODEL_DRAFT_JSON_SCHEMA,
+      onChars: tokenProgress(emit, 2),
+    });
+
+    if (retryCompletion.ok) {
+      if (emit) progress({ stage: "tokens", attempt: 2, chars: retryCompletion.text.length });
+      usage = addUsage(usage, retryCompletion.usage);
+      modelCalls += retryCompletion.attempts;
+      const retryRawText = retryCompletion.text;
+
+      console.log("[draft-tcp] Retry response received, length:", retryRawText.length);
+
+      const retryFirstBrace = retryRawText.indexOf("{");
+      const retryLastBrace = retryRawText.lastIndexOf("}");
+
+      if (retryFirstBrace !== -1 && retryLastBrace > retryFirstBrace) {
+        const retryJsonSlice = retryRawText.slice(retryFirstBrace, retryLastBrace + 1);
+        try {
+          const retryCandidate = JSON.parse(retryJsonSlice);
+          const retryValidation = validateModelDraft(retryCandidate);
+          progress({
+            stage: "response_validation",
+            attempt: 2,
+            ok: retryValidation.ok,
+            issues: retryValidation.ok ? [] : retryValidation.issues,
+          });
+
+          if (retryValidation.ok) {
+            console.log("[draft-tcp] Retry succeeded!");
+            return finishDraft(retryValidation.value);
+          } else {
+            console.error("[draft-tcp] Retry also failed validation:", retryValidation.issues.map(formatValidationIssue));
+          }
+        } catch (retryParseErr) {
+          console.error("[draft-tcp] Retry JSON parse failed:", retryParseErr);
+        }
+      }
+    } else {
+      console.error("[draft-tcp] Retry call failed:", retryCompletion.message);
+    }
+
+    // Return original validation error if retry failed
+    return draftError(500, {
+      error: "Model response failed validation",
+      details: { issues: validation.issues },
+      parsed: candidate,
+    });
+  }
+
+  return finishDraft(validation.value);
+}
@@ -19,13 +19,31 @@ import {
   generateDeviceId,
   SIGN_LABELS,
   RoadPolyline,
+  SignSubtype,
+  DetourRouteAnalysis,
+  PedestrianRouteAnalysis,
 } from "../layoutTypes";
 
 import {
   resolveTcpRules,
   ResolvedTcpRules,
   OperationType,
+  SpeedOutOfRange,
+  ResolvedTaper,
+  ResolvedMobileOperation,
+  ResolvedDetourSigning,
+  ResolvedNightOperations,
+  ResolvedPedestrianClosure,
+  ResolvedBikeLaneClosure,
+  ResolvedSpeedReduction,
+  ResolvedSignRef,
+  DetourTurn,
+  TimeOfDay,
+  mapWorkTypeToOperation,
 } from "@/src/rules/resolveTcpRules";
+import { estimateFlaggerQueue } from "@/src/rules/estimateFlaggerQueue";
+import { checkCrossSection, getTaperWidthFt, CrossSection } from "@/src/rules/checkCrossSection";
+import type { JurisdictionId, RulesPackStamp } from "@/src/rules/rulesTypes";
 
 // ============================================
 // CONSTANTS
@@ -58,6 +76,35 @@ const SIGN_BASE_OFFSET_FT = 50;
 /** Minimum separation between signs to prevent stacking (meters) */
 const MIN_SIGN_SEPARATION_M = 15;
 
+/** Detour route turns sharper than this get a DETOUR + turn arrow assembly (radians) */
+const DETOUR_TURN_THRESHOLD_RAD = 30 * Math.PI / 180;
+
+/** Detour assemblies are posted this far before the decision point (meters) */
+const DETOUR_SIGN_SETBACK_M = 10;
+
+/** Type III barricades across the closed roadway at each closure point */
+const CLOSURE_BARRICADE_COUNT = 3;
+const CLOSURE_BARRICADE_SPACING_M = 3.5;
+const CLOSURE_BARRICADE_SETBACK_M = 3;
+
+/** Pedestrian channelizing device sections (6 ft) across a closed sidewalk at each end */
+const PED_CHANNELIZER_COUNT = 2;
+const PED_CHANNELIZER_SPACING_M = 1.8;
+const PED_CHANNELIZER_SETBACK_M = 1;
+
+/** Without a drawn pedestrian route, USE OTHER SIDE signs go this far beyond each end (assumed crosswalk) */
+const ASSUMED_CROSSWALK_DISTANCE_M = 30;
+
+/** Bike signs stand this far behind the outer edge of the bike lane (SIGN_CLEAR_OF_BIKE_LANE) */
+const BIKE_SIGN_EDGE_CLEARANCE_FT = 2;
+
+/** Bike lane width assumed when no cross-section was entered */
+const DEFAULT_BIKE_LANE_WIDTH_FT = 5;
+
+/** Night light towers stand this far to the side of a flagger station, and this far apart when a station has several */
+const LIGHT_TOWER_STATION_OFFSET_M = 4;
+const LIGHT_TOWER_STATION_SPACING_M = 6;
+
 /** 
  * LEGACY: Speed-based spacing in feet (DEPRECATED - now using rules resolver)
  * Kept as fallback if rules resolution fails
@@ -70,10 +117,16 @@ const LEGACY_SPEED_CONFIG: Record<number, { signSpacingFt: number[]; taperLength
   45: { signSpacingFt: [250, 500, 750], taperLengthFt: 300, coneSpacingFt: 22 },
   50: { signSpacingFt: [300, 600, 900], taperLengthFt: 360, coneSpacingFt: 25 },
   55: { signSpacingFt: [350, 700, 1050], taperLengthFt: 420, coneSpacingFt: 27 },
-  60: { signSpacingFt: [400, 800, 1200], taperLengthFt: 480, coneSpacingFt: 30 },
-  65: { signSpacingFt: [500, 1000, 1500], taperLengthFt: 550, coneSpacingFt: 32 },
+  // 60+ mph: expressway/freeway A/B/C distances (1000/1500/2640 ft) accumulated from the entry point
+  60: { signSpacingFt: [1000, 2500, 5140], taperLengthFt: 720, coneSpacingFt: 30 },
+  65: { signSpacingFt: [1000, 2500, 5140], taperLengthFt: 845, coneSpacingFt: 32 },
+  70: { signSpacingFt: [1000, 2500, 5140], taperLengthFt: 980, coneSpacingFt: 35 },
 };
 
+/** Speed range covered by LEGACY_SPEED_CONFIG */
+const LEGACY_MIN_SPEED_MPH = 25;
+const LEGACY_MAX_SPEED_MPH = 70;
+
 /** Road class priority for selecting dominant road */
 const ROAD_CLASS_PRIORITY: Record<string, number> = {
   "motorway": 10,
@@ -539,6 +592,105 @@ function selectDominantRoadPolyline(
   return scoredRoads[0].polyline;
 }
 
+// ============================================
+// DETOUR ROUTE
+// ============================================
+
+interface DetourDecisionVertex {
+  index: number;
+  turn: DetourTurn;
+  /** Bearing traffic arrives on at this vertex */
+  approachBearing: number;
+  distanceM: number;
+}
+
+/**
+ * Classify the turn from one bearing to the next (positive angle = clockwise = right)
+ */
+function classifyTurn(fromBearing: number, toBearing: number): DetourTurn {
+  let delta = toBearing - fromBearing;
+  while (delta > Math.PI) delta -= 2 * Math.PI;
+  while (delta <= -Math.PI) delta += 2 * Math.PI;
+  
+  if (Math.abs(delta) < DETOUR_TURN_THRESHOLD_RAD) return "ahead";
+  return delta > 0 ? "right" : "left";
+}
+
+/**
+ * Find decision points along a detour route drawn from where traffic leaves
+ * the closed road to where it rejoins. The first and last vertices are always
+ * decision points (turn off / turn back on); interior vertices only when the
+ * route turns there.
+ */
+function findDetourDecisionVertices(route: RoadPolyline, workZoneCentroid: Point): DetourDecisionVertex[] {
+  const vertices: DetourDecisionVertex[] = [];
+  const last = route.length - 1;
+  let distanceM = 0;
+  
+  for (let i = 0; i <= last; i++) {
+    if (i > 0) distanceM += distanceMeters(route[i - 1], route[i]);
+    
+    // At the start traffic arrives along the closed road (toward the work zone);
+    // at the end it continues in its original direction (away from the work zone)
+    const approachBearing = i === 0 ? bearing(route[0], workZoneCentroid) : bearing(route[i - 1], route[i]);
+    const departureBearing = i === last ? bearing(workZoneCentroid, route[last]) : bearing(route[i], route[i + 1]);
+    const turn = classifyTurn(approachBearing, departureBearing);
+    
+    if (i === 0 || i === last || turn !== "ahead") {
+      vertices.push({ index: i, turn, approachBearing, distanceM });
+    }
+  }
+  
+  return vertices;
+}
+
+/**
+ * Analyze a detour route: total length and the decision points that need
+ * DETOUR (M4-8) + arrow assemblies. Shared by the layout engine and the
+ * draft-tcp route so the plan and the map agree.
+ */
+export function analyzeDetourRoute(
+  route: RoadPolyline,
+  workZoneCentroid: { lng: number; lat: number }
+): DetourRouteAnalysis {
+  if (route.length < 2) {
+    return { lengthFt: 0, decisionPoints: [] };
+  }
+  
+  const vertices = findDetourDecisionVertices(route, [workZoneCentroid.lng, workZoneCentroid.lat]);
+  const lengthFt = Math.round(polylineLength(route) / FT_TO_M);
+  
+  return {
+    lengthFt,
+    decisionPoints: vertices.map((vertex, i) => ({
+      sequence: i + 1,
+      lngLat: route[vertex.index],
+      turn: vertex.turn,
+      distanceFt: Math.round(vertex.distanceM / FT_TO_M),
+    })),
+  };
+}
+
+/**
+ * Measure a drawn pedestrian route and count the passing spaces it needs
+ * if narrower than the passing space width
+ */
+export function analyzePedestrianRoute(
+  route: RoadPolyline,
+  passingSpaceIntervalFt: number
+): PedestrianRouteAnalysis {
+  if (route.length < 2) {
+    return { lengthFt: 0, crosswalks: [], passingSpacesIfNarrow: 0 };
+  }
+  
+  const lengthFt = Math.round(polylineLength(route) / FT_TO_M);
+  return {
+    lengthFt,
+    crosswalks: [route[0], route[route.length - 1]],
+    passingSpacesIfNarrow: Math.floor(lengthFt / passingSpaceIntervalFt),
+  };
+}
+
 // ============================================
 // FALLBACK: POLYGON AXIS DERIVATION
 // ============================================
@@ -642,14 +794,39 @@ function deriveFallbackAxis(ring: number[][]): FallbackAxis {
 // ============================================
 
 /** Config derived from rules pack for current job */
+/** Taper fields the layout needs to place channelizing devices */
+type LayoutTaper = Pick<ResolvedTaper, "type" | "position" | "lengthFt" | "deviceCount">;
+
 interface LayoutConfig {
   signSpacingFt: number[];
   taperLengthFt: number;
+  tapers: LayoutTaper[];
   coneSpacingFt: number;
   bufferLengthFt: number;
   drumsRequired: boolean;
   requiredSigns: string[];
   flaggerCount: number;
+  arrowBoardRequired: boolean;
+  /** Vehicle train for mobile operations (replaces tapers) */
+  mobile: ResolvedMobileOperation | null;
+  /** Closure and detour signing for full closures (replaces tapers) */
+  detour: ResolvedDetourSigning | null;
+  /** Sign face size in inches by sign code, from the sign schedule */
+  signSizesInches: Record<string, number>;
+  /** Set when the posted speed is outside the speed table the values came from */
+  speedOutOfRange: SpeedOutOfRange | null;
+  /** Rules pack the values were resolved from (null on the legacy fallback) */
+  rulesPack: RulesPackStamp | null;
+  /** Lateral offset of advance signs from the road centerline (meters) */
+  signOffsetM: number;
+  /** Night lighting (null by day and on the legacy fallback) */
+  night: ResolvedNightOperations | null;
+  /** Sidewalk closure devices and signing (replaces advance signs and tapers) */
+  pedestrian: ResolvedPedestrianClosure | null;
+  /** Bike lane closure treatment and bike signing (null otherwise and on the legacy fallback) */
+  bike: ResolvedBikeLaneClosure | null;
+  /** Temporary speed zone signs (null without a work zone speed and on the legacy fallback) */
+  speedReduction: ResolvedSpeedReduction | null;
 }
 
 /** Global cache for last resolved rules (for debugging) */
@@ -666,21 +843,48 @@ export function getLastResolvedRules(): ResolvedTcpRules | null {
  * LEGACY fallback: Get speed config from hardcoded table
  * Only used when rules resolution fails
  */
-function getLegacySpeedConfig(speedMph: number): LayoutConfig {
-  const clamped = Math.max(25, Math.min(65, speedMph));
+function getLegacySpeedConfig(speedMph: number, workType?: string): LayoutConfig {
+  const clamped = Math.max(LEGACY_MIN_SPEED_MPH, Math.min(LEGACY_MAX_SPEED_MPH, speedMph));
   const rounded = Math.round(clamped / 5) * 5;
   const legacy = LEGACY_SPEED_CONFIG[rounded] || LEGACY_SPEED_CONFIG[35];
+  const speedOutOfRange: SpeedOutOfRange | null = clamped === speedMph ? null : {
+    requestedMph: speedMph,
+    minMph: LEGACY_MIN_SPEED_MPH,
+    maxMph: LEGACY_MAX_SPEED_MPH,
+    direction: speedMph < LEGACY_MIN_SPEED_MPH ? "below" : "above",
+  };
   
   console.warn("[RULES_FALLBACK] Using legacy spacing logic");
+  if (speedOutOfRange) {
+    console.warn(`[RULES_OUT_OF_RANGE] ${speedMph}mph is outside the legacy table; using ${rounded}mph values`);
+  }
   
   return {
     signSpacingFt: legacy.signSpacingFt,
     taperLengthFt: legacy.taperLengthFt,
+    // Legacy fallback only knows the single merging taper (mobile work and full/sidewalk closures have none)
+    tapers: workType === "mobile_operation" || workType === "full_closure" || workType === "sidewalk_closure" ? [] : [{
+      type: "merging",
+      position: "upstream",
+      lengthFt: legacy.taperLengthFt,
+      deviceCount: Math.max(4, Math.floor(legacy.taperLengthFt / legacy.coneSpacingFt)),
+    }],
     coneSpacingFt: legacy.coneSpacingFt,
     bufferLengthFt: 50,
     drumsRequired: speedMph >= 35,
     requiredSigns: ["ROAD_WORK_AHEAD", "BE_PREPARED_TO_STOP"],
     flaggerCount: 0, // Legacy fallback doesn't place flaggers
+    arrowBoardRequired: workType === "lane_closure" && speedMph >= 45,
+    mobile: null,
+    detour: null,
+    signSizesInches: {}, // Legacy table has no sign sizes
+    speedOutOfRange,
+    rulesPack: null,
+    signOffsetM: SHOULDER_OFFSET_M,
+    night: null,
+    pedestrian: null,
+    bike: null,
+    speedReduction: null,
   };
 }
 
@@ -688,22 +892,34 @@ function getLegacySpeedConfig(speedMph: number): LayoutConfig {
  * Get layout config using the TCP Rules Pack
  * 
  * This is now the PRIMARY source of truth for all spacing values.
- * Falls back to legacy config only if rules resolution throws.
+ * Rules already resolved by the caller are used as-is; otherwise they are
+ * resolved here. Falls back to legacy config only if rules resolution throws.
  */
 function getLayoutConfig(
   speedMph: number,
-  workType?: string
+  roadType: LayoutSuggestionInput["roadType"],
+  workType?: string,
+  jurisdiction?: JurisdictionId,
+  location?: { lng: number; lat: number },
+  crossSection?: CrossSection,
+  timeOfDay: TimeOfDay = "day",
+  workZoneSpeedMph?: number,
+  resolvedRules?: ResolvedTcpRules
 ): LayoutConfig {
   try {
     // Map workType to operation type for rules resolution
     const operation: OperationType = mapWorkTypeToOperation(workType);
     
     // Resolve rules from the rules pack
-    const resolved = resolveTcpRules({
+    const resolved = resolvedRules ?? resolveTcpRules({
       speedMph,
-      laneWidthFt: 12, // Default lane width
+      laneWidthFt: crossSection ? getTaperWidthFt(crossSection, operation) : 12, // Default lane width without a cross-section
       operation,
-      timeOfDay: "day", // Default to day (could be made configurable)
+      timeOfDay,
+      roadType,
+      jurisdiction,
+      location,
+      workZoneSpeedMph,
     });
     
     // Cache for debugging
@@ -715,11 +931,19 @@ function getLayoutConfig(
     // Sign A (furthest upstream): baseOffset + 2*spacing
     // This ensures proper separation even with polyline clamping
     const spacing = resolved.signSpacingFt;
-    const signSpacingFt = [
-      SIGN_BASE_OFFSET_FT,                    // Sign C: closest
-      SIGN_BASE_OFFSET_FT + spacing,          // Sign B: middle
-      SIGN_BASE_OFFSET_FT + spacing * 2,      // Sign A: furthest
-    ];
+    const { a, b, c } = resolved.advanceSignDistancesFt;
+    const hasUnequalDistances = a !== b || b !== c;
+    // Speed zone signs (SPEED REDUCTION, SPEED LIMIT) go between the advance signs and the work zone,
+    // with the nearest advance sign a full spacing upstream of SPEED REDUCTION
+    const speedZoneShiftFt = resolved.speedReduction?.advanceWarningShiftFt ?? 0;
+    const baseOffsetFt = speedZoneShiftFt > 0 ? speedZoneShiftFt + spacing : SIGN_BASE_OFFSET_FT;
+    const signSpacingFt = hasUnequalDistances
+      ? [a, a + b, a + b + c].map(d => d + speedZoneShiftFt) // Expressway/freeway: MUTCD A/B/C accumulated
+      : [
+          baseOffsetFt,                       // Sign C: closest
+          baseOffsetFt + spacing,             // Sign B: middle
+          baseOffsetFt + spacing * 2,         // Sign A: furthest
+        ];
     
     if (DEBUG_SIGN_SPACING) {
       console.log(
@@ -731,37 +955,82 @@ function getLayoutConfig(
     return {
       signSpacingFt,
       taperLengthFt: resolved.taperLengthFt,
+      tapers: resolved.tapers,
       coneSpacingFt: resolved.coneSpacingFt,
       bufferLengthFt: resolved.bufferLengthFt,
       drumsRequired: resolved.drumsRequired,
       requiredSigns: resolved.requiredSigns,
       flaggerCount: resolved.flaggerCount,
+      arrowBoardRequired: resolved.arrowBoardRequired,
+      mobile: resolved.mobile,
+      detour: resolved.detour,
+      signSizesInches: Object.fromEntries(resolved.signSchedule.map(s => [s.code, s.sizeInches])),
+      speedOutOfRange: resolved.speedOutOfRange,
+      rulesPack: resolved.rulesPack,
+      signOffsetM: SHOULDER_OFFSET_M,
+      night: resolved.night,
+      pedestrian: resolved.pedestrian,
+      bike: resolved.bike,
+      speedReduction: resolved.speedReduction,
     };
   } catch (error) {
     console.error("[RULES_ERROR] Failed to resolve TCP rules:", error);
-    return getLegacySpeedConfig(speedMph);
+    return getLegacySpeedConfig(speedMph, workType);
   }
 }
 
 /**
- * Map workType string to OperationType for rules resolution
+ * One-lane two-way flagging: when the estimated queue reaches past the first
+ * advance sign, move signs B and A back by the AWA extension (sign C stays
+ * by the work zone).
  */
-function mapWorkTypeToOperation(workType?: string): OperationType {
-  switch (workType) {
-    case "lane_closure":
-      return "lane_closure";
-    case "lane_shift":
-      return "lane_shift";
-    case "one_lane_two_way_flaggers":
-    case "flagging":
-      return "flagging";
-    case "shoulder_work":
-      return "shoulder_work";
-    case "full_closure":
-      return "full_closure";
-    default:
-      return "lane_closure"; // Default operation type
-  }
+function extendForFlaggerQueue(config: LayoutConfig, input: LayoutSuggestionInput): LayoutConfig {
+  if (input.workType !== "one_lane_two_way_flaggers") return config;
+  
+  const distances = config.signSpacingFt;
+  const firstAdvanceSignFt = distances[distances.length - 1];
+  const estimate = estimateFlaggerQueue({
+    hourlyVolumeVph: input.hourlyVolumeVph,
+    adt: input.adt,
+    directionalSplit: input.directionalSplit,
+    workLengthFt: input.workLengthFt,
+    postedSpeedMph: input.postedSpeedMph,
+    firstAdvanceSignFt,
+    signSpacingFt: firstAdvanceSignFt - distances[distances.length - 2],
+    jurisdiction: input.jurisdiction,
+    location: input.centroid,
+  });
+  if (!estimate || estimate.awaExtensionFt === 0) return config;
+  
+  console.warn(
+    `[LAYOUT] Flagger queue ${estimate.maxQueueLengthFt}ft reaches past the first advance sign; ` +
+    `extending advance warning area by ${estimate.awaExtensionFt}ft`
+  );
+  return {
+    ...config,
+    signSpacingFt: distances.map((d, i) => i === 0 ? d : d + estimate.awaExtensionFt),
+  };
+}
+
+/**
+ * Road cross-section: set signs at the edge of the traveled way (past bike
+ * and parking lanes). Width checks are reported by validateLayoutCompliance.
+ */
+function applyCrossSection(config: LayoutConfig, input: LayoutSuggestionInput): LayoutConfig {
+  if (!input.crossSection) return config;
+  
+  const check = checkCrossSection({
+    crossSection: input.crossSection,
+    operation: mapWorkTypeToOperation(input.workType),
+    speedMph: input.postedSpeedMph,
+    advanceSignCount: config.signSpacingFt.length,
+    jurisdiction: input.jurisdiction,
+    location: input.centroid,
+  });
+  return {
+    ...config,
+    signOffsetM: check.signOffsetFt * FT_TO_M,
+  };
 }
 
 function isTooCloseToExisting(pos: Point, existingDevices: FieldDevice[], minSpacing: number): boolean {
@@ -786,7 +1055,7 @@ function placeSignsAlongRoad(
   road: RoadPolyline,
   polygonRing: number[][],
   centroid: Point,
-  config: { signSpacingFt: number[] }
+  config: { signSpacingFt: number[]; signOffsetM: number }
 ): FieldDevice[] {
   const devices: FieldDevice[] = [];
   
@@ -859,14 +1128,14 @@ function placeSignsAlongRoad(
     }
     
     // Apply shoulder offset perpendicular to road
-    let signPos = applyShoulderOffset(walkResult.point, walkResult.bearing, shoulderSide);
+    let signPos = applyShoulderOffset(walkResult.point, walkResult.bearing, shoulderSide, config.signOffsetM);
     
     // Validation: sign must be OUTSIDE polygon
     let attempts = 0;
     while (isPointInPolygon(signPos, polygonRing) && attempts < 5) {
       attempts++;
       // Try increasing offset
-      signPos = applyShoulderOffset(walkResult.point, walkResult.bearing, shoulderSide, SHOULDER_OFFSET_M + attempts * 2);
+      signPos = applyShoulderOffset(walkResult.point, walkResult.bearing, shoulderSide, config.signOffsetM + attempts * 2);
     }
     
     // Validation: sign must be near road
@@ -888,7 +1157,7 @@ function placeSignsAlongRoad(
           upstreamDirection * adjustedDistM
         );
         if (adjustedWalk) {
-          const adjustedPos = applyShoulderOffset(adjustedWalk.point, adjustedWalk.bearing, shoulderSide);
+          const adjustedPos = applyShoulderOffset(adjustedWalk.point, adjustedWalk.bearing, shoulderSide, config.signOffsetM);
           if (!isTooCloseToExisting(adjustedPos, devices, MIN_SIGN_SEPARATION_M)) {
             signPos = adjustedPos;
             distM = adjustedDistM;
@@ -958,7 +1227,7 @@ function placeSignsAlongRoad(
 function placeSignsFallback(
   axis: FallbackAxis,
   polygonRing: number[][],
-  config: { signSpacingFt: number[] }
+  config: { signSpacingFt: number[]; signOffsetM: number }
 ): FieldDevice[] {
   const devices: FieldDevice[] = [];
   
@@ -994,13 +1263,13 @@ function placeSignsFallback(
     }
     
     // Apply shoulder offset
-    let signPos = applyShoulderOffset(basePos, axis.upstreamBearing, shoulderSide);
+    let signPos = applyShoulderOffset(basePos, axis.upstreamBearing, shoulderSide, config.signOffsetM);
     
     // Validation: sign must be OUTSIDE polygon
     let attempts = 0;
     while (isPointInPolygon(signPos, polygonRing) && attempts < 5) {
       attempts++;
-      signPos = applyShoulderOffset(basePos, axis.upstreamBearing, shoulderSide, SHOULDER_OFFSET_M + attempts * 3);
+      signPos = applyShoulderOffset(basePos, axis.upstreamBearing, shoulderSide, config.signOffsetM + attempts * 3);
     }
     
     // Anti-stacking check: ensure this sign is far enough from all existing devices
@@ -1008,7 +1277,7 @@ function placeSignsFallback(
       let adjustedDistM = distM + MIN_SIGN_SEPARATION_M;
       for (let adjustAttempt = 0; adjustAttempt < 5; adjustAttempt++) {
         const adjustedBase = movePoint(axis.entryPoint, adjustedDistM, axis.upstreamBearing);
-        const adjustedPos = applyShoulderOffset(adjustedBase, axis.upstreamBearing, shoulderSide);
+        const adjustedPos = applyShoulderOffset(adjustedBase, axis.upstreamBearing, shoulderSide, config.signOffsetM);
         if (!isTooCloseToExisting(adjustedPos, devices, MIN_SIGN_SEPARATION_M)) {
           signPos = adjustedPos;
           distM = adjustedDistM;
@@ -1066,31 +1335,31 @@ function placeSignsFallback(
 }
 
 /**
- * Place cones along polygon boundary (closure edge)
+ * Place one taper's cones along the polygon boundary (closure edge).
+ * Upstream tapers start at the entry point, downstream tapers at the exit point;
+ * both run toward the centroid.
  */
 function placeConesAlongBoundary(
   polygonRing: number[][],
-  entryPoint: Point,
+  anchorPoint: Point,
   centroid: Point,
-  config: { taperLengthFt: number; coneSpacingFt: number },
+  taper: LayoutTaper,
   existingDevices: FieldDevice[]
 ): FieldDevice[] {
   const devices: FieldDevice[] = [];
   
-  const taperLengthM = config.taperLengthFt * FT_TO_M;
-  const coneSpacingM = config.coneSpacingFt * FT_TO_M;
+  const numCones = Math.max(2, taper.deviceCount);
+  const coneSpacingM = (taper.lengthFt * FT_TO_M) / (numCones - 1);
   
-  // Direction from entry point toward centroid (into polygon)
-  const taperBearing = bearing(entryPoint, centroid);
+  // Direction from anchor point toward centroid (into polygon)
+  const taperBearing = bearing(anchorPoint, centroid);
   const perpBearing = taperBearing + Math.PI / 2;
   
-  const numCones = Math.max(4, Math.floor(taperLengthM / coneSpacingM));
-  
   for (let i = 0; i < numCones; i++) {
     const distAlongTaper = i * coneSpacingM;
     
     // Base position along taper line
-    let conePos = movePoint(entryPoint, distAlongTaper, taperBearing);
+    let conePos = movePoint(anchorPoint, distAlongTaper, taperBearing);
     
     // Add perpendicular offset for taper angle
     const taperOffset = (i / numCones) * 4;
@@ -1117,7 +1386,7 @@ function placeConesAlongBoundary(
       id: generateDeviceId(),
       type: "cone",
       lngLat: conePos,
-      meta: { sequence: i + 1, purpose: "taper" },
+      meta: { sequence: i + 1, purpose: "taper", taperType: taper.type, taperPosition: taper.position },
     });
   }
   
@@ -1177,6 +1446,339 @@ function placeArrowBoard(entryPoint: Point, upstreamBearing: number, polygonRing
   }];
 }
 
+/**
+ * Place night light towers: beside each flagger station, then along the
+ * work space from entry to exit at the resolved tower spacing
+ */
+function placeLightTowers(
+  entryPoint: Point,
+  exitPoint: Point,
+  flaggers: FieldDevice[],
+  night: ResolvedNightOperations
+): FieldDevice[] {
+  const devices: FieldDevice[] = [];
+  const workBearing = bearing(entryPoint, exitPoint);
+  const sideBearing = workBearing + Math.PI / 2;
+  
+  for (const flagger of flaggers) {
+    for (let i = 0; i < night.flaggerStationLightTowers; i++) {
+      devices.push({
+        id: generateDeviceId(),
+        type: "lightTower",
+        lngLat: movePoint(flagger.lngLat, LIGHT_TOWER_STATION_OFFSET_M + i * LIGHT_TOWER_STATION_SPACING_M, sideBearing),
+        label: "LT",
+        meta: { purpose: "flagger_station_lighting", station: flagger.label },
+      });
+    }
+  }
+  
+  // Towers centered in each spacing interval; short work spaces still get one at the middle
+  const lengthM = distanceMeters(entryPoint, exitPoint);
+  const spacingM = night.lightTowerSpacingFt * FT_TO_M;
+  const count = Math.max(1, Math.floor(lengthM / spacingM));
+  const startM = (lengthM - (count - 1) * spacingM) / 2;
+  for (let i = 0; i < count; i++) {
+    devices.push({
+      id: generateDeviceId(),
+      type: "lightTower",
+      lngLat: movePoint(entryPoint, startM + i * spacingM, workBearing),
+      label: "LT",
+      meta: { purpose: "work_space_lighting", spacingFt: night.lightTowerSpacingFt },
+    });
+  }
+  
+  return devices;
+}
+
+/**
+ * Place the mobile operation vehicle train upstream of the entry point
+ * (work vehicle at the entry, shadow and advance warning vehicles behind it)
+ */
+function placeMobileVehicles(
+  entryPoint: Point,
+  upstreamBearing: number,
+  mobile: ResolvedMobileOperation
+): FieldDevice[] {
+  const labels: Record<ResolvedMobileOperation["vehicles"][number]["role"], string> = {
+    work: "W",
+    shadow: "S",
+    advance_warning: "AW",
+  };
+  const rotationDeg = ((upstreamBearing + Math.PI) * 180 / Math.PI + 360) % 360;
+  
+  return mobile.vehicles.map(vehicle => ({
+    id: generateDeviceId(),
+    type: "vehicle" as const,
+    lngLat: movePoint(entryPoint, vehicle.offsetFt * FT_TO_M, upstreamBearing),
+    label: labels[vehicle.role],
+    rotation: Math.round(rotationDeg),
+    meta: {
+      purpose: "mobile_operation",
+      role: vehicle.role,
+      offsetFt: vehicle.offsetFt,
+      tma: vehicle.tma,
+      arrowBoard: vehicle.arrowBoard,
+    },
+  }));
+}
+
+/**
+ * Place a row of Type III barricades across the closed roadway, with a
+ * ROAD CLOSED sign mounted facing traffic. `outwardBearing` points away
+ * from the work zone toward the traffic being stopped.
+ */
+function placeClosureBarricades(
+  closurePoint: Point,
+  outwardBearing: number,
+  signing: ResolvedDetourSigning,
+  closurePosition: "upstream" | "downstream"
+): FieldDevice[] {
+  const devices: FieldDevice[] = [];
+  const center = movePoint(closurePoint, CLOSURE_BARRICADE_SETBACK_M, outwardBearing);
+  const acrossBearing = outwardBearing + Math.PI / 2;
+  const rotationDeg = Math.round((acrossBearing * 180 / Math.PI + 360) % 360);
+  
+  for (let i = 0; i < CLOSURE_BARRICADE_COUNT; i++) {
+    const offsetM = (i - (CLOSURE_BARRICADE_COUNT - 1) / 2) * CLOSURE_BARRICADE_SPACING_M;
+    devices.push({
+      id: generateDeviceId(),
+      type: "barricade",
+      lngLat: movePoint(center, offsetM, acrossBearing),
+      rotation: rotationDeg,
+      meta: { purpose: "road_closed", barricadeType: signing.barricadeType, closurePosition },
+    });
+  }
+  
+  devices.push({
+    id: generateDeviceId(),
+    type: "sign",
+    subtype: "roadClosed",
+    lngLat: movePoint(center, MIN_DEVICE_SPACING_M, outwardBearing),
+    label: "RC",
+    meta: {
+      purpose: "road_closed",
+      signCode: signing.closureSign.code,
+      mutcdCode: signing.closureSign.mutcdCode,
+      closurePosition,
+    },
+  });
+  
+  return devices;
+}
+
+/**
+ * Sidewalk closure: a row of detectable pedestrian channelizing devices with
+ * SIDEWALK CLOSED across each end, and SIDEWALK CLOSED USE OTHER SIDE at the
+ * crosswalk on each side (the ends of the drawn pedestrian route, or an
+ * assumed crosswalk beyond each end when no route has been drawn).
+ */
+function placeSidewalkClosure(
+  entryPoint: Point,
+  exitPoint: Point,
+  upstreamBearing: number,
+  pedestrian: ResolvedPedestrianClosure,
+  pedestrianRoute?: RoadPolyline
+): FieldDevice[] {
+  const devices: FieldDevice[] = [];
+  const ends: Array<{ point: Point; outwardBearing: number; closurePosition: "upstream" | "downstream" }> = [
+    { point: entryPoint, outwardBearing: upstreamBearing, closurePosition: "upstream" },
+    { point: exitPoint, outwardBearing: upstreamBearing + Math.PI, closurePosition: "downstream" },
+  ];
+  
+  for (const end of ends) {
+    const center = movePoint(end.point, PED_CHANNELIZER_SETBACK_M, end.outwardBearing);
+    const acrossBearing = end.outwardBearing + Math.PI / 2;
+    const rotationDeg = Math.round((acrossBearing * 180 / Math.PI + 360) % 360);
+    
+    for (let i = 0; i < PED_CHANNELIZER_COUNT; i++) {
+      const offsetM = (i - (PED_CHANNELIZER_COUNT - 1) / 2) * PED_CHANNELIZER_SPACING_M;
+      devices.push({
+        id: generateDeviceId(),
+        type: "pedChannelizer",
+        lngLat: movePoint(center, offsetM, acrossBearing),
+        rotation: rotationDeg,
+        meta: {
+          purpose: "sidewalk_closed",
+          deviceType: pedestrian.channelizingDevice.deviceType,
+          detectable: true,
+          closurePosition: end.closurePosition,
+        },
+      });
+    }
+    
+    devices.push({
+      id: generateDeviceId(),
+      type: "sign",
+      subtype: "sidewalkClosed",
+      lngLat: movePoint(center, MIN_DEVICE_SPACING_M, end.outwardBearing),
+      label: "SC",
+      meta: {
+        purpose: "sidewalk_closed",
+        signCode: pedestrian.closureSign.code,
+        mutcdCode: pedestrian.closureSign.mutcdCode,
+        closurePosition: end.closurePosition,
+      },
+    });
+  }
+  
+  // The route may be drawn in either direction: pair each closure end with its nearer route end
+  let routeEnds: Point[] | null = null;
+  if (pedestrianRoute && pedestrianRoute.length >= 2) {
+    const first = pedestrianRoute[0];
+    const last = pedestrianRoute[pedestrianRoute.length - 1];
+    routeEnds = distanceMeters(first, entryPoint) <= distanceMeters(last, entryPoint) ? [first, last] : [last, first];
+  }
+  if (!routeEnds) {
+    console.warn("[LAYOUT] Sidewalk closure without a pedestrian route; USE OTHER SIDE signs at assumed crosswalks");
+  }
+  
+  ends.forEach((end, i) => {
+    devices.push({
+      id: generateDeviceId(),
+      type: "sign",
+      subtype: "sidewalkClosedUseOtherSide",
+      lngLat: routeEnds ? routeEnds[i] : movePoint(end.point, ASSUMED_CROSSWALK_DISTANCE_M, end.outwardBearing),
+      label: "UOS",
+      meta: {
+        purpose: "crosswalk",
+        signCode: pedestrian.useOtherSideSign.code,
+        mutcdCode: pedestrian.useOtherSideSign.mutcdCode,
+        closurePosition: end.closurePosition,
+        crosswalk: routeEnds ? "route" : "assumed",
+      },
+    });
+  });
+  
+  return devices;
+}
+
+/**
+ * Bike lane closure: signs facing cyclists on the work side, set behind the
+ * outer edge of the bike lane so neither sign nor support narrows it
+ * (SIGN_CLEAR_OF_BIKE_LANE). BIKE LANE CLOSED AHEAD goes the advance
+ * distance before the bike lane taper; on a shared lane, BIKES MERGE WITH
+ * AUTOS marks the taper and BIKES MAY USE FULL LANE the start of the work.
+ */
+function placeBikeLaneSigns(
+  entryPoint: Point,
+  upstreamBearing: number,
+  workZoneCentroid: Point,
+  bike: ResolvedBikeLaneClosure,
+  taperLengthFt: number,
+  bikeLaneWidthFt: number
+): FieldDevice[] {
+  // computeShoulderSide picks the side away from the work zone; bike signs go on the work (bike lane) side
+  const workSide = computeShoulderSide(upstreamBearing, entryPoint, workZoneCentroid) === "left" ? "right" : "left";
+  const lateralOffsetFt = bikeLaneWidthFt + BIKE_SIGN_EDGE_CLEARANCE_FT;
+  const signs: Array<{ sign: ResolvedSignRef; subtype: SignSubtype; label: string; distanceFt: number }> = [
+    { sign: bike.closedAheadSign, subtype: "bikeLaneClosedAhead", label: "BLC", distanceFt: taperLengthFt + bike.advanceSignDistanceFt },
+  ];
+  if (bike.mergeSign) {
+    signs.push({ sign: bike.mergeSign, subtype: "bikesMergeWithAutos", label: "BM", distanceFt: taperLengthFt });
+  }
+  if (bike.fullLaneSign) {
+    signs.push({ sign: bike.fullLaneSign, subtype: "bikesMayUseFullLane", label: "FL", distanceFt: 0 });
+  }
+  
+  return signs.map(({ sign, subtype, label, distanceFt }) => {
+    const alongRoad = movePoint(entryPoint, distanceFt * FT_TO_M, upstreamBearing);
+    return {
+      id: generateDeviceId(),
+      type: "sign" as const,
+      subtype,
+      lngLat: applyShoulderOffset(alongRoad, upstreamBearing, workSide, lateralOffsetFt * FT_TO_M),
+      label,
+      meta: {
+        purpose: "bike_lane_closure",
+        signCode: sign.code,
+        mutcdCode: sign.mutcdCode,
+        distanceFt,
+        treatment: bike.treatment,
+        clearOfBikeLane: true,
+        minClearWidthFt: bike.minClearWidthFt,
+      },
+    };
+  });
+}
+
+/**
+ * Temporary speed zone: SPEED REDUCTION and WORK ZONE / SPEED LIMIT on the
+ * advance sign side between the advance signs and the work zone, and END
+ * WORK ZONE SPEED LIMIT past the downstream end of the work.
+ */
+function placeSpeedZoneSigns(
+  entryPoint: Point,
+  exitPoint: Point,
+  upstreamBearing: number,
+  workZoneCentroid: Point,
+  reduction: ResolvedSpeedReduction,
+  signOffsetM: number
+): FieldDevice[] {
+  const shoulderSide = computeShoulderSide(upstreamBearing, entryPoint, workZoneCentroid);
+  const signs: Array<{ sign: ResolvedSignRef; subtype: SignSubtype; label: string; distanceFt: number; downstream: boolean }> = [
+    { sign: reduction.reductionSign, subtype: "speedReduction", label: "SR", distanceFt: reduction.reductionSignDistanceFt, downstream: false },
+    { sign: reduction.speedLimitSign, subtype: "workZoneSpeedLimit", label: `${reduction.workZoneSpeedMph}`, distanceFt: reduction.speedLimitSignDistanceFt, downstream: false },
+    { sign: reduction.endSign, subtype: "endWorkZoneSpeedLimit", label: "END", distanceFt: reduction.endSignDistanceFt, downstream: true },
+  ];
+  
+  return signs.map(({ sign, subtype, label, distanceFt, downstream }) => {
+    const alongRoad = downstream
+      ? movePoint(exitPoint, distanceFt * FT_TO_M, upstreamBearing + Math.PI)
+      : movePoint(entryPoint, distanceFt * FT_TO_M, upstreamBearing);
+    return {
+      id: generateDeviceId(),
+      type: "sign" as const,
+      subtype,
+      lngLat: applyShoulderOffset(alongRoad, upstreamBearing, shoulderSide, signOffsetM),
+      label,
+      meta: {
+        purpose: "speed_zone",
+        signCode: sign.code,
+        mutcdCode: sign.mutcdCode,
+        distanceFt,
+        postedSpeedMph: reduction.postedSpeedMph,
+        workZoneSpeedMph: reduction.workZoneSpeedMph,
+      },
+    };
+  });
+}
+
+/**
+ * Place a DETOUR marker + arrow assembly on the right shoulder just before
+ * each decision point along the detour route
+ */
+function placeDetourAssemblies(
+  route: RoadPolyline,
+  workZoneCentroid: Point,
+  signing: ResolvedDetourSigning
+): FieldDevice[] {
+  const subtypes: Record<DetourTurn, SignSubtype> = {
+    left: "detourLeft",
+    right: "detourRight",
+    ahead: "detourAhead",
+  };
+  
+  return findDetourDecisionVertices(route, workZoneCentroid).map((vertex, i) => {
+    const beforeTurn = movePoint(route[vertex.index], DETOUR_SIGN_SETBACK_M, vertex.approachBearing + Math.PI);
+    return {
+      id: generateDeviceId(),
+      type: "sign" as const,
+      subtype: subtypes[vertex.turn],
+      lngLat: movePoint(beforeTurn, SHOULDER_OFFSET_M, vertex.approachBearing + Math.PI / 2),
+      label: `D${i + 1}`,
+      meta: {
+        purpose: "detour",
+        sequence: i + 1,
+        turn: vertex.turn,
+        signCode: signing.detourSign.code,
+        mutcdCode: signing.detourSign.mutcdCode,
+        arrowMutcdCode: signing.arrowMutcdCodes[vertex.turn],
+        distanceFt: Math.round(vertex.distanceM / FT_TO_M),
+      },
+    };
+  });
+}
+
 // ============================================
 // MAIN EXPORT
 // ============================================
@@ -1201,6 +1803,9 @@ export function suggestFieldLayout(input: LayoutSuggestionInput): FieldLayout {
     workType,
     workLengthFt,
     roadCenterlines,
+    detourRoute,
+    pedestrianRoute,
+    jurisdiction,
   } = input;
   
   // Reset debug info
@@ -1210,12 +1815,29 @@ export function suggestFieldLayout(input: LayoutSuggestionInput): FieldLayout {
   const devices: FieldDevice[] = [];
   
   // Get layout config from TCP Rules Pack (primary) or legacy fallback
-  const config = getLayoutConfig(postedSpeedMph, workType);
+  const config = applyCrossSection(
+    extendForFlaggerQueue(
+      getLayoutConfig(
+        postedSpeedMph,
+        roadType,
+        workType,
+        jurisdiction,
+        inputCentroid,
+        input.crossSection,
+        input.isNight ? "night" : "day",
+        input.workZoneSpeedMph,
+        input.resolvedRules
+      ),
+      input
+    ),
+    input
+  );
   
   // Log the rules being used for debugging/QA
   console.log(
     `[LAYOUT] Using rules-based config: signSpacing=${config.signSpacingFt[0]}ft ` +
     `taper=${config.taperLengthFt}ft coneSpacing=${config.coneSpacingFt}ft ` +
+    `tapers=[${config.tapers.map(t => `${t.type}@${t.position}`).join(",")}] ` +
     `drums=${config.drumsRequired} signs=[${config.requiredSigns.join(",")}]`
   );
   
@@ -1251,9 +1873,11 @@ export function suggestFieldLayout(input: LayoutSuggestionInput): FieldLayout {
       exitPoint = closestPointOnPolygon(movePoint(entryPoint, 100, upstreamBearing + Math.PI), polygonRing);
     }
     
-    // Place signs along road with shoulder offset
-    const signs = placeSignsAlongRoad(dominantRoad, polygonRing, centroid, config);
-    devices.push(...signs);
+    // Place signs along road with shoulder offset (sidewalk closures sign the crosswalks instead)
+    if (!config.pedestrian) {
+      const signs = placeSignsAlongRoad(dominantRoad, polygonRing, centroid, config);
+      devices.push(...signs);
+    }
   } else {
     // FALLBACK: Use polygon axis with shoulder offset
     const axis = deriveFallbackAxis(polygonRing);
@@ -1261,24 +1885,124 @@ export function suggestFieldLayout(input: LayoutSuggestionInput): FieldLayout {
     exitPoint = axis.exitPoint;
     upstreamBearing = axis.upstreamBearing;
     
-    const signs = placeSignsFallback(axis, polygonRing, config);
-    devices.push(...signs);
+    if (!config.pedestrian) {
+      const signs = placeSignsFallback(axis, polygonRing, config);
+      devices.push(...signs);
+    }
+  }
+  
+  // Mobile operations: signs leapfrog forward with the vehicle train
+  if (config.mobile) {
+    const leapfrogIntervalFt = config.mobile.leapfrogIntervalFt;
+    for (const device of devices) {
+      if (device.type === "sign") {
+        device.meta = { ...device.meta, leapfrog: true, leapfrogIntervalFt };
+      }
+    }
+    console.log(`[LAYOUT] Mobile operation: ${config.mobile.vehicles.length} vehicles, signs leapfrog every ${leapfrogIntervalFt}ft`);
+    devices.push(...placeMobileVehicles(entryPoint, upstreamBearing, config.mobile));
+  }
+  
+  // Sidewalk closures: pedestrian channelizing devices across each end, crosswalk signs on each side
+  if (config.pedestrian) {
+    const closure = placeSidewalkClosure(entryPoint, exitPoint, upstreamBearing, config.pedestrian, pedestrianRoute);
+    console.log(`[LAYOUT] Sidewalk closure: ${closure.length} devices${pedestrianRoute ? ` along ${pedestrianRoute.length}-point pedestrian route` : ""}`);
+    devices.push(...closure);
+  }
+  
+  // Bike lane closures: bike signs on the bike lane side, clear of the bike lane
+  if (config.bike) {
+    const upstreamTaper = config.tapers.find(t => t.position === "upstream");
+    const bikeSigns = placeBikeLaneSigns(
+      entryPoint,
+      upstreamBearing,
+      centroid,
+      config.bike,
+      upstreamTaper?.lengthFt ?? 0,
+      input.crossSection?.bikeLaneWidthFt || DEFAULT_BIKE_LANE_WIDTH_FT
+    );
+    console.log(`[LAYOUT] Bike lane closure (${config.bike.treatment}): ${bikeSigns.length} bike signs`);
+    if (config.bike.treatment === "separate_facility") {
+      console.warn(
+        `[LAYOUT] Bikes may not merge with autos above ${config.bike.mergeMaxSpeedMph}mph; ` +
+        `provide a temporary bike lane (${config.bike.minTemporaryBikeLaneWidthFt} ft min) or a bike detour`
+      );
+    }
+    devices.push(...bikeSigns);
+  }
+  
+  // Temporary speed zone: signs between the advance signs and the work zone, end sign past the work
+  if (config.speedReduction) {
+    const speedZoneSigns = placeSpeedZoneSigns(
+      entryPoint,
+      exitPoint,
+      upstreamBearing,
+      centroid,
+      config.speedReduction,
+      config.signOffsetM
+    );
+    console.log(
+      `[LAYOUT] Speed zone ${config.speedReduction.postedSpeedMph}→${config.speedReduction.workZoneSpeedMph}mph: ` +
+      `${speedZoneSigns.length} signs, advance signs shifted ${config.speedReduction.advanceWarningShiftFt}ft upstream`
+    );
+    devices.push(...speedZoneSigns);
+  }
+  
+  // Full closures: barricade both ends and sign each decision point on the detour
+  if (config.detour) {
+    devices.push(...placeClosureBarricades(entryPoint, upstreamBearing, config.detour, "upstream"));
+    devices.push(...placeClosureBarricades(exitPoint, upstreamBearing + Math.PI, config.detour, "downstream"));
+    
+    if (detourRoute && detourRoute.length >= 2) {
+      const assemblies = placeDetourAssemblies(detourRoute, centroid, config.detour);
+      console.log(`[LAYOUT] Full closure: ${assemblies.length} detour assemblies along ${detourRoute.length}-point route`);
+      devices.push(...assemblies);
+    } else {
+      console.warn("[LAYOUT] Full closure without a detour route; only closure barricades placed");
+    }
   }
   
-  // Place cones
-  const cones = placeConesAlongBoundary(polygonRing, entryPoint, centroid, config, devices);
-  devices.push(...cones);
+  // Stamp sign face sizes from the sign schedule (advance signs share the first required sign's size)
+  for (const device of devices) {
+    if (device.type !== "sign") continue;
+    const signCode = typeof device.meta?.signCode === "string" ? device.meta.signCode : config.requiredSigns[0];
+    device.sizeInches = config.signSizesInches[signCode];
+  }
+  
+  // Place cones for each taper (merging/shifting/shoulder upstream, downstream at the exit)
+  for (const taper of config.tapers) {
+    const anchorPoint = taper.position === "upstream" ? entryPoint : exitPoint;
+    const cones = placeConesAlongBoundary(polygonRing, anchorPoint, centroid, taper, devices);
+    devices.push(...cones);
+  }
   
   // Place flaggers based on resolved rules
-  if (config.flaggerCount > 0) {
+  // Only place as many flaggers as the rules specify
+  const flaggers = config.flaggerCount > 0
+    ? placeFlaggers(entryPoint, exitPoint, upstreamBearing).slice(0, config.flaggerCount)
+    : [];
+  if (flaggers.length > 0) {
     console.log(`[LAYOUT] Placing ${config.flaggerCount} flaggers based on rules`);
-    const flaggers = placeFlaggers(entryPoint, exitPoint, upstreamBearing);
-    // Only place as many flaggers as the rules specify
-    devices.push(...flaggers.slice(0, config.flaggerCount));
+    devices.push(...flaggers);
+  }
+  
+  // Night work: light the flagger stations and work space, put warning lights on barricades
+  if (config.night) {
+    const towers = placeLightTowers(entryPoint, exitPoint, flaggers, config.night);
+    const warningLight = config.night.barricadeWarningLight;
+    if (warningLight) {
+      for (const device of devices) {
+        if (device.type === "barricade") {
+          device.meta = { ...device.meta, warningLight };
+        }
+      }
+    }
+    console.log(`[LAYOUT] Night operations: ${towers.length} light towers, barricade lights=${warningLight ?? "none"}`);
+    devices.push(...towers);
   }
   
-  // Place arrow board (for lane closures at higher speeds)
-  if (workType === "lane_closure" && postedSpeedMph >= 45) {
+  // Place arrow board when the rules require one (lane closures at higher speeds)
+  if (config.arrowBoardRequired) {
     const arrowBoards = placeArrowBoard(entryPoint, upstreamBearing, polygonRing);
     devices.push(...arrowBoards);
   }
@@ -1298,6 +2022,7 @@ export function suggestFieldLayout(input: LayoutSuggestionInput): FieldLayout {
     direction,
     devices,
     source: "ai_suggested",
+    ...(config.rulesPack ? { rulesPack: config.rulesPack } : {}),
   };
 }
 
@@ -6,10 +6,14 @@
  * plan calculations in tcpTypes.ts.
  */
 
+import type { JurisdictionId, RulesPackStamp } from "@/src/rules/rulesTypes";
+import type { DetourTurn, ResolvedTcpRules } from "@/src/rules/resolveTcpRules";
+import type { CrossSection } from "@/src/rules/checkCrossSection";
+
 /**
  * Device types that can be placed on the map mockup
  */
-export type DeviceType = "cone" | "sign" | "arrowBoard" | "flagger" | "drum" | "barricade";
+export type DeviceType = "cone" | "sign" | "arrowBoard" | "flagger" | "drum" | "barricade" | "vehicle" | "lightTower" | "pedChannelizer";
 
 /**
  * Sign subtypes for specific warning signs
@@ -21,6 +25,18 @@ export type SignSubtype =
   | "rightLaneClosed"
   | "leftLaneClosed"
   | "oneLaneRoadAhead"
+  | "roadClosed"
+  | "detourLeft"
+  | "detourRight"
+  | "detourAhead"
+  | "sidewalkClosed"
+  | "sidewalkClosedUseOtherSide"
+  | "bikeLaneClosedAhead"
+  | "bikesMergeWithAutos"
+  | "bikesMayUseFullLane"
+  | "speedReduction"
+  | "workZoneSpeedLimit"
+  | "endWorkZoneSpeedLimit"
   | "generic";
 
 /**
@@ -37,6 +53,8 @@ export interface FieldDevice {
   lngLat: [number, number];
   /** Optional label (e.g., "A", "B", "C" for signs) */
   label?: string;
+  /** Sign face size in inches (signs only) */
+  sizeInches?: number;
   /** Rotation in degrees (0 = north, clockwise) */
   rotation?: number;
   /** Additional metadata for future use */
@@ -64,6 +82,8 @@ export interface FieldLayout {
   devices: FieldDevice[];
   /** Source of the layout */
   source: "ai_suggested" | "user_created" | "user_modified";
+  /** Rules pack the suggested layout was resolved from */
+  rulesPack?: RulesPackStamp;
 }
 
 /**
@@ -71,6 +91,38 @@ export interface FieldLayout {
  */
 export type RoadPolyline = Array<[number, number]>; // Array of [lng, lat]
 
+/**
+ * A point along a detour route where drivers must be told which way to go
+ */
+export interface DetourDecisionPoint {
+  /** 1-based order along the route */
+  sequence: number;
+  /** Route vertex where the turn happens, [lng, lat] */
+  lngLat: [number, number];
+  turn: DetourTurn;
+  /** Distance from the start of the detour route */
+  distanceFt: number;
+}
+
+/**
+ * Detour route with the decision points that need DETOUR assemblies
+ */
+export interface DetourRouteAnalysis {
+  lengthFt: number;
+  decisionPoints: DetourDecisionPoint[];
+}
+
+/**
+ * Temporary pedestrian route for a sidewalk closure, from crosswalk to crosswalk
+ */
+export interface PedestrianRouteAnalysis {
+  lengthFt: number;
+  /** Where pedestrians are sent across: the route's first and last points, [lng, lat] */
+  crosswalks: Array<[number, number]>;
+  /** Passing spaces needed if the route is narrower than the passing space width */
+  passingSpacesIfNarrow: number;
+}
+
 /**
  * Input parameters for generating a suggested layout
  */
@@ -83,8 +135,10 @@ export interface LayoutSuggestionInput {
   roadType: "2_lane_undivided" | "multilane_divided" | "intersection";
   /** Posted speed in mph */
   postedSpeedMph: number;
+  /** Optional: Approved temporary speed limit through the work zone (speed zone signs; tapers at this speed) */
+  workZoneSpeedMph?: number;
   /** Type of work operation */
-  workType: "shoulder_work" | "lane_closure" | "one_lane_two_way_flaggers";
+  workType: "shoulder_work" | "lane_closure" | "one_lane_two_way_flaggers" | "mobile_operation" | "full_closure" | "sidewalk_closure" | "bike_lane_closure";
   /** Length of work zone in feet */
   workLengthFt: number;
   /** 
@@ -92,6 +146,24 @@ export interface LayoutSuggestionInput {
    * If provided, layout will align to actual streets.
    */
   roadCenterlines?: RoadPolyline[];
+  /** Optional: Detour route drawn by the planner (full closures), from closure to rejoin */
+  detourRoute?: RoadPolyline;
+  /** Optional: Temporary pedestrian route drawn by the planner (sidewalk closures), crosswalk to crosswalk */
+  pedestrianRoute?: RoadPolyline;
+  /** Optional: Two-way hourly volume (veh/h) for flagger queue estimates; wins over ADT */
+  hourlyVolumeVph?: number;
+  /** Optional: Two-way average daily traffic for flagger queue estimates */
+  adt?: number;
+  /** Optional: Share of traffic in the heavier direction, 0.5–1 */
+  directionalSplit?: number;
+  /** Optional: Explicit rules pack jurisdiction (otherwise selected from centroid) */
+  jurisdiction?: JurisdictionId;
+  /** Optional: Road cross-section (taper W, lateral sign offsets, width checks) */
+  crossSection?: CrossSection;
+  /** Optional: Night work (light towers, barricade warning lights) */
+  isNight?: boolean;
+  /** Optional: Rules already resolved for this job (the draft API passes its own so plan and layout agree) */
+  resolvedRules?: ResolvedTcpRules;
 }
 
 /**
@@ -143,6 +215,24 @@ export const DEVICE_ICONS: Record<DeviceType, DeviceIconConfig> = {
     label: "Barricade",
     svgPath: "M2 7h20v2H2V7zm2-2h16l-1-3H5l-1 3zm0 6h16v2L18 17H6l-2-4v-2zm2 6h12v2H6v-2z", // Barricade
   },
+  vehicle: {
+    emoji: "🚚",
+    color: "#1F2937",
+    label: "Vehicle",
+    svgPath: "M2 6h12v9H2V6zm12 3h4l3 3v3h-7V9zM6 18a2 2 0 1 0 0-4 2 2 0 0 0 0 4zm11 0a2 2 0 1 0 0-4 2 2 0 0 0 0 4z", // Truck
+  },
+  lightTower: {
+    emoji: "💡",
+    color: "#FACC15",
+    label: "Light Tower",
+    svgPath: "M5 2h14v5H5V2zm6 5h2v11h-2V7zm-5 13l6-3 6 3v2H6v-2z", // Mast with lamp head
+  },
+  pedChannelizer: {
+    emoji: "🚷",
+    color: "#FF6B00",
+    label: "Ped Channelizer",
+    svgPath: "M2 8h20v4H2V8zm1 4h2v6H3v-6zm16 0h2v6h-2v-6zM2 18h20v2H2v-2z", // Panel with detectable bottom rail
+  },
 };
 
 /**
@@ -199,6 +289,90 @@ export const SIGN_SUBTYPES: Record<SignSubtype, SignSubtypeConfig> = {
     backgroundColor: "#FFB300",
     text: ["ONE LANE", "ROAD", "AHEAD"],
   },
+  roadClosed: {
+    label: "Road Closed",
+    mutcdCode: "R11-2",
+    color: "#000000",
+    backgroundColor: "#FFFFFF",
+    text: ["ROAD", "CLOSED"],
+  },
+  detourLeft: {
+    label: "Detour (Left)",
+    mutcdCode: "M4-8 + M6-1",
+    color: "#000000",
+    backgroundColor: "#FF6B00",
+    text: ["DETOUR", "←"],
+  },
+  detourRight: {
+    label: "Detour (Right)",
+    mutcdCode: "M4-8 + M6-1",
+    color: "#000000",
+    backgroundColor: "#FF6B00",
+    text: ["DETOUR", "→"],
+  },
+  detourAhead: {
+    label: "Detour (Ahead)",
+    mutcdCode: "M4-8 + M6-3",
+    color: "#000000",
+    backgroundColor: "#FF6B00",
+    text: ["DETOUR", "↑"],
+  },
+  sidewalkClosed: {
+    label: "Sidewalk Closed",
+    mutcdCode: "R9-9",
+    color: "#000000",
+    backgroundColor: "#FFFFFF",
+    text: ["SIDEWALK", "CLOSED"],
+  },
+  sidewalkClosedUseOtherSide: {
+    label: "Sidewalk Closed Use Other Side",
+    mutcdCode: "R9-10",
+    color: "#000000",
+    backgroundColor: "#FFFFFF",
+    text: ["SIDEWALK CLOSED", "USE OTHER SIDE"],
+  },
+  bikeLaneClosedAhead: {
+    label: "Bike Lane Closed Ahead",
+    mutcdCode: "W9-3 MOD",
+    color: "#000000",
+    backgroundColor: "#FFB300",
+    text: ["BIKE LANE", "CLOSED", "AHEAD"],
+  },
+  bikesMergeWithAutos: {
+    label: "Bikes Merge With Autos",
+    mutcdCode: "W4-1 MOD",
+    color: "#000000",
+    backgroundColor: "#FFB300",
+    text: ["BIKES", "MERGE WITH", "AUTOS"],
+  },
+  bikesMayUseFullLane: {
+    label: "Bicycles May Use Full Lane",
+    mutcdCode: "R4-11",
+    color: "#000000",
+    backgroundColor: "#FFFFFF",
+    text: ["BICYCLES", "MAY USE", "FULL LANE"],
+  },
+  speedReduction: {
+    label: "Speed Reduction",
+    mutcdCode: "W3-5",
+    color: "#000000",
+    backgroundColor: "#FF6F00",
+    text: ["REDUCED", "SPEED", "AHEAD"],
+  },
+  workZoneSpeedLimit: {
+    label: "Work Zone Speed Limit",
+    mutcdCode: "R2-1",
+    color: "#000000",
+    backgroundColor: "#FFFFFF",
+    text: ["WORK ZONE", "SPEED", "LIMIT"],
+  },
+  endWorkZoneSpeedLimit: {
+    label: "End Work Zone Speed Limit",
+    mutcdCode: "R2-12",
+    color: "#000000",
+    backgroundColor: "#FFFFFF",
+    text: ["END WORK ZONE", "SPEED LIMIT"],
+  },
   generic: {
     label: "Warning Sign",
     mutcdCode: "W-GENERIC",
@@ -0,0 +1,78 @@
+/**
+ * LLM Provider Selection
+ *
+ * LLM_PROVIDER picks the provider from the environment:
+ *   openai (default) - OpenAI or any OpenAI-compatible API
+ *                      (OPENAI_API_KEY, OPENAI_MODEL, optional OPENAI_BASE_URL,
+ *                      LLM_TIMEOUT_MS, LLM_MAX_RETRIES, LLM_STRUCTURED_OUTPUT=false)
+ *   local            - offline stand-in (replays recordings, else rule-based drafts)
+ * LLM_RECORDINGS_DIR is where openai records responses and local replays them.
+ */
+
+import { createLocalProvider } from "./localProvider";
+import { createOpenAiProvider } from "./openaiProvider";
+import { LlmProvider } from "./types";
+
+export type {
+  ChatMessage,
+  CompletionRequest,
+  CompletionResult,
+  JsonSchemaFormat,
+  LlmProvider,
+  TokenUsage,
+} from "./types";
+export { addUsage } from "./types";
+
+export type LlmProviderSelection =
+  | { ok: true; provider: LlmProvider }
+  | { ok: false; missing: string[]; invalid: string[] };
+
+/**
+ * Non-negative integer setting, or undefined when unset (bad values are reported)
+ */
+function readCount(env: NodeJS.ProcessEnv, name: string, invalid: string[]): number | undefined {
+  const raw = env[name];
+  if (raw === undefined || raw === "") return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    invalid.push(`${name}=${raw} (expected a whole number)`);
+    return undefined;
+  }
+  return value;
+}
+
+export function getLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProviderSelection {
+  const providerId = env.LLM_PROVIDER || "openai";
+  const recordingsDir = env.LLM_RECORDINGS_DIR || undefined;
+
+  if (providerId === "local") {
+    return { ok: true, provider: createLocalProvider({ recordingsDir }) };
+  }
+  if (providerId !== "openai") {
+    return { ok: false, missing: [], invalid: [`LLM_PROVIDER=${providerId} (expected "openai" or "local")`] };
+  }
+
+  const missing: string[] = [];
+  const invalid: string[] = [];
+  if (!env.OPENAI_API_KEY) missing.push("OPENAI_API_KEY");
+  if (!env.OPENAI_MODEL) missing.push("OPENAI_MODEL");
+  const timeoutMs = readCount(env, "LLM_TIMEOUT_MS", invalid);
+  const maxRetries = readCount(env, "LLM_MAX_RETRIES", invalid);
+
+  if (missing.length > 0 || invalid.length > 0) {
+    return { ok: false, missing, invalid };
+  }
+
+  return {
+    ok: true,
+    provider: createOpenAiProvider({
+      apiKey: env.OPENAI_API_KEY as string,
+      model: env.OPENAI_MODEL as string,
+      baseUrl: env.OPENAI_BASE_URL,
+      timeoutMs,
+      maxRetries,
+      structuredOutput: env.LLM_STRUCTURED_OUTPUT !== "false",
+      recordingsDir,
+    }),
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Local Stand-In Provider
+ *
+ * Deterministic, offline replacement for a model API so the full draft
+ * pipeline runs without the network. A recorded response for the exact same
+ * messages is replayed when one exists; otherwise a rule-based draft is built
+ * from the draft route's job message and handbook excerpt headers.
+ */
+
+import { readRecording } from "./recordings";
+import { ChatMessage, CompletionRequest, CompletionResult, LlmProvider, TokenUsage } from "./types";
+
+export interface LocalProviderConfig {
+  /** Replay recorded responses from here before falling back to the generator */
+  recordingsDir?: string;
+}
+
+export const LOCAL_MODEL = "local-rules-v1";
+
+// English prose averages about four characters per token; close enough for accounting
+const CHARS_PER_TOKEN = 4;
+
+// Handbook citations copied from the excerpt headers into references[]
+const MAX_GENERATED_REFERENCES = 3;
+
+// Streamed replies are reported in slices of this size so progress events still fire
+const STREAM_CHUNK_CHARS = 80;
+
+function estimateUsage(messages: ChatMessage[], text: string): TokenUsage {
+  const promptTokens = Math.ceil(messages.reduce((total, m) => total + m.content.length, 0) / CHARS_PER_TOKEN);
+  const completionTokens = Math.ceil(text.length / CHARS_PER_TOKEN);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+function humanize(value: string): string {
+  const words = value.replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Narrative-only draft read from the job line ("roadType=..., speed=35 mph,
+ * workType=..., workLength=... ft, time=...") and the "[HBn] HB::..." excerpt
+ * headers. It never proposes plan numbers, so the resolver values stand.
+ */
+function generateDraft(messages: ChatMessage[]): string {
+  const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n");
+  const job = messages.find((m) => m.role === "user")?.content ?? "";
+
+  const roadType = /roadType=(\w+)/.exec(job)?.[1];
+  const speed = /speed=(\d+) mph/.exec(job)?.[1];
+  const workType = /workType=(\w+)/.exec(job)?.[1];
+  const workLength = /workLength=(\d+) ft/.exec(job)?.[1];
+  const time = /time=(day|night)/.exec(job)?.[1];
+  const references = [...system.matchAll(/^\[HB\d+\] (HB::\S+)/gm)]
+    .map((match) => match[1])
+    .slice(0, MAX_GENERATED_REFERENCES);
+
+  const work = workType ? humanize(workType) : "Work zone";
+  const road = roadType ? `${roadType.replace(/_/g, " ")} road` : "road";
+  return JSON.stringify({
+    summary:
+      `${work} on a ${speed ? `${speed} mph ` : ""}${road}` +
+      `${workLength ? `, ${workLength} ft work area` : ""}${time ? `, ${time} work` : ""}.`,
+    plan: {
+      recommendedLayout: `${work} layout (offline draft; confirm the typical application)`,
+    },
+    assumptions: [
+      "Offline draft from the local rule-based provider; no language model reviewed the handbook excerpts.",
+      "Plan numbers are the rules pack values listed in the job details.",
+    ],
+    references,
+  });
+}
+
+/**
+ * Provider that replays recordings or generates a rule-based draft, with no network access
+ */
+export function createLocalProvider(config: LocalProviderConfig = {}): LlmProvider {
+  async function complete(request: CompletionRequest): Promise<CompletionResult> {
+    const read = config.recordingsDir ? readRecording(config.recordingsDir, request.messages) : null;
+    if (read && !read.ok) {
+      return {
+        ok: false,
+        kind: "invalid_response",
+        message: `Failed to read recorded response ${read.filePath}: ${read.message}`,
+        upstreamStatus: 0,
+        upstreamBody: "",
+        attempts: 1,
+      };
+    }
+    const recording = read?.recording ?? null;
+    const text = recording?.text ?? generateDraft(request.messages);
+    console.log(`[llm] local ${recording ? "replayed recorded response" : "generated rule-based draft"} (${text.length} chars)`);
+
+    if (request.onChars) {
+      for (let end = STREAM_CHUNK_CHARS; end < text.length + STREAM_CHUNK_CHARS; end += STREAM_CHUNK_CHARS) {
+        request.onChars(Math.min(end, text.length));
+      }
+    }
+
+    return {
+      ok: true,
+      text,
+      usage: recording?.usage ?? estimateUsage(request.messages, text),
+      attempts: 1,
+    };
+  }
+
+  return { id: "local", model: LOCAL_MODEL, complete };
+}
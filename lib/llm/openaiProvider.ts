@@ -0,0 +1,257 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Chat completions over HTTP with a per-attempt timeout, exponential backoff
+ * on rate limits, server errors and network failures, optional JSON-schema
+ * structured output, streaming, and token usage as reported by the API.
+ */
+
+import { writeRecording } from "./recordings";
+import { CompletionRequest, CompletionResult, LlmProvider, TokenUsage } from "./types";
+
+export interface OpenAiProviderConfig {
+  apiKey: string;
+  model: string;
+  /** Full chat completions URL */
+  baseUrl?: string;
+  /** Per-attempt limit, covering the request and reading the reply */
+  timeoutMs?: number;
+  /** Backoff retries after the first attempt */
+  maxRetries?: number;
+  /** Send `response_format: json_schema` when a request has a schema (off for APIs without structured outputs) */
+  structuredOutput?: boolean;
+  /** Save each successful reply here for replay by the local provider */
+  recordingsDir?: string;
+}
+
+interface ApiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1/chat/completions";
+
+// A draft reply is a short narrative; a minute covers slow models with room to spare
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+// Two retries ride out a brief rate limit without holding the planner for minutes
+const DEFAULT_MAX_RETRIES = 2;
+
+// Backoff doubles from here (1 s, 2 s, 4 s...); a Retry-After header wins when sent
+const BACKOFF_BASE_MS = 1_000;
+const BACKOFF_MAX_MS = 30_000;
+
+/**
+ * Request timeout, conflict, rate limit and server errors are worth another attempt
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+function backoffDelayMs(attempt: number, retryAfter: string | null): number {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds >= 0) {
+    return Math.min(retryAfterSeconds * 1000, BACKOFF_MAX_MS);
+  }
+  return Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toUsage(usage: ApiUsage | undefined): TokenUsage | null {
+  if (!usage) return null;
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: usage.total_tokens ?? promptTokens + completionTokens };
+}
+
+/**
+ * Error message for the UI from the API's error body, with hints for the common failures
+ */
+function describeUpstreamError(
+  status: number,
+  upstreamBody: string,
+  config: { model: string; baseUrl: string }
+): { message: string; errorCode?: string } {
+  let message = "Model API error";
+  let errorCode: string | undefined;
+  try {
+    const parsed = JSON.parse(upstreamBody);
+    if (parsed?.error?.message) {
+      message = parsed.error.message;
+      errorCode = parsed.error.code;
+    }
+  } catch {
+    // Keep default error message if parsing fails
+  }
+
+  if (status === 429) {
+    message = `Rate limited or quota exceeded: ${message}`;
+  } else if (status === 401) {
+    message = `Invalid API key: ${message}`;
+  } else if (status === 404) {
+    message = `Model "${config.model}" not found at ${config.baseUrl}. Check OPENAI_MODEL and OPENAI_BASE_URL in .env.local.`;
+  }
+  return { message, errorCode };
+}
+
+/**
+ * Content and usage from a non-streamed completion
+ */
+async function readJsonReply(response: Response): Promise<{ text: string; usage: TokenUsage | null }> {
+  const json = await response.json() as { choices?: { message?: { content?: string } }[]; usage?: ApiUsage };
+  return { text: json?.choices?.[0]?.message?.content ?? "", usage: toUsage(json?.usage) };
+}
+
+/**
+ * Content and usage from a streamed completion (server-sent events). Usage
+ * arrives in the final chunk when `stream_options.include_usage` is set.
+ */
+async function readStreamedReply(
+  response: Response,
+  onChars: (chars: number) => void
+): Promise<{ text: string; usage: TokenUsage | null }> {
+  if (!response.body) throw new Error("Streamed response has no body");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  let text = "";
+  let usage: TokenUsage | null = null;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    const before = text.length;
+    for (const line of lines) {
+      const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+      if (!data || data === "[DONE]") continue;
+      const chunk = JSON.parse(data) as { choices?: { delta?: { content?: string } }[]; usage?: ApiUsage };
+      text += chunk.choices?.[0]?.delta?.content ?? "";
+      usage = toUsage(chunk.usage) ?? usage;
+    }
+    if (text.length > before) onChars(text.length);
+  }
+
+  return { text, usage };
+}
+
+/**
+ * Provider for OpenAI's chat completions API or any API that mirrors it
+ */
+export function createOpenAiProvider(config: OpenAiProviderConfig): LlmProvider {
+  const baseUrl = config.baseUrl || DEFAULT_BASE_URL;
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const structuredOutput = config.structuredOutput ?? true;
+
+  async function complete(request: CompletionRequest): Promise<CompletionResult> {
+    const body = JSON.stringify({
+      model: config.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      ...(request.jsonSchema && structuredOutput
+        ? { response_format: { type: "json_schema", json_schema: { ...request.jsonSchema, strict: false } } }
+        : {}),
+      ...(request.onChars ? { stream: true, stream_options: { include_usage: true } } : {}),
+    });
+
+    for (let attempt = 1; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      const canRetry = attempt <= maxRetries;
+
+      try {
+        let response: Response;
+        try {
+          response = await fetch(baseUrl, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${config.apiKey}`,
+            },
+            body,
+            signal: controller.signal,
+          });
+        } catch (fetchError) {
+          const errMsg = controller.signal.aborted
+            ? `Timed out after ${timeoutMs} ms`
+            : fetchError instanceof Error ? fetchError.message : String(fetchError);
+          if (canRetry) {
+            const delayMs = backoffDelayMs(attempt, null);
+            console.warn(`[llm] openai attempt ${attempt} failed (${errMsg}), retrying in ${delayMs} ms`);
+            await sleep(delayMs);
+            continue;
+          }
+          return {
+            ok: false,
+            kind: "upstream",
+            message: "Model API error",
+            upstreamStatus: 0,
+            upstreamBody: `Network error: ${errMsg}`.slice(0, 2000),
+            attempts: attempt,
+          };
+        }
+
+        if (!response.ok) {
+          const upstreamBody = await response.text();
+          if (canRetry && isRetryableStatus(response.status)) {
+            const delayMs = backoffDelayMs(attempt, response.headers.get("retry-after"));
+            console.warn(`[llm] openai attempt ${attempt} got ${response.status}, retrying in ${delayMs} ms`);
+            await sleep(delayMs);
+            continue;
+          }
+          const requestId = response.headers.get("x-request-id") || response.headers.get("request-id") || undefined;
+          return {
+            ok: false,
+            kind: "upstream",
+            ...describeUpstreamError(response.status, upstreamBody, { model: config.model, baseUrl }),
+            upstreamStatus: response.status,
+            upstreamBody: upstreamBody.slice(0, 2000),
+            requestId,
+            attempts: attempt,
+          };
+        }
+
+        let reply: { text: string; usage: TokenUsage | null };
+        try {
+          reply = request.onChars
+            ? await readStreamedReply(response, request.onChars)
+            : await readJsonReply(response);
+        } catch (parseErr) {
+          const errMsg = controller.signal.aborted
+            ? `Timed out after ${timeoutMs} ms`
+            : parseErr instanceof Error ? parseErr.message : String(parseErr);
+          return {
+            ok: false,
+            kind: "invalid_response",
+            message: `Failed to parse API response: ${errMsg}`,
+            upstreamStatus: response.status,
+            upstreamBody: "",
+            attempts: attempt,
+          };
+        }
+
+        // Recording is a side effect; a failed write must not fail the draft
+        if (config.recordingsDir) {
+          try {
+            const filePath = writeRecording(config.recordingsDir, { messages: request.messages, ...reply });
+            console.log(`[llm] Recorded response to ${filePath}`);
+          } catch (recordErr) {
+            console.warn(`[llm] Could not record response to ${config.recordingsDir}:`, recordErr);
+          }
+        }
+        return { ok: true, ...reply, attempts: attempt };
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  return { id: "openai", model: config.model, complete };
+}
@@ -0,0 +1,64 @@
+/**
+ * Recorded LLM Responses
+ *
+ * Responses are stored one JSON file per conversation, keyed by a hash of
+ * the messages, so a recorded draft can be replayed without the network.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { ChatMessage, TokenUsage } from "./types";
+
+export interface Recording {
+  /** Kept for reading the file; matching uses the key only */
+  messages: ChatMessage[];
+  text: string;
+  usage: TokenUsage | null;
+}
+
+/**
+ * Stable key for a conversation (first 16 hex chars of its SHA-256)
+ */
+export function recordingKey(messages: ChatMessage[]): string {
+  return crypto.createHash("sha256").update(JSON.stringify(messages)).digest("hex").slice(0, 16);
+}
+
+export type ReadRecordingResult =
+  | { ok: true; recording: Recording }
+  | { ok: false; filePath: string; message: string };
+
+/**
+ * Recorded response for a conversation: null when none was recorded, a
+ * failure when the file cannot be read or has no `text`.
+ */
+export function readRecording(dir: string, messages: ChatMessage[]): ReadRecordingResult | null {
+  const filePath = path.join(dir, `${recordingKey(messages)}.json`);
+  if (!fs.existsSync(filePath)) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    return { ok: false, filePath, message: err instanceof Error ? err.message : String(err) };
+  }
+  const record = (typeof parsed === "object" && parsed !== null ? parsed : {}) as Partial<Recording>;
+  if (typeof record.text !== "string") {
+    return { ok: false, filePath, message: "Recording has no text" };
+  }
+  return {
+    ok: true,
+    recording: {
+      messages: Array.isArray(record.messages) ? record.messages : [],
+      text: record.text,
+      usage: typeof record.usage === "object" && record.usage !== null ? record.usage : null,
+    },
+  };
+}
+
+export function writeRecording(dir: string, recording: Recording): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, `${recordingKey(recording.messages)}.json`);
+  fs.writeFileSync(filePath, `${JSON.stringify(recording, null, 2)}\n`);
+  return filePath;
+}
@@ -0,0 +1,76 @@
+/**
+ * LLM Provider Types
+ *
+ * Shape shared by every chat-completion provider the draft route can use:
+ * OpenAI-compatible HTTP APIs and the offline local stand-in.
+ */
+
+export type ChatRole = "system" | "user" | "assistant";
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface JsonSchemaFormat {
+  /** Schema name reported to the API (letters, digits, _ and -) */
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  /** Ask for structured output matching this JSON schema */
+  jsonSchema?: JsonSchemaFormat;
+  /** Stream the response, reporting the running content length as it arrives */
+  onChars?: (chars: number) => void;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type CompletionResult =
+  | {
+      ok: true;
+      text: string;
+      /** Null when the API did not report usage */
+      usage: TokenUsage | null;
+      /** HTTP attempts made, including backoff retries */
+      attempts: number;
+    }
+  | {
+      ok: false;
+      /** "upstream" = the API failed or refused; "invalid_response" = the reply could not be read */
+      kind: "upstream" | "invalid_response";
+      message: string;
+      /** HTTP status from the API (0 for network errors and timeouts) */
+      upstreamStatus: number;
+      upstreamBody: string;
+      requestId?: string;
+      errorCode?: string;
+      attempts: number;
+    };
+
+export interface LlmProvider {
+  /** Provider ID ("openai", "local") */
+  id: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/**
+ * Sum token usage across calls (null when no call reported usage)
+ */
+export function addUsage(total: TokenUsage | null, usage: TokenUsage | null): TokenUsage | null {
+  if (!usage) return total;
+  if (!total) return usage;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
@@ -14,6 +14,8 @@ export interface SourceChunk {
 }
 
 let cachedChunks: SourceChunk[] | null = null;
+// In-flight first load, so concurrent requests (e.g. a batch) parse the PDFs once
+let loadingChunks: Promise<SourceChunk[]> | null = null;
 
 const PROJECT_ROOT = process.cwd();
 
@@ -157,7 +159,13 @@ async function loadExampleChunks(): Promise<SourceChunk[]> {
 
 async function ensureLoaded(): Promise<SourceChunk[]> {
   if (cachedChunks) return cachedChunks;
+  loadingChunks ??= loadAllChunks().finally(() => {
+    loadingChunks = null;
+  });
+  return loadingChunks;
+}
 
+async function loadAllChunks(): Promise<SourceChunk[]> {
   const [handbooks, examples] = await Promise.all([
     loadHandbookChunks(),
     loadExampleChunks(),
@@ -395,6 +403,39 @@ export async function retrieveSupport(
   return { handbookChunks, exampleChunks: exampleScored };
 }
 
+export interface RetrievalCache {
+  retrieve: typeof retrieveSupport;
+  /** Lookups answered from the cache so far */
+  hits(): number;
+}
+
+/**
+ * retrieveSupport with results kept per query, for drafting several sites in
+ * one batch: the key is the keywords the context searches with, so sites with
+ * the same road, speed, work type, time of day and notes share one retrieval
+ * whatever their work length, and concurrent lookups wait on the same result.
+ */
+export function createRetrievalCache(): RetrievalCache {
+  const results = new Map<string, ReturnType<typeof retrieveSupport>>();
+  let hits = 0;
+
+  const retrieve: typeof retrieveSupport = (ctx, options) => {
+    const key = JSON.stringify([buildKeywords(ctx), options ?? {}]);
+    const cached = results.get(key);
+    if (cached) {
+      hits++;
+      return cached;
+    }
+    const pending = retrieveSupport(ctx, options);
+    results.set(key, pending);
+    // Failed lookups are retried by the next site rather than cached
+    pending.catch(() => results.delete(key));
+    return pending;
+  };
+
+  return { retrieve, hits: () => hits };
+}
+
 export function formatCitation(chunk: SourceChunk): string {
   if (chunk.kind === "handbook") {
     const page = chunk.pageNumber ? `p${chunk.pageNumber}` : "p?";
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { JURISDICTION_IDS } from "@/src/rules/rulesTypes";
+import type { FieldLayout } from "@/lib/layoutTypes";
 
 export const geometryTypeSchema = z.union([
   z.literal("bbox"),
@@ -31,6 +33,34 @@ export type TcpGeometry = {
   polygon?: PolygonRing[];
 };
 
+// GeoJSON position [lng, lat, altitude?]; altitude is ignored
+const positionSchema = z.array(z.number()).min(2).max(3);
+
+const roadLineGeometrySchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("LineString"), coordinates: z.array(positionSchema) }),
+  z.object({ type: z.literal("MultiLineString"), coordinates: z.array(z.array(positionSchema)) }),
+]);
+
+// Points and areas are allowed in road data (e.g. an OSM export) and skipped
+const nonLineGeometrySchema = z
+  .object({ type: z.enum(["Point", "MultiPoint", "Polygon", "MultiPolygon", "GeometryCollection"]) })
+  .passthrough();
+
+const roadFeatureSchema = z.object({
+  type: z.literal("Feature"),
+  geometry: z.union([roadLineGeometrySchema, nonLineGeometrySchema]).nullable(),
+  properties: z.record(z.string(), z.unknown()).nullable().optional(),
+});
+
+// Road centerlines as GeoJSON: a FeatureCollection, a single Feature, or a bare line geometry
+export const roadGeoJsonSchema = z.union([
+  z.object({ type: z.literal("FeatureCollection"), features: z.array(roadFeatureSchema) }),
+  roadFeatureSchema,
+  roadLineGeometrySchema,
+]);
+
+export type RoadGeoJson = z.infer<typeof roadGeoJsonSchema>;
+
 // Job Owner schema (company/contractor information)
 export const jobOwnerSchema = z.object({
   companyName: z.string(),
@@ -42,6 +72,29 @@ export const jobOwnerSchema = z.object({
 
 export type JobOwner = z.infer<typeof jobOwnerSchema>;
 
+// Road cross-section on the work side (feeds taper W, open-width checks and sign offsets)
+export const crossSectionSchema = z.object({
+  lanesPerDirection: z.number().int().min(1),
+  laneWidthFt: z.number().positive(),
+  shoulderWidthFt: z.number().min(0),
+  bikeLaneWidthFt: z.number().min(0).optional(),
+  parkingLaneWidthFt: z.number().min(0).optional(),
+  medianWidthFt: z.number().min(0).optional(), // 0 / absent = undivided
+  workAreaWidthFt: z.number().min(0).optional(), // Work area inside the closed lane/shoulder; sets the lateral buffer
+});
+
+export type CrossSectionInput = z.infer<typeof crossSectionSchema>;
+
+// Intersection leg, resolved at its own posted speed
+export const intersectionApproachSchema = z.object({
+  name: z.string().optional(),
+  bearingDeg: z.number(), // Compass bearing of the leg from the intersection (0 = north leg)
+  speedMph: z.number().positive(),
+  lanes: z.number().int().min(1),
+});
+
+export type IntersectionApproachInput = z.infer<typeof intersectionApproachSchema>;
+
 export const tcpDraftRequestSchema = z.object({
   geometry: tcpGeometrySchema,
   locationLabel: z.string().optional(),
@@ -51,22 +104,54 @@ export const tcpDraftRequestSchema = z.object({
     z.literal("intersection"),
   ]),
   postedSpeedMph: z.number(),
+  workZoneSpeedMph: z.number().positive().optional(), // Approved temporary speed limit; used only below postedSpeedMph
   workType: z.union([
     z.literal("shoulder_work"),
     z.literal("lane_closure"),
     z.literal("one_lane_two_way_flaggers"),
+    z.literal("mobile_operation"),
+    z.literal("full_closure"),
+    z.literal("sidewalk_closure"),
+    z.literal("bike_lane_closure"),
   ]),
   workLengthFt: z.number(),
   isNight: z.boolean(),
   notes: z.string().optional(),
   jobOwner: jobOwnerSchema.optional(), // Company/contractor info
+  jurisdiction: z.enum(JURISDICTION_IDS).optional(), // Rules pack override; otherwise picked from location
+  detourRoute: z.array(coordinateSchema).min(2).optional(), // Full closures: [lng,lat] from closure to rejoin
+  pedestrianRoute: z.array(coordinateSchema).min(2).optional(), // Sidewalk closures: [lng,lat] from crosswalk to crosswalk
+  hourlyVolumeVph: z.number().positive().optional(), // Two-way veh/h; wins over ADT for queue estimates
+  adt: z.number().positive().optional(), // Two-way average daily traffic
+  directionalSplit: z.number().min(0.5).max(1).optional(), // Share of traffic in the heavier direction
+  crossSection: crossSectionSchema.optional(),
+  approaches: z.array(intersectionApproachSchema).min(1).optional(), // Intersections: one entry per leg
+  roadCenterlines: z.array(z.array(coordinateSchema).min(2)).optional(), // [lng,lat] polylines; the response then includes fieldLayout
+  roadGeoJson: roadGeoJsonSchema.optional(), // Same, as GeoJSON lines (merged with roadCenterlines)
 });
 
 export type TcpDraftRequest = z.infer<typeof tcpDraftRequestSchema>;
 
+// Advance warning sign: MUTCD A/B/C gaps nearest the transition first, then D, E... upstream on longer sequences
 export const signSpacingSchema = z.object({
-  label: z.union([z.literal("A"), z.literal("B"), z.literal("C")]),
-  distanceFt: z.number(),
+  label: z.string().regex(/^[A-Z]$/, "Sign label must be a single capital letter"),
+  distanceFt: z.number(), // Gap from the previous sign (A: from the transition)
+  signCode: z.string().optional(), // Rules pack sign code, e.g. "ROAD_WORK_AHEAD"
+  mutcdCode: z.string().optional(), // e.g. "W20-1"
+});
+
+// Labels must run A, B, C... in order so each gap is measured from the sign before it
+const signSequenceSchema = z.array(signSpacingSchema).superRefine((signs, ctx) => {
+  signs.forEach((sign, i) => {
+    const expected = String.fromCharCode("A".charCodeAt(0) + i);
+    if (sign.label !== expected) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [i, "label"],
+        message: `Expected label "${expected}" at position ${i + 1} (signs run A, B, C... from the transition)`,
+      });
+    }
+  });
 });
 
 export const devicesSchema = z.object({
@@ -76,12 +161,219 @@ export const devicesSchema = z.object({
   flaggers: z.number(),
 });
 
+// Tapers are filled from the rules resolver, not the model
+export const planTaperSchema = z.object({
+  type: z.enum(["merging", "shifting", "shoulder", "downstream", "one_lane_two_way"]),
+  position: z.enum(["upstream", "downstream"]),
+  lengthFt: z.number(),
+  lengthRule: z.string(),
+  deviceCount: z.number(),
+  citation: z.string().optional(),
+});
+
+// Vehicle train for mobile operations, filled from the rules resolver
+export const planMobileOperationSchema = z.object({
+  vehicles: z.array(z.object({
+    role: z.enum(["work", "shadow", "advance_warning"]),
+    offsetFt: z.number(),
+    tma: z.boolean(),
+    arrowBoard: z.boolean(),
+  })),
+  leapfrogIntervalFt: z.number(),
+  leapfrogSigns: z.array(z.string()),
+  citation: z.string().optional(),
+});
+
+// Full closure detour: decision points from the drawn route, signing from the rules resolver
+export const planDetourSchema = z.object({
+  lengthFt: z.number(),
+  closureSign: z.string(), // MUTCD code mounted on the closure barricades (R11-2)
+  barricadeType: z.string(),
+  decisionPoints: z.array(z.object({
+    sequence: z.number(),
+    turn: z.enum(["left", "right", "ahead"]),
+    distanceFt: z.number(),
+    signs: z.array(z.string()), // MUTCD codes in the assembly, e.g. ["M4-8", "M6-1"]
+  })),
+  citation: z.string().optional(),
+});
+
+// Flagger queue and delay estimate from traffic volume (one-lane two-way flagging only)
+export const planQueueSchema = z.object({
+  twoWayVolumeVph: z.number(),
+  volumeSource: z.enum(["hourly", "adt"]),
+  cycleLengthS: z.number(),
+  directions: z.array(z.object({
+    direction: z.enum(["peak", "off_peak"]),
+    volumeVph: z.number(),
+    queueLengthFt: z.number(),
+    averageDelayS: z.number(),
+    maxDelayS: z.number(),
+  })),
+  maxQueueLengthFt: z.number(),
+  maxDelayS: z.number(),
+  oversaturated: z.boolean(),
+  queuePastFirstSign: z.boolean(),
+  awaExtensionFt: z.number(), // Distance the upstream advance signs should move back
+  warnings: z.array(z.string()),
+  citation: z.string().optional(),
+});
+
+// Cross-section checks (remaining lane width, fire access, lateral buffer, parking removal)
+export const planCrossSectionSchema = z.object({
+  taperWidthFt: z.number(), // W used in the taper formulas
+  openLanes: z.number(),
+  openWidthFt: z.number(),
+  narrowestLaneFt: z.number(),
+  lateralBufferFt: z.number().optional(), // Absent when the work area width is not known
+  parkingRemoval: z.object({
+    perSignFt: z.number(),
+    totalFt: z.number(),
+    citation: z.string().optional(),
+  }).optional(),
+  findings: z.array(z.object({
+    constraintId: z.string(),
+    requirement: z.enum(["SHALL", "SHOULD", "MAY"]),
+    passed: z.boolean(),
+    message: z.string(),
+    citation: z.string().optional(),
+  })),
+});
+
+// Sidewalk closure: signing and devices from the rules resolver, route length from the drawn route
+export const planPedestrianSchema = z.object({
+  closureSign: z.string(), // MUTCD code on the channelizing devices (R9-9)
+  useOtherSideSign: z.string(), // MUTCD code at the crosswalk on each side (R9-10)
+  channelizingDevice: z.string(),
+  conesProhibited: z.boolean(),
+  route: z.object({
+    lengthFt: z.number(), // 0 when no route has been drawn
+    minWidthFt: z.number(),
+    passingSpaceWidthFt: z.number(),
+    passingSpaceIntervalFt: z.number(),
+    passingSpacesIfNarrow: z.number(), // Passing spaces needed where the route is narrower than passingSpaceWidthFt
+    maxRunningSlopePct: z.number(),
+    maxCrossSlopePct: z.number(),
+  }),
+  citation: z.string().optional(),
+});
+
+// Bike lane closure: treatment and bike signing from the rules resolver
+export const planBikeSchema = z.object({
+  treatment: z.enum(["shared_lane", "separate_facility"]),
+  closedAheadSign: z.string(), // MUTCD code posted in advance of the work zone
+  advanceSignDistanceFt: z.number(),
+  mergeSign: z.string().optional(), // Shared lane only: at the bike lane taper
+  fullLaneSign: z.string().optional(), // Shared lane only: along the shared lane
+  mergeMaxSpeedMph: z.number(),
+  minTemporaryBikeLaneWidthFt: z.number(),
+  minSharedPathWidthFt: z.number(),
+  minClearWidthFt: z.number(), // Signs may not narrow the bike lane or sidewalk below this
+  citation: z.string().optional(),
+});
+
+// Temporary work zone speed limit: speed zone signs and the approving authority, from the rules resolver
+export const planSpeedReductionSchema = z.object({
+  postedSpeedMph: z.number(),
+  workZoneSpeedMph: z.number(), // Tapers, cone spacing and buffer are resolved at this speed
+  reductionSign: z.string(), // MUTCD code, fluorescent orange SPEED REDUCTION
+  reductionSignDistanceFt: z.number(), // Upstream of the activity area
+  speedLimitSign: z.string(), // MUTCD code, SPEED LIMIT XX under a WORK ZONE plaque
+  speedLimitSignDistanceFt: z.number(),
+  endSign: z.string(),
+  endSignDistanceFt: z.number(), // Past the downstream end of the work
+  advanceWarningShiftFt: z.number(),
+  authority: z.string(),
+  statute: z.string().optional(),
+  orderContents: z.array(z.string()),
+  orderRecipients: z.array(z.string()),
+  citation: z.string().optional(),
+});
+
+// Intersection advance signing per approach, filled from the rules resolver
+export const planIntersectionSchema = z.object({
+  approaches: z.array(z.object({
+    name: z.string(),
+    bearingDeg: z.number(),
+    speedMph: z.number(),
+    lanes: z.number(),
+    signSpacingFt: z.number(),
+    signs: z.array(z.object({
+      mutcdCode: z.string(),
+      legend: z.string(),
+      sizeInches: z.number(),
+      distanceFt: z.number(), // From the intersection
+    })),
+    advanceWarningAreaFt: z.number(),
+    flaggerCount: z.number(),
+    citation: z.string().optional(),
+  })),
+  flaggerCount: z.number(), // All approaches
+  specialConditions: z.array(z.string()),
+  citation: z.string().optional(),
+});
+
+// Night operations package (night work only), filled from the rules resolver
+export const planNightSchema = z.object({
+  requirements: z.array(z.string()),
+  reflectivityRequired: z.boolean(),
+  minVisibilityDistanceFt: z.number(),
+  minConeHeightIn: z.number(),
+  flaggerStationLightTowers: z.number(), // Per flagger station; 0 without flaggers
+  lightTowerSpacingFt: z.number(),
+  barricadeWarningLight: z.string().optional(), // Full closures only
+  citation: z.string().optional(),
+});
+
+// Sign fabrication schedule: what the shop pulls, filled from the rules resolver
+export const planSignScheduleEntrySchema = z.object({
+  mutcdCode: z.string(),
+  legend: z.string(),
+  sizeInches: z.number(),
+  count: z.number(),
+  standType: z.enum(["portable_stand", "barricade_mounted"]),
+  flagsRequired: z.boolean(),
+  lightRequired: z.boolean(),
+  citation: z.string().optional(),
+});
+
+// "Why this value": how the rules resolver derived a plan value (keyed like the resolver citations)
+export const planDerivationSchema = z.object({
+  result: z.string(),
+  method: z.enum(["table", "formula", "default"]),
+  inputSpeedMph: z.number(),
+  bucketMph: z.number(),
+  speedOutOfRange: z.boolean(),
+  tablePath: z.string().optional(),
+  formula: z.string().optional(),
+  layer: z.string(), // Pack layer ("mutcd", "odot", ...) or "resolver"
+  overrides: z.array(z.object({
+    layer: z.string(),
+    path: z.string(),
+    baseValue: z.string(),
+    value: z.string(),
+  })),
+  steps: z.array(z.string()),
+});
+
 export const tcpPlanSchema = z.object({
   recommendedLayout: z.string(),
-  signSpacing: z.array(signSpacingSchema),
+  signSpacing: signSequenceSchema,
   taperLengthFt: z.number(),
   bufferLengthFt: z.number(),
   devices: devicesSchema,
+  tapers: z.array(planTaperSchema).optional(),
+  mobile: planMobileOperationSchema.optional(),
+  detour: planDetourSchema.optional(),
+  signSchedule: z.array(planSignScheduleEntrySchema).optional(),
+  queue: planQueueSchema.optional(),
+  derivations: z.record(z.string(), planDerivationSchema).optional(),
+  crossSection: planCrossSectionSchema.optional(),
+  night: planNightSchema.optional(),
+  pedestrian: planPedestrianSchema.optional(),
+  bike: planBikeSchema.optional(),
+  intersection: planIntersectionSchema.optional(),
+  speedReduction: planSpeedReductionSchema.optional(),
 });
 
 // Coverage Gate: Tracks which critical handbook categories were found
@@ -103,6 +395,45 @@ export const coverageInfoSchema = z.object({
 export type CoverageCitation = z.infer<typeof coverageCitationSchema>;
 export type CoverageInfo = z.infer<typeof coverageInfoSchema>;
 
+// A plan number the model proposed that differs from the rules resolver (the resolver value is used)
+export const planDiscrepancySchema = z.object({
+  field: z.string(), // Plan path, e.g. "taperLengthFt", "signSpacing.A", "devices.cones"
+  modelValue: z.union([z.number(), z.boolean()]),
+  modelReferences: z.array(z.string()), // Excerpt citations the model gave for its value
+  resolvedValue: z.union([z.number(), z.boolean()]),
+  resolvedCitation: z.string().optional(),
+});
+
+// A model citation that matched no retrieved excerpt (dropped from references)
+export const unverifiedReferenceSchema = z.object({
+  reference: z.string(),
+  reason: z.string(),
+});
+
+// Retrieved excerpt that states a plan number
+export const fieldSupportSchema = z.object({
+  citation: z.string(), // "HB::doc::p12::section"
+  chunkId: z.string(),
+  snippet: z.string(),
+});
+
+// Model calls behind a draft (token counts are estimates for the local provider, absent when unreported)
+export const llmUsageSchema = z.object({
+  provider: z.string(), // "openai" | "local"
+  model: z.string(),
+  calls: z.number(), // HTTP attempts, including backoff retries and the corrective retry
+  promptTokens: z.number().optional(),
+  completionTokens: z.number().optional(),
+  totalTokens: z.number().optional(),
+});
+
+// Rules pack the plan was resolved from (compare contentHash to spot stale plans)
+export const rulesPackStampSchema = z.object({
+  packId: z.enum(JURISDICTION_IDS),
+  version: z.string(),
+  contentHash: z.string(),
+});
+
 export const tcpDraftResponseSchema = z.object({
   summary: z.string(),
   plan: tcpPlanSchema,
@@ -110,12 +441,55 @@ export const tcpDraftResponseSchema = z.object({
   references: z.array(z.string()),
   svgContent: z.string(),
   coverage: coverageInfoSchema.optional(), // Added for UI confidence display
+  rulesPack: rulesPackStampSchema.optional(),
+  discrepancies: z.array(planDiscrepancySchema).optional(), // Model numbers that disagree with the resolver
+  llm: llmUsageSchema.optional(),
+  unverifiedReferences: z.array(unverifiedReferenceSchema).optional(),
+  fieldSupport: z.record(z.string(), fieldSupportSchema).optional(), // Keyed by plan field ("taperLengthFt", "signSpacing.A", ...)
+  unsupportedFields: z.array(z.string()).optional(), // Plan fields no retrieved excerpt states (unverified)
+  // Device positions from suggestFieldLayout, built from the same resolved rules (only when road centerlines are sent)
+  fieldLayout: z
+    .custom<FieldLayout>((value) => typeof value === "object" && value !== null && Array.isArray((value as FieldLayout).devices))
+    .optional(),
+});
+
+// What the model writes: the narrative parts of the response plus numbers it disputes
+export const modelDraftSchema = tcpDraftResponseSchema
+  .pick({ summary: true, assumptions: true, references: true })
+  .extend({
+    plan: tcpPlanSchema.pick({ recommendedLayout: true }).extend({
+      proposedValues: z.array(z.unknown()).optional(), // Advisory; entries are checked one by one and bad ones dropped
+    }),
+  });
+
+// Schema validation problem; path is a JSON Pointer (RFC 6901) into the checked document, "" for the root
+export const validationIssueSchema = z.object({
+  path: z.string(), // e.g. "/plan/signSpacing/1/label"
+  message: z.string(),
 });
 
 export type SignSpacing = z.infer<typeof signSpacingSchema>;
 export type Devices = z.infer<typeof devicesSchema>;
+export type PlanTaper = z.infer<typeof planTaperSchema>;
+export type PlanMobileOperation = z.infer<typeof planMobileOperationSchema>;
+export type PlanDetour = z.infer<typeof planDetourSchema>;
+export type PlanQueue = z.infer<typeof planQueueSchema>;
+export type PlanSignScheduleEntry = z.infer<typeof planSignScheduleEntrySchema>;
+export type PlanDerivation = z.infer<typeof planDerivationSchema>;
+export type PlanCrossSection = z.infer<typeof planCrossSectionSchema>;
+export type PlanNight = z.infer<typeof planNightSchema>;
+export type PlanPedestrian = z.infer<typeof planPedestrianSchema>;
+export type PlanBike = z.infer<typeof planBikeSchema>;
+export type PlanIntersection = z.infer<typeof planIntersectionSchema>;
+export type PlanSpeedReduction = z.infer<typeof planSpeedReductionSchema>;
 export type TcpPlan = z.infer<typeof tcpPlanSchema>;
+export type PlanDiscrepancy = z.infer<typeof planDiscrepancySchema>;
+export type LlmUsage = z.infer<typeof llmUsageSchema>;
+export type UnverifiedReference = z.infer<typeof unverifiedReferenceSchema>;
+export type FieldSupport = z.infer<typeof fieldSupportSchema>;
 export type TcpDraftResponse = z.infer<typeof tcpDraftResponseSchema>;
+export type ModelDraftOutput = z.infer<typeof modelDraftSchema>;
+export type ValidationIssue = z.infer<typeof validationIssueSchema>;
 
 // Coverage gate error response type
 export interface CoverageGateError {
@@ -126,6 +500,82 @@ export interface CoverageGateError {
   };
 }
 
+// Progress events from POST /api/draft-tcp?stream=1 (one JSON object per NDJSON line)
+export type DraftProgressEvent =
+  | { stage: "validated" }
+  | { stage: "retrieval"; handbookChunks: number; exampleChunks: number }
+  | { stage: "coverage"; passed: boolean; missing: string[] }
+  | { stage: "model"; model: string; attempt: number } // attempt 2 = corrective retry
+  | { stage: "tokens"; attempt: number; chars: number } // running total of streamed content
+  | { stage: "response_validation"; attempt: number; ok: boolean; issues: ValidationIssue[] }
+  | { stage: "done"; response: TcpDraftResponse }
+  | { stage: "error"; status: number; body: Record<string, unknown> }; // same body as the non-streaming error response
+
 export const MAX_SVG_LENGTH = 50_000;
 
+// Batch drafting (POST /api/draft-tcp/batch). A permit package rarely has more than a couple of dozen sites.
+export const MAX_BATCH_SITES = 25;
+
+// Drafts in flight at once; more than this mostly waits on provider rate limits
+export const MAX_BATCH_CONCURRENCY = 8;
+
+export const tcpBatchRequestSchema = z.object({
+  jobOwner: jobOwnerSchema.optional(), // Shared by every site; a site's own jobOwner fields win
+  sites: z.array(z.unknown()).min(1).max(MAX_BATCH_SITES), // TcpDraftRequests, each validated on its own (a bad site fails only itself)
+  concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).optional(),
+});
+
+export const batchSiteResultSchema = z.discriminatedUnion("ok", [
+  z.object({
+    index: z.number(), // Position in the request's sites[]
+    locationLabel: z.string().optional(),
+    ok: z.literal(true),
+    response: tcpDraftResponseSchema,
+  }),
+  z.object({
+    index: z.number(),
+    locationLabel: z.string().optional(),
+    ok: z.literal(false),
+    status: z.number(),
+    body: z.record(z.string(), z.unknown()), // Same body the single-site endpoint returns
+  }),
+]);
+
+// One sign face across the package: same MUTCD code, legend and size
+export const batchSignTotalSchema = z.object({
+  mutcdCode: z.string(),
+  legend: z.string(),
+  sizeInches: z.number(),
+  count: z.number(),
+  sites: z.number(), // Sites that use this sign
+});
+
+// Totals over the sites that drafted successfully
+export const batchSummarySchema = z.object({
+  siteCount: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  devices: z.object({
+    cones: z.number(),
+    signs: z.number(),
+    arrowBoards: z.number(),
+    flaggers: z.number(),
+  }),
+  signs: z.array(batchSignTotalSchema),
+  llm: llmUsageSchema.omit({ provider: true, model: true }).optional(),
+  retrievalCacheHits: z.number(), // Sites that reused another site's handbook retrieval
+});
+
+export const tcpBatchResponseSchema = z.object({
+  jobOwner: jobOwnerSchema.optional(),
+  sites: z.array(batchSiteResultSchema),
+  summary: batchSummarySchema,
+});
+
+export type TcpBatchRequest = z.infer<typeof tcpBatchRequestSchema>;
+export type BatchSiteResult = z.infer<typeof batchSiteResultSchema>;
+export type BatchSignTotal = z.infer<typeof batchSignTotalSchema>;
+export type BatchSummary = z.infer<typeof batchSummarySchema>;
+export type TcpBatchResponse = z.infer<typeof tcpBatchResponseSchema>;
+
 
@@ -0,0 +1,28 @@
+/**
+ * Validation Issues
+ *
+ * Zod errors as { path, message } pairs with the path written as a JSON
+ * Pointer ("/plan/signSpacing/1/label"), so the client and the corrective
+ * retry prompt can name the exact value that failed.
+ */
+
+import { ZodError } from "zod";
+import { ValidationIssue } from "./tcpTypes";
+
+/**
+ * JSON Pointer (RFC 6901) for a zod issue path; "" is the document root
+ */
+export function toJsonPointer(path: (string | number)[]): string {
+  return path.map((segment) => `/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`).join("");
+}
+
+export function toValidationIssues(error: ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => ({ path: toJsonPointer(issue.path), message: issue.message }));
+}
+
+/**
+ * One-line form for logs, error summaries and prompts
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  return `${issue.path || "(root)"}: ${issue.message}`;
+}
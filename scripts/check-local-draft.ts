@@ -0,0 +1,110 @@
+/**
+ * Offline Draft Check
+ * Runs a fixture request through the full draft pipeline with the local
+ * LLM provider and a fixture handbook excerpt (no network, no PDFs), and
+ * checks the plan numbers, the excerpts that support them and the model
+ * usage. Also checks that an unreadable recording fails the completion
+ * instead of throwing.
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { draftTcp } from "../lib/draftTcp";
+import { createLocalProvider } from "../lib/llm/localProvider";
+import { recordingKey } from "../lib/llm/recordings";
+import type { ChatMessage } from "../lib/llm";
+import type { RetrievedChunk, retrieveSupport } from "../lib/retrieval";
+
+// Portland pack at 35 mph: 200 ft sign spacing, 180 ft taper, 100 ft buffer
+const FIXTURE_REQUEST = {
+  geometry: { type: "bbox", bbox: [-122.68, 45.51, -122.67, 45.52] },
+  roadType: "2_lane_undivided",
+  postedSpeedMph: 35,
+  workType: "lane_closure",
+  workLengthFt: 300,
+  isNight: false,
+  jurisdiction: "portland",
+};
+
+// States the spacing, taper and buffer; mentions flaggers without the plan's count (0)
+const FIXTURE_CHUNK: RetrievedChunk = {
+  id: "fixture-hb-1",
+  kind: "handbook",
+  docName: "fixture-handbook.pdf",
+  pageNumber: 12,
+  sectionOrTableId: "Table 1",
+  text:
+    "Advance warning signs on 35 mph streets are spaced 200 ft apart. " +
+    "The merging taper length is 180 ft. Provide a buffer space of 100 ft before the work area. " +
+    "Two flaggers are needed for one-lane two-way operations.",
+  score: 1,
+};
+
+const fixtureRetrieve: typeof retrieveSupport = async () => ({
+  handbookChunks: [FIXTURE_CHUNK],
+  exampleChunks: [],
+});
+
+/**
+ * Draft the fixture request offline and check the response
+ */
+async function checkDraft(): Promise<void> {
+  process.env.LLM_PROVIDER = "local";
+  delete process.env.LLM_RECORDINGS_DIR;
+
+  const result = await draftTcp(FIXTURE_REQUEST, undefined, { retrieve: fixtureRetrieve });
+  assert.ok(result.ok, `Draft failed: ${JSON.stringify(result.ok ? null : result.body)}`);
+  const { plan, fieldSupport = {}, unsupportedFields = [], llm } = result.response;
+
+  assert.deepEqual(
+    plan.signSpacing.map((s) => `${s.label}:${s.signCode}@${s.distanceFt}`),
+    ["A:BE_PREPARED_TO_STOP@200", "B:ROAD_WORK_AHEAD@200"]
+  );
+  assert.equal(plan.taperLengthFt, 180);
+  assert.equal(plan.bufferLengthFt, 100);
+  assert.equal(plan.devices.arrowBoard, false);
+  assert.equal(plan.devices.flaggers, 0);
+
+  assert.deepEqual(Object.keys(fieldSupport).sort(), ["bufferLengthFt", "signSpacing.A", "signSpacing.B", "taperLengthFt"]);
+  assert.equal(fieldSupport.taperLengthFt.chunkId, FIXTURE_CHUNK.id);
+  assert.match(fieldSupport.taperLengthFt.snippet, /180 ft/);
+  for (const field of ["devices.signs", "devices.arrowBoard", "devices.flaggers"]) {
+    assert.ok(unsupportedFields.includes(field), `${field} should be reported as unverified`);
+  }
+
+  assert.equal(llm?.provider, "local");
+  assert.equal(llm?.calls, 1);
+  console.log("✅ Offline draft: plan numbers, field support and model usage");
+}
+
+/**
+ * A truncated recording makes the local provider return invalid_response
+ */
+async function checkBadRecording(): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tcp-recordings-"));
+  try {
+    const messages: ChatMessage[] = [{ role: "user", content: "fixture" }];
+    fs.writeFileSync(path.join(dir, `${recordingKey(messages)}.json`), '{"messages": [], "text": "trunc');
+
+    const result = await createLocalProvider({ recordingsDir: dir }).complete({ messages });
+    assert.equal(result.ok, false);
+    assert.equal(result.ok ? null : result.kind, "invalid_response");
+    console.log("✅ Unreadable recording: invalid_response failure");
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function main(): Promise<void> {
+  await checkDraft();
+  await checkBadRecording();
+}
+
+main().catch((error) => {
+  console.error("❌ Offline draft check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,233 @@
+/**
+ * Rules Pack Diff & Impact Analysis Script
+ * Compares two versions of the base rules pack (jurisdiction overlays are
+ * re-applied on top of each) and, for a set of stored plan inputs, re-runs
+ * resolveTcpRules against both to report which resolved values would change.
+ *
+ * The inputs file is a JSON array of saved plans:
+ *   [{ "id": "job-42", "input": { "speedMph": 35, "operation": "lane_closure", "timeOfDay": "day" },
+ *      "rulesPack": { "packId": "mutcd", "version": "1.0", "contentHash": "..." } }]
+ * `rulesPack` is the stamp saved with the plan; plans stamped with a different
+ * content hash than the new pack are reported as stale.
+ *
+ * Usage: npm run rules:diff -- <old-pack.json> [new-pack.json] [--inputs plans.json]
+ *   (new pack defaults to src/rules/tcpRulesPack.v1.json)
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { parseRulesPack } from "../src/rules/rulesPackSchema";
+import { JurisdictionId, RulesPackStamp, TcpRulesPack } from "../src/rules/rulesTypes";
+import {
+  BASE_JURISDICTION,
+  composeRulesPack,
+  LayeredRulesPack,
+  selectJurisdiction,
+} from "../src/rules/rulesPackRegistry";
+import { resolveTcpRules, ResolveTcpRulesInput, ResolvedTcpRules } from "../src/rules/resolveTcpRules";
+
+// Configuration
+const PROJECT_ROOT = process.cwd();
+const LIVE_PACK_FILE = path.join(PROJECT_ROOT, "src", "rules", "tcpRulesPack.v1.json");
+
+// Resolved values compared between pack versions (citations are ignored)
+const COMPARED_FIELDS = [
+  "signSpacingFt",
+  "advanceSignDistancesFt",
+  "advanceSignSequence",
+  "taperLengthFt",
+  "tapers",
+  "coneSpacingFt",
+  "bufferLengthFt",
+  "drumsRequired",
+  "requiredSigns",
+  "flaggerCount",
+  "arrowBoardRequired",
+  "mobile",
+  "detour",
+  "signSchedule",
+  "night",
+  "pedestrian",
+  "bike",
+  "intersection",
+  "speedReduction",
+] as const satisfies ReadonlyArray<keyof ResolvedTcpRules>;
+
+interface StoredPlanInput {
+  id?: string;
+  input: ResolveTcpRulesInput;
+  rulesPack?: RulesPackStamp;
+}
+
+interface PackChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Read and schema-validate a full rules pack
+ */
+function loadPack(filePath: string): TcpRulesPack {
+  const name = path.relative(PROJECT_ROOT, filePath);
+  return parseRulesPack(JSON.parse(fs.readFileSync(filePath, "utf-8")), name);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Leaf-level differences between two packs (arrays compare wholesale)
+ */
+function diffValues(before: unknown, after: unknown, pathPrefix: string, changes: PackChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    for (const key of keys) {
+      diffValues(before[key], after[key], pathPrefix ? `${pathPrefix}.${key}` : key, changes);
+    }
+    return;
+  }
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path: pathPrefix, before, after });
+  }
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(absent)" : JSON.stringify(value);
+}
+
+/**
+ * JSON for comparison with citation objects dropped
+ */
+function comparable(value: unknown): string {
+  return JSON.stringify(value, (key, nested) => (key === "citation" ? undefined : nested)) ?? "null";
+}
+
+const USAGE = "Usage: npm run rules:diff -- <old-pack.json> [new-pack.json] [--inputs plans.json]";
+
+function usageError(message: string): never {
+  console.error(message);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+function parseArgs(args: string[]): { oldFile: string; newFile: string; inputsFile?: string } {
+  const positional: string[] = [];
+  let inputsFile: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--help" || args[i] === "-h") {
+      console.log(USAGE);
+      console.log("  (new pack defaults to src/rules/tcpRulesPack.v1.json)");
+      process.exit(0);
+    } else if (args[i] === "--inputs") {
+      inputsFile = args[++i];
+      if (!inputsFile) usageError("--inputs needs a plans file");
+    } else if (args[i].startsWith("-")) {
+      usageError(`Unknown argument "${args[i]}"`);
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  if (positional.length === 0) usageError("Missing the old pack file");
+  if (positional.length > 2) usageError(`Unexpected argument "${positional[2]}"`);
+
+  const files = {
+    oldFile: path.resolve(PROJECT_ROOT, positional[0]),
+    newFile: path.resolve(PROJECT_ROOT, positional[1] ?? LIVE_PACK_FILE),
+    inputsFile: inputsFile ? path.resolve(PROJECT_ROOT, inputsFile) : undefined,
+  };
+  for (const file of [files.oldFile, files.newFile, files.inputsFile]) {
+    if (file && !fs.existsSync(file)) usageError(`File not found: ${path.relative(PROJECT_ROOT, file)}`);
+  }
+  return files;
+}
+
+function formatStamp(stamp: RulesPackStamp): string {
+  return `${stamp.packId} v${stamp.version} #${stamp.contentHash}`;
+}
+
+/**
+ * Re-resolve each stored input against both packs and print what would change.
+ * Returns the number of plans with changes.
+ */
+function reportImpact(oldPack: TcpRulesPack, newPack: TcpRulesPack, plans: StoredPlanInput[]): number {
+  const composed = new Map<JurisdictionId, { before: LayeredRulesPack; after: LayeredRulesPack }>();
+  const lines: string[] = [];
+  let changedCount = 0;
+  let staleCount = 0;
+
+  plans.forEach((plan, index) => {
+    const name = plan.id ?? `#${index + 1}`;
+    const jurisdiction = selectJurisdiction({ jurisdiction: plan.input.jurisdiction, location: plan.input.location });
+    if (!composed.has(jurisdiction)) {
+      composed.set(jurisdiction, {
+        before: composeRulesPack(jurisdiction, oldPack),
+        after: composeRulesPack(jurisdiction, newPack),
+      });
+    }
+    const packs = composed.get(jurisdiction)!;
+
+    const before = resolveTcpRules({ ...plan.input, rulesPack: packs.before });
+    const after = resolveTcpRules({ ...plan.input, rulesPack: packs.after });
+    const changed = COMPARED_FIELDS.filter(field => comparable(before[field]) !== comparable(after[field]));
+    const stale = plan.rulesPack !== undefined && plan.rulesPack.contentHash !== after.rulesPack.contentHash;
+    if (stale) staleCount++;
+
+    if (changed.length === 0) {
+      lines.push(`✅ ${name} (${plan.input.operation} @ ${plan.input.speedMph} mph, ${jurisdiction}): no changes`);
+    } else {
+      changedCount++;
+      lines.push(`❌ ${name} (${plan.input.operation} @ ${plan.input.speedMph} mph, ${jurisdiction}): ${changed.length} value(s) change`);
+      for (const field of changed) {
+        lines.push(`   ${field}: ${comparable(before[field])} → ${comparable(after[field])}`);
+      }
+    }
+    if (stale) {
+      lines.push(`   stale: stamped ${formatStamp(plan.rulesPack!)}, current ${formatStamp(after.rulesPack)}`);
+    }
+  });
+
+  console.log("");
+  console.log(`Impact on ${plans.length} stored plan(s):`);
+  lines.forEach(line => console.log(line));
+  console.log("");
+  console.log(`${changedCount} plan(s) with changed values, ${staleCount} stamped with a different pack hash`);
+  return changedCount;
+}
+
+function main() {
+  const { oldFile, newFile, inputsFile } = parseArgs(process.argv.slice(2));
+  const oldPack = loadPack(oldFile);
+  const newPack = loadPack(newFile);
+
+  const changes: PackChange[] = [];
+  diffValues(oldPack, newPack, "", changes);
+
+  const oldStamp = composeRulesPack(BASE_JURISDICTION, oldPack).stamp;
+  const newStamp = composeRulesPack(BASE_JURISDICTION, newPack).stamp;
+  console.log(`Old: ${path.relative(PROJECT_ROOT, oldFile)} (${formatStamp(oldStamp)})`);
+  console.log(`New: ${path.relative(PROJECT_ROOT, newFile)} (${formatStamp(newStamp)})`);
+  if (oldStamp.version === newStamp.version && changes.length > 0) {
+    console.log(`⚠️  Content changed but version is still ${newStamp.version}`);
+  }
+  console.log("");
+  console.log(`${changes.length} pack value(s) changed`);
+  for (const change of changes) {
+    console.log(`   ${change.path}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+  }
+
+  if (inputsFile) {
+    const plans = JSON.parse(fs.readFileSync(inputsFile, "utf-8")) as StoredPlanInput[];
+    reportImpact(oldPack, newPack, plans);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error("❌ Rules pack diff failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
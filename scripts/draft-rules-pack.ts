@@ -0,0 +1,511 @@
+/**
+ * Rules Pack Draft Script
+ * Mines the handbook PDFs in "tcp handbooks/" for spacing, taper and buffer
+ * table rows and proposes changes to the base rules pack.
+ *
+ * Candidate pages come from the app's own retrieval (retrieveSupport, run once
+ * per speed bucket, then ranked per category with CATEGORY_QUERIES). Speed →
+ * distance rows found on those pages are compared with the live pack.
+ *
+ * Writes three files for review (the live pack is never touched):
+ *   tcpRulesPack.patch.json  JSON Patch operations, each cited to a handbook page
+ *   tcpRulesPack.draft.json  live pack with the patch applied (for rules:lint / rules:diff)
+ *   report.md                candidates, conflicts and pages to check by hand
+ *
+ * Usage: npm run rules:draft [-- --doc <handbook name>] [--out <dir>]
+ *   (--doc limits mining to one handbook, e.g. a newly added PDF;
+ *    output defaults to rules-drafts/<date>/)
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { CATEGORY_QUERIES, retrieveSupport, RetrievedChunk } from "../lib/retrieval";
+import { lintRulesPack, parseRulesPack } from "../src/rules/rulesPackSchema";
+import { SourceCitation, SPEED_BUCKETS_MPH, TcpRulesPack } from "../src/rules/rulesTypes";
+import { BASE_JURISDICTION, composeRulesPack } from "../src/rules/rulesPackRegistry";
+
+// Configuration
+const PROJECT_ROOT = process.cwd();
+const LIVE_PACK_FILE = path.join(PROJECT_ROOT, "src", "rules", "tcpRulesPack.v1.json");
+const RULES_DIR = path.join(PROJECT_ROOT, "src", "rules");
+const DEFAULT_OUT_DIR = path.join(PROJECT_ROOT, "rules-drafts");
+
+// Handbook chunks pulled from retrieval per speed bucket (all scored pages, not just the prompt's top 12)
+const RETRIEVAL_TOP_HANDBOOKS = 200;
+
+// Lines above a table row searched for the category heading
+const HEADING_LOOKBACK_LINES = 3;
+
+// Chunk text quoted in the report and patch evidence
+const SNIPPET_CHARS = 160;
+
+type DraftCategory = "spacing" | "taper" | "buffer";
+
+const DRAFT_CATEGORIES: DraftCategory[] = ["spacing", "taper", "buffer"];
+
+// Pack value each category fills, and the distances a table row may plausibly hold
+const CATEGORY_TARGETS: Record<DraftCategory, { label: string; packPath: (speedMph: number) => string; rangeFt: [number, number] }> = {
+  spacing: {
+    label: "Advance sign spacing",
+    packPath: (speedMph) => `spacing.bySpeedMph.${speedMph}.signSpacing_ft`,
+    rangeFt: [50, 2640],
+  },
+  taper: {
+    label: "Lane closure taper length",
+    packPath: (speedMph) => `taper.laneClosure.bySpeedMph.${speedMph}.length_ft`,
+    rangeFt: [20, 1200],
+  },
+  buffer: {
+    label: "Buffer length",
+    packPath: (speedMph) => `spacing.bySpeedMph.${speedMph}.bufferLength_ft`,
+    rangeFt: [20, 1000],
+  },
+};
+
+// "35 mph ... 200 ft" on one line
+const INLINE_ROW_PATTERN = /\b(\d{2})\s*(?:mph|MPH|miles per hour)\b[^\n\d]{0,40}?(\d{2,4})\s*(?:ft|feet|foot|')/g;
+
+// Table row: speed first, then one or more distances (the first distance column is used)
+const TABLE_ROW_PATTERN = /^\s*(\d{2})\s*(?:mph|MPH)?\s+(\d{2,4})\s*(?:ft|feet|')?(?:\s+\d{2,4}\s*(?:ft|feet|')?)*\s*$/;
+
+interface TableCandidate {
+  category: DraftCategory;
+  speedMph: number;
+  valueFt: number;
+  chunkId: string;
+  docName: string;
+  page?: number;
+  /** Category relevance of the page (CATEGORY_QUERIES matches) */
+  score: number;
+  snippet: string;
+}
+
+interface PatchOperation {
+  op: "replace" | "add";
+  /** JSON Pointer into the pack */
+  path: string;
+  value: unknown;
+  previous?: unknown;
+  citation: SourceCitation;
+  /** Rows that support the value, strongest first */
+  evidence: Array<{ chunkId: string; page?: number; snippet: string }>;
+}
+
+interface DraftPatch {
+  basePack: { file: string; version: string; contentHash: string };
+  generatedAt: string;
+  handbooks: string[];
+  operations: PatchOperation[];
+}
+
+interface ProposedValue {
+  category: DraftCategory;
+  speedMph: number;
+  packPath: string;
+  current: unknown;
+  proposed: TableCandidate;
+  support: TableCandidate[];
+  /** Other values found for the same speed and category */
+  conflicts: TableCandidate[];
+}
+
+/**
+ * Read and schema-validate a full rules pack
+ */
+function loadPack(filePath: string): TcpRulesPack {
+  const name = path.relative(PROJECT_ROOT, filePath);
+  return parseRulesPack(JSON.parse(fs.readFileSync(filePath, "utf-8")), name);
+}
+
+function parseArgs(args: string[]): { doc?: string; outDir: string } {
+  let doc: string | undefined;
+  let outDir: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--doc") {
+      doc = args[++i];
+    } else if (args[i] === "--out") {
+      outDir = args[++i];
+    } else {
+      console.error(`Unknown argument "${args[i]}"`);
+      console.error("Usage: npm run rules:draft [-- --doc <handbook name>] [--out <dir>]");
+      process.exit(1);
+    }
+  }
+
+  return {
+    doc: doc?.replace(/\.pdf$/i, ""),
+    outDir: outDir
+      ? path.resolve(PROJECT_ROOT, outDir)
+      : path.join(DEFAULT_OUT_DIR, new Date().toISOString().slice(0, 10)),
+  };
+}
+
+/**
+ * Refuse any output location that could replace the live pack or its overlays
+ */
+function assertSafeOutDir(outDir: string): void {
+  const relative = path.relative(RULES_DIR, outDir);
+  if (relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative))) {
+    throw new Error(`Output directory ${path.relative(PROJECT_ROOT, outDir)} is inside src/rules; drafts are written elsewhere and applied by hand`);
+  }
+}
+
+/**
+ * Every handbook page retrieval scores for any speed bucket, deduplicated by chunk ID
+ */
+async function collectHandbookChunks(doc?: string): Promise<RetrievedChunk[]> {
+  const chunks = new Map<string, RetrievedChunk>();
+  for (const speedMph of SPEED_BUCKETS_MPH) {
+    const { handbookChunks } = await retrieveSupport(
+      { roadType: "2_lane_undivided", postedSpeedMph: speedMph, workType: "lane_closure", workLengthFt: 500, isNight: false },
+      { topHandbooks: RETRIEVAL_TOP_HANDBOOKS, topExamples: 0 }
+    );
+    for (const chunk of handbookChunks) {
+      if (doc && chunk.docName !== doc) continue;
+      chunks.set(chunk.id, chunk);
+    }
+  }
+  return [...chunks.values()];
+}
+
+/**
+ * How strongly a page matches a category's retrieval terms (longer terms weigh double)
+ */
+function categoryScore(text: string, category: DraftCategory): number {
+  const lower = text.toLowerCase();
+  return CATEGORY_QUERIES[category].reduce(
+    (score, term) => score + (lower.includes(term.toLowerCase()) ? (term.length > 10 ? 2 : 1) : 0),
+    0
+  );
+}
+
+function isSpeedBucket(speedMph: number): boolean {
+  return speedMph >= 20 && speedMph <= 70 && speedMph % 5 === 0;
+}
+
+/**
+ * Category of a table row: the nearest heading above it that names one,
+ * otherwise the page's best-matching category
+ */
+function classifyRow(lines: string[], index: number, pageCategory: DraftCategory | null): DraftCategory | null {
+  for (let i = index; i >= Math.max(0, index - HEADING_LOOKBACK_LINES); i--) {
+    const lower = lines[i].toLowerCase();
+    if (lower.includes("buffer")) return "buffer";
+    if (lower.includes("taper")) return "taper";
+    if (lower.includes("spacing") || lower.includes("advance warning")) return "spacing";
+  }
+  return pageCategory;
+}
+
+/**
+ * Speed → distance rows on one handbook page
+ */
+function extractCandidates(chunk: RetrievedChunk): TableCandidate[] {
+  const scores = Object.fromEntries(DRAFT_CATEGORIES.map(c => [c, categoryScore(chunk.text, c)])) as Record<DraftCategory, number>;
+  const best = [...DRAFT_CATEGORIES].sort((a, b) => scores[b] - scores[a])[0];
+  const pageCategory = scores[best] > 0 ? best : null;
+  const lines = chunk.text.split("\n");
+  const candidates: TableCandidate[] = [];
+
+  const addCandidate = (lineIndex: number, speedText: string, valueText: string) => {
+    const speedMph = Number(speedText);
+    const valueFt = Number(valueText);
+    const category = classifyRow(lines, lineIndex, pageCategory);
+    if (!category || !isSpeedBucket(speedMph)) return;
+    const [minFt, maxFt] = CATEGORY_TARGETS[category].rangeFt;
+    if (valueFt < minFt || valueFt > maxFt) return;
+    candidates.push({
+      category,
+      speedMph,
+      valueFt,
+      chunkId: chunk.id,
+      docName: chunk.docName,
+      page: chunk.pageNumber,
+      score: scores[category],
+      snippet: lines[lineIndex].trim().slice(0, SNIPPET_CHARS),
+    });
+  };
+
+  lines.forEach((line, index) => {
+    const row = line.match(TABLE_ROW_PATTERN);
+    if (row) {
+      addCandidate(index, row[1], row[2]);
+      return;
+    }
+    for (const match of line.matchAll(INLINE_ROW_PATTERN)) {
+      addCandidate(index, match[1], match[2]);
+    }
+  });
+
+  return candidates;
+}
+
+function readPackPath(pack: TcpRulesPack, dottedPath: string): unknown {
+  return dottedPath.split(".").reduce<unknown>(
+    (node, key) => (typeof node === "object" && node !== null ? (node as Record<string, unknown>)[key] : undefined),
+    pack
+  );
+}
+
+function writePackPath(pack: TcpRulesPack, dottedPath: string, value: unknown): void {
+  const keys = dottedPath.split(".");
+  const parent = keys.slice(0, -1).reduce<Record<string, unknown>>(
+    (node, key) => node[key] as Record<string, unknown>,
+    pack as unknown as Record<string, unknown>
+  );
+  parent[keys[keys.length - 1]] = value;
+}
+
+function toJsonPointer(dottedPath: string): string {
+  return `/${dottedPath.split(".").join("/")}`;
+}
+
+/**
+ * Pick one value per pack field: the value the most rows agree on,
+ * ties broken by page relevance. Speeds without a pack row are skipped.
+ */
+function proposeValues(pack: TcpRulesPack, candidates: TableCandidate[]): { proposals: ProposedValue[]; unmatched: TableCandidate[] } {
+  const groups = new Map<string, TableCandidate[]>();
+  const unmatched: TableCandidate[] = [];
+
+  for (const candidate of candidates) {
+    const row = candidate.category === "taper"
+      ? pack.taper.laneClosure.bySpeedMph[candidate.speedMph]
+      : pack.spacing.bySpeedMph[candidate.speedMph];
+    if (!row) {
+      unmatched.push(candidate);
+      continue;
+    }
+    const key = CATEGORY_TARGETS[candidate.category].packPath(candidate.speedMph);
+    groups.set(key, [...(groups.get(key) ?? []), candidate]);
+  }
+
+  const proposals = [...groups.entries()].map(([packPath, group]) => {
+    const byValue = new Map<number, TableCandidate[]>();
+    for (const candidate of group) {
+      byValue.set(candidate.valueFt, [...(byValue.get(candidate.valueFt) ?? []), candidate]);
+    }
+    const ranked = [...byValue.values()]
+      .map(support => support.sort((a, b) => b.score - a.score))
+      .sort((a, b) => b.length - a.length || b[0].score - a[0].score);
+    const [support, ...others] = ranked;
+    return {
+      category: support[0].category,
+      speedMph: support[0].speedMph,
+      packPath,
+      current: readPackPath(pack, packPath),
+      proposed: support[0],
+      support,
+      conflicts: others.flat(),
+    };
+  });
+
+  return {
+    proposals: proposals.sort((a, b) => a.packPath.localeCompare(b.packPath, undefined, { numeric: true })),
+    unmatched,
+  };
+}
+
+function toCitation(candidate: TableCandidate, fields: string[]): SourceCitation {
+  return {
+    sourcePdf: `${candidate.docName}.pdf`,
+    page: candidate.page,
+    notes: `Draft from rules:draft (${candidate.chunkId}): ${fields.join(", ")}`,
+  };
+}
+
+/**
+ * Patch operations for every proposal that changes the pack. Each changed
+ * table row also gets its `source` replaced so the draft cites the new page.
+ */
+function buildOperations(pack: TcpRulesPack, proposals: ProposedValue[]): PatchOperation[] {
+  const changed = proposals.filter(p => p.current !== p.proposed.valueFt);
+  const operations: PatchOperation[] = changed.map(proposal => ({
+    op: proposal.current === undefined ? "add" : "replace",
+    path: toJsonPointer(proposal.packPath),
+    value: proposal.proposed.valueFt,
+    previous: proposal.current,
+    citation: toCitation(proposal.proposed, [proposal.packPath.split(".").pop()!]),
+    evidence: proposal.support.map(({ chunkId, page, snippet }) => ({ chunkId, page, snippet })),
+  }));
+
+  const rowSources = new Map<string, ProposedValue[]>();
+  for (const proposal of changed) {
+    const sourcePath = proposal.packPath.replace(/\.[^.]+$/, ".source");
+    rowSources.set(sourcePath, [...(rowSources.get(sourcePath) ?? []), proposal]);
+  }
+  for (const [sourcePath, rowProposals] of rowSources) {
+    const lead = rowProposals[0].proposed;
+    operations.push({
+      op: "replace",
+      path: toJsonPointer(sourcePath),
+      value: toCitation(lead, rowProposals.map(p => p.packPath.split(".").pop()!)),
+      previous: readPackPath(pack, sourcePath),
+      citation: toCitation(lead, ["source"]),
+      evidence: rowProposals.map(p => ({ chunkId: p.proposed.chunkId, page: p.proposed.page, snippet: p.proposed.snippet })),
+    });
+  }
+
+  return operations;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(absent)" : JSON.stringify(value);
+}
+
+function formatPage(docName: string, page?: number): string {
+  return `${docName} p.${page ?? "?"}`;
+}
+
+/**
+ * Markdown report: proposed changes with citations, values confirmed,
+ * conflicting rows, rows without a pack speed, and the pages to read by hand
+ */
+function buildReport(
+  patch: DraftPatch,
+  proposals: ProposedValue[],
+  unmatched: TableCandidate[],
+  pageRankings: Record<DraftCategory, RetrievedChunk[]>,
+  lintSummary: string
+): string {
+  const lines: string[] = [
+    "# Rules Pack Draft Report",
+    "",
+    `**Generated**: ${patch.generatedAt}  `,
+    `**Base pack**: ${patch.basePack.file} v${patch.basePack.version} #${patch.basePack.contentHash}  `,
+    `**Handbooks**: ${patch.handbooks.join(", ") || "(none)"}`,
+    "",
+    "> Draft only. Review each change against the cited page, then copy the values you accept into",
+    "> `src/rules/tcpRulesPack.v1.json` by hand and run `npm run rules:lint`.",
+    "> Impact on saved plans: `npm run rules:diff -- src/rules/tcpRulesPack.v1.json <draft dir>/tcpRulesPack.draft.json --inputs plans.json`",
+    "",
+    `Draft pack lint: ${lintSummary}`,
+    "",
+  ];
+
+  for (const category of DRAFT_CATEGORIES) {
+    const categoryProposals = proposals.filter(p => p.category === category);
+    lines.push(`## ${CATEGORY_TARGETS[category].label}`, "");
+
+    if (categoryProposals.length === 0) {
+      lines.push("No table rows found. Check the pages below by hand (tables drawn as graphics are not extracted).", "");
+    } else {
+      lines.push("| Speed | Pack value | Handbook value | Status | Source | Row |", "|---|---|---|---|---|---|");
+      for (const p of categoryProposals) {
+        const status = p.current === p.proposed.valueFt ? "✅ matches" : p.current === undefined ? "➕ add" : "✏️ change";
+        lines.push(
+          `| ${p.speedMph} mph | ${formatValue(p.current)} | ${p.proposed.valueFt} | ${status}${p.conflicts.length > 0 ? " ⚠️" : ""} ` +
+          `| ${formatPage(p.proposed.docName, p.proposed.page)} | \`${p.proposed.snippet.replace(/\|/g, "\\|")}\` |`
+        );
+      }
+      lines.push("");
+
+      const conflicted = categoryProposals.filter(p => p.conflicts.length > 0);
+      if (conflicted.length > 0) {
+        lines.push("Conflicting rows (not proposed):", "");
+        for (const p of conflicted) {
+          for (const c of p.conflicts) {
+            lines.push(`- ${p.speedMph} mph: ${c.valueFt} ft on ${formatPage(c.docName, c.page)} — \`${c.snippet}\``);
+          }
+        }
+        lines.push("");
+      }
+    }
+
+    lines.push("Pages ranked by retrieval for this category:", "");
+    for (const chunk of pageRankings[category]) {
+      lines.push(`- ${formatPage(chunk.docName, chunk.pageNumber)} (${chunk.id}, score ${categoryScore(chunk.text, category)})`);
+    }
+    lines.push("");
+  }
+
+  if (unmatched.length > 0) {
+    lines.push("## Rows for speeds the pack has no row for", "");
+    for (const c of unmatched) {
+      lines.push(`- ${CATEGORY_TARGETS[c.category].label} @ ${c.speedMph} mph: ${c.valueFt} ft on ${formatPage(c.docName, c.page)} — \`${c.snippet}\``);
+    }
+    lines.push("");
+  }
+
+  lines.push(
+    "## Patch",
+    "",
+    patch.operations.length === 0
+      ? "No changes proposed; the draft pack equals the live pack apart from its version."
+      : `${patch.operations.length} operation(s) in \`tcpRulesPack.patch.json\`:`,
+    ""
+  );
+  for (const op of patch.operations) {
+    lines.push(`- \`${op.op} ${op.path}\`: ${formatValue(op.previous)} → ${formatValue(op.value)} (${op.citation.sourcePdf} p.${op.citation.page ?? "?"})`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+async function main() {
+  const { doc, outDir } = parseArgs(process.argv.slice(2));
+  assertSafeOutDir(outDir);
+
+  const livePack = loadPack(LIVE_PACK_FILE);
+  const stamp = composeRulesPack(BASE_JURISDICTION, livePack).stamp;
+
+  const chunks = await collectHandbookChunks(doc);
+  if (chunks.length === 0) {
+    throw new Error(doc ? `No retrieval chunks for handbook "${doc}" (check the name in tcp handbooks/)` : "No handbook chunks retrieved");
+  }
+  console.log(`[RULES_DRAFT] ${chunks.length} handbook page(s) from ${[...new Set(chunks.map(c => c.docName))].join(", ")}`);
+
+  const candidates = chunks.flatMap(extractCandidates);
+  const { proposals, unmatched } = proposeValues(livePack, candidates);
+  const operations = buildOperations(livePack, proposals);
+
+  const draftPack = structuredClone(livePack);
+  for (const op of operations) {
+    writePackPath(draftPack, op.path.slice(1).split("/").join("."), op.value);
+  }
+  draftPack.version = `${livePack.version}-draft`;
+  draftPack.generatedAt = new Date().toISOString();
+
+  const lintIssues = lintRulesPack(draftPack);
+  const lintErrors = lintIssues.filter(i => i.severity === "error").length;
+  const lintSummary = lintErrors > 0
+    ? `❌ ${lintErrors} error(s): ${lintIssues.filter(i => i.severity === "error").map(i => `${i.path}: ${i.message}`).join("; ")}`
+    : `✅ no errors (${lintIssues.length} warning(s))`;
+
+  const patch: DraftPatch = {
+    basePack: { file: path.relative(PROJECT_ROOT, LIVE_PACK_FILE), version: stamp.version, contentHash: stamp.contentHash },
+    generatedAt: draftPack.generatedAt,
+    handbooks: [...new Set(chunks.map(c => `${c.docName}.pdf`))].sort(),
+    operations,
+  };
+  const pageRankings = Object.fromEntries(DRAFT_CATEGORIES.map(category => [
+    category,
+    chunks
+      .filter(chunk => categoryScore(chunk.text, category) > 0)
+      .sort((a, b) => categoryScore(b.text, category) - categoryScore(a.text, category))
+      .slice(0, 5),
+  ])) as Record<DraftCategory, RetrievedChunk[]>;
+
+  fs.mkdirSync(outDir, { recursive: true });
+  const patchFile = path.join(outDir, "tcpRulesPack.patch.json");
+  const draftFile = path.join(outDir, "tcpRulesPack.draft.json");
+  const reportFile = path.join(outDir, "report.md");
+  fs.writeFileSync(patchFile, JSON.stringify(patch, null, 2) + "\n");
+  fs.writeFileSync(draftFile, JSON.stringify(draftPack, null, 2) + "\n");
+  fs.writeFileSync(reportFile, buildReport(patch, proposals, unmatched, pageRankings, lintSummary));
+
+  const confirmed = proposals.filter(p => p.current === p.proposed.valueFt).length;
+  console.log("");
+  console.log(`${candidates.length} table row(s) found: ${confirmed} match the pack, ${proposals.length - confirmed} differ, ${unmatched.length} without a pack speed`);
+  console.log(`Draft pack lint: ${lintSummary}`);
+  console.log(`Wrote ${path.relative(PROJECT_ROOT, patchFile)}`);
+  console.log(`Wrote ${path.relative(PROJECT_ROOT, draftFile)}`);
+  console.log(`Wrote ${path.relative(PROJECT_ROOT, reportFile)}`);
+  console.log("Live pack unchanged; review the report and apply accepted values by hand.");
+}
+
+main().catch((error) => {
+  console.error("❌ Rules pack draft failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,117 @@
+/**
+ * Rules Pack Lint Script
+ * Validates rules pack JSON against the TcpRulesPack schema and checks
+ * speed buckets, sign codes, sign order, validation rule IDs and citations.
+ *
+ * With no arguments, lints the base pack, every jurisdiction overlay in
+ * src/rules/packs/, and each composed jurisdiction pack.
+ *
+ * Usage: npm run rules:lint [-- path/to/pack.json ...]
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import {
+  lintRulesPack,
+  lintRulesPackOverlay,
+  RulesPackLintIssue,
+} from "../src/rules/rulesPackSchema";
+import { JURISDICTION_IDS } from "../src/rules/rulesTypes";
+
+// Configuration
+const PROJECT_ROOT = process.cwd();
+const BASE_PACK_FILE = path.join(PROJECT_ROOT, "src", "rules", "tcpRulesPack.v1.json");
+const OVERLAYS_DIR = path.join(PROJECT_ROOT, "src", "rules", "packs");
+
+/**
+ * Overlay files carry `extends` + `overrides`; everything else is a full pack
+ */
+function isOverlay(candidate: unknown): boolean {
+  return typeof candidate === "object" && candidate !== null && "overrides" in candidate;
+}
+
+/**
+ * Print issues for one pack and return the error count
+ */
+function report(name: string, issues: RulesPackLintIssue[]): number {
+  const errors = issues.filter(i => i.severity === "error");
+  const warnings = issues.filter(i => i.severity === "warning");
+
+  if (issues.length === 0) {
+    console.log(`✅ ${name}`);
+    return 0;
+  }
+
+  console.log(`${errors.length > 0 ? "❌" : "⚠️ "} ${name} (${errors.length} errors, ${warnings.length} warnings)`);
+  for (const issue of issues) {
+    console.log(`   ${issue.severity === "error" ? "error  " : "warning"} ${issue.path}: ${issue.message}`);
+  }
+  return errors.length;
+}
+
+/**
+ * Lint a JSON file on disk (full pack or overlay)
+ */
+function lintFile(filePath: string): number {
+  const name = path.relative(PROJECT_ROOT, filePath);
+  let candidate: unknown;
+  try {
+    candidate = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return report(name, [{ severity: "error", path: "(file)", message: `Cannot read JSON: ${message}` }]);
+  }
+  return report(name, isOverlay(candidate) ? lintRulesPackOverlay(candidate) : lintRulesPack(candidate));
+}
+
+/**
+ * Lint each composed jurisdiction pack (base + overlays merged).
+ * Only errors are reported; warnings would repeat the base pack's.
+ */
+async function lintComposedPacks(): Promise<number> {
+  let errorCount = 0;
+  try {
+    const { getRulesPack } = await import("../src/rules/rulesPackRegistry");
+    for (const id of JURISDICTION_IDS) {
+      const composed = getRulesPack(id);
+      const errors = lintRulesPack(composed.pack).filter(i => i.severity === "error");
+      errorCount += report(`composed:${composed.layers.join(">")}`, errors);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    errorCount += report("composed packs", [{ severity: "error", path: "(registry)", message }]);
+  }
+  return errorCount;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  let errorCount = 0;
+
+  if (args.length > 0) {
+    for (const arg of args) {
+      errorCount += lintFile(path.resolve(PROJECT_ROOT, arg));
+    }
+  } else {
+    errorCount += lintFile(BASE_PACK_FILE);
+    const overlayFiles = fs.readdirSync(OVERLAYS_DIR)
+      .filter(f => f.endsWith(".json"))
+      .sort();
+    for (const file of overlayFiles) {
+      errorCount += lintFile(path.join(OVERLAYS_DIR, file));
+    }
+    errorCount += await lintComposedPacks();
+  }
+
+  console.log("");
+  if (errorCount > 0) {
+    console.error(`❌ Rules pack lint failed with ${errorCount} error(s)`);
+    process.exit(1);
+  }
+  console.log("✅ Rules pack lint passed");
+}
+
+main().catch((error) => {
+  console.error("❌ Rules pack lint crashed:", error);
+  process.exit(1);
+});
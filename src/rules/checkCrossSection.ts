@@ -0,0 +1,223 @@
+/**
+ * Road Cross-Section Checks
+ *
+ * Works out what a closure leaves open from the road's cross-section
+ * (lanes per direction, lane/shoulder widths, bike lane, parking, median,
+ * work area width): open lanes and width, the narrowest open lane and the
+ * lateral buffer. Those widths are checked against MIN_LANE_WIDTH,
+ * FIRE_APPARATUS_WIDTH and LATERAL_BUFFER by validateLayoutCompliance; the
+ * PARKING_CLEARANCE rules size the parking removed in front of each sign.
+ *
+ * Also supplies W (the width of the closed lane, or of the shoulder / bike
+ * lane when that is what is closed) and the lateral offset from the
+ * centerline at which advance signs are set. W only enters the MUTCD taper
+ * formula, which the resolver falls back to when the pack's taper table has
+ * no row for the speed; table lengths are used as written.
+ */
+
+import { JurisdictionId, SourceCitation } from "./rulesTypes";
+import { getRulesPack, selectJurisdiction } from "./rulesPackRegistry";
+import type { OperationType } from "./resolveTcpRules";
+import { ComplianceJobInput, LATERAL_BUFFER_FT } from "./validateLayoutCompliance";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CrossSection {
+  /** Travel lanes in each direction */
+  lanesPerDirection: number;
+  laneWidthFt: number;
+  /** Paved shoulder on the work side (0 = curb at the lane edge) */
+  shoulderWidthFt: number;
+  /** Bike lane on the work side (0 / absent = none) */
+  bikeLaneWidthFt?: number;
+  /** Parking lane on the work side (0 / absent = none) */
+  parkingLaneWidthFt?: number;
+  /** Median width (0 / absent = undivided; traffic can use the opposing lanes) */
+  medianWidthFt?: number;
+  /** Width the work area takes inside the closed lane, shoulder or bike lane (absent = not known; shoulder work is assumed off the shoulder) */
+  workAreaWidthFt?: number;
+}
+
+export interface CrossSectionCheckInput {
+  crossSection: CrossSection;
+  operation: OperationType;
+  speedMph: number;
+  /** Advance signs that need parking removed in front of them */
+  advanceSignCount: number;
+  /** Explicit rules pack jurisdiction (otherwise selected from `location`) */
+  jurisdiction?: JurisdictionId;
+  location?: { lng: number; lat: number };
+}
+
+export interface CrossSectionCheck {
+  /** Lateral offset W for the taper formula fallback: closed lane, shoulder or bike lane width */
+  taperWidthFt: number;
+  /** Lanes still open to traffic past the work (both directions on undivided roads) */
+  openLanes: number;
+  /** Open lanes plus the far shoulder on undivided roads (what an emergency vehicle can use) */
+  openWidthFt: number;
+  /** Narrowest open lane after any encroachment by the work area */
+  narrowestLaneFt: number;
+  /** Space between traffic and the work area on the work side (null when the work area width is not known) */
+  lateralBufferFt: number | null;
+  /** Distance the channelizing devices sit into the adjacent travel lane */
+  laneEncroachmentFt: number;
+  /** Lateral offset of advance signs from the road centerline */
+  signOffsetFt: number;
+  /** Parking to remove in front of each advance sign (null when there is no parking lane) */
+  parkingRemoval: { perSignFt: number; totalFt: number; source: SourceCitation } | null;
+  /** Widths for the MIN_LANE_WIDTH, FIRE_APPARATUS_WIDTH and LATERAL_BUFFER checks (empty on a full closure) */
+  compliance: Pick<ComplianceJobInput, "openLaneWidthFt" | "narrowestLaneFt" | "lateralBufferFt">;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Parking clearance - kept in sync with the PARKING_CLEARANCE constraint descriptions
+const PARKING_CLEARANCE_LOW_SPEED_FT = 20; // ≤30 mph
+const PARKING_CLEARANCE_HIGH_SPEED_FT = 40; // ≥35 mph (used above 30 mph)
+const PARKING_CLEARANCE_LOW_SPEED_MAX_MPH = 30;
+
+// Portable sign stands sit this far outside the shoulder edge
+const SIGN_EDGE_CLEARANCE_FT = 2;
+
+// Operations that take one travel lane; shoulder work and lane shifts keep every lane
+const ONE_LANE_OPERATIONS: OperationType[] = ["lane_closure", "flagging", "mobile"];
+
+const FALLBACK_SOURCE: SourceCitation = {
+  sourcePdf: "2025-TTCM_portland.pdf",
+  page: "31",
+  sectionTitle: "4.1.4 Lane Requirements",
+};
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Lateral offset W used by the taper formulas for an operation
+ */
+export function getTaperWidthFt(crossSection: CrossSection, operation: OperationType): number {
+  if (operation === "bike_lane_closure" && (crossSection.bikeLaneWidthFt ?? 0) > 0) {
+    return crossSection.bikeLaneWidthFt!;
+  }
+  return operation === "shoulder_work" && crossSection.shoulderWidthFt > 0
+    ? crossSection.shoulderWidthFt
+    : crossSection.laneWidthFt;
+}
+
+/**
+ * Width of the closed space the work area and its buffer share: the shoulder,
+ * the bike lane or the closed travel lane. Null when the operation closes
+ * no roadway space beside open traffic (full, sidewalk closures and lane shifts).
+ */
+function getWorkSideWidthFt(crossSection: CrossSection, operation: OperationType): number | null {
+  switch (operation) {
+    case "shoulder_work":
+      return crossSection.shoulderWidthFt;
+    case "bike_lane_closure":
+    case "lane_closure":
+    case "flagging":
+    case "mobile":
+      return getTaperWidthFt(crossSection, operation);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Advance sign offset from the centerline: past the travel lanes and bike lane,
+ * then in the (cleared) parking lane or just outside the shoulder.
+ */
+function getSignOffsetFt(crossSection: CrossSection): number {
+  const { lanesPerDirection, laneWidthFt, shoulderWidthFt } = crossSection;
+  const edgeOfTravelFt = (crossSection.medianWidthFt ?? 0) / 2
+    + lanesPerDirection * laneWidthFt
+    + (crossSection.bikeLaneWidthFt ?? 0);
+  const parkingFt = crossSection.parkingLaneWidthFt ?? 0;
+  return parkingFt > 0
+    ? edgeOfTravelFt + parkingFt / 2
+    : edgeOfTravelFt + shoulderWidthFt + SIGN_EDGE_CLEARANCE_FT;
+}
+
+// =============================================================================
+// MAIN CHECK
+// =============================================================================
+
+/**
+ * Check a closure against the road cross-section.
+ *
+ * @param input - Cross-section, operation, speed and the number of advance signs
+ * @returns Widths left open, taper W, sign offset and parking removal
+ */
+export function checkCrossSection(input: CrossSectionCheckInput): CrossSectionCheck {
+  const { crossSection, operation, speedMph } = input;
+  const { lanesPerDirection, laneWidthFt, shoulderWidthFt } = crossSection;
+  const divided = (crossSection.medianWidthFt ?? 0) > 0;
+
+  const jurisdiction = selectJurisdiction({ jurisdiction: input.jurisdiction, location: input.location });
+  const constraints = getRulesPack(jurisdiction).pack.constraints;
+  const constraint = (id: string) => constraints.find(c => c.id === id);
+
+  // Divided roads only have their own direction's lanes to work with
+  const availableLanes = divided ? lanesPerDirection : lanesPerDirection * 2;
+  const closedLanes = operation === "full_closure"
+    ? availableLanes
+    : ONE_LANE_OPERATIONS.includes(operation) ? 1 : 0;
+  const openLanes = Math.max(0, availableLanes - closedLanes);
+
+  // Buffer = closed space beside traffic minus the work area; shoulder work without a
+  // work area width is taken to sit off the shoulder. Short of the buffer, devices move into the lane.
+  const workSideWidthFt = getWorkSideWidthFt(crossSection, operation);
+  const workAreaWidthFt = crossSection.workAreaWidthFt ?? (operation === "shoulder_work" ? 0 : undefined);
+  const lateralBufferFt = workSideWidthFt !== null && workAreaWidthFt !== undefined
+    ? Math.max(0, workSideWidthFt - workAreaWidthFt)
+    : null;
+  const laneEncroachmentFt = lateralBufferFt !== null ? Math.max(0, LATERAL_BUFFER_FT - lateralBufferFt) : 0;
+  const narrowestLaneFt = laneWidthFt - laneEncroachmentFt;
+  const openWidthFt = openLanes > 0
+    ? openLanes * laneWidthFt - laneEncroachmentFt + (divided ? 0 : shoulderWidthFt)
+    : 0;
+
+  // Nothing is left open to check on a full closure
+  const compliance: CrossSectionCheck["compliance"] = operation === "full_closure"
+    ? {}
+    : {
+        openLaneWidthFt: openWidthFt,
+        narrowestLaneFt,
+        ...(lateralBufferFt !== null ? { lateralBufferFt } : {}),
+      };
+
+  let parkingRemoval: CrossSectionCheck["parkingRemoval"] = null;
+  if ((crossSection.parkingLaneWidthFt ?? 0) > 0 && input.advanceSignCount > 0) {
+    const lowSpeed = speedMph <= PARKING_CLEARANCE_LOW_SPEED_MAX_MPH;
+    const perSignFt = lowSpeed ? PARKING_CLEARANCE_LOW_SPEED_FT : PARKING_CLEARANCE_HIGH_SPEED_FT;
+    const rule = constraint(lowSpeed ? "PARKING_CLEARANCE_30MPH" : "PARKING_CLEARANCE_35MPH");
+    parkingRemoval = {
+      perSignFt,
+      totalFt: perSignFt * input.advanceSignCount,
+      source: rule?.source ?? FALLBACK_SOURCE,
+    };
+  }
+
+  console.log(
+    `[CROSS_SECTION] lanes=${lanesPerDirection}x${laneWidthFt}ft shoulder=${shoulderWidthFt}ft ` +
+    `open=${openLanes} lanes/${openWidthFt}ft narrowest=${narrowestLaneFt}ft ` +
+    `buffer=${lateralBufferFt ?? "unknown"}ft`
+  );
+
+  return {
+    taperWidthFt: getTaperWidthFt(crossSection, operation),
+    openLanes,
+    openWidthFt,
+    narrowestLaneFt,
+    lateralBufferFt,
+    laneEncroachmentFt,
+    signOffsetFt: getSignOffsetFt(crossSection),
+    parkingRemoval,
+    compliance,
+  };
+}
@@ -0,0 +1,254 @@
+/**
+ * Flagger Queue & Delay Estimator
+ *
+ * Estimates queue length and delay for one-lane two-way flagging from
+ * traffic volume, work length and speed. The flaggers are modeled as a
+ * two-phase signal (Webster cycle): each direction waits while the other
+ * direction discharges and the one-lane section clears.
+ *
+ * Results are checked against MAX_FLAGGER_DELAY and against the advance
+ * warning area: when the back of the queue would reach past the first
+ * advance sign, the signs need to move upstream (ROAD_SEGMENT special
+ * conditions: additional signing "if extended queues develop").
+ */
+
+import { JurisdictionId, SourceCitation } from "./rulesTypes";
+import { getRulesPack, selectJurisdiction } from "./rulesPackRegistry";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TrafficVolumeInput {
+  /** Two-way hourly volume during the work period (veh/h); wins over ADT */
+  hourlyVolumeVph?: number;
+  /** Two-way average daily traffic, converted with the design hour factor */
+  adt?: number;
+  /** Share of traffic in the heavier direction, 0.5–1 (default = 0.5) */
+  directionalSplit?: number;
+}
+
+export interface FlaggerQueueInput extends TrafficVolumeInput {
+  workLengthFt: number;
+  postedSpeedMph: number;
+  /** Distance from the work zone to the first (furthest upstream) advance sign */
+  firstAdvanceSignFt: number;
+  /** Advance sign spacing; the first sign should sit this far beyond the back of the queue */
+  signSpacingFt: number;
+  /** Explicit rules pack jurisdiction (otherwise selected from `location`) */
+  jurisdiction?: JurisdictionId;
+  location?: { lng: number; lat: number };
+}
+
+export interface DirectionalQueue {
+  direction: "peak" | "off_peak";
+  volumeVph: number;
+  /** Time this direction is released per cycle */
+  greenS: number;
+  /** Time this direction is held per cycle */
+  redS: number;
+  /** Vehicles stopped at the end of the red (plus any overflow after one hour) */
+  queueVehicles: number;
+  queueLengthFt: number;
+  averageDelayS: number;
+  /** Delay for a vehicle arriving at the start of the red */
+  maxDelayS: number;
+}
+
+export interface FlaggerQueueEstimate {
+  twoWayVolumeVph: number;
+  volumeSource: "hourly" | "adt";
+  cycleLengthS: number;
+  /** Time for the last released vehicle to clear the one-lane section */
+  clearanceTimeS: number;
+  directions: DirectionalQueue[];
+  /** Demand exceeds one-lane capacity: queues keep growing during the work period */
+  oversaturated: boolean;
+  maxQueueLengthFt: number;
+  maxDelayS: number;
+  exceedsMaxDelay: boolean;
+  /** The back of the queue reaches past the first advance sign */
+  queuePastFirstSign: boolean;
+  /** Distance to push the upstream advance signs back (0 when the queue stays inside the AWA) */
+  awaExtensionFt: number;
+  warnings: string[];
+  source: SourceCitation;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Design hour volume as a share of ADT (typical K-factor)
+const DESIGN_HOUR_FACTOR = 0.1;
+
+const DEFAULT_DIRECTIONAL_SPLIT = 0.5;
+
+// Queue discharge rate through a flagger station (2 s headways)
+const SATURATION_FLOW_VPH = 1800;
+
+// Speed released traffic travels through the one-lane section
+const FLAGGED_TRAVEL_SPEED_MPH = 25;
+
+// Start-up lost time each time a direction is released
+const STARTUP_LOST_TIME_S = 2;
+
+// Flaggers rarely run cycles shorter or longer than this
+const MIN_CYCLE_S = 60;
+const MAX_CYCLE_S = 600;
+
+// Above this critical flow ratio the Webster cycle blows up; use the longest cycle
+const MAX_FLOW_RATIO = 0.95;
+
+// Overflow queues are reported after one hour of oversaturated operation
+const ANALYSIS_PERIOD_H = 1;
+
+// Storage length per queued vehicle (car length plus gap)
+const VEHICLE_STORAGE_FT = 25;
+
+// AWA extensions are rounded up to this increment
+const AWA_EXTENSION_ROUNDING_FT = 50;
+
+const FT_PER_S_PER_MPH = 5280 / 3600;
+
+const MAX_FLAGGER_DELAY_ID = "MAX_FLAGGER_DELAY";
+
+// Delay limit - kept in sync with MAX_FLAGGER_DELAY description (5 minutes)
+const MAX_FLAGGER_DELAY_S = 300;
+
+const FALLBACK_SOURCE: SourceCitation = {
+  sourcePdf: "2025-TTCM_portland.pdf",
+  page: "26",
+  sectionTitle: "3.3 Flagging Principles",
+};
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Two-way hourly volume from the job inputs, or null when none was given
+ */
+function getTwoWayVolume(input: TrafficVolumeInput): { volumeVph: number; source: "hourly" | "adt" } | null {
+  if (input.hourlyVolumeVph && input.hourlyVolumeVph > 0) {
+    return { volumeVph: input.hourlyVolumeVph, source: "hourly" };
+  }
+  if (input.adt && input.adt > 0) {
+    return { volumeVph: input.adt * DESIGN_HOUR_FACTOR, source: "adt" };
+  }
+  return null;
+}
+
+function roundUp(value: number, increment: number): number {
+  return Math.ceil(value / increment) * increment;
+}
+
+// =============================================================================
+// MAIN ESTIMATOR
+// =============================================================================
+
+/**
+ * Estimate queue length and delay for a one-lane two-way flagging operation.
+ *
+ * @param input - Traffic volume, work length, speed and the advance sign layout
+ * @returns The estimate, or null when no volume or ADT was provided
+ */
+export function estimateFlaggerQueue(input: FlaggerQueueInput): FlaggerQueueEstimate | null {
+  const volume = getTwoWayVolume(input);
+  if (!volume) return null;
+
+  const split = Math.min(1, Math.max(0.5, input.directionalSplit ?? DEFAULT_DIRECTIONAL_SPLIT));
+  const travelSpeedMph = Math.min(input.postedSpeedMph, FLAGGED_TRAVEL_SPEED_MPH);
+  const clearanceTimeS = input.workLengthFt / (travelSpeedMph * FT_PER_S_PER_MPH);
+
+  // Lost time per cycle: each release loses start-up time plus the clearance of the one-lane section
+  const lostTimeS = 2 * (clearanceTimeS + STARTUP_LOST_TIME_S);
+  const volumes = [volume.volumeVph * split, volume.volumeVph * (1 - split)];
+  const flowRatios = volumes.map(v => v / SATURATION_FLOW_VPH);
+  const criticalRatio = flowRatios[0] + flowRatios[1];
+
+  const websterCycleS = criticalRatio < MAX_FLOW_RATIO
+    ? (1.5 * lostTimeS + 5) / (1 - criticalRatio)
+    : MAX_CYCLE_S;
+  const cycleLengthS = Math.min(MAX_CYCLE_S, Math.max(MIN_CYCLE_S, websterCycleS, lostTimeS + 2 * STARTUP_LOST_TIME_S));
+  const effectiveGreenS = cycleLengthS - lostTimeS;
+  let oversaturated = false;
+
+  const directions: DirectionalQueue[] = volumes.map((volumeVph, i) => {
+    const greenS = criticalRatio > 0 ? effectiveGreenS * (flowRatios[i] / criticalRatio) : effectiveGreenS / 2;
+    const redS = cycleLengthS - greenS;
+    const capacityVph = SATURATION_FLOW_VPH * (greenS / cycleLengthS);
+    const overflowVehicles = Math.max(0, volumeVph - capacityVph) * ANALYSIS_PERIOD_H;
+    if (overflowVehicles > 0) oversaturated = true;
+    const queueVehicles = volumeVph * redS / 3600 + overflowVehicles;
+
+    // Webster uniform delay; overflow adds the time to discharge the vehicles ahead
+    const flowRatio = Math.min(MAX_FLOW_RATIO, flowRatios[i]);
+    const uniformDelayS = (redS * redS) / (2 * cycleLengthS * (1 - flowRatio));
+    const overflowDelayS = capacityVph > 0 ? (overflowVehicles / capacityVph) * 3600 : 0;
+
+    return {
+      direction: i === 0 ? "peak" : "off_peak",
+      volumeVph: Math.round(volumeVph),
+      greenS: Math.round(greenS),
+      redS: Math.round(redS),
+      queueVehicles: Math.ceil(queueVehicles),
+      queueLengthFt: Math.ceil(queueVehicles) * VEHICLE_STORAGE_FT,
+      averageDelayS: Math.round(uniformDelayS + overflowDelayS / 2),
+      maxDelayS: Math.round(redS + clearanceTimeS + overflowDelayS),
+    };
+  });
+
+  const maxQueueLengthFt = Math.max(...directions.map(d => d.queueLengthFt));
+  const maxDelayS = Math.max(...directions.map(d => d.maxDelayS));
+  const exceedsMaxDelay = maxDelayS > MAX_FLAGGER_DELAY_S;
+  const queuePastFirstSign = maxQueueLengthFt > input.firstAdvanceSignFt;
+
+  // Move the first sign one sign spacing beyond the back of the queue
+  const shortfallFt = maxQueueLengthFt + input.signSpacingFt - input.firstAdvanceSignFt;
+  const awaExtensionFt = queuePastFirstSign ? roundUp(shortfallFt, AWA_EXTENSION_ROUNDING_FT) : 0;
+
+  const warnings: string[] = [];
+  if (oversaturated) {
+    warnings.push(
+      `Volume of ${Math.round(volume.volumeVph)} veh/h exceeds one-lane flagging capacity; ` +
+      `queues keep growing (${maxQueueLengthFt} ft after ${ANALYSIS_PERIOD_H} h). Consider off-peak work hours or a detour.`
+    );
+  }
+  if (exceedsMaxDelay) {
+    warnings.push(
+      `Estimated maximum delay of ${Math.round(maxDelayS / 60 * 10) / 10} min exceeds the ${MAX_FLAGGER_DELAY_S / 60} min flagger delay limit.`
+    );
+  }
+  if (queuePastFirstSign) {
+    warnings.push(
+      `Estimated queue of ${maxQueueLengthFt} ft reaches past the first advance sign at ${input.firstAdvanceSignFt} ft; ` +
+      `extend the advance warning area by ${awaExtensionFt} ft.`
+    );
+  }
+
+  const jurisdiction = selectJurisdiction({ jurisdiction: input.jurisdiction, location: input.location });
+  const constraint = getRulesPack(jurisdiction).pack.constraints.find(c => c.id === MAX_FLAGGER_DELAY_ID);
+
+  console.log(
+    `[FLAGGER_QUEUE] volume=${Math.round(volume.volumeVph)}vph (${volume.source}) split=${split} ` +
+    `cycle=${Math.round(cycleLengthS)}s queue=${maxQueueLengthFt}ft maxDelay=${maxDelayS}s ` +
+    `oversaturated=${oversaturated} awaExtension=${awaExtensionFt}ft`
+  );
+
+  return {
+    twoWayVolumeVph: Math.round(volume.volumeVph),
+    volumeSource: volume.source,
+    cycleLengthS: Math.round(cycleLengthS),
+    clearanceTimeS: Math.round(clearanceTimeS),
+    directions,
+    oversaturated,
+    maxQueueLengthFt,
+    maxDelayS,
+    exceedsMaxDelay,
+    queuePastFirstSign,
+    awaExtensionFt,
+    warnings,
+    source: constraint?.source ?? FALLBACK_SOURCE,
+  };
+}
@@ -8,8 +8,26 @@
  * The Map Mockup should use these values instead of heuristic/AI guessing.
  */
 
-import rulesPack from "./tcpRulesPack.v1.json";
-import { SourceCitation, SignCode } from "./rulesTypes";
+import {
+  SourceCitation,
+  SignCode,
+  SignDefinition,
+  JurisdictionId,
+  AdvanceSignDistances,
+  TaperRule,
+  TcpRulesPack,
+  RulesPackStamp,
+  SIGN_CODES,
+} from "./rulesTypes";
+import {
+  LayeredRulesPack,
+  BASE_JURISDICTION,
+  getRulesPack,
+  selectJurisdiction,
+  getValueLayer,
+  getLayerCitation,
+  getJurisdictionLabel,
+} from "./rulesPackRegistry";
 
 // =============================================================================
 // TYPES
@@ -18,8 +36,14 @@ import { SourceCitation, SignCode } from "./rulesTypes";
 export interface ResolvedTcpRules {
   /** Distance between warning signs in feet */
   signSpacingFt: number;
-  /** Length of the taper in feet */
+  /** MUTCD A/B/C advance sign distances (all equal to signSpacingFt below expressway speeds) */
+  advanceSignDistancesFt: AdvanceSignDistances;
+  /** Advance warning signs nearest the transition first (A, B, C, then D, E... upstream); closure signs are not included */
+  advanceSignSequence: ResolvedAdvanceSign[];
+  /** Length of the governing (upstream) taper in `tapers` in feet; 0 when the operation has none */
   taperLengthFt: number;
+  /** Every taper this operation needs, upstream first */
+  tapers: ResolvedTaper[];
   /** Spacing between cones in feet */
   coneSpacingFt: number;
   /** Required signs for this operation (upstream → downstream order) */
@@ -32,23 +56,342 @@ export interface ResolvedTcpRules {
   flaggerCount: number;
   /** Where flaggers should be positioned */
   flaggerPositions: Array<{ location: string; purpose: string }>;
+  /** Whether an arrow board must be placed for this operation */
+  arrowBoardRequired: boolean;
+  /** Vehicle train and leapfrogging signs for mobile operations (null otherwise) */
+  mobile: ResolvedMobileOperation | null;
+  /** Closure and detour signing for full road closures (null otherwise) */
+  detour: ResolvedDetourSigning | null;
+  /** Lighting and visibility requirements for night work (null by day) */
+  night: ResolvedNightOperations | null;
+  /** Sidewalk closure signing, channelizing devices and accessible route (null otherwise) */
+  pedestrian: ResolvedPedestrianClosure | null;
+  /** Bike lane closure treatment and bike signing (null otherwise) */
+  bike: ResolvedBikeLaneClosure | null;
+  /** Advance signing for each intersection approach at its own speed (null unless approaches are given) */
+  intersection: ResolvedIntersection | null;
+  /** Temporary regulatory speed zone and its signs (null without a reduced work zone speed) */
+  speedReduction: ResolvedSpeedReduction | null;
+  /** Sign fabrication schedule: one entry per required sign with size and mounting */
+  signSchedule: ResolvedSignScheduleEntry[];
+  /** Speed bucket the table values were read from */
+  speedBucketMph: number;
+  /** Set when the posted speed is outside the pack's speed table (values come from the nearest bucket) */
+  speedOutOfRange: SpeedOutOfRange | null;
+  /** Jurisdiction whose rules pack was used */
+  jurisdiction: JurisdictionId;
+  /** Pack ID, version and content hash the values were resolved from */
+  rulesPack: RulesPackStamp;
   /** Citations for each resolved value */
   citations: Record<string, {
     sourcePdf: string;
     page?: string | number;
     sectionTitle?: string;
     notes?: string;
+    /** Composed pack the value was resolved from */
+    packId: JurisdictionId;
+    /** Layer that supplied the value ("resolver" = built-in default or formula) */
+    layer: CitationLayer;
   }>;
+  /** How each cited value was derived (same keys as `citations`) */
+  derivations: Record<string, RuleDerivation>;
 }
 
-export type OperationType = "lane_closure" | "lane_shift" | "flagging" | "shoulder_work" | "full_closure";
+/**
+ * Step-by-step explanation of a resolved value, for "why this value" views
+ */
+export interface RuleDerivation {
+  /** Final value as shown to the planner, e.g. "200 ft" */
+  result: string;
+  /** table = read from the rules pack; formula = computed by the resolver; default = resolver fallback */
+  method: "table" | "formula" | "default";
+  inputSpeedMph: number;
+  /** Speed table row the job was resolved against */
+  bucketMph: number;
+  speedOutOfRange: boolean;
+  /** Pack key path read for table values */
+  tablePath?: string;
+  /** Formula with the job's numbers filled in */
+  formula?: string;
+  layer: CitationLayer;
+  /** Jurisdiction layers that replaced the base pack value */
+  overrides: Array<{ layer: JurisdictionId; path: string; baseValue: string; value: string }>;
+  /** Plain-language steps, input first and result last */
+  steps: string[];
+}
+
+export type CitationLayer = JurisdictionId | "resolver";
+
+/** MUTCD taper types (Table 6C-3) */
+export type TaperType = "merging" | "shifting" | "shoulder" | "downstream" | "one_lane_two_way";
+
+export interface ResolvedAdvanceSign {
+  label: string;
+  /** Gap from the previous sign (A: from the transition) */
+  distanceFt: number;
+  /** Sign at this position */
+  signCode: string;
+}
+
+export interface ResolvedTaper {
+  type: TaperType;
+  /** Where the taper sits relative to the work area */
+  position: "upstream" | "downstream";
+  lengthFt: number;
+  /** How the length was derived, e.g. "L", "L/2", "50–100 ft" */
+  lengthRule: string;
+  /** Channelizing devices needed to form the taper */
+  deviceCount: number;
+  deviceSpacingFt: number;
+  citation: ResolvedTcpRules["citations"][string];
+}
+
+export interface ResolvedMobileVehicle {
+  role: "work" | "shadow" | "advance_warning";
+  /** Distance upstream of the work vehicle */
+  offsetFt: number;
+  /** Truck-mounted attenuator */
+  tma: boolean;
+  /** Vehicle-mounted arrow board */
+  arrowBoard: boolean;
+}
+
+export interface ResolvedMobileOperation {
+  /** Vehicles from the work vehicle upstream */
+  vehicles: ResolvedMobileVehicle[];
+  /** Distance the operation advances before signs are moved forward */
+  leapfrogIntervalFt: number;
+  /** Signs carried forward (leapfrogged) as the operation moves */
+  leapfrogSigns: string[];
+}
+
+/** Direction traffic is sent at a detour decision point */
+export type DetourTurn = "left" | "right" | "ahead";
+
+export interface ResolvedSignRef {
+  code: SignCode;
+  mutcdCode: string;
+}
+
+export interface ResolvedDetourSigning {
+  /** Sign mounted on the barricades at each closure point */
+  closureSign: ResolvedSignRef;
+  /** Detour marker posted at each decision point along the route */
+  detourSign: ResolvedSignRef;
+  /** Arrow plaque paired with the detour marker, by turn direction */
+  arrowMutcdCodes: Record<DetourTurn, string>;
+  /** Barricade spanning the closed roadway */
+  barricadeType: "Type III";
+}
+
+export interface ResolvedNightOperations {
+  /** General night requirements from the pack, for the plan checklist */
+  requirements: string[];
+  reflectivityRequired: boolean;
+  /** Devices and worker apparel should be visible from this distance */
+  minVisibilityDistanceFt: number;
+  minConeHeightIn: number;
+  /** Light towers at each flagger station (0 when no flaggers are used) */
+  flaggerStationLightTowers: number;
+  /** Light tower spacing along the work space */
+  lightTowerSpacingFt: number;
+  /** Warning light on each barricade (null when the plan has no barricades) */
+  barricadeWarningLight: string | null;
+}
+
+export interface ResolvedPedestrianClosure {
+  /** Sign mounted on the channelizing devices across the closed sidewalk */
+  closureSign: ResolvedSignRef;
+  /** Sign at the crosswalk on each side sending pedestrians across */
+  useOtherSideSign: ResolvedSignRef;
+  channelizingDevice: {
+    deviceType: string;
+    minHeightIn: number;
+    maxBottomEdgeHeightIn: number;
+  };
+  /** Cones may not channelize pedestrians (CONES_NOT_FOR_PEDESTRIANS) */
+  conesProhibited: boolean;
+  /** Temporary accessible route requirements */
+  route: {
+    minWidthFt: number;
+    passingSpaceWidthFt: number;
+    passingSpaceIntervalFt: number;
+    maxRunningSlopePct: number;
+    maxCrossSlopePct: number;
+  };
+}
+
+/**
+ * How cyclists get past a closed bike lane: merge into a shared travel lane
+ * at low speed, otherwise a separate facility (temporary bike lane, shared
+ * path or bike detour) because bikes may not merge with autos.
+ */
+export type BikeLaneTreatment = "shared_lane" | "separate_facility";
+
+export interface ResolvedBikeLaneClosure {
+  treatment: BikeLaneTreatment;
+  /** Posted in advance of the work zone, facing cyclists */
+  closedAheadSign: ResolvedSignRef;
+  advanceSignDistanceFt: number;
+  /** At the bike lane taper (shared lane only) */
+  mergeSign: ResolvedSignRef | null;
+  /** Along the shared travel lane past the closure (shared lane only) */
+  fullLaneSign: ResolvedSignRef | null;
+  /** Highest operating speed at which bikes may merge with autos */
+  mergeMaxSpeedMph: number;
+  minTemporaryBikeLaneWidthFt: number;
+  minSharedPathWidthFt: number;
+  /** Signs and supports may not narrow the bike lane or sidewalk below this (SIGN_CLEAR_OF_BIKE_LANE) */
+  minClearWidthFt: number;
+}
+
+/** One leg of an intersection, as entered by the planner */
+export interface IntersectionApproach {
+  /** Leg label, e.g. "SE Rupert Dr (north leg)"; defaults to the compass leg */
+  name?: string;
+  /** Compass bearing of the leg from the intersection center (0 = north leg, 90 = east leg) */
+  bearingDeg: number;
+  /** Posted speed on this leg */
+  speedMph: number;
+  /** Lanes approaching the intersection on this leg */
+  lanes: number;
+}
+
+export interface ResolvedIntersectionApproach {
+  name: string;
+  bearingDeg: number;
+  speedMph: number;
+  lanes: number;
+  speedBucketMph: number;
+  speedOutOfRange: SpeedOutOfRange | null;
+  signSpacingFt: number;
+  advanceSignDistancesFt: AdvanceSignDistances;
+  /** Advance signs on this leg, upstream → downstream (INTERSECTION sign order) */
+  requiredSigns: string[];
+  /** Distance from the intersection to each sign in `requiredSigns` */
+  signDistancesFt: number[];
+  /** Distance from the intersection to the first advance sign (at least the configuration minimum) */
+  advanceWarningAreaFt: number;
+  /** One flagger per approach, one per movement (lane) on multilane approaches */
+  flaggerCount: number;
+  /** Signs for this leg only (count = 1 each), sized for its speed */
+  signSchedule: ResolvedSignScheduleEntry[];
+  citations: ResolvedTcpRules["citations"];
+  derivations: Record<string, RuleDerivation>;
+}
+
+export interface ResolvedIntersection {
+  approaches: ResolvedIntersectionApproach[];
+  /** Flaggers across all approaches */
+  flaggerCount: number;
+  /** INTERSECTION configuration notes (flaggers per movement, covering STOP / YIELD signs) */
+  specialConditions: string[];
+}
+
+/**
+ * Temporary regulatory speed zone through the work zone. Advance warning
+ * signs stay at the posted speed; tapers, cone spacing, buffer and drums
+ * are resolved at the work zone speed.
+ */
+export interface ResolvedSpeedReduction {
+  postedSpeedMph: number;
+  workZoneSpeedMph: number;
+  /** Speed table row the activity area values were read from */
+  workZoneSpeedBucketMph: number;
+  workZoneSpeedOutOfRange: SpeedOutOfRange | null;
+  /** Fluorescent orange SPEED REDUCTION sign ahead of the speed limit sign */
+  reductionSign: ResolvedSignRef;
+  /** SPEED LIMIT XX under a WORK ZONE plaque; the speed zone begins here */
+  speedLimitSign: ResolvedSignRef;
+  endSign: ResolvedSignRef;
+  /** Distance upstream of the activity area to each speed zone sign */
+  reductionSignDistanceFt: number;
+  speedLimitSignDistanceFt: number;
+  /** Distance past the downstream end of the work to the end sign */
+  endSignDistanceFt: number;
+  /** Advance warning signs move upstream by this much to make room for the speed zone signs */
+  advanceWarningShiftFt: number;
+  /** Approval that makes the reduced limit enforceable */
+  authority: string;
+  statute: string | null;
+  /** What the speed zone order must state */
+  orderContents: string[];
+  /** Agencies the signed order is sent to */
+  orderRecipients: string[];
+}
+
+/** How a sign is mounted in the field */
+export type SignStandType = "portable_stand" | "barricade_mounted";
+
+export interface ResolvedSignScheduleEntry {
+  code: SignCode;
+  mutcdCode: string;
+  /** Sign legend as fabricated, e.g. "Road Work Ahead" */
+  legend: string;
+  sizeInches: number;
+  /** Signs to pull: one per approach (detour markers are counted per decision point by callers) */
+  count: number;
+  standType: SignStandType;
+  /** Orange flags mounted on the sign for emphasis */
+  flagsRequired: boolean;
+  /** Warning light mounted on the sign or its barricade */
+  lightRequired: boolean;
+  /** Why this size was picked */
+  citation: ResolvedTcpRules["citations"][string];
+}
+
+export interface SpeedOutOfRange {
+  requestedMph: number;
+  /** Lowest and highest speeds in the pack's spacing table */
+  minMph: number;
+  maxMph: number;
+  direction: "below" | "above";
+}
+
+export type OperationType =
+  | "lane_closure"
+  | "lane_shift"
+  | "flagging"
+  | "shoulder_work"
+  | "full_closure"
+  | "mobile"
+  | "sidewalk_closure"
+  | "bike_lane_closure";
 export type TimeOfDay = "day" | "night";
+export type RoadType = "2_lane_undivided" | "multilane_divided" | "intersection";
 
 export interface ResolveTcpRulesInput {
   speedMph: number;
   laneWidthFt?: number; // default = 12
   operation: OperationType;
   timeOfDay: TimeOfDay;
+  /** Road type used for sign sizing (default = 2_lane_undivided) */
+  roadType?: RoadType;
+  /** Intersection legs, each resolved at its own speed (used when roadType is "intersection") */
+  approaches?: IntersectionApproach[];
+  /** Approved temporary speed limit through the work zone (ignored unless below speedMph) */
+  workZoneSpeedMph?: number;
+  /** Explicit jurisdiction; otherwise selected from `location` */
+  jurisdiction?: JurisdictionId;
+  /** Work zone location used for jurisdiction selection */
+  location?: { lng: number; lat: number };
+  /** Pre-composed pack to resolve against instead of the live one (pack impact analysis) */
+  rulesPack?: LayeredRulesPack;
+}
+
+/** A resolved value's citation plus the pack layer it came from */
+interface LayeredSource {
+  source: SourceCitation;
+  layer: CitationLayer;
+  /** Pack key path the value was read from */
+  path?: string;
+  /** Formula used, with numbers filled in */
+  formula?: string;
+}
+
+interface SpeedBucketMatch {
+  bucketMph: number;
+  outOfRange: SpeedOutOfRange | null;
 }
 
 // =============================================================================
@@ -57,24 +400,276 @@ export interface ResolveTcpRulesInput {
 
 const DEFAULT_LANE_WIDTH_FT = 12;
 
-// Speed buckets for lookup - we'll use the closest lower speed
-const SPEED_BUCKETS = [25, 30, 35, 40, 45, 50, 55];
+// Layer tag for values hard-coded in this resolver (formulas, fallbacks, sign sets)
+const RESOLVER_LAYER: CitationLayer = "resolver";
+
+// Downstream and one-lane two-way tapers are 50–100 ft (MUTCD Table 6C-3); we use the maximum
+const SHORT_TAPER_LENGTH_FT = 100;
+const SHORT_TAPER_RULE = "50–100 ft";
+
+// Device spacing in short tapers (MUTCD 6C.08: about 20 ft)
+const SHORT_TAPER_DEVICE_SPACING_FT = 20;
+
+// Taper types per operation, upstream first (full closures are barricaded, not tapered)
+const TAPERS_BY_OPERATION: Record<OperationType, Array<{ type: TaperType; position: ResolvedTaper["position"] }>> = {
+  lane_closure: [
+    { type: "merging", position: "upstream" },
+    { type: "downstream", position: "downstream" },
+  ],
+  lane_shift: [
+    { type: "shifting", position: "upstream" },
+    { type: "downstream", position: "downstream" },
+  ],
+  shoulder_work: [
+    { type: "shoulder", position: "upstream" },
+  ],
+  flagging: [
+    { type: "one_lane_two_way", position: "upstream" },
+    { type: "one_lane_two_way", position: "downstream" },
+  ],
+  full_closure: [],
+  mobile: [], // Vehicles replace tapers (see getMobileOperation)
+  sidewalk_closure: [], // Pedestrian channelizing devices, not vehicle tapers
+  bike_lane_closure: [
+    { type: "shoulder", position: "upstream" }, // Closes the bike lane like a shoulder (W = bike lane width)
+  ],
+};
+
+// Arrow plaques for detour assemblies: M6-1 (90° arrow, turned left or right), M6-3 (straight ahead)
+const DETOUR_ARROW_MUTCD_CODES: Record<DetourTurn, string> = {
+  left: "M6-1",
+  right: "M6-1",
+  ahead: "M6-3",
+};
+
+// Large (48") signs from this speed up, or on multilane divided roads (MUTCD Table 6F-1)
+const LARGE_SIGN_MIN_SPEED_MPH = 45;
+
+// Constraint capping 48" signs to high-speed streets, and the speed it allows them from
+const LARGE_SIGN_CONSTRAINT_ID = "48_INCH_SIGN_HIGH_SPEED_ONLY";
+const LARGE_SIGN_CONSTRAINT_MIN_SPEED_MPH = 35;
+
+// Warning signs get flags by day (and lights at night) from this speed up (MUTCD 6F.03)
+const SIGN_FLAGS_MIN_SPEED_MPH = 45;
+
+// Signs mounted on the closure barricades rather than a portable stand
+const BARRICADE_MOUNTED_SIGNS: SignCode[] = ["ROAD_CLOSED", "SIDEWALK_CLOSED"];
+
+// Operations signed for traffic (or pedestrians) from both ends of the work zone
+const TWO_APPROACH_OPERATIONS: OperationType[] = ["flagging", "full_closure", "sidewalk_closure"];
+
+// Arrow boards on lane closures at or above this speed even when the pack doesn't require one
+const ARROW_BOARD_MIN_SPEED_MPH = 45;
+
+// Night lighting when the pack has no structured lighting rules
+const DEFAULT_FLAGGER_STATION_LIGHT_TOWERS = 1;
+const DEFAULT_LIGHT_TOWER_SPACING_FT = 300;
+const DEFAULT_BARRICADE_WARNING_LIGHT = "Type A low-intensity flashing";
+// MUTCD 6F.63: cones used at night are at least 28 in tall
+const DEFAULT_NIGHT_CONE_HEIGHT_IN = 28;
+
+const CONES_NOT_FOR_PEDESTRIANS_ID = "CONES_NOT_FOR_PEDESTRIANS";
+
+// Pedestrian channelizing devices and accessible route when the pack has no pedestrianOperations
+const DEFAULT_PEDESTRIAN_CLOSURE: Pick<ResolvedPedestrianClosure, "channelizingDevice" | "route"> = {
+  channelizingDevice: {
+    deviceType: "Detectable pedestrian channelizing device",
+    minHeightIn: 32,
+    maxBottomEdgeHeightIn: 2,
+  },
+  route: {
+    minWidthFt: 4,
+    passingSpaceWidthFt: 5,
+    passingSpaceIntervalFt: 200,
+    maxRunningSlopePct: 5,
+    maxCrossSlopePct: 2,
+  },
+};
+
+const SIGN_CLEAR_OF_BIKE_LANE_ID = "SIGN_CLEAR_OF_BIKE_LANE";
+
+// Clear width - kept in sync with the SIGN_CLEAR_OF_BIKE_LANE description (4 feet)
+const SIGN_CLEAR_OF_BIKE_LANE_WIDTH_FT = 4;
+
+// Bike lane closure values when the pack has no bicycleOperations (TTCM Portland 4.3.2)
+const DEFAULT_BICYCLE_OPERATIONS: NonNullable<TcpRulesPack["bicycleOperations"]> = {
+  mergeMaxSpeed_mph: 30,
+  advanceSignDistance_ft: 50,
+  minTemporaryBikeLaneWidth_ft: 4,
+  minSharedPathWidth_ft: 8,
+  source: {
+    sourcePdf: "2025-TTCM_portland.pdf",
+    page: "38",
+    sectionTitle: "4.3.2 Bike Lane Standards",
+    notes: "Default bike merge speed and temporary facility widths",
+  },
+};
+
+// Speed zone values when the pack has no workZoneSpeedReduction section
+const DEFAULT_WORK_ZONE_SPEED_REDUCTION: NonNullable<TcpRulesPack["workZoneSpeedReduction"]> = {
+  authority: "Speed zone order from the road authority with jurisdiction",
+  orderContents: [],
+  orderRecipients: [],
+  source: {
+    sourcePdf: "mutcd11thedition.pdf",
+    sectionTitle: "Work Zone Speed Limit Signs",
+    notes: "A work zone speed limit is regulatory and needs an order from the road authority",
+  },
+};
+
+// Operations that keep traffic moving through the work zone; a speed zone means nothing otherwise
+const SPEED_ZONE_OPERATIONS: OperationType[] = [
+  "lane_closure", "lane_shift", "flagging", "shoulder_work", "mobile", "bike_lane_closure",
+];
+
+// Default leg labels by compass bearing, clockwise from north in 45° steps
+const COMPASS_LEG_NAMES = ["North", "Northeast", "East", "Southeast", "South", "Southwest", "West", "Northwest"];
+
+// Rule behind the intersection flagger count (one per approach, one per movement)
+const INTERSECTION_FLAGGER_SOURCE: SourceCitation = {
+  sourcePdf: "2025-TTCM_portland.pdf",
+  page: "28",
+  sectionTitle: "3.6 Flagging Through Intersections",
+  notes: "There should be one flagger for each approach, and sometimes one flagger for each movement on one approach (i.e. left turn lane and through lane)",
+};
 
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
 
 /**
- * Find the closest speed bucket at or below the given speed
+ * Speed buckets defined in the composed pack, ascending
+ */
+function getSpeedBuckets(layered: LayeredRulesPack): number[] {
+  return Object.keys(layered.pack.spacing.bySpeedMph)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Find the closest speed bucket at or below the given speed.
+ * Speeds outside the pack's table use the nearest end bucket and are flagged.
+ */
+function findSpeedBucket(layered: LayeredRulesPack, speedMph: number): SpeedBucketMatch {
+  const buckets = getSpeedBuckets(layered);
+  const minMph = buckets[0];
+  const maxMph = buckets[buckets.length - 1];
+
+  if (speedMph < minMph) {
+    return { bucketMph: minMph, outOfRange: { requestedMph: speedMph, minMph, maxMph, direction: "below" } };
+  }
+  if (speedMph > maxMph) {
+    return { bucketMph: maxMph, outOfRange: { requestedMph: speedMph, minMph, maxMph, direction: "above" } };
+  }
+
+  for (let i = buckets.length - 1; i >= 0; i--) {
+    if (buckets[i] <= speedMph) {
+      return { bucketMph: buckets[i], outOfRange: null };
+    }
+  }
+  return { bucketMph: minMph, outOfRange: null };
+}
+
+/**
+ * Cite a value read from the composed pack at `path`
+ */
+function fromPack(layered: LayeredRulesPack, path: string, baseSource: SourceCitation): LayeredSource {
+  return {
+    source: getLayerCitation(layered, path, baseSource),
+    layer: getValueLayer(layered, path),
+    path,
+  };
+}
+
+/**
+ * Cite a value produced by the resolver itself (optionally by formula)
+ */
+function fromResolver(source: SourceCitation, formula?: string): LayeredSource {
+  return { source, layer: RESOLVER_LAYER, formula };
+}
+
+const LAYERED_SOURCE_KEYS: ReadonlySet<string> = new Set(["source", "layer", "path", "formula"]);
+
+/**
+ * Drop the citation fields from a resolved entry (they are replaced by `citation`)
+ */
+function omitSource<T extends LayeredSource>(value: T): Omit<T, keyof LayeredSource> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([key]) => !LAYERED_SOURCE_KEYS.has(key))
+  ) as Omit<T, keyof LayeredSource>;
+}
+
+/**
+ * Read a dotted key path from a pack (for showing overridden base values)
  */
-function findSpeedBucket(speedMph: number): number {
-  const clamped = Math.max(25, Math.min(55, speedMph));
-  for (let i = SPEED_BUCKETS.length - 1; i >= 0; i--) {
-    if (SPEED_BUCKETS[i] <= clamped) {
-      return SPEED_BUCKETS[i];
+function readPackPath(pack: TcpRulesPack, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (node, key) => (typeof node === "object" && node !== null ? (node as Record<string, unknown>)[key] : undefined),
+    pack
+  );
+}
+
+function formatPackValue(value: unknown): string {
+  return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Explain how a value was resolved: speed row, table read or formula,
+ * and any jurisdiction layer that overrode the base pack.
+ */
+function buildDerivation(
+  layered: LayeredRulesPack,
+  speedMph: number,
+  speedBucket: SpeedBucketMatch,
+  value: LayeredSource,
+  result: string
+): RuleDerivation {
+  const { bucketMph, outOfRange } = speedBucket;
+  const steps: string[] = [`Input speed ${speedMph} mph`];
+
+  if (outOfRange) {
+    steps.push(
+      `${speedMph} mph is ${outOfRange.direction} the ${outOfRange.minMph}–${outOfRange.maxMph} mph table; ` +
+      `nearest row ${bucketMph} mph used`
+    );
+  } else if (bucketMph === speedMph) {
+    steps.push(`Matches the ${bucketMph} mph table row`);
+  } else {
+    steps.push(`Uses the ${bucketMph} mph table row (closest row at or below ${speedMph} mph)`);
+  }
+
+  const overrides: RuleDerivation["overrides"] = [];
+  if (value.path) {
+    const tableValue = formatPackValue(readPackPath(layered.pack, value.path));
+    const layerLabel = value.layer === "resolver" ? "resolver" : getJurisdictionLabel(value.layer);
+    steps.push(`Read ${value.path} = ${tableValue} from ${layerLabel}`);
+
+    if (value.layer !== "resolver" && value.layer !== BASE_JURISDICTION) {
+      const baseValue = formatPackValue(readPackPath(getRulesPack(BASE_JURISDICTION).pack, value.path));
+      overrides.push({ layer: value.layer, path: value.path, baseValue, value: tableValue });
+      steps.push(`${layerLabel} overrides the base pack value ${baseValue} → ${tableValue}`);
     }
   }
-  return SPEED_BUCKETS[0];
+  if (value.formula) {
+    steps.push(`Formula: ${value.formula}`);
+  }
+  if (!value.path && !value.formula) {
+    steps.push(`Resolver default${value.source.notes ? `: ${value.source.notes}` : ""}`);
+  }
+  steps.push(`Result: ${result}`);
+
+  return {
+    result,
+    method: value.path ? "table" : value.formula ? "formula" : "default",
+    inputSpeedMph: speedMph,
+    bucketMph,
+    speedOutOfRange: outOfRange !== null,
+    tablePath: value.path,
+    formula: value.formula,
+    layer: value.layer,
+    overrides,
+    steps,
+  };
 }
 
 /**
@@ -102,53 +697,207 @@ function calculateTaperLengthByFormula(speedMph: number, laneWidthFt: number): n
  * - 25-30 mph → 100 ft
  * - 35-40 mph → 200-350 ft (use minimum 200 ft)
  * - 45-55 mph → 350-500 ft (use minimum 350 ft)
+ * - 60-70 mph → 1000 ft minimum (expressway/freeway, see getAdvanceSignDistances)
  */
-function getSignSpacing(speedMph: number): { spacingFt: number; source: SourceCitation } {
-  const bucket = findSpeedBucket(speedMph);
-  const spacingData = rulesPack.spacing.bySpeedMph[bucket.toString() as keyof typeof rulesPack.spacing.bySpeedMph];
+function getSignSpacing(layered: LayeredRulesPack, speedMph: number): { spacingFt: number } & LayeredSource {
+  const bucket = findSpeedBucket(layered, speedMph).bucketMph;
+  const spacingData = layered.pack.spacing.bySpeedMph[bucket];
   
   if (spacingData) {
     return {
       spacingFt: spacingData.signSpacing_ft,
-      source: spacingData.source as SourceCitation
+      ...fromPack(layered, `spacing.bySpeedMph.${bucket}.signSpacing_ft`, spacingData.source)
     };
   }
   
   // Fallback: use formula-based spacing
   if (speedMph <= 30) {
-    return { spacingFt: 100, source: { sourcePdf: "fallback", notes: "Using minimum spacing for low speed" } };
+    return { spacingFt: 100, ...fromResolver({ sourcePdf: "fallback", notes: "Using minimum spacing for low speed" }) };
   } else if (speedMph <= 40) {
-    return { spacingFt: 200, source: { sourcePdf: "fallback", notes: "Using minimum for 35-40mph range" } };
+    return { spacingFt: 200, ...fromResolver({ sourcePdf: "fallback", notes: "Using minimum for 35-40mph range" }) };
   } else {
-    return { spacingFt: 350, source: { sourcePdf: "fallback", notes: "Using minimum for high speed" } };
+    return { spacingFt: 350, ...fromResolver({ sourcePdf: "fallback", notes: "Using minimum for high speed" }) };
   }
 }
 
+/**
+ * Get MUTCD A/B/C advance sign distances.
+ * Expressway/freeway buckets define unequal distances (Table 6C-2: 1000/1500/2640 ft);
+ * everywhere else all three equal the sign spacing.
+ */
+function getAdvanceSignDistances(
+  layered: LayeredRulesPack,
+  speedMph: number,
+  signSpacing: { spacingFt: number } & LayeredSource
+): { distances: AdvanceSignDistances } & LayeredSource {
+  const bucket = findSpeedBucket(layered, speedMph).bucketMph;
+  const spacingData = layered.pack.spacing.bySpeedMph[bucket];
+
+  if (spacingData?.advanceSignDistances_ft) {
+    return {
+      distances: { ...spacingData.advanceSignDistances_ft },
+      ...fromPack(layered, `spacing.bySpeedMph.${bucket}.advanceSignDistances_ft`, spacingData.source)
+    };
+  }
+
+  const spacing = signSpacing.spacingFt;
+  return {
+    distances: { a: spacing, b: spacing, c: spacing },
+    source: signSpacing.source,
+    layer: signSpacing.layer,
+    path: signSpacing.path,
+    formula: `A = B = C = sign spacing = ${spacing} ft`,
+  };
+}
+
 /**
  * Get taper length from rules pack table, falling back to formula if not available
  */
-function getTaperLength(speedMph: number, laneWidthFt: number): { lengthFt: number; source: SourceCitation } {
-  const bucket = findSpeedBucket(speedMph);
-  const taperData = rulesPack.taper.laneClosure.bySpeedMph[bucket.toString() as keyof typeof rulesPack.taper.laneClosure.bySpeedMph];
+function getTaperLength(layered: LayeredRulesPack, speedMph: number, laneWidthFt: number): { lengthFt: number } & LayeredSource {
+  const bucket = findSpeedBucket(layered, speedMph).bucketMph;
+  const taperData = layered.pack.taper.laneClosure.bySpeedMph[bucket];
   
   if (taperData && taperData.length_ft) {
     return {
       lengthFt: taperData.length_ft,
-      source: taperData.source as SourceCitation
+      ...fromPack(layered, `taper.laneClosure.bySpeedMph.${bucket}.length_ft`, taperData.source)
     };
   }
   
   // Use MUTCD formula
   const calculatedLength = calculateTaperLengthByFormula(speedMph, laneWidthFt);
+  const formula = speedMph <= 40
+    ? `L = W × S = ${laneWidthFt} × ${speedMph} = ${calculatedLength} ft`
+    : `L = W × S² / 60 = ${laneWidthFt} × ${speedMph}² / 60 = ${calculatedLength} ft`;
   return {
     lengthFt: Math.round(calculatedLength),
-    source: {
+    ...fromResolver({
       sourcePdf: "mutcd11thedition.pdf",
       sectionTitle: "6C.08",
       notes: speedMph <= 40 
         ? `Calculated using L = W × S formula (${laneWidthFt} × ${speedMph} = ${calculatedLength})`
         : `Calculated using L = W × S²/60 formula (${laneWidthFt} × ${speedMph}² / 60 = ${calculatedLength})`
+    }, formula)
+  };
+}
+
+/**
+ * Read L for a taper type: the type's own pack table first, then the lane closure
+ * table, then the MUTCD formula (same as getTaperLength).
+ */
+function getBaseTaperLength(
+  layered: LayeredRulesPack,
+  tableKey: keyof LayeredRulesPack["pack"]["taper"],
+  speedMph: number,
+  laneWidthFt: number
+): { lengthFt: number; deviceSpacingFt?: number } & LayeredSource {
+  const bucket = findSpeedBucket(layered, speedMph).bucketMph;
+  const table: TaperRule = layered.pack.taper[tableKey];
+  const taperData = table.bySpeedMph[bucket];
+
+  if (taperData && taperData.length_ft) {
+    return {
+      lengthFt: taperData.length_ft,
+      deviceSpacingFt: taperData.coneSpacing_ft,
+      ...fromPack(layered, `taper.${tableKey}.bySpeedMph.${bucket}.length_ft`, taperData.source)
+    };
+  }
+
+  const laneClosure = getTaperLength(layered, speedMph, laneWidthFt);
+  const laneClosureData = layered.pack.taper.laneClosure.bySpeedMph[bucket];
+  return { ...laneClosure, deviceSpacingFt: laneClosureData?.coneSpacing_ft };
+}
+
+/**
+ * Resolve the set of tapers for an operation (MUTCD Table 6C-3):
+ * merging = L, shifting = L/2, shoulder = L/3,
+ * downstream and one-lane two-way = 50–100 ft.
+ */
+function getTaperSet(
+  layered: LayeredRulesPack,
+  speedMph: number,
+  laneWidthFt: number,
+  operation: OperationType,
+  coneSpacingFt: number
+): Array<Omit<ResolvedTaper, "citation"> & LayeredSource> {
+  return TAPERS_BY_OPERATION[operation].map(({ type, position }) => {
+    let length: { lengthFt: number; deviceSpacingFt?: number } & LayeredSource;
+    let lengthRule: string;
+
+    switch (type) {
+      case "merging":
+        length = getBaseTaperLength(layered, "merging", speedMph, laneWidthFt);
+        lengthRule = "L";
+        break;
+      case "shifting": {
+        const base = getBaseTaperLength(layered, "laneShift", speedMph, laneWidthFt);
+        const lengthFt = Math.round(base.lengthFt / 2);
+        const formula = `L/2 = ${base.lengthFt} / 2 = ${lengthFt} ft`;
+        length = { ...base, lengthFt, formula: base.formula ? `${base.formula}; ${formula}` : formula };
+        lengthRule = "L/2";
+        break;
+      }
+      case "shoulder": {
+        const base = getBaseTaperLength(layered, "laneClosure", speedMph, laneWidthFt);
+        const lengthFt = Math.round(base.lengthFt / 3);
+        const formula = `L/3 = ${base.lengthFt} / 3 = ${lengthFt} ft`;
+        length = { ...base, lengthFt, formula: base.formula ? `${base.formula}; ${formula}` : formula };
+        lengthRule = "L/3";
+        break;
+      }
+      case "downstream":
+      case "one_lane_two_way":
+        length = {
+          lengthFt: SHORT_TAPER_LENGTH_FT,
+          deviceSpacingFt: SHORT_TAPER_DEVICE_SPACING_FT,
+          ...fromResolver({
+            sourcePdf: "mutcd11thedition.pdf",
+            mutcdSection: "Table 6C-3",
+            sectionTitle: "6C.08 Tapers",
+            notes: type === "downstream"
+              ? "Downstream taper 50–100 ft per lane"
+              : "One-lane, two-way traffic taper 50–100 ft",
+          })
+        };
+        lengthRule = SHORT_TAPER_RULE;
+        break;
     }
+
+    const deviceSpacingFt = length.deviceSpacingFt ?? coneSpacingFt;
+    return {
+      type,
+      position,
+      lengthFt: length.lengthFt,
+      lengthRule,
+      // Devices at both ends of the taper
+      deviceCount: Math.ceil(length.lengthFt / deviceSpacingFt) + 1,
+      deviceSpacingFt,
+      source: length.source,
+      layer: length.layer,
+      path: length.path,
+      formula: length.formula,
+    };
+  });
+}
+
+/**
+ * The taper that sets the plan's taper length: the operation's upstream taper
+ * (merging, shifting, shoulder or one-lane two-way), or none for operations
+ * without tapers (mobile, full and sidewalk closures).
+ */
+function getGoverningTaper(
+  tapers: ReturnType<typeof getTaperSet>
+): { lengthFt: number } & LayeredSource {
+  const upstream = tapers.find(taper => taper.position === "upstream");
+  if (upstream) return upstream;
+  return {
+    lengthFt: 0,
+    ...fromResolver({
+      sourcePdf: "mutcd11thedition.pdf",
+      mutcdSection: "Table 6C-3",
+      sectionTitle: "6C.08 Tapers",
+      notes: "No taper for this operation",
+    }),
   };
 }
 
@@ -156,55 +905,59 @@ function getTaperLength(speedMph: number, laneWidthFt: number): { lengthFt: numb
  * Get cone spacing from rules pack
  * Default rule: coneSpacingFt = speedMph (with half-spacing stub for future)
  */
-function getConeSpacing(speedMph: number): { spacingFt: number; source: SourceCitation } {
-  const bucket = findSpeedBucket(speedMph);
-  const spacingData = rulesPack.spacing.bySpeedMph[bucket.toString() as keyof typeof rulesPack.spacing.bySpeedMph];
+function getConeSpacing(layered: LayeredRulesPack, speedMph: number): { spacingFt: number } & LayeredSource {
+  const bucket = findSpeedBucket(layered, speedMph).bucketMph;
+  const spacingData = layered.pack.spacing.bySpeedMph[bucket];
   
   if (spacingData && spacingData.coneSpacing_ft) {
     return {
       spacingFt: spacingData.coneSpacing_ft,
-      source: spacingData.source as SourceCitation
+      ...fromPack(layered, `spacing.bySpeedMph.${bucket}.coneSpacing_ft`, spacingData.source)
     };
   }
   
   // Fallback: use speed as spacing (S feet rule)
   return {
     spacingFt: speedMph,
-    source: {
+    ...fromResolver({
       sourcePdf: "2025-TTCM_portland.pdf",
       sectionTitle: "2.3 Channelizing Devices",
       notes: "Default S feet spacing rule (future: ½S when conflicting with pavement markings)"
-    }
+    }, `spacing = S = ${speedMph} ft`)
   };
 }
 
 /**
  * Get buffer length from rules pack
  */
-function getBufferLength(speedMph: number): { lengthFt: number; source: SourceCitation } {
-  const bucket = findSpeedBucket(speedMph);
-  const spacingData = rulesPack.spacing.bySpeedMph[bucket.toString() as keyof typeof rulesPack.spacing.bySpeedMph];
+function getBufferLength(layered: LayeredRulesPack, speedMph: number): { lengthFt: number } & LayeredSource {
+  const bucket = findSpeedBucket(layered, speedMph).bucketMph;
+  const spacingData = layered.pack.spacing.bySpeedMph[bucket];
   
   if (spacingData && spacingData.bufferLength_ft) {
     return {
       lengthFt: spacingData.bufferLength_ft,
-      source: spacingData.source as SourceCitation
+      ...fromPack(layered, `spacing.bySpeedMph.${bucket}.bufferLength_ft`, spacingData.source)
     };
   }
   
   // Fallback: estimate buffer as speed × 2
   return {
     lengthFt: speedMph * 2,
-    source: { sourcePdf: "fallback", notes: "Estimated buffer length" }
+    ...fromResolver({ sourcePdf: "fallback", notes: "Estimated buffer length" }, `buffer = 2 × S = 2 × ${speedMph} = ${speedMph * 2} ft`)
   };
 }
 
 /**
  * Determine if drums are required instead of cones
  */
-function getDrumsRequired(speedMph: number, timeOfDay: TimeOfDay): { required: boolean; source: SourceCitation } {
-  const bucket = findSpeedBucket(speedMph);
-  const taperData = rulesPack.taper.laneClosure.bySpeedMph[bucket.toString() as keyof typeof rulesPack.taper.laneClosure.bySpeedMph];
+function getDrumsRequired(
+  layered: LayeredRulesPack,
+  speedMph: number,
+  timeOfDay: TimeOfDay
+): { required: boolean } & LayeredSource {
+  const bucket = findSpeedBucket(layered, speedMph).bucketMph;
+  const taperData = layered.pack.taper.laneClosure.bySpeedMph[bucket];
   
   // Drums required for:
   // 1. Merge tapers on high-speed streets (35mph+)
@@ -215,30 +968,133 @@ function getDrumsRequired(speedMph: number, timeOfDay: TimeOfDay): { required: b
   if (taperData && taperData.drumRequired) {
     return {
       required: true,
-      source: taperData.source as SourceCitation
+      ...fromPack(layered, `taper.laneClosure.bySpeedMph.${bucket}.drumRequired`, taperData.source)
     };
   }
   
   if (isHighSpeed || isNightHighSpeed) {
     return {
       required: true,
-      source: {
+      ...fromResolver({
         sourcePdf: "2025-TTCM_portland.pdf",
         page: "17",
         sectionTitle: "2.3.3 Plastic Drums",
         notes: isNightHighSpeed 
           ? "Drums required for overnight closures at 30mph+" 
           : "Drums required for high-speed streets (35mph+)"
-      }
+      }, isNightHighSpeed ? `night and ${speedMph} mph ≥ 30 mph` : `${speedMph} mph ≥ 35 mph`)
     };
   }
   
   return {
     required: false,
-    source: {
+    ...fromResolver({
       sourcePdf: "2025-TTCM_portland.pdf",
       sectionTitle: "2.3 Channelizing Devices"
+    })
+  };
+}
+
+/**
+ * Determine if an arrow board is required.
+ * Only lane closures get one (ARROW_BOARD_LANE_CLOSURE_ONLY); the pack makes it
+ * mandatory at expressway speeds, and the resolver adds one from 45 mph up.
+ */
+function getArrowBoardRequired(
+  layered: LayeredRulesPack,
+  speedMph: number,
+  operation: OperationType
+): { required: boolean } & LayeredSource {
+  const arrowBoardSource: SourceCitation = {
+    sourcePdf: "2025-TTCM_portland.pdf",
+    page: "22-23",
+    sectionTitle: "2.7.3 Arrow Boards",
+  };
+
+  if (operation !== "lane_closure") {
+    return {
+      required: false,
+      ...fromResolver({ ...arrowBoardSource, notes: "Arrow boards are only used for lane closures" })
+    };
+  }
+
+  const bucket = findSpeedBucket(layered, speedMph).bucketMph;
+  const spacingData = layered.pack.spacing.bySpeedMph[bucket];
+
+  if (spacingData?.arrowBoardRequired) {
+    return {
+      required: true,
+      ...fromPack(layered, `spacing.bySpeedMph.${bucket}.arrowBoardRequired`, spacingData.source)
+    };
+  }
+
+  const required = speedMph >= ARROW_BOARD_MIN_SPEED_MPH;
+  return {
+    required,
+    ...fromResolver({
+      ...arrowBoardSource,
+      notes: required
+        ? `Arrow board for lane closures at ${ARROW_BOARD_MIN_SPEED_MPH}mph+`
+        : `Arrow board optional below ${ARROW_BOARD_MIN_SPEED_MPH}mph`
+    }, `${speedMph} mph ${required ? "≥" : "<"} ${ARROW_BOARD_MIN_SPEED_MPH} mph`)
+  };
+}
+
+/**
+ * Resolve the vehicle train for a mobile operation from the pack's
+ * mobileOperations table (spacing grows with speed; TMA and advance
+ * warning vehicle at high speed).
+ */
+function getMobileOperation(
+  layered: LayeredRulesPack,
+  speedMph: number,
+  leapfrogSigns: string[],
+  signSpacingFt: number
+): { operation: ResolvedMobileOperation } & LayeredSource {
+  const bucket = findSpeedBucket(layered, speedMph).bucketMph;
+  const mobileData = layered.pack.mobileOperations.bySpeedMph[bucket];
+
+  if (mobileData) {
+    const vehicles: ResolvedMobileVehicle[] = [
+      { role: "work", offsetFt: 0, tma: false, arrowBoard: false },
+      {
+        role: "shadow",
+        offsetFt: mobileData.shadowVehicleSpacing_ft,
+        tma: mobileData.tmaRequired,
+        arrowBoard: mobileData.vehicleArrowBoardRequired,
+      },
+    ];
+    if (mobileData.advanceWarningVehicleSpacing_ft) {
+      vehicles.push({
+        role: "advance_warning",
+        offsetFt: mobileData.shadowVehicleSpacing_ft + mobileData.advanceWarningVehicleSpacing_ft,
+        tma: mobileData.tmaRequired,
+        arrowBoard: mobileData.vehicleArrowBoardRequired,
+      });
     }
+    return {
+      operation: { vehicles, leapfrogIntervalFt: mobileData.leapfrogInterval_ft, leapfrogSigns },
+      ...fromPack(layered, `mobileOperations.bySpeedMph.${bucket}`, mobileData.source)
+    };
+  }
+
+  // Fallback: shadow vehicle only, signs leapfrog every sign spacing
+  const isHighSpeed = speedMph >= 45;
+  return {
+    operation: {
+      vehicles: [
+        { role: "work", offsetFt: 0, tma: false, arrowBoard: false },
+        { role: "shadow", offsetFt: 100, tma: isHighSpeed, arrowBoard: speedMph >= 35 },
+      ],
+      leapfrogIntervalFt: signSpacingFt,
+      leapfrogSigns,
+    },
+    ...fromResolver({
+      sourcePdf: "2025-TTCM_portland.pdf",
+      page: "33-34",
+      sectionTitle: "4.1.7 Mobile Work",
+      notes: "Default shadow vehicle spacing; TMA at 45mph+"
+    })
   };
 }
 
@@ -287,6 +1143,38 @@ function getRequiredSigns(operation: OperationType): { signs: string[]; source:
         }
       };
     
+    case "mobile":
+      return {
+        signs: ["ROAD_WORK_AHEAD"],
+        source: {
+          sourcePdf: "2025-TTCM_portland.pdf",
+          page: "33-34",
+          sectionTitle: "4.1.7 Mobile Work",
+          notes: "Advance sign leapfrogs forward with the operation"
+        }
+      };
+    
+    case "sidewalk_closure":
+      return {
+        signs: ["SIDEWALK_CLOSED", "SIDEWALK_CLOSED_USE_OTHER_SIDE"],
+        source: {
+          sourcePdf: "mutcd11thedition.pdf",
+          sectionTitle: "Pedestrian Considerations",
+          notes: "SIDEWALK CLOSED at the closure, SIDEWALK CLOSED USE OTHER SIDE at the crosswalk on each side"
+        }
+      };
+    
+    case "bike_lane_closure":
+      return {
+        signs: ["ROAD_WORK_AHEAD", "BIKE_LANE_CLOSED_AHEAD"],
+        source: {
+          sourcePdf: "2025-TTCM_portland.pdf",
+          page: "37-38",
+          sectionTitle: "4.3 Bicycle Accommodations",
+          notes: "Bike lane closures are signed with warning signage per 4.3.2 Bike Lane Standards; BIKE LANE CLOSED AHEAD in advance of the work zone, merge signs are added by the bike lane treatment"
+        }
+      };
+    
     case "full_closure":
       return {
         signs: ["ROAD_WORK_AHEAD", "ROAD_CLOSED", "DETOUR"],
@@ -305,6 +1193,428 @@ function getRequiredSigns(operation: OperationType): { signs: string[]; source:
   }
 }
 
+function isSignCode(value: string): value is SignCode {
+  return (SIGN_CODES as readonly string[]).includes(value);
+}
+
+/**
+ * Pick a sign size from the definition's available sizes: the largest at
+ * high speed or on multilane divided roads, otherwise the smallest. The
+ * 48-inch constraint keeps large signs off streets below 35 mph.
+ */
+function getSignSize(
+  layered: LayeredRulesPack,
+  definition: SignDefinition,
+  speedMph: number,
+  roadType: RoadType
+): { sizeInches: number } & LayeredSource {
+  const sizes = [...definition.sizesInches].sort((a, b) => a - b);
+  const small = sizes[0];
+  const large = sizes[sizes.length - 1];
+  const wantsLarge = speedMph >= LARGE_SIGN_MIN_SPEED_MPH || roadType === "multilane_divided";
+  const constraint = layered.pack.constraints.find(c => c.id === LARGE_SIGN_CONSTRAINT_ID);
+
+  if (wantsLarge && constraint && speedMph < LARGE_SIGN_CONSTRAINT_MIN_SPEED_MPH) {
+    return {
+      sizeInches: small,
+      ...fromPack(layered, "constraints", constraint.source)
+    };
+  }
+
+  return {
+    sizeInches: wantsLarge ? large : small,
+    ...fromResolver({
+      sourcePdf: "mutcd11thedition.pdf",
+      mutcdSection: "Table 6F-1",
+      sectionTitle: "Temporary Traffic Control Sign and Plaque Sizes",
+      notes: wantsLarge
+        ? `${large}" signs at ${LARGE_SIGN_MIN_SPEED_MPH}mph+ or on multilane divided roads`
+        : `${small}" conventional road size below ${LARGE_SIGN_MIN_SPEED_MPH}mph`
+    })
+  };
+}
+
+/**
+ * Build the sign fabrication schedule for the required signs: size, count,
+ * stand type, and whether flags or a warning light are needed.
+ */
+function getSignSchedule(
+  layered: LayeredRulesPack,
+  requiredSigns: string[],
+  options: {
+    speedMph: number;
+    roadType: RoadType;
+    operation: OperationType;
+    timeOfDay: TimeOfDay;
+    /** Signs per code (default = 2 for two-approach operations, else 1) */
+    approachCount?: number;
+  }
+): Array<Omit<ResolvedSignScheduleEntry, "citation"> & LayeredSource> {
+  const { speedMph, roadType, operation, timeOfDay } = options;
+  const approaches = options.approachCount ?? (TWO_APPROACH_OPERATIONS.includes(operation) ? 2 : 1);
+  const definitions = layered.pack.signs.definitions;
+
+  return requiredSigns.flatMap((code) => {
+    const definition = isSignCode(code) ? definitions[code] : undefined;
+    if (!definition) {
+      console.warn(`[RULES_SIGNS] No sign definition for "${code}", left out of the sign schedule`);
+      return [];
+    }
+
+    const standType: SignStandType = BARRICADE_MOUNTED_SIGNS.includes(definition.code)
+      ? "barricade_mounted"
+      : "portable_stand";
+    const flagsRequired = definition.category === "warning" && speedMph >= SIGN_FLAGS_MIN_SPEED_MPH;
+    const size = getSignSize(layered, definition, speedMph, roadType);
+
+    return [{
+      code: definition.code,
+      mutcdCode: definition.mutcdCode,
+      legend: definition.label,
+      sizeInches: size.sizeInches,
+      count: approaches,
+      standType,
+      flagsRequired,
+      lightRequired: timeOfDay === "night" && (standType === "barricade_mounted" || flagsRequired),
+      source: size.source,
+      layer: size.layer,
+    }];
+  });
+}
+
+/**
+ * Advance warning signs with their MUTCD distances, nearest the transition
+ * first: one position per sign the pack defines as a warning sign (closure
+ * and regulatory signs stand at the closure itself), labelled A, B, C and
+ * continuing upstream (D, E...) at the C distance. Empty when the operation
+ * has no advance warning signs.
+ */
+function getAdvanceSignSequence(
+  layered: LayeredRulesPack,
+  signs: string[],
+  distances: AdvanceSignDistances
+): ResolvedAdvanceSign[] {
+  const definitions = layered.pack.signs.definitions;
+  const nearestFirst = signs.filter(code => isSignCode(code) && definitions[code]?.category === "warning").reverse();
+  const gaps = [distances.a, distances.b, distances.c];
+  return nearestFirst.map((signCode, i) => ({
+    label: String.fromCharCode("A".charCodeAt(0) + i),
+    distanceFt: gaps[i] ?? distances.c,
+    signCode,
+  }));
+}
+
+/**
+ * Resolve closure and detour signing for a full road closure. Sign codes
+ * come from the pack's sign definitions so overlays can swap them.
+ */
+function getDetourSigning(layered: LayeredRulesPack): { signing: ResolvedDetourSigning } & LayeredSource {
+  const definitions = layered.pack.signs.definitions;
+  return {
+    signing: {
+      closureSign: { code: "ROAD_CLOSED", mutcdCode: definitions.ROAD_CLOSED.mutcdCode },
+      detourSign: { code: "DETOUR", mutcdCode: definitions.DETOUR.mutcdCode },
+      arrowMutcdCodes: DETOUR_ARROW_MUTCD_CODES,
+      barricadeType: "Type III",
+    },
+    ...fromPack(layered, "signs.definitions.DETOUR.mutcdCode", {
+      sourcePdf: "2025-TTCM_portland.pdf",
+      page: "42",
+      sectionTitle: "4.7 Lane Closures and Detours",
+      notes: "DETOUR marker with arrow plaque at each decision point; ROAD CLOSED on Type III barricades"
+    })
+  };
+}
+
+/**
+ * Resolve a sidewalk closure: R9-9 / R9-10 signing, detectable pedestrian
+ * channelizing devices and the temporary accessible route (pedestrianOperations).
+ */
+function getPedestrianClosure(layered: LayeredRulesPack): { closure: ResolvedPedestrianClosure } & LayeredSource {
+  const definitions = layered.pack.signs.definitions;
+  const pedestrian = layered.pack.pedestrianOperations;
+  const signing = {
+    closureSign: { code: "SIDEWALK_CLOSED" as const, mutcdCode: definitions.SIDEWALK_CLOSED?.mutcdCode ?? "R9-9" },
+    useOtherSideSign: {
+      code: "SIDEWALK_CLOSED_USE_OTHER_SIDE" as const,
+      mutcdCode: definitions.SIDEWALK_CLOSED_USE_OTHER_SIDE?.mutcdCode ?? "R9-10",
+    },
+    conesProhibited: layered.pack.constraints.some(c => c.id === CONES_NOT_FOR_PEDESTRIANS_ID),
+  };
+
+  if (pedestrian) {
+    const { channelizingDevice: device, temporaryRoute: route } = pedestrian;
+    return {
+      closure: {
+        ...signing,
+        channelizingDevice: {
+          deviceType: device.deviceType,
+          minHeightIn: device.minHeight_in,
+          maxBottomEdgeHeightIn: device.maxBottomEdgeHeight_in,
+        },
+        route: {
+          minWidthFt: route.minWidth_ft,
+          passingSpaceWidthFt: route.passingSpaceWidth_ft,
+          passingSpaceIntervalFt: route.passingSpaceInterval_ft,
+          maxRunningSlopePct: route.maxRunningSlope_pct,
+          maxCrossSlopePct: route.maxCrossSlope_pct,
+        },
+      },
+      ...fromPack(layered, "pedestrianOperations.temporaryRoute.minWidth_ft", route.source)
+    };
+  }
+
+  return {
+    closure: { ...signing, ...DEFAULT_PEDESTRIAN_CLOSURE },
+    ...fromResolver({
+      sourcePdf: "mutcd11thedition.pdf",
+      sectionTitle: "Accessibility Considerations",
+      notes: "Default 4 ft accessible route with detectable pedestrian channelizing devices"
+    })
+  };
+}
+
+/**
+ * Resolve a bike lane closure (bicycleOperations): at or below the merge
+ * speed, cyclists merge into a shared lane (BIKES MERGE WITH AUTOS, BIKES
+ * MAY USE FULL LANE); above it they need a separate facility.
+ */
+function getBikeLaneClosure(layered: LayeredRulesPack, speedMph: number): { closure: ResolvedBikeLaneClosure } & LayeredSource {
+  const definitions = layered.pack.signs.definitions;
+  const bicycle = layered.pack.bicycleOperations;
+  const values = bicycle ?? DEFAULT_BICYCLE_OPERATIONS;
+  const treatment: BikeLaneTreatment = speedMph <= values.mergeMaxSpeed_mph ? "shared_lane" : "separate_facility";
+  const signRef = (code: "BIKE_LANE_CLOSED_AHEAD" | "BIKES_MERGE_WITH_AUTOS" | "BIKES_MAY_USE_FULL_LANE", fallback: string) =>
+    ({ code, mutcdCode: definitions[code]?.mutcdCode ?? fallback });
+  const clearConstraint = layered.pack.constraints.some(c => c.id === SIGN_CLEAR_OF_BIKE_LANE_ID);
+
+  const closure: ResolvedBikeLaneClosure = {
+    treatment,
+    closedAheadSign: signRef("BIKE_LANE_CLOSED_AHEAD", "W9-3 MOD"),
+    advanceSignDistanceFt: values.advanceSignDistance_ft,
+    mergeSign: treatment === "shared_lane" ? signRef("BIKES_MERGE_WITH_AUTOS", "W4-1 MOD") : null,
+    fullLaneSign: treatment === "shared_lane" ? signRef("BIKES_MAY_USE_FULL_LANE", "R4-11") : null,
+    mergeMaxSpeedMph: values.mergeMaxSpeed_mph,
+    minTemporaryBikeLaneWidthFt: values.minTemporaryBikeLaneWidth_ft,
+    minSharedPathWidthFt: values.minSharedPathWidth_ft,
+    minClearWidthFt: clearConstraint ? SIGN_CLEAR_OF_BIKE_LANE_WIDTH_FT : 0,
+  };
+  const formula = `${speedMph} mph ${treatment === "shared_lane" ? "≤" : ">"} ${values.mergeMaxSpeed_mph} mph merge limit`;
+
+  return bicycle
+    ? { closure, ...fromPack(layered, "bicycleOperations.mergeMaxSpeed_mph", bicycle.source), formula }
+    : { closure, ...fromResolver(DEFAULT_BICYCLE_OPERATIONS.source, formula) };
+}
+
+/**
+ * Resolve advance signing for one intersection leg at its own posted speed
+ * (INTERSECTION work zone configuration): sign sequence and distances from
+ * the intersection, flaggers for the leg's movements, and sign sizes.
+ */
+function getIntersectionApproach(
+  layered: LayeredRulesPack,
+  approach: IntersectionApproach,
+  options: { operation: OperationType; timeOfDay: TimeOfDay }
+): ResolvedIntersectionApproach {
+  const { speedMph } = approach;
+  const config = layered.pack.workZoneConfigurations.INTERSECTION;
+  const speedBucket = findSpeedBucket(layered, speedMph);
+  const signSpacing = getSignSpacing(layered, speedMph);
+  const advanceSignDistances = getAdvanceSignDistances(layered, speedMph, signSpacing);
+  const bearingDeg = ((approach.bearingDeg % 360) + 360) % 360;
+  const lanes = Math.max(1, Math.round(approach.lanes));
+
+  if (speedBucket.outOfRange) {
+    console.warn(
+      `[RULES_OUT_OF_RANGE] Approach at ${bearingDeg}°: ${speedMph}mph is outside the table; ` +
+      `using ${speedBucket.bucketMph}mph values`
+    );
+  }
+
+  // Flagger signs (BE PREPARED TO STOP, FLAGGER AHEAD) only when the configuration uses flaggers
+  const signs = config.signOrder.filter(code => config.requiresFlaggers || config.requiredSigns.includes(code));
+  // TTCM 3.6: one flagger for the approach, one per movement (lane) when the approach has several
+  const flaggerCount = config.requiresFlaggers ? lanes : 0;
+
+  // Nearest sign at A from the intersection, then A+B and A+B+C; any further signs one spacing apart
+  const { a, b, c } = advanceSignDistances.distances;
+  const gaps = [a, b, c];
+  let cumulativeFt = 0;
+  const nearestFirstFt = signs.map((_, i) => (cumulativeFt += gaps[i] ?? signSpacing.spacingFt));
+  const signDistancesFt = nearestFirstFt.reverse();
+  const advanceWarningAreaFt = Math.max(config.minAdvanceWarningDistance_ft, signDistancesFt[0] ?? 0);
+
+  const signOrder = fromPack(layered, "workZoneConfigurations.INTERSECTION.signOrder", config.source);
+  const flaggers = {
+    ...fromPack(layered, "workZoneConfigurations.INTERSECTION.requiresFlaggers", INTERSECTION_FLAGGER_SOURCE),
+    formula: !config.requiresFlaggers
+      ? "INTERSECTION.requiresFlaggers = false → 0"
+      : lanes > 1
+        ? `${lanes} lanes × 1 flagger per movement = ${flaggerCount}`
+        : "1 flagger for the approach = 1",
+  };
+  const signSchedule = getSignSchedule(layered, signs, {
+    speedMph,
+    roadType: "intersection",
+    operation: options.operation,
+    timeOfDay: options.timeOfDay,
+    approachCount: 1,
+  });
+
+  const cite = (value: LayeredSource) => ({ ...value.source, packId: layered.id, layer: value.layer });
+  const derive = (value: LayeredSource, result: string) =>
+    buildDerivation(layered, speedMph, speedBucket, value, result);
+
+  return {
+    name: approach.name?.trim() || `${COMPASS_LEG_NAMES[Math.round(bearingDeg / 45) % 8]} leg`,
+    bearingDeg,
+    speedMph,
+    lanes,
+    speedBucketMph: speedBucket.bucketMph,
+    speedOutOfRange: speedBucket.outOfRange,
+    signSpacingFt: signSpacing.spacingFt,
+    advanceSignDistancesFt: advanceSignDistances.distances,
+    requiredSigns: signs,
+    signDistancesFt,
+    advanceWarningAreaFt,
+    flaggerCount,
+    signSchedule: signSchedule.map(entry => ({ ...omitSource(entry), citation: cite(entry) })),
+    citations: {
+      signSpacing: cite(signSpacing),
+      requiredSigns: cite(signOrder),
+      flaggers: cite(flaggers),
+    },
+    derivations: {
+      signSpacing: derive(signSpacing, `${signSpacing.spacingFt} ft`),
+      requiredSigns: derive(signOrder, signs.map((code, i) => `${code} @ ${signDistancesFt[i]} ft`).join(", ")),
+      flaggers: derive(flaggers, `${flaggerCount} flagger(s)`),
+    },
+  };
+}
+
+/**
+ * Flaggers for an intersection: the approach flaggers replace the operation's
+ * own (the approaches are the ends of the work zone). Null when the
+ * INTERSECTION configuration places no flaggers.
+ */
+function getIntersectionFlaggers(
+  layered: LayeredRulesPack,
+  intersection: ResolvedIntersection
+): { count: number; positions: Array<{ location: string; purpose: string }> } & LayeredSource | null {
+  if (intersection.flaggerCount === 0) return null;
+  const flagged = intersection.approaches.filter(approach => approach.flaggerCount > 0);
+  return {
+    count: intersection.flaggerCount,
+    positions: flagged.flatMap(approach => Array.from({ length: approach.flaggerCount }, (_, i) => ({
+      location: `${approach.name} approach`,
+      purpose: approach.flaggerCount > 1
+        ? `Control movement ${i + 1} of ${approach.flaggerCount} entering the intersection`
+        : "Control traffic entering the intersection",
+    }))),
+    ...fromPack(layered, "workZoneConfigurations.INTERSECTION.requiresFlaggers", INTERSECTION_FLAGGER_SOURCE),
+    formula: `${flagged.map(approach => `${approach.name} ${approach.flaggerCount}`).join(" + ")} = ${intersection.flaggerCount}`,
+  };
+}
+
+/**
+ * Resolve every intersection approach (workZoneConfigurations.INTERSECTION)
+ */
+function getIntersection(
+  layered: LayeredRulesPack,
+  approaches: IntersectionApproach[],
+  options: { operation: OperationType; timeOfDay: TimeOfDay }
+): { intersection: ResolvedIntersection } & LayeredSource {
+  const config = layered.pack.workZoneConfigurations.INTERSECTION;
+  const resolved = approaches.map(approach => getIntersectionApproach(layered, approach, options));
+  return {
+    intersection: {
+      approaches: resolved,
+      flaggerCount: resolved.reduce((total, approach) => total + approach.flaggerCount, 0),
+      specialConditions: config.specialConditions,
+    },
+    ...fromPack(layered, "workZoneConfigurations.INTERSECTION.signOrder", config.source)
+  };
+}
+
+/**
+ * Resolve the temporary speed zone signing (workZoneSpeedReduction).
+ * SPEED LIMIT XX stands one work zone sign spacing ahead of the activity
+ * area so traffic is at the reduced speed by the taper; SPEED REDUCTION
+ * stands one posted sign spacing ahead of it, and the advance warning signs
+ * move upstream of both.
+ */
+function getSpeedReduction(
+  layered: LayeredRulesPack,
+  postedSpeedMph: number,
+  workZoneSpeedMph: number
+): { reduction: ResolvedSpeedReduction } & LayeredSource {
+  const definitions = layered.pack.signs.definitions;
+  const section = layered.pack.workZoneSpeedReduction;
+  const values = section ?? DEFAULT_WORK_ZONE_SPEED_REDUCTION;
+  const signRef = (code: "SPEED_REDUCTION" | "WORK_ZONE_SPEED_LIMIT" | "END_WORK_ZONE_SPEED_LIMIT", fallback: string) =>
+    ({ code, mutcdCode: definitions[code]?.mutcdCode ?? fallback });
+  const workZoneBucket = findSpeedBucket(layered, workZoneSpeedMph);
+  const postedSpacingFt = getSignSpacing(layered, postedSpeedMph).spacingFt;
+  const workZoneSpacingFt = getSignSpacing(layered, workZoneSpeedMph).spacingFt;
+  const reductionSignDistanceFt = workZoneSpacingFt + postedSpacingFt;
+
+  const reduction: ResolvedSpeedReduction = {
+    postedSpeedMph,
+    workZoneSpeedMph,
+    workZoneSpeedBucketMph: workZoneBucket.bucketMph,
+    workZoneSpeedOutOfRange: workZoneBucket.outOfRange,
+    reductionSign: signRef("SPEED_REDUCTION", "W3-5"),
+    speedLimitSign: signRef("WORK_ZONE_SPEED_LIMIT", "R2-1"),
+    endSign: signRef("END_WORK_ZONE_SPEED_LIMIT", "R2-12"),
+    reductionSignDistanceFt,
+    speedLimitSignDistanceFt: workZoneSpacingFt,
+    endSignDistanceFt: workZoneSpacingFt,
+    advanceWarningShiftFt: reductionSignDistanceFt,
+    authority: values.authority,
+    statute: values.statute ?? null,
+    orderContents: values.orderContents,
+    orderRecipients: values.orderRecipients,
+  };
+  const formula = `${postedSpeedMph} mph posted → ${workZoneSpeedMph} mph work zone; ` +
+    `R2-1 at ${workZoneSpacingFt} ft, W3-5 at ${workZoneSpacingFt} + ${postedSpacingFt} = ${reductionSignDistanceFt} ft`;
+
+  return section
+    ? { reduction, ...fromPack(layered, "workZoneSpeedReduction.authority", section.source), formula }
+    : { reduction, ...fromResolver(DEFAULT_WORK_ZONE_SPEED_REDUCTION.source, formula) };
+}
+
+/**
+ * Resolve the night package: illuminated flagger stations, light tower
+ * spacing, barricade warning lights and retroreflectivity (nightOperations).
+ */
+function getNightOperations(
+  layered: LayeredRulesPack,
+  flaggerCount: number,
+  detour: ResolvedDetourSigning | null
+): { operations: ResolvedNightOperations } & LayeredSource {
+  const night = layered.pack.nightOperations;
+  const stationLighting = night.flaggerStationLighting;
+  const stationRequired = stationLighting?.required ?? true;
+
+  return {
+    operations: {
+      requirements: night.additionalRequirements,
+      reflectivityRequired: night.reflectivityRequired,
+      minVisibilityDistanceFt: night.minVisibilityDistance_ft,
+      minConeHeightIn: layered.pack.devices.cones.night?.minHeight_in ?? DEFAULT_NIGHT_CONE_HEIGHT_IN,
+      flaggerStationLightTowers: flaggerCount > 0 && stationRequired
+        ? stationLighting?.lightTowersPerStation ?? DEFAULT_FLAGGER_STATION_LIGHT_TOWERS
+        : 0,
+      lightTowerSpacingFt: night.workSpaceLighting?.lightTowerSpacing_ft ?? DEFAULT_LIGHT_TOWER_SPACING_FT,
+      // Only full closures put barricades across the road
+      barricadeWarningLight: detour
+        ? night.barricadeWarningLights?.lightType ?? DEFAULT_BARRICADE_WARNING_LIGHT
+        : null,
+    },
+    ...fromPack(layered, "nightOperations.additionalRequirements", night.source)
+  };
+}
+
 /**
  * Determine flagger requirements based on operation type
  * Returns count and positioning guidance
@@ -388,6 +1698,34 @@ function getFlaggerRequirements(operation: OperationType, speedMph: number): {
   }
 }
 
+/**
+ * Map a job workType string to the OperationType used for rules resolution
+ */
+export function mapWorkTypeToOperation(workType?: string): OperationType {
+  switch (workType) {
+    case "lane_closure":
+      return "lane_closure";
+    case "lane_shift":
+      return "lane_shift";
+    case "one_lane_two_way_flaggers":
+    case "flagging":
+      return "flagging";
+    case "shoulder_work":
+      return "shoulder_work";
+    case "full_closure":
+      return "full_closure";
+    case "sidewalk_closure":
+      return "sidewalk_closure";
+    case "bike_lane_closure":
+      return "bike_lane_closure";
+    case "mobile_operation":
+    case "mobile":
+      return "mobile";
+    default:
+      return "lane_closure"; // Default operation type
+  }
+}
+
 // =============================================================================
 // MAIN RESOLVER
 // =============================================================================
@@ -415,44 +1753,184 @@ function getFlaggerRequirements(operation: OperationType, speedMph: number): {
 export function resolveTcpRules(input: ResolveTcpRulesInput): ResolvedTcpRules {
   const { speedMph, operation, timeOfDay } = input;
   const laneWidthFt = input.laneWidthFt ?? DEFAULT_LANE_WIDTH_FT;
+  const layered = input.rulesPack
+    ?? getRulesPack(selectJurisdiction({ jurisdiction: input.jurisdiction, location: input.location }));
+  const jurisdiction = layered.id;
+  const speedBucket = findSpeedBucket(layered, speedMph);
+  
+  if (speedBucket.outOfRange) {
+    const { minMph, maxMph } = speedBucket.outOfRange;
+    console.warn(
+      `[RULES_OUT_OF_RANGE] ${speedMph}mph is outside the ${minMph}-${maxMph}mph table ` +
+      `for pack=${layered.layers.join(">")}; using ${speedBucket.bucketMph}mph values`
+    );
+  }
   
-  // Resolve each value from rules pack
-  const signSpacing = getSignSpacing(speedMph);
-  const taperLength = getTaperLength(speedMph, laneWidthFt);
-  const coneSpacing = getConeSpacing(speedMph);
-  const bufferLength = getBufferLength(speedMph);
-  const drumsRequired = getDrumsRequired(speedMph, timeOfDay);
-  const requiredSigns = getRequiredSigns(operation);
+  // A reduced work zone speed only applies below the posted speed, with traffic moving through
+  const requestedWorkZoneSpeed = input.workZoneSpeedMph;
+  const hasSpeedZone = requestedWorkZoneSpeed !== undefined
+    && requestedWorkZoneSpeed > 0
+    && requestedWorkZoneSpeed < speedMph
+    && SPEED_ZONE_OPERATIONS.includes(operation);
+  if (requestedWorkZoneSpeed !== undefined && !hasSpeedZone) {
+    console.warn(
+      `[RULES_SPEED_ZONE] Ignoring work zone speed ${requestedWorkZoneSpeed}mph ` +
+      `(posted ${speedMph}mph, operation=${operation})`
+    );
+  }
+  const speedReduction = hasSpeedZone ? getSpeedReduction(layered, speedMph, requestedWorkZoneSpeed) : null;
+  
+  // Activity area values (tapers, cones, buffer, drums, bike merge) use the work zone speed
+  const activitySpeedMph = speedReduction?.reduction.workZoneSpeedMph ?? speedMph;
+  const activitySpeedBucket = speedReduction ? findSpeedBucket(layered, activitySpeedMph) : speedBucket;
+  if (speedReduction && activitySpeedBucket.outOfRange) {
+    console.warn(
+      `[RULES_OUT_OF_RANGE] Work zone speed ${activitySpeedMph}mph is outside the table; ` +
+      `using ${activitySpeedBucket.bucketMph}mph values`
+    );
+  }
+  
+  // Resolve each value from the composed jurisdiction pack
+  const signSpacing = getSignSpacing(layered, speedMph);
+  const advanceSignDistances = getAdvanceSignDistances(layered, speedMph, signSpacing);
+  const coneSpacing = getConeSpacing(layered, activitySpeedMph);
+  const tapers = getTaperSet(layered, activitySpeedMph, laneWidthFt, operation, coneSpacing.spacingFt);
+  const taperLength = getGoverningTaper(tapers);
+  const bufferLength = getBufferLength(layered, activitySpeedMph);
+  const drumsRequired = getDrumsRequired(layered, activitySpeedMph, timeOfDay);
+  const bike = operation === "bike_lane_closure" ? getBikeLaneClosure(layered, activitySpeedMph) : null;
+  const baseSigns = getRequiredSigns(operation);
+  // BIKE LANE CLOSED AHEAD stands at the bike closure's own distance from the taper, not at A/B/C
+  const advanceSigns = baseSigns.signs.filter(code => code !== bike?.closure.closedAheadSign.code);
+  const bikeSigns = [bike?.closure.mergeSign, bike?.closure.fullLaneSign].flatMap(sign => sign ? [sign.code] : []);
+  // Upstream → downstream: advance signs, speed zone start, bike signs at the taper, speed zone end
+  const speedZoneStart = speedReduction
+    ? [speedReduction.reduction.reductionSign.code, speedReduction.reduction.speedLimitSign.code]
+    : [];
+  const speedZoneEnd = speedReduction ? [speedReduction.reduction.endSign.code] : [];
+  const requiredSigns = {
+    ...baseSigns,
+    signs: [...baseSigns.signs, ...speedZoneStart, ...bikeSigns, ...speedZoneEnd],
+  };
   const flaggerRequirements = getFlaggerRequirements(operation, speedMph);
+  const arrowBoard = getArrowBoardRequired(layered, speedMph, operation);
+  const mobile = operation === "mobile"
+    ? getMobileOperation(layered, speedMph, requiredSigns.signs, signSpacing.spacingFt)
+    : null;
+  const detour = operation === "full_closure" ? getDetourSigning(layered) : null;
+  const pedestrian = operation === "sidewalk_closure" ? getPedestrianClosure(layered) : null;
+  const intersection = input.roadType === "intersection" && input.approaches?.length
+    ? getIntersection(layered, input.approaches, { operation, timeOfDay })
+    : null;
+  const flaggers = (intersection ? getIntersectionFlaggers(layered, intersection.intersection) : null) ?? {
+    count: flaggerRequirements.count,
+    positions: flaggerRequirements.positions,
+    ...fromResolver(flaggerRequirements.source),
+  };
+  const night = timeOfDay === "night"
+    ? getNightOperations(layered, flaggers.count, detour?.signing ?? null)
+    : null;
+  const signSchedule = getSignSchedule(layered, requiredSigns.signs, {
+    speedMph,
+    roadType: input.roadType ?? "2_lane_undivided",
+    operation,
+    timeOfDay,
+  });
+  
+  const cite = (value: LayeredSource) => ({ ...value.source, packId: jurisdiction, layer: value.layer });
+  const derive = (value: LayeredSource, result: string) =>
+    buildDerivation(layered, speedMph, speedBucket, value, result);
+  const deriveActivity = (value: LayeredSource, result: string): RuleDerivation => {
+    const derivation = buildDerivation(layered, activitySpeedMph, activitySpeedBucket, value, result);
+    return speedReduction
+      ? { ...derivation, steps: [`Activity area at the ${activitySpeedMph} mph work zone speed (posted ${speedMph} mph)`, ...derivation.steps] }
+      : derivation;
+  };
+  const { a, b, c } = advanceSignDistances.distances;
   
   const resolved: ResolvedTcpRules = {
     signSpacingFt: signSpacing.spacingFt,
+    advanceSignDistancesFt: advanceSignDistances.distances,
+    advanceSignSequence: getAdvanceSignSequence(layered, advanceSigns, advanceSignDistances.distances),
     taperLengthFt: taperLength.lengthFt,
+    tapers: tapers.map(taper => ({ ...omitSource(taper), citation: cite(taper) })),
     coneSpacingFt: coneSpacing.spacingFt,
     bufferLengthFt: bufferLength.lengthFt,
     drumsRequired: drumsRequired.required,
     requiredSigns: requiredSigns.signs,
-    flaggerCount: flaggerRequirements.count,
-    flaggerPositions: flaggerRequirements.positions,
+    flaggerCount: flaggers.count,
+    flaggerPositions: flaggers.positions,
+    arrowBoardRequired: arrowBoard.required,
+    mobile: mobile?.operation ?? null,
+    detour: detour?.signing ?? null,
+    night: night?.operations ?? null,
+    pedestrian: pedestrian?.closure ?? null,
+    bike: bike?.closure ?? null,
+    intersection: intersection?.intersection ?? null,
+    speedReduction: speedReduction?.reduction ?? null,
+    signSchedule: signSchedule.map(entry => ({ ...omitSource(entry), citation: cite(entry) })),
+    speedBucketMph: speedBucket.bucketMph,
+    speedOutOfRange: speedBucket.outOfRange,
+    jurisdiction,
+    rulesPack: layered.stamp,
     citations: {
-      signSpacing: signSpacing.source,
-      taperLength: taperLength.source,
-      coneSpacing: coneSpacing.source,
-      bufferLength: bufferLength.source,
-      drumsRequired: drumsRequired.source,
-      requiredSigns: requiredSigns.source,
-      flaggers: flaggerRequirements.source,
+      signSpacing: cite(signSpacing),
+      advanceSignDistances: cite(advanceSignDistances),
+      taperLength: cite(taperLength),
+      coneSpacing: cite(coneSpacing),
+      bufferLength: cite(bufferLength),
+      drumsRequired: cite(drumsRequired),
+      requiredSigns: cite(fromResolver(requiredSigns.source)),
+      flaggers: cite(flaggers),
+      arrowBoard: cite(arrowBoard),
+      ...(mobile ? { mobile: cite(mobile) } : {}),
+      ...(detour ? { detour: cite(detour) } : {}),
+      ...(night ? { night: cite(night) } : {}),
+      ...(pedestrian ? { pedestrian: cite(pedestrian) } : {}),
+      ...(bike ? { bike: cite(bike) } : {}),
+      ...(intersection ? { intersection: cite(intersection) } : {}),
+      ...(speedReduction ? { speedReduction: cite(speedReduction) } : {}),
+    },
+    derivations: {
+      signSpacing: derive(signSpacing, `${signSpacing.spacingFt} ft`),
+      advanceSignDistances: derive(advanceSignDistances, `A=${a} / B=${b} / C=${c} ft`),
+      taperLength: deriveActivity(taperLength, `${taperLength.lengthFt} ft`),
+      coneSpacing: deriveActivity(coneSpacing, `${coneSpacing.spacingFt} ft`),
+      bufferLength: deriveActivity(bufferLength, `${bufferLength.lengthFt} ft`),
+      drumsRequired: deriveActivity(drumsRequired, drumsRequired.required ? "Drums required" : "Cones allowed"),
+      requiredSigns: derive(fromResolver(requiredSigns.source), requiredSigns.signs.join(", ")),
+      flaggers: derive(flaggers, `${flaggers.count} flagger(s)`),
+      arrowBoard: derive(arrowBoard, arrowBoard.required ? "Arrow board required" : "No arrow board"),
+      ...(mobile ? { mobile: derive(mobile, `${mobile.operation.vehicles.length} vehicle(s)`) } : {}),
+      ...(detour ? { detour: derive(detour, `${detour.signing.detourSign.mutcdCode} detour markers`) } : {}),
+      ...(night ? { night: derive(night, `${night.operations.requirements.length} night requirements`) } : {}),
+      ...(pedestrian ? { pedestrian: derive(pedestrian, `${pedestrian.closure.route.minWidthFt} ft accessible route`) } : {}),
+      ...(bike ? { bike: deriveActivity(bike, bike.closure.treatment === "shared_lane" ? "Bikes merge into a shared lane" : "Separate bike facility") } : {}),
+      ...(intersection ? { intersection: derive(intersection, `${intersection.intersection.approaches.length} approach(es), ${intersection.intersection.flaggerCount} flagger(s)`) } : {}),
+      ...(speedReduction ? { speedReduction: derive(speedReduction, `${speedReduction.reduction.workZoneSpeedMph} mph work zone speed limit`) } : {}),
     }
   };
   
   // DEV-ONLY: Log resolved rules
   console.log(
-    `[RULES_USED] signSpacing=${resolved.signSpacingFt}ft ` +
+    `[RULES_USED] pack=${layered.layers.join(">")}@${layered.stamp.version}#${layered.stamp.contentHash} ` +
+    `signSpacing=${resolved.signSpacingFt}ft ` +
     `taperLength=${resolved.taperLengthFt}ft ` +
+    `tapers=[${resolved.tapers.map(t => `${t.type}:${t.lengthFt}ft/${t.deviceCount}`).join(",")}] ` +
     `coneSpacing=${resolved.coneSpacingFt}ft ` +
     `buffer=${resolved.bufferLengthFt}ft ` +
     `drums=${resolved.drumsRequired} ` +
-    `flaggers=${resolved.flaggerCount}`
+    `flaggers=${resolved.flaggerCount} ` +
+    `arrowBoard=${resolved.arrowBoardRequired} ` +
+    `signSizes=[${resolved.signSchedule.map(s => `${s.mutcdCode}:${s.sizeInches}"x${s.count}`).join(",")}] ` +
+    (resolved.mobile ? `vehicles=${resolved.mobile.vehicles.map(v => `${v.role}@${v.offsetFt}ft`).join(",")} ` : "") +
+    (resolved.bike ? `bike=${resolved.bike.treatment} ` : "") +
+    (resolved.speedReduction ? `speedZone=${speedMph}>${resolved.speedReduction.workZoneSpeedMph}mph ` : "") +
+    (resolved.intersection
+      ? `approaches=[${resolved.intersection.approaches.map(a => `${a.bearingDeg}°:${a.speedMph}mph/${a.signSpacingFt}ft/${a.requiredSigns.length}`).join(",")}] `
+      : "") +
+    (resolved.night ? `night=towers:${resolved.night.flaggerStationLightTowers}/station,${resolved.night.lightTowerSpacingFt}ft ` : "") +
+    `bucket=${resolved.speedBucketMph}mph${resolved.speedOutOfRange ? " (OUT OF RANGE)" : ""}`
   );
   
   // DEV-ONLY: Expose globally for QA
@@ -510,6 +1988,168 @@ export function validateRulesResolution(): { passed: boolean; errors: string[] }
   if (!caseE.drumsRequired) {
     errors.push(`Case E: Expected drumsRequired=true for night ops at 30mph`);
   }
+
+  // Case F: ODOT overrides buffer but inherits taper from the base pack
+  const caseF = resolveTcpRules({ speedMph: 45, operation: "lane_closure", timeOfDay: "day", jurisdiction: "odot" });
+  if (caseF.bufferLengthFt !== 360 || caseF.citations.bufferLength.layer !== "odot") {
+    errors.push(`Case F: Expected ODOT buffer=360 from layer odot, got ${caseF.bufferLengthFt} from ${caseF.citations.bufferLength.layer}`);
+  }
+  if (caseF.citations.taperLength.layer !== "mutcd") {
+    errors.push(`Case F: Expected taper from base layer, got ${caseF.citations.taperLength.layer}`);
+  }
+  
+  // Case G: 65 mph uses the expressway bucket with unequal A/B/C and a mandatory arrow board
+  const caseG = resolveTcpRules({ speedMph: 65, operation: "lane_closure", timeOfDay: "day" });
+  const { a, b, c } = caseG.advanceSignDistancesFt;
+  if (caseG.speedBucketMph !== 65 || a !== 1000 || b !== 1500 || c !== 2640) {
+    errors.push(`Case G: Expected 65mph bucket with A/B/C=1000/1500/2640, got ${caseG.speedBucketMph}mph ${a}/${b}/${c}`);
+  }
+  if (!caseG.arrowBoardRequired || caseG.speedOutOfRange) {
+    errors.push(`Case G: Expected mandatory arrow board and in-range speed at 65mph`);
+  }
+  
+  // Case H: speeds beyond the table are flagged, not silently clamped
+  const caseH = resolveTcpRules({ speedMph: 75, operation: "lane_closure", timeOfDay: "day" });
+  if (caseH.speedOutOfRange?.direction !== "above") {
+    errors.push(`Case H: Expected speedOutOfRange=above for 75mph`);
+  }
+  
+  // Case I: lane shift uses L/2 from the laneShift table plus a downstream taper
+  const caseI = resolveTcpRules({ speedMph: 35, operation: "lane_shift", timeOfDay: "day" });
+  const shifting = caseI.tapers.find(t => t.type === "shifting");
+  if (shifting?.lengthFt !== 90 || !caseI.tapers.some(t => t.type === "downstream")) {
+    errors.push(`Case I: Expected shifting taper=90ft plus downstream taper, got ${caseI.tapers.map(t => `${t.type}:${t.lengthFt}`).join(",")}`);
+  }
+  
+  // Case J: mobile operation at 55 mph gets a TMA shadow vehicle and an advance warning vehicle, no tapers
+  const caseJ = resolveTcpRules({ speedMph: 55, operation: "mobile", timeOfDay: "day" });
+  const shadow = caseJ.mobile?.vehicles.find(v => v.role === "shadow");
+  if (!shadow?.tma || !caseJ.mobile?.vehicles.some(v => v.role === "advance_warning") || caseJ.tapers.length > 0) {
+    errors.push(`Case J: Expected TMA shadow + advance warning vehicle and no tapers for mobile at 55mph`);
+  }
+  
+  // Case K: full closure gets M4-8 detour markers and R11-2 on the closure barricades, no tapers
+  const caseK = resolveTcpRules({ speedMph: 35, operation: "full_closure", timeOfDay: "day" });
+  if (caseK.detour?.detourSign.mutcdCode !== "M4-8" || caseK.detour.closureSign.mutcdCode !== "R11-2" || caseK.tapers.length > 0) {
+    errors.push(`Case K: Expected M4-8 detour / R11-2 closure signing and no tapers, got ${JSON.stringify(caseK.detour)}`);
+  }
+  
+  // Case L: 55 mph gets 48" flagged signs; 25 mph stays at 36" even on a multilane road (48" constraint)
+  const caseL = resolveTcpRules({ speedMph: 55, operation: "flagging", timeOfDay: "day" });
+  const caseLRoadWork = caseL.signSchedule.find(s => s.code === "ROAD_WORK_AHEAD");
+  if (caseLRoadWork?.sizeInches !== 48 || !caseLRoadWork.flagsRequired || caseLRoadWork.count !== 2) {
+    errors.push(`Case L: Expected 2x 48" flagged ROAD_WORK_AHEAD at 55mph flagging, got ${JSON.stringify(caseLRoadWork)}`);
+  }
+  const caseLLow = resolveTcpRules({ speedMph: 25, operation: "lane_closure", timeOfDay: "day", roadType: "multilane_divided" });
+  if (caseLLow.signSchedule.some(s => s.sizeInches !== 36)) {
+    errors.push(`Case L: Expected 36" signs at 25mph, got ${caseLLow.signSchedule.map(s => s.sizeInches).join(",")}`);
+  }
+  
+  // Case M: 37 mph sign spacing is read from the 35 mph table row, with a derivation trace
+  const caseM = resolveTcpRules({ speedMph: 37, operation: "lane_closure", timeOfDay: "day" });
+  const caseMSpacing = caseM.derivations.signSpacing;
+  if (caseMSpacing?.bucketMph !== 35 || caseMSpacing.method !== "table" || caseMSpacing.result !== `${caseM.signSpacingFt} ft`) {
+    errors.push(`Case M: Expected signSpacing derivation from the 35mph table row, got ${JSON.stringify(caseMSpacing)}`);
+  }
+  
+  // Case N: Night flagging lights each flagger station; day work has no night package
+  const caseN = resolveTcpRules({ speedMph: 35, operation: "flagging", timeOfDay: "night" });
+  if (!caseN.night || caseN.night.flaggerStationLightTowers < 1 || caseN.night.barricadeWarningLight !== null) {
+    errors.push(`Case N: Expected lit flagger stations and no barricade lights, got ${JSON.stringify(caseN.night)}`);
+  }
+  if (caseD.night !== null) {
+    errors.push("Case N: Expected no night package for day flagging");
+  }
+  
+  // Case O: Sidewalk closure signs R9-9 on the channelizers and R9-10 at both crosswalks, no tapers
+  const caseO = resolveTcpRules({ speedMph: 25, operation: "sidewalk_closure", timeOfDay: "day" });
+  const caseOCodes = caseO.signSchedule.map(s => `${s.mutcdCode}x${s.count}`).join(",");
+  if (caseOCodes !== "R9-9x2,R9-10x2" || caseO.tapers.length > 0 || !caseO.pedestrian?.conesProhibited) {
+    errors.push(`Case O: Expected R9-9x2,R9-10x2 with no tapers and cones prohibited, got ${caseOCodes} tapers=${caseO.tapers.length}`);
+  }
+  
+  // Case P: Bike lane closure merges bikes into a shared lane at 25 mph, not at 35 mph
+  const caseP = resolveTcpRules({ speedMph: 25, operation: "bike_lane_closure", timeOfDay: "day" });
+  const casePHigh = resolveTcpRules({ speedMph: 35, operation: "bike_lane_closure", timeOfDay: "day" });
+  if (caseP.bike?.treatment !== "shared_lane" || !caseP.requiredSigns.includes("BIKES_MAY_USE_FULL_LANE")) {
+    errors.push(`Case P: Expected shared lane with BIKES_MAY_USE_FULL_LANE at 25mph, got ${caseP.bike?.treatment} [${caseP.requiredSigns.join(",")}]`);
+  }
+  if (casePHigh.bike?.treatment !== "separate_facility" || casePHigh.requiredSigns.includes("BIKES_MERGE_WITH_AUTOS")) {
+    errors.push(`Case P: Expected no bike merge at 35mph, got ${casePHigh.bike?.treatment} [${casePHigh.requiredSigns.join(",")}]`);
+  }
+  
+  // Case Q: Intersection legs resolve at their own speeds (25 mph leg 100 ft spacing, 35 mph two-lane leg 200 ft)
+  const caseQ = resolveTcpRules({
+    speedMph: 25,
+    operation: "flagging",
+    timeOfDay: "day",
+    roadType: "intersection",
+    approaches: [
+      { bearingDeg: 0, speedMph: 25, lanes: 1 },
+      { bearingDeg: 90, speedMph: 35, lanes: 2 },
+    ],
+  });
+  const [caseQNorth, caseQEast] = caseQ.intersection?.approaches ?? [];
+  if (caseQNorth?.signSpacingFt !== 100 || caseQNorth.signDistancesFt.join(",") !== "300,200,100") {
+    errors.push(`Case Q: Expected north leg signs at 300,200,100 ft, got ${caseQNorth?.signDistancesFt.join(",")}`);
+  }
+  if (caseQEast?.signSpacingFt !== 200 || caseQEast.flaggerCount !== 2 || caseQ.intersection?.flaggerCount !== 3) {
+    errors.push(`Case Q: Expected east leg 200 ft spacing and 2 flaggers (3 total), got ${caseQEast?.signSpacingFt} ft / ${caseQEast?.flaggerCount} (${caseQ.intersection?.flaggerCount})`);
+  }
+  
+  // Case R: 45 mph posted with a 35 mph work zone: approach at 45 (350 ft), activity area at 35, R2-1 at 200 ft
+  const caseR = resolveTcpRules({ speedMph: 45, workZoneSpeedMph: 35, operation: "lane_closure", timeOfDay: "day" });
+  const caseR35 = resolveTcpRules({ speedMph: 35, operation: "lane_closure", timeOfDay: "day" });
+  if (caseR.signSpacingFt !== 350 || caseR.taperLengthFt !== caseR35.taperLengthFt || caseR.coneSpacingFt !== caseR35.coneSpacingFt) {
+    errors.push(`Case R: Expected 350 ft sign spacing with the 35 mph taper/cones, got ${caseR.signSpacingFt} ft / ${caseR.taperLengthFt} ft / ${caseR.coneSpacingFt} ft`);
+  }
+  if (caseR.speedReduction?.speedLimitSignDistanceFt !== 200 || caseR.speedReduction.reductionSignDistanceFt !== 550) {
+    errors.push(`Case R: Expected R2-1 at 200 ft and W3-5 at 550 ft, got ${caseR.speedReduction?.speedLimitSignDistanceFt} / ${caseR.speedReduction?.reductionSignDistanceFt}`);
+  }
+  if (!caseR.requiredSigns.includes("WORK_ZONE_SPEED_LIMIT") || !caseR.citations.speedReduction) {
+    errors.push("Case R: Expected WORK_ZONE_SPEED_LIMIT sign with a speedReduction citation");
+  }
+
+  // Case S: Flagging at 55 mph → A/B/C sequence with FLAGGER_AHEAD nearest the transition (A)
+  const caseS = resolveTcpRules({ speedMph: 55, operation: "flagging", timeOfDay: "day" });
+  const caseSSequence = caseS.advanceSignSequence.map(s => `${s.label}:${s.signCode}@${s.distanceFt}`).join(",");
+  const { a: caseSA, b: caseSB, c: caseSC } = caseS.advanceSignDistancesFt;
+  if (caseSSequence !== `A:FLAGGER_AHEAD@${caseSA},B:BE_PREPARED_TO_STOP@${caseSB},C:ROAD_WORK_AHEAD@${caseSC}`) {
+    errors.push(`Case S: Expected FLAGGER_AHEAD, BE_PREPARED_TO_STOP, ROAD_WORK_AHEAD at A/B/C, got ${caseSSequence}`);
+  }
+
+  // Case T: Flagging at 55 mph reports the 50–100 ft one-lane two-way taper, not the lane closure L
+  if (caseS.taperLengthFt !== caseS.tapers[0]?.lengthFt || caseS.tapers[0]?.type !== "one_lane_two_way") {
+    errors.push(`Case T: Expected taperLength from the one-lane two-way taper, got ${caseS.taperLengthFt} ft`);
+  }
+
+  // Case U: Night lane closure at a 30 mph intersection: the approach flaggers count and get station lighting
+  const caseU = resolveTcpRules({
+    speedMph: 30,
+    operation: "lane_closure",
+    timeOfDay: "night",
+    roadType: "intersection",
+    approaches: [
+      { bearingDeg: 0, speedMph: 30, lanes: 1 },
+      { bearingDeg: 180, speedMph: 30, lanes: 2 },
+    ],
+  });
+  if (caseU.flaggerCount !== 3 || !caseU.night?.flaggerStationLightTowers) {
+    errors.push(`Case U: Expected 3 intersection flaggers with station lighting, got ${caseU.flaggerCount} / ${caseU.night?.flaggerStationLightTowers}`);
+  }
+  if (caseU.citations.flaggers?.sectionTitle !== "3.6 Flagging Through Intersections") {
+    errors.push(`Case U: Expected flaggers cited to TTCM 3.6, got ${caseU.citations.flaggers?.sectionTitle}`);
+  }
+
+  // Case V: Only real advance warning signs get positions (no padding, no closure or sidewalk signs)
+  const advanceCodes = (operation: OperationType) =>
+    resolveTcpRules({ speedMph: 35, operation, timeOfDay: "day" }).advanceSignSequence.map(s => `${s.label}:${s.signCode}`).join(",");
+  const caseVLane = advanceCodes("lane_closure");
+  const caseVFull = advanceCodes("full_closure");
+  const caseVSidewalk = advanceCodes("sidewalk_closure");
+  if (caseVLane !== "A:BE_PREPARED_TO_STOP,B:ROAD_WORK_AHEAD" || caseVFull !== "A:ROAD_WORK_AHEAD" || caseVSidewalk !== "") {
+    errors.push(`Case V: Expected lane closure A/B, full closure A only, sidewalk none; got "${caseVLane}" / "${caseVFull}" / "${caseVSidewalk}"`);
+  }
   
   const passed = errors.length === 0;
   
@@ -525,8 +2165,8 @@ export function validateRulesResolution(): { passed: boolean; errors: string[] }
 /**
  * Get the speed bucket used for a given speed (for debugging)
  */
-export function getSpeedBucketForDebug(speedMph: number): number {
-  return findSpeedBucket(speedMph);
+export function getSpeedBucketForDebug(speedMph: number, jurisdiction?: JurisdictionId): number {
+  return findSpeedBucket(getRulesPack(jurisdiction), speedMph).bucketMph;
 }
 
 // =============================================================================
@@ -0,0 +1,265 @@
+/**
+ * TCP Rules Pack Registry
+ *
+ * Composes the effective rules pack for a jurisdiction. The v1 pack
+ * (tcpRulesPack.v1.json) is the MUTCD base layer; jurisdiction packs in
+ * ./packs override only the keys they change and may extend each other
+ * (e.g. Clackamas → ODOT → base).
+ *
+ * Every overridden leaf is recorded in `provenance` so resolved values
+ * can cite which pack and layer they came from.
+ */
+
+import basePack from "./tcpRulesPack.v1.json";
+import odotPack from "./packs/odot.json";
+import clackamasPack from "./packs/clackamas.json";
+import portlandPack from "./packs/portland.json";
+import {
+  JurisdictionId,
+  JURISDICTION_IDS,
+  RulesPackOverlay,
+  RulesPackStamp,
+  SourceCitation,
+  TcpRulesPack,
+} from "./rulesTypes";
+import { parseRulesPack, parseRulesPackOverlay } from "./rulesPackSchema";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface LayeredRulesPack {
+  /** Jurisdiction this pack was composed for */
+  id: JurisdictionId;
+  label: string;
+  /** Effective (merged) rules pack */
+  pack: TcpRulesPack;
+  /** Layer IDs from base to most specific, e.g. ["mutcd", "odot", "clackamas"] */
+  layers: JurisdictionId[];
+  /** Dotted key path → layer that last set it (base values are not recorded) */
+  provenance: Record<string, JurisdictionId>;
+  /** Pack ID, version and content hash stamped on plans and layouts */
+  stamp: RulesPackStamp;
+}
+
+export interface JurisdictionSelectionInput {
+  /** Explicit jurisdiction from the request (wins over location) */
+  jurisdiction?: JurisdictionId;
+  /** Work zone location used when no explicit jurisdiction is given */
+  location?: { lng: number; lat: number };
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const BASE_JURISDICTION = "mutcd" satisfies JurisdictionId;
+
+type OverlayId = Exclude<JurisdictionId, typeof BASE_JURISDICTION>;
+
+const BASE_LABEL = "MUTCD Base";
+
+// Packs are schema-validated on load so a typo fails loudly instead of hitting fallbacks
+const BASE_PACK: TcpRulesPack = parseRulesPack(basePack, "tcpRulesPack.v1.json");
+
+const OVERLAYS: Record<OverlayId, RulesPackOverlay> = {
+  odot: parseRulesPackOverlay(odotPack, "packs/odot.json"),
+  clackamas: parseRulesPackOverlay(clackamasPack, "packs/clackamas.json"),
+  portland: parseRulesPackOverlay(portlandPack, "packs/portland.json"),
+};
+
+// Most specific first: Portland sits inside Clackamas' bounding box
+const LOCATION_PRIORITY: OverlayId[] = ["portland", "clackamas"];
+
+const composedCache = new Map<JurisdictionId, LayeredRulesPack>();
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge `overrides` into `target` (mutates target), recording each
+ * overridden leaf path. Arrays and primitives replace wholesale.
+ */
+function applyOverrides(
+  target: Record<string, unknown>,
+  overrides: Record<string, unknown>,
+  layer: JurisdictionId,
+  provenance: Record<string, JurisdictionId>,
+  pathPrefix: string
+): void {
+  for (const [key, value] of Object.entries(overrides)) {
+    const path = pathPrefix ? `${pathPrefix}.${key}` : key;
+    if (isPlainObject(value) && isPlainObject(target[key])) {
+      applyOverrides(target[key] as Record<string, unknown>, value, layer, provenance, path);
+    } else {
+      target[key] = structuredClone(value);
+      provenance[path] = layer;
+    }
+  }
+}
+
+/**
+ * Resolve the inheritance chain for a jurisdiction, base first
+ */
+function getLayerChain(jurisdiction: JurisdictionId): JurisdictionId[] {
+  const chain: JurisdictionId[] = [];
+  let current: JurisdictionId | undefined = jurisdiction;
+
+  while (current && current !== BASE_JURISDICTION) {
+    if (chain.includes(current)) {
+      throw new Error(`[RULES_REGISTRY] Circular pack inheritance at "${current}"`);
+    }
+    chain.unshift(current);
+    current = OVERLAYS[current].extends;
+  }
+
+  return [BASE_JURISDICTION, ...chain];
+}
+
+/**
+ * JSON with object keys sorted, so equal packs hash equally regardless of key order
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * 32-bit FNV-1a hash as 8 hex chars. Runs in the browser too (no node:crypto);
+ * used for change detection, not security.
+ */
+function hashContent(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function isJurisdictionId(value: unknown): value is JurisdictionId {
+  return typeof value === "string" && (JURISDICTION_IDS as readonly string[]).includes(value);
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Get the composed rules pack for a jurisdiction (defaults to the base pack).
+ */
+export function getRulesPack(jurisdiction: JurisdictionId = BASE_JURISDICTION): LayeredRulesPack {
+  const cached = composedCache.get(jurisdiction);
+  if (cached) return cached;
+
+  const composed = composeRulesPack(jurisdiction, BASE_PACK);
+  composedCache.set(jurisdiction, composed);
+  return composed;
+}
+
+/**
+ * Compose a jurisdiction pack on top of an explicit base pack (uncached).
+ * Used to compare pack versions, e.g. a previous tcpRulesPack.v1.json.
+ */
+export function composeRulesPack(jurisdiction: JurisdictionId, base: TcpRulesPack): LayeredRulesPack {
+  const layers = getLayerChain(jurisdiction);
+  const merged = structuredClone(base);
+  const provenance: Record<string, JurisdictionId> = {};
+
+  for (const layer of layers.slice(1)) {
+    const overlay = OVERLAYS[layer as OverlayId];
+    applyOverrides(
+      merged as unknown as Record<string, unknown>,
+      overlay.overrides as Record<string, unknown>,
+      layer,
+      provenance,
+      ""
+    );
+  }
+
+  const pack = layers.length > 1 ? parseRulesPack(merged, `${jurisdiction} pack`) : merged;
+
+  return {
+    id: jurisdiction,
+    label: getJurisdictionLabel(jurisdiction),
+    pack,
+    layers,
+    provenance,
+    stamp: {
+      packId: jurisdiction,
+      version: pack.version,
+      contentHash: hashContent(stableStringify(pack)),
+    },
+  };
+}
+
+/**
+ * Pick a jurisdiction: explicit value first, then location bounds, then base.
+ */
+export function selectJurisdiction(input: JurisdictionSelectionInput): JurisdictionId {
+  if (isJurisdictionId(input.jurisdiction)) {
+    return input.jurisdiction;
+  }
+
+  if (input.location) {
+    const { lng, lat } = input.location;
+    for (const id of LOCATION_PRIORITY) {
+      const bounds = OVERLAYS[id].bounds;
+      if (!bounds) continue;
+      const [west, south, east, north] = bounds;
+      if (lng >= west && lng <= east && lat >= south && lat <= north) {
+        return id;
+      }
+    }
+  }
+
+  return BASE_JURISDICTION;
+}
+
+/**
+ * Layer that supplied the value at a dotted key path
+ * (e.g. "spacing.bySpeedMph.45.signSpacing_ft").
+ */
+export function getValueLayer(layered: LayeredRulesPack, path: string): JurisdictionId {
+  return layered.provenance[path] ?? BASE_JURISDICTION;
+}
+
+/**
+ * Citation for a value: the overlay's citation when a jurisdiction layer set it,
+ * otherwise the base pack citation passed in.
+ */
+export function getLayerCitation(
+  layered: LayeredRulesPack,
+  path: string,
+  baseSource: SourceCitation
+): SourceCitation {
+  const layer = getValueLayer(layered, path);
+  if (layer === BASE_JURISDICTION) return baseSource;
+  return OVERLAYS[layer as OverlayId].source;
+}
+
+export function getJurisdictionLabel(jurisdiction: JurisdictionId): string {
+  if (jurisdiction === BASE_JURISDICTION) return BASE_LABEL;
+  return OVERLAYS[jurisdiction].label;
+}
+
+/**
+ * Options for jurisdiction pickers in the UI
+ */
+export function listJurisdictions(): Array<{ id: JurisdictionId; label: string }> {
+  return JURISDICTION_IDS.map(id => ({ id, label: getJurisdictionLabel(id) }));
+}
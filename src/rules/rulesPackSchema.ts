@@ -0,0 +1,424 @@
+/**
+ * TCP Rules Pack Schema
+ *
+ * zod schema mirroring `TcpRulesPack` in rulesTypes.ts, plus a linter for
+ * cross-field checks the schema alone can't express (speed buckets,
+ * sign order membership, validation rule IDs).
+ *
+ * Packs are validated when the registry loads them; `npm run rules:lint`
+ * runs the same checks from the command line.
+ */
+
+import { z } from "zod";
+import {
+  SIGN_CODES,
+  WORK_ZONE_TYPES,
+  JURISDICTION_IDS,
+  SPEED_BUCKETS_MPH,
+  TcpRulesPack,
+  RulesPackOverlay,
+} from "./rulesTypes";
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+const speedKeySchema = z.string().regex(/^\d+$/, "Speed key must be a whole number of mph");
+
+export const sourceCitationSchema = z.object({
+  sourcePdf: z.string({ required_error: "Citation is missing sourcePdf" })
+    .min(1, "Citation is missing sourcePdf"),
+  page: z.union([z.number(), z.string()]).optional(),
+  sectionTitle: z.string().optional(),
+  mutcdSection: z.string().optional(),
+  effectiveDate: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export const signCodeSchema = z.enum(SIGN_CODES, {
+  errorMap: (issue, ctx) => ({
+    message: issue.code === "invalid_enum_value"
+      ? `Unknown sign code "${issue.received}" (not in SignCode)`
+      : ctx.defaultError,
+  }),
+});
+
+export const workZoneTypeSchema = z.enum(WORK_ZONE_TYPES);
+
+export const signDefinitionSchema = z.object({
+  code: signCodeSchema,
+  mutcdCode: z.string(),
+  label: z.string(),
+  category: z.enum(["warning", "regulatory", "guide"]),
+  sizesInches: z.array(z.number()),
+  description: z.string(),
+});
+
+export const spacingBySpeedSchema = z.object({
+  speedMph: z.number(),
+  signSpacing_ft: z.number().positive(),
+  coneSpacing_ft: z.number().positive(),
+  taperLength_ft: z.number().positive(),
+  bufferLength_ft: z.number().positive(),
+  advanceSignDistances_ft: z.object({
+    a: z.number().positive(),
+    b: z.number().positive(),
+    c: z.number().positive(),
+  }).optional(),
+  arrowBoardRequired: z.boolean().optional(),
+  source: sourceCitationSchema,
+});
+
+export const taperRuleSchema = z.object({
+  formula: z.string(),
+  formulaDescription: z.string(),
+  bySpeedMph: z.record(speedKeySchema, z.object({
+    length_ft: z.number().positive(),
+    coneSpacing_ft: z.number().positive(),
+    drumRequired: z.boolean(),
+    source: sourceCitationSchema,
+  })),
+});
+
+export const mobileOperationBySpeedSchema = z.object({
+  speedMph: z.number(),
+  shadowVehicleSpacing_ft: z.number().positive(),
+  advanceWarningVehicleSpacing_ft: z.number().positive().optional(),
+  leapfrogInterval_ft: z.number().positive(),
+  tmaRequired: z.boolean(),
+  vehicleArrowBoardRequired: z.boolean(),
+  source: sourceCitationSchema,
+});
+
+export const placementConstraintSchema = z.object({
+  id: z.string(),
+  description: z.string(),
+  requirement: z.enum(["SHALL", "SHOULD", "MAY"]),
+  enforcementLevel: z.enum(["hard", "soft", "recommendation"]),
+  validationRule: z.string().optional(),
+  source: sourceCitationSchema,
+});
+
+export const signPlacementRuleSchema = z.object({
+  signCode: signCodeSchema,
+  position: z.enum(["upstream", "downstream", "at_work_zone"]),
+  offsetFromWorkZone_ft: z.object({
+    min: z.number(),
+    max: z.number(),
+    typical: z.number(),
+  }),
+  lateralPosition: z.enum(["right_shoulder", "left_shoulder", "both", "median"]),
+  constraints: z.array(z.string()),
+  source: sourceCitationSchema,
+});
+
+export const workZoneConfigurationSchema = z.object({
+  workZoneType: workZoneTypeSchema,
+  requiredSigns: z.array(signCodeSchema),
+  optionalSigns: z.array(signCodeSchema),
+  signOrder: z.array(signCodeSchema),
+  minAdvanceWarningDistance_ft: z.number(),
+  requiresFlaggers: z.boolean(),
+  requiresArrowBoard: z.boolean(),
+  specialConditions: z.array(z.string()),
+  source: sourceCitationSchema,
+});
+
+export const tcpRulesPackSchema = z.object({
+  version: z.string(),
+  generatedAt: z.string(),
+  sources: z.object({
+    primary: z.array(z.string()),
+    supplemental: z.array(z.string()),
+  }),
+  signs: z.object({
+    definitions: z.record(signCodeSchema, signDefinitionSchema),
+  }),
+  workZoneConfigurations: z.record(workZoneTypeSchema, workZoneConfigurationSchema),
+  spacing: z.object({
+    formula: z.object({
+      signSpacing: z.string(),
+      coneSpacing: z.string(),
+      taperLength: z.string(),
+    }),
+    bySpeedMph: z.record(speedKeySchema, spacingBySpeedSchema),
+  }),
+  taper: z.object({
+    laneClosure: taperRuleSchema,
+    laneShift: taperRuleSchema,
+    merging: taperRuleSchema,
+  }),
+  devices: z.object({
+    cones: z.record(z.string(), z.object({
+      minHeight_in: z.number(),
+      reflective: z.boolean(),
+      weightedBase: z.boolean(),
+      conditions: z.string(),
+      source: sourceCitationSchema,
+    })),
+    drums: z.object({
+      required: z.boolean(),
+      conditions: z.string(),
+      source: sourceCitationSchema,
+    }),
+  }),
+  mobileOperations: z.object({
+    description: z.string(),
+    bySpeedMph: z.record(speedKeySchema, mobileOperationBySpeedSchema),
+  }),
+  constraints: z.array(placementConstraintSchema),
+  signPlacement: z.array(signPlacementRuleSchema),
+  nightOperations: z.object({
+    additionalRequirements: z.array(z.string()),
+    reflectivityRequired: z.boolean(),
+    minVisibilityDistance_ft: z.number(),
+    flaggerStationLighting: z.object({
+      required: z.boolean(),
+      lightTowersPerStation: z.number().int().min(0),
+      source: sourceCitationSchema,
+    }).optional(),
+    workSpaceLighting: z.object({
+      lightTowerSpacing_ft: z.number().positive(),
+      source: sourceCitationSchema,
+    }).optional(),
+    barricadeWarningLights: z.object({
+      lightType: z.string(),
+      source: sourceCitationSchema,
+    }).optional(),
+    source: sourceCitationSchema,
+  }),
+  pedestrianOperations: z.object({
+    channelizingDevice: z.object({
+      deviceType: z.string(),
+      minHeight_in: z.number().positive(),
+      maxBottomEdgeHeight_in: z.number().min(0),
+      source: sourceCitationSchema,
+    }),
+    temporaryRoute: z.object({
+      minWidth_ft: z.number().positive(),
+      passingSpaceWidth_ft: z.number().positive(),
+      passingSpaceInterval_ft: z.number().positive(),
+      maxRunningSlope_pct: z.number().positive(),
+      maxCrossSlope_pct: z.number().positive(),
+      source: sourceCitationSchema,
+    }),
+    source: sourceCitationSchema,
+  }).optional(),
+  bicycleOperations: z.object({
+    mergeMaxSpeed_mph: z.number().positive(),
+    advanceSignDistance_ft: z.number().positive(),
+    minTemporaryBikeLaneWidth_ft: z.number().positive(),
+    minSharedPathWidth_ft: z.number().positive(),
+    source: sourceCitationSchema,
+  }).optional(),
+  workZoneSpeedReduction: z.object({
+    authority: z.string(),
+    statute: z.string().optional(),
+    orderContents: z.array(z.string()),
+    orderRecipients: z.array(z.string()),
+    source: sourceCitationSchema,
+  }).optional(),
+  validation: z.object({
+    enabled: z.boolean(),
+    rules: z.array(z.string()),
+  }),
+});
+
+/**
+ * Deep-partial version of a schema for overlays. Unlike zod's `.deepPartial()`
+ * this also recurses into records (speed tables); arrays stay whole because
+ * overlays replace them wholesale.
+ */
+function toOverlaySchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    return z.object(Object.fromEntries(
+      Object.entries(shape).map(([key, value]) => [key, toOverlaySchema(value).optional()])
+    ));
+  }
+  if (schema instanceof z.ZodRecord) {
+    return z.record(schema.keySchema, toOverlaySchema(schema.valueSchema));
+  }
+  if (schema instanceof z.ZodOptional) {
+    return toOverlaySchema(schema.unwrap());
+  }
+  return schema;
+}
+
+export const rulesPackOverlaySchema = z.object({
+  id: z.enum(JURISDICTION_IDS),
+  label: z.string(),
+  extends: z.enum(JURISDICTION_IDS),
+  bounds: z.tuple([z.number(), z.number(), z.number(), z.number()]).optional(),
+  source: sourceCitationSchema,
+  overrides: toOverlaySchema(tcpRulesPackSchema),
+});
+
+// =============================================================================
+// LINTING
+// =============================================================================
+
+export interface RulesPackLintIssue {
+  severity: "error" | "warning";
+  /** Dotted path into the pack, e.g. "spacing.bySpeedMph.35.source.sourcePdf" */
+  path: string;
+  message: string;
+}
+
+function zodIssuesToLint(error: z.ZodError): RulesPackLintIssue[] {
+  return error.issues.map(issue => ({
+    severity: "error" as const,
+    path: issue.path.join(".") || "(root)",
+    message: issue.message,
+  }));
+}
+
+/**
+ * Cross-field checks on a pack that already passed the schema
+ */
+function lintPackSemantics(pack: TcpRulesPack): RulesPackLintIssue[] {
+  const issues: RulesPackLintIssue[] = [];
+
+  // Every speed bucket must exist in the spacing table, keyed consistently
+  for (const speed of SPEED_BUCKETS_MPH) {
+    const entry = pack.spacing.bySpeedMph[speed];
+    if (!entry) {
+      issues.push({
+        severity: "error",
+        path: `spacing.bySpeedMph.${speed}`,
+        message: `Missing speed bucket ${speed} mph (resolver would fall back to defaults)`,
+      });
+    } else if (entry.speedMph !== speed) {
+      issues.push({
+        severity: "error",
+        path: `spacing.bySpeedMph.${speed}.speedMph`,
+        message: `Key ${speed} does not match speedMph ${entry.speedMph}`,
+      });
+    }
+  }
+
+  // Taper tables may be partial (resolver uses the formula), but flag the gaps
+  for (const [taperKey, rule] of Object.entries(pack.taper)) {
+    const missing = SPEED_BUCKETS_MPH.filter(speed => !rule.bySpeedMph[speed]);
+    if (missing.length > 0) {
+      issues.push({
+        severity: "warning",
+        path: `taper.${taperKey}.bySpeedMph`,
+        message: `No table entry for ${missing.join(", ")} mph (formula fallback will be used)`,
+      });
+    }
+  }
+
+  // Mobile vehicle spacing gaps fall back to resolver defaults
+  const missingMobile = SPEED_BUCKETS_MPH.filter(speed => !pack.mobileOperations.bySpeedMph[speed]);
+  if (missingMobile.length > 0) {
+    issues.push({
+      severity: "warning",
+      path: "mobileOperations.bySpeedMph",
+      message: `No vehicle spacing for ${missingMobile.join(", ")} mph (resolver defaults will be used)`,
+    });
+  }
+
+  // Sign definition keys must match their codes
+  for (const [key, definition] of Object.entries(pack.signs.definitions)) {
+    if (definition && definition.code !== key) {
+      issues.push({
+        severity: "error",
+        path: `signs.definitions.${key}.code`,
+        message: `Definition key "${key}" does not match code "${definition.code}"`,
+      });
+    }
+  }
+
+  // signOrder may only list signs that are required or optional for the configuration
+  for (const [zoneType, config] of Object.entries(pack.workZoneConfigurations)) {
+    if (!config) continue;
+    const allowed = new Set([...config.requiredSigns, ...config.optionalSigns]);
+    config.signOrder.forEach((code, index) => {
+      if (!allowed.has(code)) {
+        issues.push({
+          severity: "error",
+          path: `workZoneConfigurations.${zoneType}.signOrder.${index}`,
+          message: `"${code}" is in signOrder but not in requiredSigns/optionalSigns`,
+        });
+      }
+    });
+  }
+
+  // validation.rules must reference existing constraints
+  const constraintIds = new Set(pack.constraints.map(c => c.id));
+  pack.validation.rules.forEach((ruleId, index) => {
+    if (!constraintIds.has(ruleId)) {
+      issues.push({
+        severity: "error",
+        path: `validation.rules.${index}`,
+        message: `Validation rule "${ruleId}" does not match any constraint id`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Lint a complete rules pack (schema + cross-field checks).
+ */
+export function lintRulesPack(candidate: unknown): RulesPackLintIssue[] {
+  const parsed = tcpRulesPackSchema.safeParse(candidate);
+  if (parsed.success) {
+    return lintPackSemantics(parsed.data as TcpRulesPack);
+  }
+
+  // Still report cross-field problems when the overall shape is intact enough to walk
+  let semanticIssues: RulesPackLintIssue[] = [];
+  try {
+    semanticIssues = lintPackSemantics(candidate as TcpRulesPack);
+  } catch {
+    // Structure too broken for cross-field checks; schema issues say why
+  }
+  return [...zodIssuesToLint(parsed.error), ...semanticIssues];
+}
+
+/**
+ * Lint a jurisdiction overlay file (schema only - semantics are checked on the composed pack).
+ */
+export function lintRulesPackOverlay(candidate: unknown): RulesPackLintIssue[] {
+  const parsed = rulesPackOverlaySchema.safeParse(candidate);
+  return parsed.success ? [] : zodIssuesToLint(parsed.error);
+}
+
+function formatLoadError(name: string, issues: RulesPackLintIssue[]): Error {
+  return new Error(
+    `[RULES_SCHEMA] ${name} is invalid:\n` +
+    issues.map(i => `  - ${i.path}: ${i.message}`).join("\n")
+  );
+}
+
+/**
+ * Parse a rules pack, throwing on any lint error (warnings are left to the lint command).
+ */
+export function parseRulesPack(candidate: unknown, name: string): TcpRulesPack {
+  const parsed = tcpRulesPackSchema.safeParse(candidate);
+  if (!parsed.success) {
+    throw formatLoadError(name, zodIssuesToLint(parsed.error));
+  }
+
+  const pack = parsed.data as TcpRulesPack;
+  const errors = lintPackSemantics(pack).filter(i => i.severity === "error");
+  if (errors.length > 0) {
+    throw formatLoadError(name, errors);
+  }
+
+  return pack;
+}
+
+/**
+ * Parse a jurisdiction overlay, throwing on schema errors.
+ */
+export function parseRulesPackOverlay(candidate: unknown, name: string): RulesPackOverlay {
+  const parsed = rulesPackOverlaySchema.safeParse(candidate);
+  if (!parsed.success) {
+    throw formatLoadError(name, zodIssuesToLint(parsed.error));
+  }
+  return parsed.data as RulesPackOverlay;
+}
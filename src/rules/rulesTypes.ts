@@ -9,18 +9,28 @@
 // SIGN TYPES
 // =============================================================================
 
-export type SignCode = 
-  | "ROAD_WORK_AHEAD"     // W20-1
-  | "BE_PREPARED_TO_STOP" // W3-4
-  | "FLAGGER_AHEAD"       // W20-7a / CW23-2
-  | "RIGHT_LANE_CLOSED"   // W20-5R
-  | "LEFT_LANE_CLOSED"    // W20-5L
-  | "ONE_LANE_ROAD"       // W20-4
-  | "WORKERS_AHEAD"       // W21-1
-  | "END_ROAD_WORK"       // G20-2
-  | "DETOUR"              // M4-8
-  | "ROAD_CLOSED"         // R11-2
-  ;
+export const SIGN_CODES = [
+  "ROAD_WORK_AHEAD",     // W20-1
+  "BE_PREPARED_TO_STOP", // W3-4
+  "FLAGGER_AHEAD",       // W20-7a / CW23-2
+  "RIGHT_LANE_CLOSED",   // W20-5R
+  "LEFT_LANE_CLOSED",    // W20-5L
+  "ONE_LANE_ROAD",       // W20-4
+  "WORKERS_AHEAD",       // W21-1
+  "END_ROAD_WORK",       // G20-2
+  "DETOUR",              // M4-8
+  "ROAD_CLOSED",         // R11-2
+  "SIDEWALK_CLOSED",     // R9-9
+  "SIDEWALK_CLOSED_USE_OTHER_SIDE", // R9-10
+  "BIKE_LANE_CLOSED_AHEAD", // W9-3 MOD
+  "BIKES_MERGE_WITH_AUTOS", // W4-1 MOD
+  "BIKES_MAY_USE_FULL_LANE", // R4-11
+  "SPEED_REDUCTION",     // W3-5
+  "WORK_ZONE_SPEED_LIMIT", // R2-1 with G20-5aP plaque
+  "END_WORK_ZONE_SPEED_LIMIT", // R2-12
+] as const;
+
+export type SignCode = typeof SIGN_CODES[number];
 
 export interface SignDefinition {
   code: SignCode;
@@ -35,14 +45,16 @@ export interface SignDefinition {
 // WORK ZONE TYPES
 // =============================================================================
 
-export type WorkZoneType = 
-  | "ROAD_SEGMENT"   // Standard road segment work
-  | "INTERSECTION"   // Work at or near intersection
-  | "LANE_CLOSURE"   // Single lane closure on multilane road
-  | "FULL_CLOSURE"   // Complete road closure
-  | "SHOULDER_WORK"  // Work on shoulder only
-  | "MOBILE"         // Moving work zone (≤60 min)
-  ;
+export const WORK_ZONE_TYPES = [
+  "ROAD_SEGMENT",   // Standard road segment work
+  "INTERSECTION",   // Work at or near intersection
+  "LANE_CLOSURE",   // Single lane closure on multilane road
+  "FULL_CLOSURE",   // Complete road closure
+  "SHOULDER_WORK",  // Work on shoulder only
+  "MOBILE",         // Moving work zone (≤60 min)
+] as const;
+
+export type WorkZoneType = typeof WORK_ZONE_TYPES[number];
 
 export type WorkType = 
   | "UTILITY"
@@ -56,12 +68,29 @@ export type WorkType =
 // SPACING AND DISTANCE RULES
 // =============================================================================
 
+/** Speed buckets every pack must define in `spacing.bySpeedMph` */
+export const SPEED_BUCKETS_MPH = [25, 30, 35, 40, 45, 50, 55, 60, 65, 70] as const;
+
+/**
+ * MUTCD advance warning sign distances. A = transition to first (closest) sign,
+ * B = first to second sign, C = second to third (furthest upstream) sign.
+ */
+export interface AdvanceSignDistances {
+  a: number;
+  b: number;
+  c: number;
+}
+
 export interface SpacingBySpeed {
   speedMph: number;
   signSpacing_ft: number;
   coneSpacing_ft: number;
   taperLength_ft: number;
   bufferLength_ft: number;
+  /** Unequal A/B/C distances (expressway/freeway); omitted when all equal signSpacing_ft */
+  advanceSignDistances_ft?: AdvanceSignDistances;
+  /** Arrow board is mandatory for lane closures at this speed */
+  arrowBoardRequired?: boolean;
   source: SourceCitation;
 }
 
@@ -76,6 +105,29 @@ export interface TaperRule {
   }>;
 }
 
+// =============================================================================
+// MOBILE OPERATIONS
+// =============================================================================
+
+/** Vehicle spacing for moving work zones (work vehicle → shadow → advance warning) */
+export interface MobileOperationBySpeed {
+  speedMph: number;
+  /** Work vehicle to shadow vehicle (TMA roll-ahead space) */
+  shadowVehicleSpacing_ft: number;
+  /** Shadow vehicle to advance warning vehicle; omitted when no advance vehicle is needed */
+  advanceWarningVehicleSpacing_ft?: number;
+  /** How far the operation may advance before signs leapfrog forward */
+  leapfrogInterval_ft: number;
+  tmaRequired: boolean;
+  vehicleArrowBoardRequired: boolean;
+  source: SourceCitation;
+}
+
+export interface MobileOperationRules {
+  description: string;
+  bySpeedMph: Record<number, MobileOperationBySpeed>;
+}
+
 // =============================================================================
 // PLACEMENT CONSTRAINTS
 // =============================================================================
@@ -187,6 +239,8 @@ export interface TcpRulesPack {
     drums: DrumRequirements;
   };
   
+  mobileOperations: MobileOperationRules;
+  
   constraints: PlacementConstraint[];
   
   signPlacement: SignPlacementRule[];
@@ -195,6 +249,67 @@ export interface TcpRulesPack {
     additionalRequirements: string[];
     reflectivityRequired: boolean;
     minVisibilityDistance_ft: number;
+    /** Separate lighting for each flagger station */
+    flaggerStationLighting?: {
+      required: boolean;
+      lightTowersPerStation: number;
+      source: SourceCitation;
+    };
+    /** Light towers (floodlights) along the work space */
+    workSpaceLighting?: {
+      lightTowerSpacing_ft: number;
+      source: SourceCitation;
+    };
+    /** Warning light mounted on each barricade */
+    barricadeWarningLights?: {
+      lightType: string;
+      source: SourceCitation;
+    };
+    source: SourceCitation;
+  };
+  
+  /** Sidewalk closures: pedestrian channelizing devices and the temporary accessible route */
+  pedestrianOperations?: {
+    channelizingDevice: {
+      deviceType: string;
+      minHeight_in: number;
+      /** Detectable edge for long-cane users: bottom edge no higher than this */
+      maxBottomEdgeHeight_in: number;
+      source: SourceCitation;
+    };
+    temporaryRoute: {
+      minWidth_ft: number;
+      /** Passing space size, required at the interval below where the route is narrower */
+      passingSpaceWidth_ft: number;
+      passingSpaceInterval_ft: number;
+      maxRunningSlope_pct: number;
+      maxCrossSlope_pct: number;
+      source: SourceCitation;
+    };
+    source: SourceCitation;
+  };
+  
+  /** Bike lane closures: when cyclists may merge with traffic, and temporary facility widths */
+  bicycleOperations?: {
+    /** Highest operating speed at which bikes may merge with autos into a shared lane */
+    mergeMaxSpeed_mph: number;
+    /** BIKE LANE CLOSED AHEAD distance in advance of the work zone */
+    advanceSignDistance_ft: number;
+    minTemporaryBikeLaneWidth_ft: number;
+    /** Multi-use pedestrian/bicycle path */
+    minSharedPathWidth_ft: number;
+    source: SourceCitation;
+  };
+  
+  /** Temporary regulatory speed zones: who approves the reduction and what the order contains */
+  workZoneSpeedReduction?: {
+    /** Approval that makes the reduced speed limit enforceable */
+    authority: string;
+    /** Statute the reduction is implemented under */
+    statute?: string;
+    orderContents: string[];
+    /** Agencies the signed order is sent to */
+    orderRecipients: string[];
     source: SourceCitation;
   };
   
@@ -204,5 +319,48 @@ export interface TcpRulesPack {
   };
 }
 
+// =============================================================================
+// JURISDICTION PACKS
+// =============================================================================
+
+export const JURISDICTION_IDS = ["mutcd", "odot", "clackamas", "portland"] as const;
+
+export type JurisdictionId = typeof JURISDICTION_IDS[number];
+
+/** Recursive partial used for jurisdiction overrides (arrays are replaced, not merged) */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends Array<infer U>
+    ? Array<U>
+    : T[K] extends object
+      ? DeepPartial<T[K]>
+      : T[K];
+};
 
+/**
+ * A jurisdiction pack layered on top of another pack.
+ * Only the keys a jurisdiction changes are listed in `overrides`.
+ */
+export interface RulesPackOverlay {
+  id: JurisdictionId;
+  label: string;
+  /** Pack this overlay inherits from (resolved recursively down to the base pack) */
+  extends: JurisdictionId;
+  /** Approximate [west, south, east, north] bounds used for location-based selection */
+  bounds?: [number, number, number, number];
+  /** Citation applied to every value this layer overrides */
+  source: SourceCitation;
+  overrides: DeepPartial<TcpRulesPack>;
+}
 
+/**
+ * Identifies the exact rules a plan was produced with, so saved plans can
+ * be checked for staleness when a pack changes.
+ */
+export interface RulesPackStamp {
+  /** Jurisdiction the pack was composed for */
+  packId: JurisdictionId;
+  /** `version` of the composed pack */
+  version: string;
+  /** Hash of the composed pack content (changes with any base or overlay edit) */
+  contentHash: string;
+}
@@ -0,0 +1,306 @@
+/**
+ * TCP Layout Compliance Validator
+ *
+ * Checks a FieldLayout against the placement constraints in the rules pack.
+ * Only constraints listed in `validation.rules` are enforced; each violation
+ * carries the constraint's enforcement level, the offending device IDs, and
+ * the source citation so the planner can show exactly what failed and why.
+ *
+ * Width constraints (lane width, fire access, lateral buffer) are job-level:
+ * they read the widths checkCrossSection works out and can also be checked
+ * without a layout (validateJobCompliance).
+ */
+
+import { JurisdictionId, PlacementConstraint, SourceCitation } from "./rulesTypes";
+import { getRulesPack, selectJurisdiction } from "./rulesPackRegistry";
+import type { FieldLayout, FieldDevice, LayoutSuggestionInput } from "@/lib/layoutTypes";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ComplianceSeverity = PlacementConstraint["enforcementLevel"];
+
+export interface ComplianceJobInput {
+  postedSpeedMph: number;
+  workType: LayoutSuggestionInput["workType"];
+  isNight?: boolean;
+  /** Width left open past the work zone for emergency vehicles (default = 12) */
+  openLaneWidthFt?: number;
+  /** Narrowest open travel lane after any encroachment (unchecked when absent) */
+  narrowestLaneFt?: number;
+  /** Space between traffic and the work area (unchecked when absent) */
+  lateralBufferFt?: number;
+  /** True when devices are channelizing pedestrians (sidewalk/crosswalk work) */
+  pedestrianChannelization?: boolean;
+  /** True when flaggers would operate at a signalized or STOP-controlled location */
+  hasSignalOrStopControl?: boolean;
+  /** Explicit rules pack jurisdiction (otherwise selected from the polygon location) */
+  jurisdiction?: JurisdictionId;
+}
+
+export interface ValidateLayoutComplianceInput {
+  layout: FieldLayout;
+  /** Work zone polygon ring as [lng, lat] pairs */
+  polygonRing: number[][];
+  job: ComplianceJobInput;
+}
+
+export interface ComplianceViolation {
+  constraintId: string;
+  description: string;
+  requirement: PlacementConstraint["requirement"];
+  severity: ComplianceSeverity;
+  /** Human-readable explanation of this specific failure */
+  message: string;
+  /** IDs of the devices responsible (empty for job-level violations) */
+  deviceIds: string[];
+  source: SourceCitation;
+}
+
+export interface LayoutComplianceResult {
+  /** False when any hard constraint is violated */
+  passed: boolean;
+  violations: ComplianceViolation[];
+  /** Constraint IDs that were actually evaluated */
+  checkedConstraintIds: string[];
+}
+
+type ConstraintFailure = Pick<ComplianceViolation, "message" | "deviceIds">;
+
+type ConstraintCheck = (input: ValidateLayoutComplianceInput) => ConstraintFailure[];
+
+type JobConstraintCheck = (job: ComplianceJobInput) => ConstraintFailure[];
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DEFAULT_LANE_WIDTH_FT = 12;
+
+// Thresholds - kept in sync with the constraint descriptions in the pack
+export const MIN_LANE_WIDTH_FT = 10;
+export const MIN_FIRE_APPARATUS_WIDTH_FT = 11;
+export const LATERAL_BUFFER_FT = 2;
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Check if a point is inside a polygon using ray casting
+ */
+function isPointInPolygon(point: [number, number], ring: number[][]): boolean {
+  const [x, y] = point;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const xi = ring[i][0], yi = ring[i][1];
+    const xj = ring[j][0], yj = ring[j][1];
+
+    if (((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi)) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Average of polygon vertices - good enough for jurisdiction lookup
+ */
+function ringCenter(ring: number[][]): { lng: number; lat: number } | undefined {
+  if (ring.length === 0) return undefined;
+  const lng = ring.reduce((sum, p) => sum + p[0], 0) / ring.length;
+  const lat = ring.reduce((sum, p) => sum + p[1], 0) / ring.length;
+  return { lng, lat };
+}
+
+function devicesOfType(layout: FieldLayout, ...types: FieldDevice["type"][]): FieldDevice[] {
+  return layout.devices.filter(d => types.includes(d.type));
+}
+
+function describeDevice(device: FieldDevice): string {
+  return device.label ? `${device.type} ${device.label}` : device.id;
+}
+
+// =============================================================================
+// CONSTRAINT CHECKS
+// =============================================================================
+
+/**
+ * One check per constraint ID. Constraints enabled in `validation.rules`
+ * without a check here or in JOB_CONSTRAINT_CHECKS are reported in the
+ * console and skipped.
+ */
+const CONSTRAINT_CHECKS: Record<string, ConstraintCheck> = {
+  SIGN_OUTSIDE_WORK_ZONE: ({ layout, polygonRing }) => {
+    const inside = devicesOfType(layout, "sign")
+      .filter(d => isPointInPolygon(d.lngLat, polygonRing));
+    if (inside.length === 0) return [];
+    return [{
+      message: `${inside.length} sign(s) placed inside the work zone: ${inside.map(describeDevice).join(", ")}`,
+      deviceIds: inside.map(d => d.id),
+    }];
+  },
+
+  CONES_NOT_FOR_PEDESTRIANS: ({ layout, job }) => {
+    if (!job.pedestrianChannelization) return [];
+    const cones = devicesOfType(layout, "cone");
+    if (cones.length === 0) return [];
+    return [{
+      message: `${cones.length} cone(s) used where pedestrians are channelized; use pedestrian channelizing devices`,
+      deviceIds: cones.map(d => d.id),
+    }];
+  },
+
+  ARROW_BOARD_LANE_CLOSURE_ONLY: ({ layout, job }) => {
+    if (job.workType === "lane_closure") return [];
+    const arrowBoards = devicesOfType(layout, "arrowBoard");
+    if (arrowBoards.length === 0) return [];
+    return [{
+      message: `Arrow board(s) used on a ${job.workType} job; arrow boards are only for lane closures`,
+      deviceIds: arrowBoards.map(d => d.id),
+    }];
+  },
+
+  FLAGGER_STOP_SIGNAL_PROHIBITED: ({ layout, job }) => {
+    if (!job.hasSignalOrStopControl) return [];
+    const flaggers = devicesOfType(layout, "flagger");
+    if (flaggers.length === 0) return [];
+    return [{
+      message: "Flaggers placed at a signalized or STOP-controlled location; signal must be turned off or placed in flash",
+      deviceIds: flaggers.map(d => d.id),
+    }];
+  },
+};
+
+/**
+ * Checks that only need the job's widths, not device positions
+ */
+const JOB_CONSTRAINT_CHECKS: Record<string, JobConstraintCheck> = {
+  FIRE_APPARATUS_WIDTH: (job) => {
+    const openWidthFt = job.openLaneWidthFt ?? DEFAULT_LANE_WIDTH_FT;
+    if (openWidthFt >= MIN_FIRE_APPARATUS_WIDTH_FT) return [];
+    return [{
+      message: `Open travel width ${openWidthFt}ft is below the ${MIN_FIRE_APPARATUS_WIDTH_FT}ft required for fire apparatus`,
+      deviceIds: [],
+    }];
+  },
+
+  MIN_LANE_WIDTH: (job) => {
+    if (job.narrowestLaneFt === undefined || job.narrowestLaneFt >= MIN_LANE_WIDTH_FT) return [];
+    return [{
+      message: `Open lane narrows to ${job.narrowestLaneFt}ft, below the ${MIN_LANE_WIDTH_FT}ft minimum`,
+      deviceIds: [],
+    }];
+  },
+
+  LATERAL_BUFFER: (job) => {
+    if (job.lateralBufferFt === undefined || job.lateralBufferFt >= LATERAL_BUFFER_FT) return [];
+    return [{
+      message: `Only ${job.lateralBufferFt}ft separates traffic from the work area; ${LATERAL_BUFFER_FT}ft of lateral buffer is needed`,
+      deviceIds: [],
+    }];
+  },
+};
+
+// =============================================================================
+// MAIN VALIDATOR
+// =============================================================================
+
+/**
+ * Run the enabled constraints that `getCheck` has a check for
+ */
+function evaluateConstraints(
+  jurisdiction: JurisdictionId,
+  getCheck: (ruleId: string) => (() => ConstraintFailure[]) | undefined
+): LayoutComplianceResult {
+  const violations: ComplianceViolation[] = [];
+  const checkedConstraintIds: string[] = [];
+  const rulesPack = getRulesPack(jurisdiction).pack;
+
+  if (!rulesPack.validation.enabled) {
+    return { passed: true, violations, checkedConstraintIds };
+  }
+
+  for (const ruleId of rulesPack.validation.rules) {
+    const constraint = rulesPack.constraints.find(c => c.id === ruleId);
+    const check = getCheck(ruleId);
+    if (!constraint || !check) continue;
+
+    checkedConstraintIds.push(ruleId);
+
+    for (const failure of check()) {
+      violations.push({
+        constraintId: constraint.id,
+        description: constraint.description,
+        requirement: constraint.requirement,
+        severity: constraint.enforcementLevel,
+        message: failure.message,
+        deviceIds: failure.deviceIds,
+        source: constraint.source,
+      });
+    }
+  }
+
+  const passed = !violations.some(v => v.severity === "hard");
+
+  console.log(
+    `[COMPLIANCE] pack=${jurisdiction} checked=${checkedConstraintIds.length} ` +
+    `violations=${violations.length} ` +
+    `hard=${violations.filter(v => v.severity === "hard").length} ` +
+    `passed=${passed}`
+  );
+
+  return { passed, violations, checkedConstraintIds };
+}
+
+/**
+ * Validate a field layout against the enabled rules pack constraints.
+ *
+ * @param input - Layout, work zone polygon, and job parameters
+ * @returns Violations with severity and citations; `passed` is false on any hard violation
+ */
+export function validateLayoutCompliance(input: ValidateLayoutComplianceInput): LayoutComplianceResult {
+  const jurisdiction = selectJurisdiction({
+    jurisdiction: input.job.jurisdiction,
+    location: ringCenter(input.polygonRing),
+  });
+
+  return evaluateConstraints(jurisdiction, (ruleId) => {
+    const layoutCheck = CONSTRAINT_CHECKS[ruleId];
+    if (layoutCheck) return () => layoutCheck(input);
+    const jobCheck = JOB_CONSTRAINT_CHECKS[ruleId];
+    if (jobCheck) return () => jobCheck(input.job);
+    console.warn(`[COMPLIANCE] No constraint/check registered for rule "${ruleId}", skipping`);
+    return undefined;
+  });
+}
+
+/**
+ * Validate only the job-level (width) constraints, for plans drafted without a field layout.
+ *
+ * @param job - Job parameters with the widths from checkCrossSection
+ * @param location - Work zone location for jurisdiction selection when `job.jurisdiction` is unset
+ */
+export function validateJobCompliance(
+  job: ComplianceJobInput,
+  location?: { lng: number; lat: number }
+): LayoutComplianceResult {
+  const jurisdiction = selectJurisdiction({ jurisdiction: job.jurisdiction, location });
+  return evaluateConstraints(jurisdiction, (ruleId) => {
+    const jobCheck = JOB_CONSTRAINT_CHECKS[ruleId];
+    return jobCheck ? () => jobCheck(job) : undefined;
+  });
+}
+
+/**
+ * Format a citation for display next to a violation
+ */
+export function formatConstraintCitation(source: SourceCitation): string {
+  const parts = [source.sourcePdf];
+  if (source.sectionTitle) parts.push(source.sectionTitle);
+  if (source.page) parts.push(`p.${source.page}`);
+  return parts.join(" · ");
+}